@@ -10,8 +10,17 @@ export { default as Header } from './Header.svelte';
 export { default as Sidebar } from './Sidebar.svelte';
 export { default as ProducerList } from './ProducerList.svelte';
 export { default as AchievementList } from './AchievementList.svelte';
+export { default as CostList } from './CostList.svelte';
+export { default as AutomationPanel } from './AutomationPanel.svelte';
 
 // Overlays & Modals
 export { default as Dialogue } from './Dialogue.svelte';
 export { default as ChoicePanel } from './ChoicePanel.svelte';
 export { default as AchievementNotification } from './AchievementNotification.svelte';
+export { default as SaveImportDialog } from './SaveImportDialog.svelte';
+export { default as RebirthDialog } from './RebirthDialog.svelte';
+export { default as OfflineSummary } from './OfflineSummary.svelte';
+
+// Debugging
+export { default as DevConsolePanel } from './DevConsolePanel.svelte';
+export { default as ConditionDebugger } from './ConditionDebugger.svelte';
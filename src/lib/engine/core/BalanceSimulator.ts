@@ -0,0 +1,430 @@
+/**
+ * @fileoverview Automated balance simulator.
+ * Plays headless games with strategy bots and measures how long each phase
+ * takes compared to the design targets (PhaseDefinition.durationMin/Max).
+ * Reports can be exported as JSON or CSV for balancing spreadsheets.
+ *
+ * Bots:
+ * - greedy: clicks casually, always buys the cheapest producer
+ * - roi: clicks casually, buys the producer with the best return on investment
+ * - click_heavy: clicks fast, buys click boosters first
+ * - idle: never clicks, buys the cheapest producer
+ *
+ * All bots buy every affordable upgrade and advance phases as soon as possible.
+ *
+ * @module engine/core/BalanceSimulator
+ */
+
+import type { Game } from './Game.svelte';
+import { GameSimulation, type SimulationPolicy } from './GameSimulation';
+import { PHASE_DEFINITIONS } from '../data/phases';
+import { ProducerId } from '../models/producers';
+import { TOTAL_PHASES } from '../models/phase';
+import { D } from '../utils/decimal';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Available bot strategies.
+ */
+export type BalanceStrategyId = 'greedy' | 'roi' | 'click_heavy' | 'idle';
+
+/**
+ * A bot that plays the game during a balance run.
+ */
+export interface BalanceStrategy {
+	/** Strategy identifier */
+	id: BalanceStrategyId;
+	/** Display name */
+	name: string;
+	/** What the bot does */
+	description: string;
+	/** Manual clicks per simulated second */
+	clicksPerSecond: number;
+	/** Choose the next producer to buy (null to wait) */
+	chooseProducer: (game: Game) => string | null;
+}
+
+/**
+ * How a phase duration compares to its design target.
+ * - fast: shorter than durationMin
+ * - on_target: between durationMin and durationMax
+ * - slow: longer than durationMax
+ * - incomplete: reached, but the run ended before the next phase
+ * - not_reached: never reached
+ */
+export type PhaseVerdict = 'fast' | 'on_target' | 'slow' | 'incomplete' | 'not_reached';
+
+/**
+ * Measured timing of one phase.
+ */
+export interface PhaseTiming {
+	/** Phase number */
+	phase: number;
+	/** Phase name */
+	name: string;
+	/** Simulated time when the phase was entered (seconds, null if never) */
+	reachedAt: number | null;
+	/** Simulated time spent in the phase (seconds, null if not completed) */
+	duration: number | null;
+	/** Target minimum duration (seconds) */
+	expectedMin: number;
+	/** Target maximum duration (seconds) */
+	expectedMax: number;
+	/** Comparison with the target */
+	verdict: PhaseVerdict;
+}
+
+/**
+ * Result of one bot playing one game.
+ */
+export interface BalanceRun {
+	/** Bot strategy */
+	strategy: BalanceStrategyId;
+	/** Random seed */
+	seed: number;
+	/** Simulated time (seconds) */
+	simulatedSeconds: number;
+	/** Highest phase reached */
+	finalPhase: number;
+	/** Timing of every phase */
+	phases: PhaseTiming[];
+}
+
+/**
+ * Result of a balance simulation.
+ */
+export interface BalanceReport {
+	/** Simulated time limit per run (seconds) */
+	maxSeconds: number;
+	/** Tick rate used for the runs */
+	tickRate: number;
+	/** One run per strategy */
+	runs: BalanceRun[];
+}
+
+/**
+ * Options for a balance simulation.
+ */
+export interface BalanceSimulatorOptions {
+	/** Strategies to run (default: all) */
+	strategies?: BalanceStrategyId[];
+	/** Simulated time limit per run (seconds, default: 25 hours) */
+	maxSeconds?: number;
+	/** Random seed (default: 1) */
+	seed?: number;
+	/** Ticks per simulated second; lower is faster but coarser (default: 20) */
+	tickRate?: number;
+	/** Simulated seconds between bot decisions (default: 1) */
+	decisionInterval?: number;
+}
+
+// ============================================================================
+// Strategies
+// ============================================================================
+
+/**
+ * Cheapest affordable producer.
+ */
+function findCheapestProducer(game: Game, candidates: string[] = game.producers.getVisibleProducers()): string | null {
+	let cheapest: string | null = null;
+
+	for (const id of candidates) {
+		if (!game.producers.canAfford(id)) continue;
+		if (cheapest === null || game.producers.getNextCost(id).lt(game.producers.getNextCost(cheapest))) {
+			cheapest = id;
+		}
+	}
+
+	return cheapest;
+}
+
+/**
+ * Producer with the most additional production per unit of cost.
+ * Waits for it to become affordable; producers without production are only
+ * bought when no producing one is visible.
+ */
+function findBestRoiProducer(game: Game): string | null {
+	let best: string | null = null;
+	let bestRoi = D(0);
+
+	for (const id of game.producers.getVisibleProducers()) {
+		const def = game.producers.getDefinition(id);
+		if (!def || def.baseProduction <= 0) continue;
+		if (def.maxLevel > 0 && game.producers.getLevel(id) >= def.maxLevel) continue;
+
+		const gain = game.producers.getProductionBreakdown(
+			def.producesResource,
+			def.baseProduction,
+			id
+		).final;
+		const roi = gain.div(game.producers.getNextCost(id));
+		if (best === null || roi.gt(bestRoi)) {
+			best = id;
+			bestRoi = roi;
+		}
+	}
+
+	if (best === null) return findCheapestProducer(game);
+	return game.producers.canAfford(best) ? best : null;
+}
+
+/**
+ * Built-in bot strategies.
+ */
+export const BALANCE_STRATEGIES: Record<BalanceStrategyId, BalanceStrategy> = {
+	greedy: {
+		id: 'greedy',
+		name: 'Greedy',
+		description: 'Clicks casually and always buys the cheapest producer',
+		clicksPerSecond: 3,
+		chooseProducer: (game) => findCheapestProducer(game)
+	},
+	roi: {
+		id: 'roi',
+		name: 'Best ROI',
+		description: 'Clicks casually and saves for the producer with the best return on investment',
+		clicksPerSecond: 3,
+		chooseProducer: findBestRoiProducer
+	},
+	click_heavy: {
+		id: 'click_heavy',
+		name: 'Click-heavy',
+		description: 'Clicks fast and buys click boosters before anything else',
+		clicksPerSecond: 10,
+		chooseProducer: (game) =>
+			findCheapestProducer(game, [ProducerId.CLICK_BOOSTER]) ?? findCheapestProducer(game)
+	},
+	idle: {
+		id: 'idle',
+		name: 'Idle',
+		description: 'Never clicks and always buys the cheapest producer',
+		clicksPerSecond: 0,
+		chooseProducer: (game) => findCheapestProducer(game)
+	}
+};
+
+/**
+ * Create the simulation policy of a strategy.
+ *
+ * @param strategy - Bot strategy
+ * @param interval - Simulated seconds between policy calls
+ * @returns Simulation policy
+ */
+export function createStrategyPolicy(strategy: BalanceStrategy, interval: number): SimulationPolicy {
+	// Fractional clicks carry over so slow intervals keep the click rate
+	let pendingClicks = 0;
+
+	return (game) => {
+		pendingClicks += strategy.clicksPerSecond * interval;
+		for (; pendingClicks >= 1; pendingClicks--) {
+			game.click();
+		}
+
+		for (const id of game.upgrades.getVisibleUpgrades()) {
+			if (game.upgrades.canAfford(id)) game.upgrades.purchase(id);
+		}
+
+		// Level limits and costs stop this loop well before the guard
+		for (let i = 0; i < 1000; i++) {
+			const id = strategy.chooseProducer(game);
+			if (id === null || !game.producers.buy(id)) break;
+		}
+
+		if (game.canAdvancePhase) game.advancePhase();
+	};
+}
+
+// ============================================================================
+// BalanceSimulator
+// ============================================================================
+
+/**
+ * Runs strategy bots through headless games and reports phase timings.
+ *
+ * @example
+ * ```typescript
+ * const simulator = new BalanceSimulator({ strategies: ['greedy', 'roi'], maxSeconds: 7200 });
+ * const report = await simulator.run();
+ * console.log(formatBalanceReportCsv(report));
+ * ```
+ */
+export class BalanceSimulator {
+	/**
+	 * Resolved options.
+	 */
+	private readonly options: Required<BalanceSimulatorOptions>;
+
+	/**
+	 * Creates a new balance simulator.
+	 *
+	 * @param options - Strategies and run limits
+	 */
+	constructor(options: BalanceSimulatorOptions = {}) {
+		this.options = {
+			strategies: options.strategies ?? (Object.keys(BALANCE_STRATEGIES) as BalanceStrategyId[]),
+			maxSeconds: options.maxSeconds ?? 25 * 3600,
+			seed: options.seed ?? 1,
+			tickRate: options.tickRate ?? 20,
+			decisionInterval: options.decisionInterval ?? 1
+		};
+	}
+
+	/**
+	 * Run every configured strategy.
+	 *
+	 * @returns Balance report
+	 */
+	async run(): Promise<BalanceReport> {
+		const runs: BalanceRun[] = [];
+
+		for (const strategy of this.options.strategies) {
+			runs.push(await this.runStrategy(strategy));
+		}
+
+		return {
+			maxSeconds: this.options.maxSeconds,
+			tickRate: this.options.tickRate,
+			runs
+		};
+	}
+
+	/**
+	 * Play one game with a strategy.
+	 *
+	 * @param strategyId - Bot strategy
+	 * @returns Phase timings of the run
+	 */
+	async runStrategy(strategyId: BalanceStrategyId): Promise<BalanceRun> {
+		const { maxSeconds, seed, tickRate, decisionInterval } = this.options;
+		const strategy = BALANCE_STRATEGIES[strategyId];
+
+		const simulation = new GameSimulation({ seed, config: { tickRate } });
+		await simulation.start();
+
+		const reachedAt = new Map<number, number>([[simulation.game.currentPhase, 0]]);
+		const unsubscribe = simulation.game.events.on('phase_entered', ({ newPhase }) => {
+			if (!reachedAt.has(newPhase)) reachedAt.set(newPhase, simulation.elapsed);
+		});
+
+		try {
+			await simulation.run({
+				seconds: maxSeconds,
+				policy: createStrategyPolicy(strategy, decisionInterval),
+				policyInterval: decisionInterval,
+				until: (game) => game.currentPhase >= TOTAL_PHASES
+			});
+
+			return {
+				strategy: strategyId,
+				seed,
+				simulatedSeconds: simulation.elapsed,
+				finalPhase: simulation.game.currentPhase,
+				phases: createPhaseTimings(reachedAt)
+			};
+		} finally {
+			unsubscribe();
+			simulation.stop();
+		}
+	}
+}
+
+/**
+ * Compare phase entry times with the design targets.
+ *
+ * @param reachedAt - Simulated entry time per phase
+ * @returns Timing of every phase
+ */
+function createPhaseTimings(reachedAt: Map<number, number>): PhaseTiming[] {
+	const timings: PhaseTiming[] = [];
+
+	for (let phase = 1; phase <= TOTAL_PHASES; phase++) {
+		const def = PHASE_DEFINITIONS[phase];
+		const expectedMin = (def?.durationMin ?? 0) * 60;
+		const expectedMax = (def?.durationMax ?? 0) * 60;
+		const entered = reachedAt.get(phase) ?? null;
+		const left = reachedAt.get(phase + 1) ?? null;
+		const duration = entered !== null && left !== null ? left - entered : null;
+
+		let verdict: PhaseVerdict;
+		if (entered === null) verdict = 'not_reached';
+		else if (duration === null) verdict = 'incomplete';
+		else if (duration < expectedMin) verdict = 'fast';
+		else if (duration > expectedMax) verdict = 'slow';
+		else verdict = 'on_target';
+
+		timings.push({
+			phase,
+			name: def?.name ?? `Phase ${phase}`,
+			reachedAt: entered,
+			duration,
+			expectedMin,
+			expectedMax,
+			verdict
+		});
+	}
+
+	return timings;
+}
+
+// ============================================================================
+// Output
+// ============================================================================
+
+/**
+ * Format a balance report as JSON.
+ *
+ * @param report - Balance report
+ * @returns Indented JSON
+ */
+export function formatBalanceReportJson(report: BalanceReport): string {
+	return JSON.stringify(report, null, 2);
+}
+
+/**
+ * Format a balance report as CSV, one row per strategy and phase.
+ * Times are in seconds; empty cells mean the value is unknown.
+ *
+ * @param report - Balance report
+ * @returns CSV with a header row
+ */
+export function formatBalanceReportCsv(report: BalanceReport): string {
+	const header = [
+		'strategy',
+		'seed',
+		'phase',
+		'name',
+		'reached_at',
+		'duration',
+		'expected_min',
+		'expected_max',
+		'verdict'
+	];
+	const cell = (value: string | number | null): string => {
+		if (value === null) return '';
+		const text = typeof value === 'number' ? String(Math.round(value * 100) / 100) : value;
+		return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+	};
+
+	const rows = report.runs.flatMap((run) =>
+		run.phases.map((timing) =>
+			[
+				run.strategy,
+				run.seed,
+				timing.phase,
+				timing.name,
+				timing.reachedAt,
+				timing.duration,
+				timing.expectedMin,
+				timing.expectedMax,
+				timing.verdict
+			]
+				.map(cell)
+				.join(',')
+		)
+	);
+
+	return [header.join(','), ...rows].join('\n');
+}
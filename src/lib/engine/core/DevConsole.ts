@@ -0,0 +1,390 @@
+/**
+ * @fileoverview Developer console for inspecting and manipulating a game.
+ * Parses text commands (`give pixels 1e20`, `phase 13`, `timewarp 3600`, ...)
+ * and routes them through the real managers, so every command emits the
+ * same events as regular play and downstream systems react normally.
+ *
+ * In debug builds the console is also exposed as `window.__game`
+ * (see installDevBridge()).
+ *
+ * @module engine/core/DevConsole
+ */
+
+import type { Game } from './Game.svelte';
+import { D, isFinite } from '../utils/decimal';
+import { formatNumber, formatDuration } from '../utils/format';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Outcome of a console command.
+ */
+export interface ConsoleResult {
+	/** Whether the command succeeded */
+	ok: boolean;
+	/** Human-readable output */
+	output: string;
+}
+
+/**
+ * Console command definition.
+ */
+export interface ConsoleCommand {
+	/** Command name (first word of the input) */
+	name: string;
+	/** Argument syntax */
+	usage: string;
+	/** What the command does */
+	description: string;
+	/** Execute the command with the remaining words */
+	run: (game: Game, args: string[]) => ConsoleResult;
+}
+
+/**
+ * Console history entry.
+ */
+export interface ConsoleEntry {
+	/** Command as typed */
+	input: string;
+	/** Command outcome */
+	result: ConsoleResult;
+}
+
+/**
+ * Developer bridge exposed as `window.__game`.
+ */
+export interface DevBridge {
+	/** The running game */
+	game: Game;
+	/** Console the bridge runs commands on */
+	console: DevConsole;
+	/** Run a console command and print its output */
+	run: (input: string) => ConsoleResult;
+	/** Print the command list */
+	help: () => string;
+}
+
+declare global {
+	interface Window {
+		__game?: DevBridge;
+	}
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Maximum number of kept history entries */
+const MAX_HISTORY = 100;
+
+function ok(output: string): ConsoleResult {
+	return { ok: true, output };
+}
+
+function fail(output: string): ConsoleResult {
+	return { ok: false, output };
+}
+
+function usage(command: ConsoleCommand): ConsoleResult {
+	return fail(`Usage: ${command.name} ${command.usage}`);
+}
+
+/**
+ * Parse a flag value: booleans and numbers, otherwise the raw string.
+ */
+function parseFlagValue(raw: string | undefined): boolean | string | number {
+	if (raw === undefined || raw === 'true') return true;
+	if (raw === 'false') return false;
+	const number = Number(raw);
+	return Number.isNaN(number) ? raw : number;
+}
+
+// ============================================================================
+// Commands
+// ============================================================================
+
+/**
+ * Built-in console commands.
+ */
+export const DEV_COMMANDS: readonly ConsoleCommand[] = [
+	{
+		name: 'give',
+		usage: '<resource> <amount>',
+		description: 'Add an amount of a resource (unlocks it if needed)',
+		run(game, [resourceId, rawAmount]) {
+			if (!resourceId || !rawAmount) return usage(this);
+			if (!game.resources.getDefinition(resourceId)) {
+				return fail(`Unknown resource: ${resourceId}`);
+			}
+
+			const amount = D(rawAmount);
+			if (!isFinite(amount) || amount.lte(0)) {
+				return fail(`Invalid amount: ${rawAmount}`);
+			}
+
+			if (!game.resources.isUnlocked(resourceId)) {
+				game.resources.unlock(resourceId);
+			}
+			game.resources.add(resourceId, amount);
+			return ok(`+${formatNumber(amount)} ${resourceId}`);
+		}
+	},
+	{
+		name: 'phase',
+		usage: '<number>',
+		description: 'Jump to a phase, completing all previous phases',
+		run(game, [rawPhase]) {
+			const phase = Number(rawPhase);
+			if (!Number.isInteger(phase)) return usage(this);
+			if (!game.phases.getPhaseDefinition(phase)) {
+				return fail(`Unknown phase: ${rawPhase}`);
+			}
+
+			game.phases.debugSetPhase(phase);
+			return ok(`Entered phase ${phase}`);
+		}
+	},
+	{
+		name: 'flag',
+		usage: 'set <key> [value] | clear <key> | get <key>',
+		description: 'Set, clear or read a story flag',
+		run(game, [action, key, rawValue]) {
+			if (!key) return usage(this);
+
+			switch (action) {
+				case 'set': {
+					const value = parseFlagValue(rawValue);
+					game.narrative.setFlag(key, value, 'manual');
+					return ok(`Flag ${key} = ${String(value)}`);
+				}
+				case 'clear':
+					game.narrative.clearFlag(key);
+					return ok(`Flag ${key} cleared`);
+				case 'get':
+					return ok(`Flag ${key} = ${String(game.narrative.getFlag(key) ?? 'unset')}`);
+				default:
+					return usage(this);
+			}
+		}
+	},
+	{
+		name: 'story',
+		usage: 'trigger <event>',
+		description: 'Trigger a registered story event',
+		run(game, [action, eventId]) {
+			if (action !== 'trigger' || !eventId) return usage(this);
+			return game.narrative.triggerEvent(eventId)
+				? ok(`Triggered story event ${eventId}`)
+				: fail(`Story event not triggered: ${eventId}`);
+		}
+	},
+	{
+		name: 'achievement',
+		usage: 'unlock <achievement>',
+		description: 'Unlock an achievement and grant its rewards',
+		run(game, [action, achievementId]) {
+			if (action !== 'unlock' || !achievementId) return usage(this);
+			return game.achievements.manualUnlock(achievementId)
+				? ok(`Unlocked achievement ${achievementId}`)
+				: fail(`Achievement not unlocked: ${achievementId}`);
+		}
+	},
+	{
+		name: 'secret',
+		usage: 'discover <secret>',
+		description: 'Discover a secret and grant its rewards',
+		run(game, [action, secretId]) {
+			if (action !== 'discover' || !secretId) return usage(this);
+			return game.secrets.discoverSecret(secretId)
+				? ok(`Discovered secret ${secretId}`)
+				: fail(`Secret not discovered: ${secretId}`);
+		}
+	},
+	{
+		name: 'timewarp',
+		usage: '<seconds>',
+		description: 'Skip time forward as if played',
+		run(game, [rawSeconds]) {
+			const seconds = Number(rawSeconds);
+			if (!Number.isFinite(seconds) || seconds <= 0) return usage(this);
+
+			const gains = game.timeWarp(seconds);
+			const summary = [...gains]
+				.map(([resourceId, amount]) => `+${formatNumber(amount)} ${resourceId}`)
+				.join(', ');
+			return ok(`Skipped ${formatDuration(seconds)}${summary ? `: ${summary}` : ''}`);
+		}
+	},
+	{
+		name: 'speed',
+		usage: '[multiplier]',
+		description: 'Show or set the game speed (e.g. 100 for 100x)',
+		run(game, [rawSpeed]) {
+			if (rawSpeed === undefined) return ok(`Speed: ${game.speed}x`);
+
+			const speed = Number(rawSpeed.replace(/x$/i, ''));
+			return game.setSpeed(speed) ? ok(`Speed: ${game.speed}x`) : fail(`Invalid speed: ${rawSpeed}`);
+		}
+	},
+	{
+		name: 'save',
+		usage: '[snapshot]',
+		description: 'Save now, or take a save history snapshot',
+		run(game, [action]) {
+			if (action === undefined) {
+				game.saveGame();
+				return ok('Game saved');
+			}
+			if (action !== 'snapshot') return usage(this);
+
+			const snapshot = game.takeSnapshot('manual');
+			return snapshot
+				? ok(`Snapshot taken: ${snapshot.id}`)
+				: fail('Snapshot not taken (game not running or history disabled)');
+		}
+	}
+];
+
+// ============================================================================
+// DevConsole
+// ============================================================================
+
+/**
+ * Text command interpreter for a game.
+ *
+ * @example
+ * ```typescript
+ * const devConsole = new DevConsole(game);
+ * devConsole.execute('give pixels 1e20');
+ * devConsole.execute('phase 13');
+ * ```
+ */
+export class DevConsole {
+	private readonly game: Game;
+	private readonly commands = new Map<string, ConsoleCommand>();
+	private entries: ConsoleEntry[] = [];
+
+	/**
+	 * Create a console for a game.
+	 *
+	 * @param game - Game to run commands on
+	 * @param commands - Available commands (default: DEV_COMMANDS)
+	 */
+	constructor(game: Game, commands: readonly ConsoleCommand[] = DEV_COMMANDS) {
+		this.game = game;
+		for (const command of commands) {
+			this.commands.set(command.name, command);
+		}
+	}
+
+	/**
+	 * Parse and run a command line.
+	 *
+	 * @param input - Command line, e.g. `give pixels 1e20`
+	 * @returns Command outcome (also added to the history)
+	 */
+	execute(input: string): ConsoleResult {
+		const [name, ...args] = input.trim().split(/\s+/);
+		const result = this.run(name, args);
+
+		this.entries.push({ input: input.trim(), result });
+		if (this.entries.length > MAX_HISTORY) {
+			this.entries.shift();
+		}
+
+		return result;
+	}
+
+	/**
+	 * List the available commands.
+	 */
+	getCommands(): ConsoleCommand[] {
+		return [...this.commands.values()];
+	}
+
+	/**
+	 * Get executed commands, oldest first.
+	 */
+	get history(): readonly ConsoleEntry[] {
+		return this.entries;
+	}
+
+	/**
+	 * Describe all commands, one per line.
+	 */
+	help(): string {
+		return this.getCommands()
+			.map((command) => `${command.name} ${command.usage} - ${command.description}`)
+			.join('\n');
+	}
+
+	/**
+	 * Run a parsed command.
+	 */
+	private run(name: string, args: string[]): ConsoleResult {
+		if (!name) return fail('Empty command');
+		if (name === 'help') return ok(this.help());
+
+		const command = this.commands.get(name.toLowerCase());
+		if (!command) {
+			return fail(`Unknown command: ${name} (type "help" for a list)`);
+		}
+
+		// Recorded before running, so replays run commands that advance
+		// time (e.g. timewarp) at the same tick
+		this.game.events.emit('player_input', {
+			type: 'command',
+			command: [command.name, ...args].join(' ')
+		});
+
+		try {
+			return command.run(this.game, args);
+		} catch (error) {
+			console.error(`[DevConsole] Command failed: ${name}`, error);
+			return fail(`Command failed: ${error instanceof Error ? error.message : String(error)}`);
+		}
+	}
+}
+
+// ============================================================================
+// Browser Bridge
+// ============================================================================
+
+/**
+ * Expose a game as `window.__game` for the browser devtools.
+ * Only install in debug builds.
+ *
+ * @example
+ * ```typescript
+ * // In the browser console
+ * __game.run('give pixels 1e20');
+ * __game.game.phases.currentPhase;
+ * ```
+ *
+ * @param game - Game to expose
+ * @param devConsole - Console to run commands on (default: a new one)
+ * @returns Function that removes the bridge
+ */
+export function installDevBridge(game: Game, devConsole: DevConsole = new DevConsole(game)): () => void {
+	if (typeof window === 'undefined') return () => {};
+
+	const bridge: DevBridge = {
+		game,
+		console: devConsole,
+		run: (input) => {
+			const result = devConsole.execute(input);
+			(result.ok ? console.log : console.warn)(`[DevConsole] ${result.output}`);
+			return result;
+		},
+		help: () => devConsole.help()
+	};
+	window.__game = bridge;
+
+	return () => {
+		if (window.__game === bridge) {
+			delete window.__game;
+		}
+	};
+}
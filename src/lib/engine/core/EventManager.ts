@@ -6,13 +6,21 @@
  * loose coupling and testability. UI components can also subscribe to
  * events for reactive updates.
  *
+ * Besides single events, listeners can subscribe to patterns: wildcards
+ * (`'story_*'`, `'*_unlocked'`, `'*'`) and categories (`'narrative'`, see
+ * EVENT_CATEGORIES). Pattern listeners receive `{ event, data }` envelopes.
+ *
  * @module engine/core/EventManager
  */
 
-import type {
-	GameEventMap,
-	GameEventName,
-	GameEventData
+import {
+	EVENT_CATEGORIES,
+	type GameEventName,
+	type GameEventData,
+	type GameEventCategory,
+	type GameEventPattern,
+	type GameEventsMatching,
+	type GameEventEnvelope
 } from '../models/events';
 import type { Unsubscribe } from '../models/types';
 
@@ -34,6 +42,16 @@ interface ListenerEntry<T> {
 	priority: number;
 }
 
+/**
+ * Listener subscribed to a pattern instead of a single event.
+ */
+interface PatternListenerEntry extends ListenerEntry<GameEventEnvelope> {
+	/** The subscribed pattern */
+	pattern: GameEventPattern;
+	/** Whether an event name matches the pattern */
+	matches: (event: GameEventName) => boolean;
+}
+
 /**
  * Options for subscribing to events.
  */
@@ -86,6 +104,11 @@ export class EventManager {
 	 */
 	private listeners: Map<string, Set<ListenerEntry<unknown>>> = new Map();
 
+	/**
+	 * Listeners subscribed to wildcards or categories.
+	 */
+	private patternListeners: Set<PatternListenerEntry> = new Set();
+
 	/**
 	 * Whether debug logging is enabled.
 	 */
@@ -106,10 +129,12 @@ export class EventManager {
 	}
 
 	/**
-	 * Subscribe to an event.
+	 * Subscribe to an event, or to all events matching a pattern.
+	 * Pattern listeners receive an `{ event, data }` envelope instead of the
+	 * bare event data.
 	 *
-	 * @template T - Event name type (keyof GameEventMap)
-	 * @param event - The event name to subscribe to
+	 * @template T - Event name type (keyof GameEventMap) or pattern
+	 * @param event - The event name or pattern to subscribe to
 	 * @param callback - Function to call when event is emitted
 	 * @param options - Optional configuration for the subscription
 	 * @returns Unsubscribe function to remove the listener
@@ -130,21 +155,50 @@ export class EventManager {
 	 * events.on('rebirth_started', () => {
 	 *   // This runs before normal priority listeners
 	 * }, { priority: 10 });
+	 *
+	 * // Pattern subscription
+	 * events.on('story_*', ({ event, data }) => {
+	 *   if (event === 'story_triggered') console.log(data.storyId);
+	 * });
 	 * ```
 	 */
 	on<T extends GameEventName>(
 		event: T,
 		callback: EventCallback<GameEventData<T>>,
+		options?: SubscribeOptions
+	): Unsubscribe;
+	on<P extends GameEventPattern>(
+		pattern: P,
+		callback: EventCallback<GameEventEnvelope<GameEventsMatching<P>>>,
+		options?: SubscribeOptions
+	): Unsubscribe;
+	on(
+		event: GameEventName | GameEventPattern,
+		callback: EventCallback<never>,
 		options: SubscribeOptions = {}
 	): Unsubscribe {
 		const { once = false, priority = 0 } = options;
 
+		if (isEventPattern(event)) {
+			const patternEntry: PatternListenerEntry = {
+				callback: callback as EventCallback<GameEventEnvelope>,
+				once,
+				priority,
+				pattern: event,
+				matches: createEventMatcher(event)
+			};
+			this.patternListeners.add(patternEntry);
+			return () => {
+				this.patternListeners.delete(patternEntry);
+			};
+		}
+
 		// Get or create the listener set for this event
 		if (!this.listeners.has(event)) {
 			this.listeners.set(event, new Set());
 		}
 
-		const entry: ListenerEntry<GameEventData<T>> = {
+		const entry: ListenerEntry<never> = {
 			callback,
 			once,
 			priority
@@ -179,6 +233,23 @@ export class EventManager {
 		return this.on(event, callback, { once: true });
 	}
 
+	/**
+	 * Subscribe to every event, e.g. for loggers and analytics.
+	 * Equivalent to `on('*', callback, options)`.
+	 *
+	 * @param callback - Function to call with each emitted event
+	 * @param options - Optional configuration for the subscription
+	 * @returns Unsubscribe function
+	 *
+	 * @example
+	 * ```typescript
+	 * events.onAny(({ event, data }) => analytics.track(event, data));
+	 * ```
+	 */
+	onAny(callback: EventCallback<GameEventEnvelope>, options: SubscribeOptions = {}): Unsubscribe {
+		return this.on('*', callback, options);
+	}
+
 	/**
 	 * Emit an event to all subscribers.
 	 *
@@ -206,21 +277,26 @@ export class EventManager {
 		}
 
 		const listenerSet = this.listeners.get(event);
-		if (!listenerSet || listenerSet.size === 0) {
+		const matchingPatterns = this.getMatchingPatternListeners(event);
+		if ((!listenerSet || listenerSet.size === 0) && matchingPatterns.length === 0) {
 			return;
 		}
 
-		// Sort listeners by priority (highest first)
-		const sortedListeners = Array.from(listenerSet).sort(
+		// Sort listeners by priority (highest first), across event and pattern listeners
+		const sortedListeners = [...(listenerSet ?? []), ...matchingPatterns].sort(
 			(a, b) => b.priority - a.priority
 		);
 
 		// Track one-time listeners to remove after iteration
-		const toRemove: ListenerEntry<unknown>[] = [];
+		const toRemove: (ListenerEntry<unknown> | PatternListenerEntry)[] = [];
 
 		for (const entry of sortedListeners) {
 			try {
-				(entry.callback as EventCallback<GameEventData<T>>)(data);
+				if ('pattern' in entry) {
+					entry.callback({ event, data } as GameEventEnvelope);
+				} else {
+					(entry.callback as EventCallback<GameEventData<T>>)(data);
+				}
 			} catch (error) {
 				console.error(`[EventManager] Error in listener for "${event}":`, error);
 			}
@@ -232,22 +308,45 @@ export class EventManager {
 
 		// Remove one-time listeners
 		for (const entry of toRemove) {
-			listenerSet.delete(entry);
+			if ('pattern' in entry) {
+				this.patternListeners.delete(entry);
+			} else {
+				listenerSet?.delete(entry);
+			}
 		}
 
 		// Clean up empty sets
-		if (listenerSet.size === 0) {
+		if (listenerSet && listenerSet.size === 0) {
 			this.listeners.delete(event);
 		}
 	}
 
 	/**
-	 * Remove all listeners for a specific event.
+	 * Get the pattern listeners that receive an event.
+	 */
+	private getMatchingPatternListeners(event: GameEventName): PatternListenerEntry[] {
+		if (this.patternListeners.size === 0) return [];
+		return Array.from(this.patternListeners).filter((entry) => entry.matches(event));
+	}
+
+	/**
+	 * Remove all listeners for a specific event or pattern.
+	 * Removing a pattern only removes listeners subscribed to that exact
+	 * pattern, not listeners of the events it matches.
 	 *
-	 * @param event - The event name to clear listeners for
+	 * @param event - The event name or pattern to clear listeners for
 	 */
-	off<T extends GameEventName>(event: T): void {
-		this.listeners.delete(event);
+	off(event: GameEventName | GameEventPattern): void {
+		if (!isEventPattern(event)) {
+			this.listeners.delete(event);
+			return;
+		}
+
+		for (const entry of this.patternListeners) {
+			if (entry.pattern === event) {
+				this.patternListeners.delete(entry);
+			}
+		}
 	}
 
 	/**
@@ -256,16 +355,18 @@ export class EventManager {
 	 */
 	clear(): void {
 		this.listeners.clear();
+		this.patternListeners.clear();
 	}
 
 	/**
-	 * Get the number of listeners for a specific event.
+	 * Get the number of listeners that receive a specific event,
+	 * including matching pattern listeners.
 	 *
 	 * @param event - The event name to check
 	 * @returns Number of active listeners
 	 */
 	listenerCount<T extends GameEventName>(event: T): number {
-		return this.listeners.get(event)?.size ?? 0;
+		return (this.listeners.get(event)?.size ?? 0) + this.getMatchingPatternListeners(event).length;
 	}
 
 	/**
@@ -282,10 +383,11 @@ export class EventManager {
 	 * Get all registered event names.
 	 * Useful for debugging.
 	 *
-	 * @returns Array of event names with active listeners
+	 * @returns Array of event names and patterns with active listeners
 	 */
 	getRegisteredEvents(): string[] {
-		return Array.from(this.listeners.keys());
+		const patterns = new Set(Array.from(this.patternListeners, (entry) => entry.pattern));
+		return [...this.listeners.keys(), ...patterns];
 	}
 
 	/**
@@ -353,3 +455,51 @@ export class EventManager {
 		});
 	}
 }
+
+// ============================================================================
+// Patterns
+// ============================================================================
+
+/**
+ * Check whether a subscription target is a pattern rather than an event name.
+ *
+ * @param event - Event name or pattern
+ * @returns Whether it is a wildcard or category
+ */
+export function isEventPattern(event: GameEventName | GameEventPattern): event is GameEventPattern {
+	return event.includes('*') || Object.prototype.hasOwnProperty.call(EVENT_CATEGORIES, event);
+}
+
+/**
+ * Check whether an event name matches a pattern.
+ *
+ * @param event - Event name
+ * @param pattern - Wildcard (`*` matches any characters) or category
+ * @returns Whether the event matches
+ *
+ * @example
+ * ```typescript
+ * matchesEventPattern('story_triggered', 'story_*'); // true
+ * matchesEventPattern('flag_set', 'narrative'); // true
+ * ```
+ */
+export function matchesEventPattern(event: GameEventName, pattern: GameEventPattern): boolean {
+	return createEventMatcher(pattern)(event);
+}
+
+/**
+ * Create a matcher function for a pattern.
+ */
+function createEventMatcher(pattern: GameEventPattern): (event: GameEventName) => boolean {
+	if (!pattern.includes('*')) {
+		const events: readonly string[] = EVENT_CATEGORIES[pattern as GameEventCategory];
+		return (event) => events.includes(event);
+	}
+
+	const source = pattern
+		.split('*')
+		.map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+		.join('.*');
+	const regex = new RegExp(`^${source}$`);
+	return (event) => regex.test(event);
+}
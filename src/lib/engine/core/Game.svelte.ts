@@ -10,6 +10,7 @@
  * - UpgradeManager: Run/eternal/secret upgrades and skill tree
  * - PhaseManager: 20-phase progression system
  * - NarrativeManager: Story, logs, dialogues, and choices
+ * - AutomationManager: Producer and upgrade autobuyers
  * - GameLoop: Timing and updates
  *
  * Note: This file uses .svelte.ts extension to enable runes in non-component files.
@@ -18,7 +19,43 @@
  */
 
 import { EventManager } from './EventManager';
-import { SaveManager } from './SaveManager';
+import {
+	SaveManager,
+	type SaveSlotInfo,
+	type SaveSlotDetails,
+	type SaveSnapshotInfo,
+	type SnapshotReason
+} from './SaveManager';
+import { createSaveStorage } from './SaveStorage';
+import {
+	COMPACT_SAVE_FORMAT,
+	PLAIN_SAVE_FORMAT,
+	GAME_SAVE_PACKER,
+	encodeStoredSave,
+	decodeStoredSave
+} from './SaveCodec';
+import {
+	CURRENT_GAME_SAVE_VERSION,
+	createGameSaveMigrationRegistry,
+	sanitizeGameSave,
+	type MigrationReport
+} from './SaveMigration';
+import {
+	encodeSave,
+	decodeSave,
+	MODIFIED_SAVE_FLAG,
+	type EncodeSaveOptions,
+	type ImportSaveOptions,
+	type SaveEnvelopeData,
+	type SaveIntegrity
+} from './SaveEnvelope';
+import {
+	summarizeGameSave,
+	diffSaveSummaries,
+	downloadSaveFile,
+	readSaveFile,
+	type SaveImportPreview
+} from './SaveFile';
 import { GameLoop, type LoopStats } from './GameLoop';
 import { ResourceManager } from '../systems/ResourceManager.svelte';
 import { ProducerManager } from '../systems/ProducerManager.svelte';
@@ -27,19 +64,45 @@ import { PhaseManager, type PhaseManagerContext } from '../systems/PhaseManager.
 import { NarrativeManager, type NarrativeContext } from '../systems/NarrativeManager.svelte';
 import { AchievementManager, type AchievementContext } from '../systems/AchievementManager.svelte';
 import { SecretManager, type SecretContext } from '../systems/SecretManager.svelte';
-import { type GameConfig, DEFAULT_CONFIG } from '../models/types';
+import { AutomationManager } from '../systems/AutomationManager.svelte';
+import type { EvaluationContext, PendingCondition } from '../systems/ConditionEvaluator';
+import type { EndingId } from '../models/narrative';
+import {
+	type GameConfig,
+	type SerializedGameSave,
+	type PlayerPreferences,
+	DEFAULT_CONFIG
+} from '../models/types';
+import type { OfflineGainsCalculatedEvent, OfflineUnlock } from '../models/events';
+import { AUTOBUYER_UNLOCK_ID } from '../models/automation';
+import { getProducerMilestoneLogs } from '../models/producers';
 import { type VisualMode } from '../models/phase';
 import { getPhaseDefinitionsMap } from '../data/phases';
 import { registerStoryForPhases } from '../data/story';
 import { getInitialUpgrades, getNewUpgradesForPhase } from '../data/upgrades';
+import { ResourceId, RESOURCE_DEFINITIONS } from '../models/resources';
 import { D, ZERO, ONE, mul, type Decimal } from '../utils/decimal';
-import { calculateOfflineProgressWithBreakdown } from '../utils/OfflineProgress';
+import {
+	calculateOfflineDuration,
+	createOfflineConfig,
+	splitOfflineTime,
+	DEFAULT_OFFLINE_CONFIG,
+	MAX_OFFLINE_HOURS,
+	type OfflineProgressConfig
+} from '../utils/OfflineProgress';
+import { calculateRebirthPreview, type RebirthPreview } from '../utils/RebirthCalculation';
 
 /**
  * Game state enum for tracking overall game status.
  */
 export type GameStatus = 'uninitialized' | 'initializing' | 'running' | 'paused' | 'error';
 
+/**
+ * Storage key of Game saves written before the configured save key was used.
+ * Moved to the configured key once on init.
+ */
+const LEGACY_SAVE_KEY = 'pixelsingularity_save';
+
 /**
  * Main Game class - the heart of the engine.
  *
@@ -108,6 +171,11 @@ export class Game {
 	 */
 	readonly secrets: SecretManager;
 
+	/**
+	 * Automation manager for producer and upgrade autobuyers.
+	 */
+	readonly automation: AutomationManager;
+
 	/**
 	 * Game loop for timing and updates.
 	 */
@@ -142,8 +210,11 @@ export class Game {
 	private eternalState = $state({
 		totalPlayTime: 0,
 		totalRebirths: 0,
+		highestPhaseEver: 1,
+		modifiedSave: false,
 		statistics: {
-			totalClicks: 0
+			totalClicks: 0,
+			fastestRunTime: null as number | null
 		}
 	});
 
@@ -190,17 +261,61 @@ export class Game {
 	 */
 	debugMode = $state(false);
 
+	/**
+	 * Speed multiplier set for testing (see setSpeed()).
+	 */
+	debugSpeed = $state(1);
+
 	/**
 	 * Last error message (if any).
 	 */
 	lastError = $state<string | null>(null);
 
+	/**
+	 * Summary of the last offline catch-up, until dismissed.
+	 */
+	offlineReport = $state<OfflineGainsCalculatedEvent | null>(null);
+
 	/**
 	 * Accumulated time for auto-clicker (in seconds).
 	 * When this reaches 1.0 / autoClickRate, an auto-click is performed.
 	 */
 	private autoClickAccumulator = 0;
 
+	/**
+	 * Whether saveGame() is disabled (while switching to another save).
+	 */
+	private savingSuspended = false;
+
+	/**
+	 * Accumulated time since the last periodic snapshot (milliseconds).
+	 */
+	private snapshotAccumulator = 0;
+
+	/**
+	 * Story content loads in flight (see whenStoryLoaded()).
+	 */
+	private storyLoading: Promise<void> = Promise.resolve();
+
+	/**
+	 * Page hide listener (see onPageHide()).
+	 */
+	private readonly boundPageHideHandler = (): void => this.onPageHide();
+
+	/**
+	 * Save waiting for confirmation after previewImport().
+	 */
+	private pendingImport: {
+		state: SerializedGameSave;
+		integrity: SaveIntegrity;
+		error?: string;
+	} | null = null;
+
+	/**
+	 * Migrations for Game saves.
+	 */
+	private readonly saveMigrations = createGameSaveMigrationRegistry();
+
 	// ============================================================================
 	// Constructor
 	// ============================================================================
@@ -222,7 +337,8 @@ export class Game {
 			this.events,
 			this.config.saveKey,
 			this.config.version,
-			this.config.autoSaveInterval
+			this.config.autoSaveInterval,
+			createSaveStorage(this.config.storage)
 		);
 
 		// 3. ResourceManager (core game state)
@@ -247,24 +363,54 @@ export class Game {
 		// 9. SecretManager (secret discoveries)
 		this.secrets = new SecretManager(this.events);
 
-		// 10. GameLoop (starts the heartbeat)
+		// 10. AutomationManager (buys through producers and upgrades)
+		this.automation = new AutomationManager(this.events, this.resources, this.producers, this.upgrades);
+
+		// 11. GameLoop (starts the heartbeat)
 		this.loop = new GameLoop(
 			(dt) => this.tick(dt),
 			this.config
 		);
 
+		// Fixed-step simulations run without wall-clock timers: transitions
+		// skip their animation delay and saves only happen explicitly
+		if (this.config.loopMode === 'fixed') {
+			this.phases.setInstantTransitions(true);
+			this.save.setAutoSaveEnabled(false);
+		}
+
 		// Set up visibility callbacks
 		this.loop.setVisibilityCallbacks(
 			() => this.onVisibilityHidden(),
-			(offlineTime) => this.onVisibilityVisible(offlineTime)
+			(offlineTime) => void this.onVisibilityVisible(offlineTime)
 		);
 
 		this.debugMode = this.config.debug;
+		this.debugSpeed = this.config.speed;
 
 		// Set up event listeners to mark save as dirty
 		this.events.on('resource_changed', () => this.save.markDirty());
 		this.events.on('producer_purchased', () => this.save.markDirty());
 		this.events.on('upgrade_purchased', () => this.save.markDirty());
+
+		// Track the highest phase reached across all runs
+		this.events.on('phase_entered', ({ newPhase }) => {
+			if (newPhase > this.eternalState.highestPhaseEver) {
+				this.eternalState.highestPhaseEver = newPhase;
+			}
+			// Also covers automatic transitions, which bypass advancePhase()
+			this.resources.setPhase(newPhase);
+		});
+
+		// Keep a save history entry for every phase entry
+		this.events.on('phase_entered', () => this.takeSnapshot('phase'));
+
+		// Producer milestones add their log once per run
+		this.events.on('producer_milestone_reached', ({ logId }) => {
+			if (logId && !this.narrative.logs.some((log) => log.id === logId)) {
+				this.narrative.addLog(logId);
+			}
+		});
 	}
 
 	// ============================================================================
@@ -294,14 +440,22 @@ export class Game {
 			this.narrative.init();
 			this.achievements.init();
 			this.secrets.init();
+			this.automation.init();
 			this.save.init();
 
+			// Asynchronous storage backends must be read before the save is checked
+			await this.save.ready();
+			this.save.setSnapshotLimit(this.config.snapshotLimit);
+
 			// Register initial upgrades (run + eternal + secret)
 			const initialUpgrades = getInitialUpgrades();
 			for (const upgrade of initialUpgrades) {
 				this.upgrades.registerUpgrade(upgrade);
 			}
 
+			// Producer milestone logs are not part of the lazily loaded story
+			this.narrative.registerLogs(getProducerMilestoneLogs());
+
 			// Set up UpgradeManager context for condition evaluation
 			this.upgrades.setContext(this.createUpgradeContext());
 
@@ -326,19 +480,21 @@ export class Game {
 			this.resources.setPhase(this.phases.currentPhase);
 
 			// Load story content for initial phases (async, don't block)
-			this.loadStoryForCurrentPhase();
+			this.storyLoading = this.loadStoryForCurrentPhase();
 
 			// Check for existing save and load if present
 			let isNewGame = true;
 			let lastPlayedAt: number | null = null;
 
+			this.moveLegacySave();
+
 			if (this.hasSave()) {
 				const loaded = this.loadGame();
 				if (loaded) {
 					isNewGame = false;
-					// Get last played time from localStorage if available
+					// Get last played time from storage if available
 					try {
-						const saveData = JSON.parse(localStorage.getItem('pixelsingularity_save') || '{}');
+						const saveData = JSON.parse(this.save.getStorage().get(this.config.saveKey) || '{}');
 						lastPlayedAt = saveData.lastModified || null;
 					} catch {
 						lastPlayedAt = null;
@@ -350,27 +506,10 @@ export class Game {
 				}
 			}
 
-			// Calculate offline progress if this is a returning player
+			// Simulate offline progress if this is a returning player
 			if (!isNewGame && lastPlayedAt) {
-				const currentProductionRate = this.resources.getProductionRate('pixels');
-				const offlineResult = calculateOfflineProgressWithBreakdown(lastPlayedAt, currentProductionRate);
-
-				if (offlineResult.rewards.dreamPixels.gt(0)) {
-					// Apply offline gains
-					this.resources.add('pixels', offlineResult.rewards.dreamPixels);
-
-					// Emit offline gains event
-					this.events.emit('offline_gains_calculated', {
-						offlineTime: offlineResult.rewards.timeAway,
-						cappedTime: offlineResult.rewards.cappedTime,
-						efficiency: offlineResult.rewards.efficiency,
-						gains: new Map([['pixels', offlineResult.rewards.dreamPixels]])
-					});
-
-					if (this.config.debug) {
-						console.log(`[Game] Offline progress: ${offlineResult.breakdown.timeAwayFormatted} -> ${offlineResult.rewards.dreamPixels.toString()} pixels`);
-					}
-				}
+				await this.whenStoryLoaded();
+				await this.catchUpOffline(lastPlayedAt);
 			}
 
 			// Start the game loop
@@ -380,6 +519,11 @@ export class Game {
 			// Start auto-save timer
 			this.save.startAutoSave();
 
+			// Save when the page is closed or navigated away from
+			if (typeof window !== 'undefined') {
+				window.addEventListener('pagehide', this.boundPageHideHandler);
+			}
+
 			// Emit initialization event
 			this.events.emit('game_initialized', {
 				timestamp: Date.now(),
@@ -412,6 +556,10 @@ export class Game {
 		this.loop.stop();
 		this.status = 'uninitialized';
 
+		if (typeof window !== 'undefined') {
+			window.removeEventListener('pagehide', this.boundPageHideHandler);
+		}
+
 		// Clear events
 		this.events.clear();
 
@@ -460,7 +608,7 @@ export class Game {
 
 	/**
 	 * Main game tick - called by the GameLoop.
-	 * Updates all systems in the correct order.
+	 * Counts play time, updates all systems and takes periodic snapshots.
 	 *
 	 * @param deltaTime - Time since last tick in seconds
 	 */
@@ -469,6 +617,35 @@ export class Game {
 		this.runTime += deltaTime;
 		this.eternalState.totalPlayTime += deltaTime;
 
+		this.step(deltaTime);
+
+		// Periodic save history snapshot
+		if (this.config.snapshotInterval > 0) {
+			this.snapshotAccumulator += deltaTime * 1000;
+			if (this.snapshotAccumulator >= this.config.snapshotInterval) {
+				this.snapshotAccumulator = 0;
+				this.takeSnapshot('interval');
+			}
+		}
+
+		// Emit tick event (for debugging/stats)
+		if (this.config.debug && this.tickCount % 60 === 0) {
+			this.events.emit('tick', {
+				deltaTime,
+				totalTime: this.runTime,
+				tickCount: this.tickCount
+			});
+		}
+	}
+
+	/**
+	 * Advance the game simulation without counting play time.
+	 * Updates all systems in the correct order; used by tick() and for
+	 * offline time (see catchUpOffline()).
+	 *
+	 * @param deltaTime - Simulated time in seconds
+	 */
+	private step(deltaTime: number): void {
 		// Update systems in order
 		// 1. Resources (base production from ResourceManager)
 		this.resources.tick(deltaTime);
@@ -488,20 +665,41 @@ export class Game {
 		// 6. Auto-clicker (from upgrades)
 		this.processAutoClicks(deltaTime);
 
-		// 7. Achievement checks
+		// 7. Autobuyers
+		this.automation.tick(deltaTime);
+
+		// 8. Achievement checks
 		this.achievements.tick(deltaTime);
 
-		// 8. Secret checks
+		// 9. Secret checks
 		this.secrets.tick(deltaTime);
 
-		// Emit tick event (for debugging/stats)
-		if (this.config.debug && this.tickCount % 60 === 0) {
-			this.events.emit('tick', {
-				deltaTime,
-				totalTime: this.runTime,
-				tickCount: this.tickCount
-			});
-		}
+		// Apply speed changes from upgrades from the next frame on
+		this.loop.setSpeed(this.speed);
+	}
+
+	/**
+	 * Advance the game by simulated time in fixed steps.
+	 * Only available with `loopMode: 'fixed'` (see GameSimulation for a
+	 * seeded, headless driver).
+	 *
+	 * @param seconds - Simulated time to advance
+	 * @returns Number of ticks run
+	 */
+	advance(seconds: number): number {
+		return this.loop.advance(seconds);
+	}
+
+	/**
+	 * Wait until all story content requested so far has been loaded.
+	 * Story loads asynchronously on init and on every phase entry.
+	 */
+	async whenStoryLoaded(): Promise<void> {
+		let pending: Promise<void>;
+		do {
+			pending = this.storyLoading;
+			await pending;
+		} while (pending !== this.storyLoading);
 	}
 
 	/**
@@ -530,7 +728,7 @@ export class Game {
 		while (this.autoClickAccumulator >= clickInterval) {
 			this.autoClickAccumulator -= clickInterval;
 			// Perform an auto-click (with all bonuses applied)
-			this.click('pixels');
+			this.applyClick('pixels');
 		}
 	}
 
@@ -558,32 +756,25 @@ export class Game {
 	// ============================================================================
 
 	/**
-	 * Save the game state to localStorage.
+	 * Save the game state to the configured storage backend.
 	 * Wrapper around SaveManager.save() for convenience.
 	 */
 	saveGame(): void {
-		try {
-			// Serialize the complete game state from all managers
-			const serialized = this.serialize();
-
-			// Wrap with metadata for save format
-			const saveData = {
-				state: serialized,
-				formatVersion: 1,
-				lastModified: Date.now()
-			};
+		if (this.savingSuspended) return;
 
-			// Save directly to localStorage
-			const saveKey = 'pixelsingularity_save';
-			const saveString = JSON.stringify(saveData);
+		try {
+			// Save directly to storage
+			const storage = this.save.getStorage();
+			const { saveKey } = this.config;
+			const saveString = this.createSaveString();
 
 			// Create backup of previous save
-			const existingSave = localStorage.getItem(saveKey);
+			const existingSave = storage.get(saveKey);
 			if (existingSave) {
-				localStorage.setItem(`${saveKey}_backup`, existingSave);
+				storage.set(`${saveKey}_backup`, existingSave);
 			}
 
-			localStorage.setItem(saveKey, saveString);
+			storage.set(saveKey, saveString);
 
 			if (this.config.debug) {
 				console.log('[Game] Save successful, size:', saveString.length);
@@ -594,23 +785,22 @@ export class Game {
 	}
 
 	/**
-	 * Load the game state from localStorage.
+	 * Load the game state from the configured storage backend.
 	 *
 	 * @returns Whether load was successful
 	 */
 	loadGame(): boolean {
 		try {
-			const saveKey = 'pixelsingularity_save';
-			const saveString = localStorage.getItem(saveKey);
+			const saveString = this.save.getStorage().get(this.config.saveKey);
 
 			if (!saveString) {
 				return false;
 			}
 
-			const saveData = JSON.parse(saveString);
+			const state = decodeStoredSave(saveString, GAME_SAVE_PACKER);
 
-			if (saveData?.state) {
-				this.deserialize(saveData.state);
+			if (state && typeof state === 'object') {
+				this.deserialize(this.migrateGameSave(state));
 
 				if (this.config.debug) {
 					console.log('[Game] Load successful');
@@ -629,9 +819,10 @@ export class Game {
 	 * Delete the save data.
 	 */
 	deleteSave(): void {
-		const saveKey = 'pixelsingularity_save';
-		localStorage.removeItem(saveKey);
-		localStorage.removeItem(`${saveKey}_backup`);
+		const storage = this.save.getStorage();
+		const { saveKey } = this.config;
+		storage.remove(saveKey);
+		storage.remove(`${saveKey}_backup`);
 
 		if (this.config.debug) {
 			console.log('[Game] Save deleted');
@@ -644,7 +835,398 @@ export class Game {
 	 * @returns Whether save data exists
 	 */
 	hasSave(): boolean {
-		return localStorage.getItem('pixelsingularity_save') !== null;
+		return this.save.getStorage().get(this.config.saveKey) !== null;
+	}
+
+	/**
+	 * Move a save (and its backup) stored under the legacy key to the
+	 * configured save key, unless a save already exists there. The legacy
+	 * keys are removed either way, so this only happens once.
+	 */
+	private moveLegacySave(): void {
+		const storage = this.save.getStorage();
+		const { saveKey } = this.config;
+		const legacySave = storage.get(LEGACY_SAVE_KEY);
+		if (legacySave === null || saveKey === LEGACY_SAVE_KEY) return;
+
+		if (storage.get(saveKey) === null) {
+			storage.set(saveKey, legacySave);
+			const legacyBackup = storage.get(`${LEGACY_SAVE_KEY}_backup`);
+			if (legacyBackup !== null) {
+				storage.set(`${saveKey}_backup`, legacyBackup);
+			}
+
+			if (this.config.debug) {
+				console.log(`[Game] Moved save from ${LEGACY_SAVE_KEY} to ${saveKey}`);
+			}
+		}
+
+		storage.remove(LEGACY_SAVE_KEY);
+		storage.remove(`${LEGACY_SAVE_KEY}_backup`);
+	}
+
+	/**
+	 * Export the current game as a Base64 save string.
+	 * The string carries a checksum so edits are detected on import.
+	 *
+	 * @param options - Encoding options (e.g. compression)
+	 * @returns Save string, or null if export failed
+	 */
+	exportSave(options: EncodeSaveOptions = {}): string | null {
+		try {
+			return encodeSave(this.createSaveData(), options);
+		} catch (error) {
+			console.error('[Game] Export failed:', error);
+			return null;
+		}
+	}
+
+	/**
+	 * Export the current game and offer it as a `.pixelsave` file download.
+	 *
+	 * @param options - Encoding options (compressed by default)
+	 * @returns Whether the download was started
+	 */
+	exportSaveFile(options: EncodeSaveOptions = { compress: true }): boolean {
+		const saveString = this.exportSave(options);
+		if (saveString === null) return false;
+		return downloadSaveFile(saveString);
+	}
+
+	/**
+	 * Import a save string created by exportSave().
+	 * Saves with a checksum mismatch are rejected unless `allowModified` is
+	 * set, in which case the game is permanently marked as modified.
+	 * The imported save replaces the current one (which is kept as backup).
+	 *
+	 * @param saveString - Save string
+	 * @param options - Import options
+	 * @returns Promise that resolves to whether the save was imported
+	 */
+	async importSave(saveString: string, options: ImportSaveOptions = {}): Promise<boolean> {
+		const preview = this.previewImport(saveString);
+		if (!preview.success) {
+			console.error(`[Game] Import failed: ${preview.error}`);
+			return false;
+		}
+		return this.confirmImport(options);
+	}
+
+	/**
+	 * Read a save string and compare it with the current game without
+	 * importing it. The save is sanitized and migrated to the current save
+	 * version, then held until confirmImport() or cancelImport().
+	 *
+	 * @param saveString - Save string
+	 * @returns Summaries of both saves and their differences
+	 */
+	previewImport(saveString: string): SaveImportPreview {
+		this.pendingImport = null;
+
+		const decoded = decodeSave<Partial<SerializedGameSave>>(saveString);
+		if (!decoded.success || !decoded.data) {
+			return {
+				success: false,
+				integrity: decoded.integrity,
+				incoming: null,
+				current: null,
+				changes: [],
+				error: decoded.error
+			};
+		}
+
+		const state = this.migrateGameSave(decoded.data.state);
+		this.pendingImport = {
+			state,
+			integrity: decoded.integrity,
+			error: decoded.error
+		};
+
+		const incoming = summarizeGameSave(state);
+		const current = summarizeGameSave(this.serialize());
+
+		return {
+			success: true,
+			integrity: decoded.integrity,
+			incoming,
+			current,
+			changes: diffSaveSummaries(incoming, current),
+			error: decoded.error
+		};
+	}
+
+	/**
+	 * Read a dropped or picked `.pixelsave` file and preview it.
+	 *
+	 * @param file - Save file
+	 * @returns Import preview (see previewImport())
+	 */
+	async previewImportFile(file: Blob): Promise<SaveImportPreview> {
+		try {
+			return this.previewImport(await readSaveFile(file));
+		} catch (error) {
+			this.pendingImport = null;
+			return {
+				success: false,
+				integrity: 'unverified',
+				incoming: null,
+				current: null,
+				changes: [],
+				error: error instanceof Error ? error.message : 'Save file could not be read'
+			};
+		}
+	}
+
+	/**
+	 * Import the save held by previewImport().
+	 * Saves with a checksum mismatch are rejected unless `allowModified` is
+	 * set, in which case the game is permanently marked as modified.
+	 *
+	 * @param options - Import options
+	 * @returns Promise that resolves to whether the save was imported
+	 */
+	async confirmImport(options: ImportSaveOptions = {}): Promise<boolean> {
+		const pending = this.pendingImport;
+		if (!pending) {
+			console.warn('[Game] No import to confirm');
+			return false;
+		}
+		if (pending.integrity === 'mismatch' && !options.allowModified) {
+			console.error(`[Game] Import rejected: ${pending.error}`);
+			return false;
+		}
+		this.pendingImport = null;
+
+		const { state } = pending;
+		if (pending.integrity === 'mismatch') {
+			console.warn(`[Game] Importing modified save: ${pending.error}`);
+			state.eternal.modifiedSave = true;
+		}
+
+		await this.activateSaveString(encodeStoredSave(state, COMPACT_SAVE_FORMAT, GAME_SAVE_PACKER));
+		return true;
+	}
+
+	/**
+	 * Discard the save held by previewImport().
+	 */
+	cancelImport(): void {
+		this.pendingImport = null;
+	}
+
+	/**
+	 * Dry-run the migration of a save without importing it, e.g. for QA to
+	 * check a player's save after a save version bump.
+	 * Accepts export strings and saves copied from storage.
+	 *
+	 * @param saveString - Export string or stored save JSON
+	 * @returns Migration report, or null if the save could not be read
+	 */
+	createMigrationReport(saveString: string): MigrationReport<SerializedGameSave> | null {
+		let state: unknown;
+
+		const decoded = decodeSave<unknown>(saveString);
+		if (decoded.success && decoded.data) {
+			state = decoded.data.state;
+		} else {
+			try {
+				state = decodeStoredSave(saveString, GAME_SAVE_PACKER);
+			} catch {
+				state = undefined;
+			}
+		}
+
+		if (!state || typeof state !== 'object') {
+			console.error(`[Game] Migration report failed: ${decoded.error}`);
+			return null;
+		}
+
+		return this.saveMigrations.migrateWithReport(state);
+	}
+
+	// ============================================================================
+	// Save Slots
+	// ============================================================================
+
+	/**
+	 * Store the current game in a new named save slot.
+	 *
+	 * @param name - Player-facing slot name
+	 * @returns Slot metadata, or null if the slot could not be written
+	 */
+	createSaveSlot(name: string): SaveSlotInfo | null {
+		return this.save.createSlot(name, this.createSaveString(), this.getSlotDetails());
+	}
+
+	/**
+	 * Overwrite an existing save slot with the current game.
+	 *
+	 * @param slotId - Slot ID
+	 * @returns Whether the slot was updated
+	 */
+	saveToSlot(slotId: string): boolean {
+		return this.save.updateSlot(slotId, this.createSaveString(), this.getSlotDetails());
+	}
+
+	/**
+	 * List all save slots with phase, story path and play time.
+	 *
+	 * @returns Slot metadata, most recently saved first
+	 */
+	listSaveSlots(): SaveSlotInfo[] {
+		return this.save.listSlots();
+	}
+
+	/**
+	 * Switch to a save slot.
+	 * The slot replaces the current save (which is kept as backup) and the
+	 * page is reloaded so every manager starts from a clean state.
+	 *
+	 * @param slotId - Slot ID
+	 * @returns Promise that resolves to whether the slot was activated
+	 */
+	async loadSaveSlot(slotId: string): Promise<boolean> {
+		const data = this.save.loadSlot(slotId);
+		if (data === null) return false;
+
+		if (this.config.debug) {
+			console.log(`[Game] Activated save slot: ${slotId}`);
+		}
+
+		await this.activateSaveString(data);
+		return true;
+	}
+
+	/**
+	 * Copy a save slot.
+	 *
+	 * @param slotId - Slot ID to copy
+	 * @param name - Optional name of the copy
+	 * @returns Metadata of the new slot, or null if the source does not exist
+	 */
+	duplicateSaveSlot(slotId: string, name?: string): SaveSlotInfo | null {
+		return this.save.duplicateSlot(slotId, name);
+	}
+
+	/**
+	 * Delete a save slot.
+	 *
+	 * @param slotId - Slot ID
+	 * @returns Whether the slot was deleted
+	 */
+	deleteSaveSlot(slotId: string): boolean {
+		return this.save.deleteSlot(slotId);
+	}
+
+	// ============================================================================
+	// Save History
+	// ============================================================================
+
+	/**
+	 * Take a save history snapshot of the current game.
+	 * Phase entries and a periodic timer take snapshots automatically.
+	 *
+	 * @param reason - Why the snapshot is taken
+	 * @returns Snapshot metadata, or null if history is disabled
+	 */
+	takeSnapshot(reason: SnapshotReason = 'manual'): SaveSnapshotInfo | null {
+		if (!this.isRunning && !this.isPaused) return null;
+		if (this.savingSuspended) return null;
+		return this.save.createSnapshot(this.createSaveString(), reason, this.getSlotDetails());
+	}
+
+	/**
+	 * List save history snapshots, newest first.
+	 *
+	 * @returns Snapshot metadata
+	 */
+	listSnapshots(): SaveSnapshotInfo[] {
+		return this.save.listSnapshots();
+	}
+
+	/**
+	 * Roll back to a save history snapshot.
+	 * The snapshot replaces the current save (which is kept as backup) and
+	 * the page is reloaded.
+	 *
+	 * @param snapshotId - Snapshot ID
+	 * @returns Promise that resolves to whether the snapshot was restored
+	 */
+	async restoreSnapshot(snapshotId: string): Promise<boolean> {
+		const data = this.save.loadSnapshot(snapshotId);
+		if (data === null) return false;
+
+		if (this.config.debug) {
+			console.log(`[Game] Restoring snapshot: ${snapshotId}`);
+		}
+
+		await this.activateSaveString(data);
+		return true;
+	}
+
+	/**
+	 * Replace the current save with another save string and restart from it.
+	 * The replaced save is kept as backup. Pending writes are flushed before
+	 * the page reloads, so asynchronous backends do not drop them.
+	 *
+	 * @param data - Save string to activate
+	 */
+	private async activateSaveString(data: string): Promise<void> {
+		const storage = this.save.getStorage();
+		const { saveKey } = this.config;
+		const existingSave = storage.get(saveKey);
+		if (existingSave) {
+			storage.set(`${saveKey}_backup`, existingSave);
+		}
+		storage.set(saveKey, data);
+
+		// Prevent the unload/visibility save from overwriting the activated save
+		this.savingSuspended = true;
+		this.save.stopAutoSave();
+		await this.save.flush();
+		if (typeof window !== 'undefined') {
+			window.location.reload();
+		} else {
+			this.loadGame();
+			this.savingSuspended = false;
+		}
+	}
+
+	/**
+	 * Summarize the current game for slot metadata.
+	 *
+	 * @returns Phase, story path and total play time
+	 */
+	private getSlotDetails(): SaveSlotDetails {
+		return {
+			phase: this.phases.currentPhase,
+			storyPath: this.narrative.currentPath,
+			playTime: this.eternalState.totalPlayTime
+		};
+	}
+
+	/**
+	 * Serialize the complete game state into a stored save string
+	 * (compact format, see SaveCodec).
+	 *
+	 * @returns JSON save string with format metadata
+	 */
+	private createSaveString(): string {
+		return encodeStoredSave(this.serialize(), COMPACT_SAVE_FORMAT, GAME_SAVE_PACKER);
+	}
+
+	/**
+	 * Wrap the serialized game state with save format metadata for exports.
+	 * Export strings carry the plain state; the envelope compresses them.
+	 *
+	 * @returns Save data
+	 */
+	private createSaveData(): SaveEnvelopeData<SerializedGameSave> {
+		return {
+			state: this.serialize(),
+			formatVersion: PLAIN_SAVE_FORMAT,
+			lastModified: Date.now()
+		};
 	}
 
 	/**
@@ -652,9 +1234,10 @@ export class Game {
 	 *
 	 * @returns Serialized game state
 	 */
-	private serialize(): object {
+	private serialize(): SerializedGameSave {
 		const upgradeState = this.upgrades.serialize();
 		return {
+			saveVersion: CURRENT_GAME_SAVE_VERSION,
 			version: this.config.version,
 			savedAt: Date.now(),
 			run: {
@@ -671,9 +1254,14 @@ export class Game {
 				secrets: this.secrets.serialize(),
 				totalPlayTime: this.eternalState.totalPlayTime,
 				totalRebirths: this.eternalState.totalRebirths,
+				highestPhaseEver: this.eternalState.highestPhaseEver,
+				modifiedSave: this.eternalState.modifiedSave,
+				automation: this.automation.serialize(),
 				statistics: {
-					totalClicks: this.eternalState.statistics.totalClicks
-				}
+					totalClicks: this.eternalState.statistics.totalClicks,
+					fastestRunTime: this.eternalState.statistics.fastestRunTime
+				},
+				preferences: this.save.getPreferences()
 			},
 			// Full upgrade state for complete restoration
 			upgradeState
@@ -681,89 +1269,57 @@ export class Game {
 	}
 
 	/**
-	 * Deserialize and restore game state.
+	 * Sanitize a Game save and migrate it to the current Game save version.
 	 *
-	 * @param data - Serialized game state
-	 */
-	private deserialize(data: unknown): void {
-		const save = data as {
-			version?: string;
-			savedAt?: number;
-			run?: {
-				runTime?: number;
-				resources?: unknown;
-				producers?: unknown;
-				upgrades?: Record<string, number>;
-				phases?: unknown;
-				narrative?: unknown;
-			};
-			eternal?: {
-				upgrades?: Record<string, number>;
-				achievements?: unknown;
-				secrets?: unknown;
-				totalPlayTime?: number;
-				totalRebirths?: number;
-				statistics?: {
-					totalClicks?: number;
-				};
-			};
-			upgradeState?: {
-				runLevels?: Record<string, number>;
-				eternalLevels?: Record<string, number>;
-				secretLevels?: Record<string, number>;
-				unlocked?: string[];
-				totalSpent?: Record<string, string>;
-				firstPurchaseTimes?: Record<string, number>;
-			};
-		};
-
-		if (!save || typeof save !== 'object') return;
+	 * @param data - Game save as read from storage or an export
+	 * @returns Complete Game save at the current version
+	 */
+	private migrateGameSave(data: object): SerializedGameSave {
+		return this.saveMigrations.migrate(sanitizeGameSave(data as Partial<SerializedGameSave>));
+	}
 
+	/**
+	 * Deserialize and restore game state.
+	 *
+	 * @param save - Sanitized Game save at the current version
+	 */
+	private deserialize(save: SerializedGameSave): void {
 		// Restore run state
-		if (save.run) {
-			if (typeof save.run.runTime === 'number') {
-				this.runTime = save.run.runTime;
-			}
-			if (save.run.resources) {
-				this.resources.deserialize(save.run.resources);
-			}
-			if (save.run.producers) {
-				this.producers.deserialize(save.run.producers);
-			}
-			if (save.run.phases) {
-				this.phases.deserialize(save.run.phases);
-				// Sync resource manager with restored phase
-				this.resources.setPhase(this.phases.currentPhase);
-			}
-			if (save.run.narrative) {
-				this.narrative.deserialize(save.run.narrative);
-			}
+		this.runTime = save.run.runTime;
+		if (save.run.resources) {
+			this.resources.deserialize(save.run.resources);
+		}
+		if (save.run.producers) {
+			this.producers.deserialize(save.run.producers);
+		}
+		if (save.run.phases) {
+			this.phases.deserialize(save.run.phases);
+			// Sync resource manager with restored phase
+			this.resources.setPhase(this.phases.currentPhase);
+		}
+		if (save.run.narrative) {
+			this.narrative.deserialize(save.run.narrative);
 		}
 
 		// Restore eternal state
-		if (save.eternal) {
-			if (typeof save.eternal.totalPlayTime === 'number') {
-				this.eternalState.totalPlayTime = save.eternal.totalPlayTime;
-			}
-			if (typeof save.eternal.totalRebirths === 'number') {
-				this.eternalState.totalRebirths = save.eternal.totalRebirths;
-			}
-			if (save.eternal.statistics) {
-				if (typeof save.eternal.statistics.totalClicks === 'number') {
-					this.eternalState.statistics.totalClicks = save.eternal.statistics.totalClicks;
-				}
-			}
+		this.eternalState.totalPlayTime = save.eternal.totalPlayTime;
+		this.eternalState.totalRebirths = save.eternal.totalRebirths;
+		this.eternalState.highestPhaseEver = save.eternal.highestPhaseEver;
+		this.eternalState.statistics.totalClicks = save.eternal.statistics.totalClicks;
+		if (save.eternal.statistics.fastestRunTime !== null) {
+			this.eternalState.statistics.fastestRunTime = save.eternal.statistics.fastestRunTime;
 		}
+		this.save.setPreferences(save.eternal.preferences);
 
 		// Restore upgrade state
 		if (save.upgradeState) {
 			// Use full upgrade state if available
 			this.upgrades.deserialize(save.upgradeState);
-		} else if (save.run?.upgrades || save.eternal?.upgrades) {
+		} else if (Object.keys(save.run.upgrades).length > 0 || Object.keys(save.eternal.upgrades).length > 0) {
 			// Fall back to separate run/eternal for backwards compatibility
 			this.upgrades.deserialize({
-				runLevels: save.run?.upgrades || {},
-				eternalLevels: save.eternal?.upgrades || {},
+				runLevels: save.run.upgrades,
+				eternalLevels: save.eternal.upgrades,
 				secretLevels: {},
 				unlocked: [],
 				totalSpent: {},
@@ -772,14 +1328,25 @@ export class Game {
 		}
 
 		// Restore achievement state (persists across rebirths)
-		if (save.eternal?.achievements) {
+		if (save.eternal.achievements) {
 			this.achievements.deserialize(save.eternal.achievements);
 		}
 
 		// Restore secret state (persists across rebirths)
-		if (save.eternal?.secrets) {
+		if (save.eternal.secrets) {
 			this.secrets.deserialize(save.eternal.secrets);
 		}
+
+		// Restore autobuyer settings (persist across rebirths)
+		if (save.eternal.automation) {
+			this.automation.deserialize(save.eternal.automation);
+		}
+
+		// Modified saves stay marked; mirror the mark as a secret flag
+		if (save.eternal.modifiedSave) {
+			this.eternalState.modifiedSave = true;
+			this.secrets.setFlag(MODIFIED_SAVE_FLAG, true);
+		}
 	}
 
 	// ============================================================================
@@ -791,6 +1358,7 @@ export class Game {
 	 */
 	private onVisibilityHidden(): void {
 		this.saveGame();
+		void this.save.flush();
 
 		this.events.emit('game_paused', {
 			reason: 'visibility',
@@ -798,43 +1366,224 @@ export class Game {
 		});
 	}
 
+	/**
+	 * Called when the page is hidden for good (closed, reloaded or left).
+	 * Saves and starts writing pending saves to the storage backend.
+	 */
+	private onPageHide(): void {
+		this.saveGame();
+		void this.save.flush();
+	}
+
 	/**
 	 * Called when tab becomes visible.
+	 * The loop is held while the hidden time is simulated, so live ticks do
+	 * not run between offline chunks.
 	 *
 	 * @param offlineTime - Time spent hidden in seconds
 	 */
-	private onVisibilityVisible(offlineTime: number): void {
-		// Get last played timestamp from save state
-		const saveState = this.save.getState();
-		if (saveState) {
-			const lastPlayedAt = saveState.meta.lastPlayed;
-			const currentProductionRate = this.resources.getProductionRate('pixels');
+	private async onVisibilityVisible(offlineTime: number): Promise<void> {
+		// Simulate the time the tab was hidden
+		this.loop.pause();
+		try {
+			await this.catchUpOffline(Date.now() - offlineTime * 1000);
+		} finally {
+			this.loop.resume();
+		}
 
-			// Calculate offline progress using the OfflineProgress utility
-			const offlineResult = calculateOfflineProgressWithBreakdown(lastPlayedAt, currentProductionRate);
+		this.events.emit('game_resumed', {
+			pauseDuration: offlineTime * 1000,
+			timestamp: Date.now()
+		});
+	}
 
-			if (offlineResult.rewards.dreamPixels.gt(0)) {
-				// Apply offline gains
-				this.resources.add('pixels', offlineResult.rewards.dreamPixels);
+	// ============================================================================
+	// Offline Progress
+	// ============================================================================
 
-				// Emit offline gains event
-				this.events.emit('offline_gains_calculated', {
-					offlineTime: offlineResult.rewards.timeAway,
-					cappedTime: offlineResult.rewards.cappedTime,
-					efficiency: offlineResult.rewards.efficiency,
-					gains: new Map([['pixels', offlineResult.rewards.dreamPixels]])
-				});
+	/**
+	 * Get the current offline config.
+	 * Base values come from the game config (the offline balancing by default);
+	 * eternal upgrades raise the cap ('offline_cap' multipliers) and efficiency
+	 * ('offline' multipliers and 'speed' effects affecting 'offline'), and the
+	 * offlineProgress preference can turn offline progress off.
+	 *
+	 * @returns Offline config
+	 */
+	getOfflineConfig(): OfflineProgressConfig {
+		const preferences = this.getPreferences();
+		const { baseOfflineTime, maxOfflineTime, offlineEfficiency } = this.config;
+
+		return createOfflineConfig(
+			{
+				efficiency: this.upgrades.getMultiplier('offline', false).toNumber(),
+				cap: this.upgrades.getMultiplier('offline_cap', false).toNumber(),
+				speed: this.upgrades.getSpeedMultiplier('offline').toNumber(),
+				enabled: preferences.offlineProgress ?? true
+			},
+			{
+				...DEFAULT_OFFLINE_CONFIG,
+				cappedHours:
+					baseOfflineTime === undefined ? DEFAULT_OFFLINE_CONFIG.cappedHours : baseOfflineTime / 3600,
+				efficiency: offlineEfficiency ?? DEFAULT_OFFLINE_CONFIG.efficiency
+			},
+			maxOfflineTime === undefined ? MAX_OFFLINE_HOURS : maxOfflineTime / 3600
+		);
+	}
 
-				if (this.config.debug) {
-					console.log(`[Game] Offline progress: ${offlineResult.breakdown.timeAwayFormatted} -> ${offlineResult.rewards.dreamPixels.toString()} pixels`);
+	/**
+	 * Simulate time spent away from the game.
+	 * The capped offline time, scaled by offline efficiency, runs in coarse
+	 * chunks through the simulation step: producers, upgrades, auto-clicks,
+	 * unlocks, achievements and phase conditions all progress as if played,
+	 * but run time, total play time and the tick count do not. Phase
+	 * transitions complete instantly, and the story of an entered phase is
+	 * loaded before the next chunk runs.
+	 *
+	 * @param lastPlayedAt - Unix timestamp (milliseconds) when the player left
+	 * @returns Promise that resolves to the resources gained (empty if no time counted)
+	 */
+	async catchUpOffline(lastPlayedAt: number): Promise<Map<string, Decimal>> {
+		const gains = new Map<string, Decimal>();
+		const { timeAway, cappedTime, efficiency } = calculateOfflineDuration(
+			lastPlayedAt,
+			this.getOfflineConfig()
+		);
+		const simulatedTime = cappedTime * efficiency;
+		if (simulatedTime <= 0) return gains;
+
+		const before = new Map(
+			Object.keys(RESOURCE_DEFINITIONS).map((id) => [id, this.resources.getAmount(id)])
+		);
+
+		// Collect what was unlocked or earned while away
+		const unlocks: OfflineUnlock[] = [];
+		const achievements: OfflineUnlock[] = [];
+		const unsubscribe = this.events.on('*_unlocked', ({ event, data }) => {
+			switch (event) {
+				case 'resource_unlocked':
+					unlocks.push({ type: 'resource', id: data.resourceId, name: data.name });
+					break;
+				case 'producer_unlocked':
+					unlocks.push({ type: 'producer', id: data.producerId, name: data.name });
+					break;
+				case 'upgrade_unlocked':
+					unlocks.push({ type: 'upgrade', id: data.upgradeId, name: data.name });
+					break;
+				case 'phase_unlocked':
+					unlocks.push({ type: 'phase', id: data.phaseId, name: data.phaseName });
+					break;
+				case 'achievement_unlocked':
+					achievements.push({ type: 'achievement', id: data.achievementId, name: data.name });
+					break;
+			}
+		});
+
+		const instantTransitions = this.phases.hasInstantTransitions();
+		this.phases.setInstantTransitions(true);
+		try {
+			for (const chunk of splitOfflineTime(simulatedTime)) {
+				const storyLoading = this.storyLoading;
+				this.step(chunk);
+
+				// Entering a phase starts loading its story; wait for it so the
+				// story of the new phase can trigger in the next chunk
+				if (this.storyLoading !== storyLoading) {
+					await this.whenStoryLoaded();
 				}
 			}
+		} finally {
+			this.phases.setInstantTransitions(instantTransitions);
+			unsubscribe();
 		}
 
-		this.events.emit('game_resumed', {
-			pauseDuration: offlineTime * 1000,
-			timestamp: Date.now()
-		});
+		for (const [id, amount] of before) {
+			const gained = this.resources.getAmount(id).sub(amount);
+			if (gained.gt(0)) gains.set(id, gained);
+		}
+
+		if (gains.size > 0 || unlocks.length > 0 || achievements.length > 0) {
+			const report: OfflineGainsCalculatedEvent = {
+				offlineTime: timeAway,
+				cappedTime,
+				efficiency,
+				gains,
+				unlocks,
+				achievements
+			};
+			this.offlineReport = report;
+			this.events.emit('offline_gains_calculated', report);
+		}
+
+		if (this.config.debug) {
+			console.log(`[Game] Offline progress: simulated ${simulatedTime.toFixed(0)}s of ${timeAway}s away`);
+		}
+
+		return gains;
+	}
+
+	/**
+	 * Skip time forward as if played (developer tool).
+	 * Unlike catchUpOffline(), the full time counts, without cap, efficiency
+	 * or offline report; it runs in the same coarse chunks through the
+	 * regular tick, so every system and event behaves as in play.
+	 *
+	 * @param seconds - Time to skip
+	 * @returns Resources gained
+	 */
+	timeWarp(seconds: number): Map<string, Decimal> {
+		const gains = new Map<string, Decimal>();
+		if (!(seconds > 0)) return gains;
+
+		const before = new Map(
+			Object.keys(RESOURCE_DEFINITIONS).map((id) => [id, this.resources.getAmount(id)])
+		);
+
+		for (const chunk of splitOfflineTime(seconds)) {
+			this.tick(chunk);
+		}
+
+		for (const [id, amount] of before) {
+			const gained = this.resources.getAmount(id).sub(amount);
+			if (gained.gt(0)) gains.set(id, gained);
+		}
+
+		if (this.config.debug) {
+			console.log(`[Game] Time warp: ${seconds}s`);
+		}
+
+		return gains;
+	}
+
+	/**
+	 * Dismiss the offline summary.
+	 */
+	dismissOfflineReport(): void {
+		this.offlineReport = null;
+	}
+
+	// ============================================================================
+	// Preferences
+	// ============================================================================
+
+	/**
+	 * Get the player preferences.
+	 *
+	 * @returns Current preferences
+	 */
+	getPreferences(): PlayerPreferences {
+		return this.save.getPreferences();
+	}
+
+	/**
+	 * Change a player preference and save it.
+	 *
+	 * @param key - Preference to change
+	 * @param value - New value
+	 */
+	setPreference<K extends keyof PlayerPreferences>(key: K, value: PlayerPreferences[K]): void {
+		this.save.setPreference(key, value);
+		this.saveGame();
 	}
 
 	// ============================================================================
@@ -849,6 +1598,18 @@ export class Game {
 	 * @returns Total amount generated
 	 */
 	click(resourceId: string = 'pixels'): Decimal {
+		const amount = this.applyClick(resourceId);
+		this.events.emit('player_input', { type: 'click', resourceId });
+		return amount;
+	}
+
+	/**
+	 * Generate the click amount for a player click or an auto-click.
+	 *
+	 * @param resourceId - Resource to click
+	 * @returns Total amount generated
+	 */
+	private applyClick(resourceId: string): Decimal {
 		// Track total clicks in eternal state
 		this.eternalState.statistics.totalClicks++;
 
@@ -876,11 +1637,18 @@ export class Game {
 
 	/**
 	 * Hard reset - delete save and reload.
+	 *
+	 * @returns Promise that resolves once the save is deleted
 	 */
-	hardReset(): void {
+	async hardReset(): Promise<void> {
 		this.deleteSave();
-		// In browser, reload the page
+
+		// In browser, reload the page once the deletion reached the storage
+		// backend; the unload save must not write the game back
 		if (typeof window !== 'undefined') {
+			this.savingSuspended = true;
+			this.save.stopAutoSave();
+			await this.save.flush();
 			window.location.reload();
 		}
 	}
@@ -892,6 +1660,10 @@ export class Game {
 	 * @returns Promise that resolves to true if transition succeeded
 	 */
 	async advancePhase(): Promise<boolean> {
+		if (this.phases.canAdvance && !this.phases.isTransitioning) {
+			this.events.emit('player_input', { type: 'advance_phase' });
+		}
+
 		const success = await this.phases.advancePhase();
 
 		if (success) {
@@ -902,10 +1674,196 @@ export class Game {
 		return success;
 	}
 
+	// ============================================================================
+	// Rebirth
+	// ============================================================================
+
+	/**
+	 * Check if a rebirth is currently possible.
+	 * Requires reaching MIN_REBIRTH_PHASE and a non-zero Primordial Pixel reward.
+	 *
+	 * @returns Whether rebirth() would succeed
+	 */
+	canRebirth(): boolean {
+		return this.previewRebirth().canRebirth;
+	}
+
+	/**
+	 * Perform a rebirth (prestige).
+	 * Converts run progress into Primordial Pixels, resets all run state and
+	 * re-applies eternal starting bonuses for the new run.
+	 *
+	 * @returns Whether the rebirth was performed
+	 */
+	rebirth(): boolean {
+		const preview = this.previewRebirth();
+		if (!preview.canRebirth) {
+			console.warn('[Game] Rebirth requirements not met');
+			return false;
+		}
+
+		const reward = preview.pp;
+		const runTime = this.runTime;
+		const gains = new Map<string, Decimal>([[ResourceId.PRIMORDIAL_PIXELS, reward]]);
+
+		this.events.emit('rebirth_started', {
+			rebirthCount: this.eternalState.totalRebirths,
+			expectedGains: gains
+		});
+
+		// Backup the finished run before wiping it
+		this.saveGame();
+
+		// Update eternal statistics
+		this.eternalState.totalRebirths++;
+		this.eternalState.highestPhaseEver = Math.max(
+			this.eternalState.highestPhaseEver,
+			this.phases.currentPhase
+		);
+		const fastest = this.eternalState.statistics.fastestRunTime;
+		if (fastest === null || runTime < fastest) {
+			this.eternalState.statistics.fastestRunTime = runTime;
+		}
+
+		// Reset all managers. Resources go first so the starting bonuses
+		// applied by UpgradeManager.reset() are not wiped afterwards.
+		this.resources.reset();
+		this.producers.reset();
+		this.upgrades.reset();
+		this.phases.reset();
+		this.narrative.reset();
+		this.achievements.reset();
+		this.secrets.reset();
+		this.automation.reset();
+
+		this.runTime = 0;
+		this.autoClickAccumulator = 0;
+		this.resources.setPhase(this.phases.currentPhase);
+
+		// Grant the eternal currency (survives ResourceManager.reset())
+		this.resources.addFromRebirth(ResourceId.PRIMORDIAL_PIXELS, reward);
+
+		this.events.emit('rebirth_completed', {
+			rebirthCount: this.eternalState.totalRebirths,
+			runTime,
+			gains
+		});
+
+		this.saveGame();
+
+		this.events.emit('player_input', { type: 'rebirth' });
+
+		if (this.config.debug) {
+			console.log(`[Game] Rebirth #${this.eternalState.totalRebirths}: +${reward.toString()} PP`);
+		}
+
+		return true;
+	}
+
+	/**
+	 * Preview the rebirth reward without committing.
+	 * Pure query: does not modify any state, safe to call from UI every frame.
+	 *
+	 * @returns Primordial Pixels that would be awarded, factor breakdown and next-PP estimate
+	 */
+	previewRebirth(): RebirthPreview {
+		return calculateRebirthPreview({
+			highestPhase: this.phases.currentPhase,
+			pixelsGenerated: this.resources.getTotalGenerated(ResourceId.PIXELS),
+			endingsUnlocked: this.narrative.endings.length,
+			achievementPP: this.achievements.totalPPEarned,
+			pixelRate: this.resources.getProductionRate(ResourceId.PIXELS)
+		});
+	}
+
+	// ============================================================================
+	// Game Speed
+	// ============================================================================
+
+	/**
+	 * Effective game speed: the debug speed times 'speed' upgrade effects
+	 * affecting 'all'. The game loop runs this many seconds of game time per
+	 * real second, in sub-steps of at most maxDeltaTime.
+	 */
+	get speed(): number {
+		return this.debugSpeed * this.upgrades.getSpeedMultiplier('all').toNumber();
+	}
+
+	/**
+	 * Set the speed multiplier for testing (e.g. 10-1000x for late phases).
+	 *
+	 * @param speed - Multiplier (must be positive and finite)
+	 * @returns Whether the speed was applied
+	 */
+	setSpeed(speed: number): boolean {
+		if (!(speed > 0) || !Number.isFinite(speed)) {
+			console.warn(`[Game] Invalid speed: ${speed}`);
+			return false;
+		}
+
+		this.debugSpeed = speed;
+		this.loop.setSpeed(this.speed);
+
+		if (this.config.debug) {
+			console.log(`[Game] Speed set to ${speed}x`);
+		}
+
+		return true;
+	}
+
+	// ============================================================================
+	// Condition Debugging
+	// ============================================================================
+
+	/**
+	 * Explain everything still waiting on a condition: the next phase
+	 * transition, story events, achievements and secrets.
+	 * Each entry carries the evaluated condition tree, so unmet leaves show
+	 * what is missing and by how much.
+	 *
+	 * @returns Pending content with evaluated conditions
+	 */
+	explainPendingConditions(): PendingCondition[] {
+		const transition = this.phases.explainTransition();
+
+		return [
+			...(transition ? [transition] : []),
+			...this.narrative.explainPendingEvents(),
+			...this.achievements.explainPending(),
+			...this.secrets.explainPending()
+		];
+	}
+
 	// ============================================================================
 	// Phase Context Provider
 	// ============================================================================
 
+	/**
+	 * Create the shared game state view for condition evaluation.
+	 * Spread into every manager context so any condition works in any content.
+	 *
+	 * @returns EvaluationContext object
+	 */
+	private createEvaluationContext(): EvaluationContext {
+		return {
+			getResourceAmount: (resourceId: string) => this.resources.getAmount(resourceId),
+			getCurrentPhaseTime: () => this.phases.currentPhaseTime,
+			getChoiceValue: (choiceId: string) =>
+				this.phases.getChoice(choiceId) ?? this.narrative.getChoice(choiceId),
+			getCurrentPhase: () => this.phases.currentPhase,
+			isPhaseCompleted: (phaseNumber: number) => this.phases.isPhaseCompleted(phaseNumber),
+			getProducerCount: (producerId: string) => this.producers.getLevel(producerId),
+			hasUpgrade: (upgradeId: string) => this.upgrades.getLevel(upgradeId) > 0,
+			getUpgradeLevel: (upgradeId: string) => this.upgrades.getLevel(upgradeId),
+			hasAchievement: (achievementId: string) => this.achievements.hasAchievement(achievementId),
+			getFlag: (key: string) => this.secrets.getFlag(key) ?? this.narrative.getFlag(key),
+			getStat: (stat: string) => this.secrets.resolveStat(stat),
+			hasEnding: (endingId: string) => this.narrative.hasEnding(endingId as EndingId),
+			hasSecret: (secretId: string) => this.secrets.isDiscovered(secretId),
+			getRunTime: () => this.runTime
+		};
+	}
+
 	/**
 	 * Create the context object for UpgradeManager condition evaluation.
 	 * This connects the UpgradeManager to other managers for condition checks.
@@ -934,6 +1892,7 @@ export class Game {
 	 */
 	private createPhaseContext(): PhaseManagerContext {
 		return {
+			...this.createEvaluationContext(),
 			getResourceAmount: (resourceId: string) => {
 				return this.resources.getAmount(resourceId);
 			},
@@ -968,6 +1927,7 @@ export class Game {
 	 */
 	private createNarrativeContext(): NarrativeContext {
 		return {
+			...this.createEvaluationContext(),
 			getResourceAmount: (resourceId: string) => {
 				return this.resources.getAmount(resourceId);
 			},
@@ -1000,6 +1960,7 @@ export class Game {
 	 */
 	private createAchievementContext(): AchievementContext {
 		return {
+			...this.createEvaluationContext(),
 			getResourceAmount: (resourceId: string) => {
 				return this.resources.getAmount(resourceId);
 			},
@@ -1028,6 +1989,9 @@ export class Game {
 				return this.upgrades.getLevel(upgradeId);
 			},
 			getChoiceValue: (choiceId: string) => {
+				// Modified saves are exposed as a choice for achievement conditions
+				if (choiceId === MODIFIED_SAVE_FLAG) return this.eternalState.modifiedSave;
+
 				// First check current phase choices
 				const phaseChoice = this.phases.getChoice(choiceId);
 				if (phaseChoice !== undefined) return phaseChoice;
@@ -1043,7 +2007,7 @@ export class Game {
 			},
 			addPrimordialPixels: (amount: number) => {
 				// Add to eternal resources
-				this.resources.add('primordial', D(amount));
+				this.resources.add(ResourceId.PRIMORDIAL_PIXELS, D(amount));
 			},
 			applyUnlock: (unlockId: string) => {
 				// Apply various unlocks based on ID
@@ -1068,6 +2032,8 @@ export class Game {
 					if (this.config.debug) {
 						console.log(`[Game] Producer unlocked: ${producerId}`);
 					}
+				} else if (unlockId === AUTOBUYER_UNLOCK_ID) {
+					this.automation.unlock();
 				} else {
 					// Generic unlock - log for debugging
 					// Features are typically unlocked via upgrade effects, not directly
@@ -1087,6 +2053,7 @@ export class Game {
 	 */
 	private createSecretContext(): SecretContext {
 		return {
+			...this.createEvaluationContext(),
 			getResourceAmount: (resourceId: string) => {
 				return this.resources.getAmount(resourceId);
 			},
@@ -1144,7 +2111,7 @@ export class Game {
 				).length;
 			},
 			addPrimordialPixels: (amount: number) => {
-				this.resources.add('primordial', D(amount));
+				this.resources.add(ResourceId.PRIMORDIAL_PIXELS, D(amount));
 			},
 			applyUnlock: (unlockId: string) => {
 				// Reuse the same logic as AchievementContext
@@ -1157,6 +2124,8 @@ export class Game {
 				} else if (unlockId.startsWith('producer_')) {
 					const producerId = unlockId.replace('producer_', '');
 					this.producers.unlock(producerId);
+				} else if (unlockId === AUTOBUYER_UNLOCK_ID) {
+					this.automation.unlock();
 				}
 			},
 			setFlag: (flag: string, value: boolean | string) => {
@@ -1196,7 +2165,11 @@ export class Game {
 			if (newPhase < 20) {
 				phases.push(newPhase + 1);
 			}
-			await registerStoryForPhases(this.narrative, phases);
+			const loading = registerStoryForPhases(this.narrative, phases);
+			this.storyLoading = Promise.all([this.storyLoading, loading.catch(() => undefined)]).then(
+				() => undefined
+			);
+			await loading;
 		});
 	}
 
@@ -1218,6 +2191,20 @@ export class Game {
 		return this.status === 'paused';
 	}
 
+	/**
+	 * Get the total number of rebirths performed.
+	 */
+	get totalRebirths(): number {
+		return this.eternalState.totalRebirths;
+	}
+
+	/**
+	 * Whether this game was ever imported from a modified save.
+	 */
+	get isModifiedSave(): boolean {
+		return this.eternalState.modifiedSave;
+	}
+
 	/**
 	 * Get loop statistics for debugging.
 	 */
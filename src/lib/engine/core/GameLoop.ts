@@ -7,6 +7,8 @@
  * - Delta time calculation for frame-independent updates
  * - Pause/resume functionality
  * - Tab visibility handling (pause when hidden, resume when visible)
+ * - Fixed-step mode for headless simulations (see advance())
+ * - Speed multiplier: scaled time runs in sub-steps of at most maxDeltaTime
  *
  * @module engine/core/GameLoop
  */
@@ -41,6 +43,8 @@ export interface LoopStats {
 	isRunning: boolean;
 	/** Whether loop is paused */
 	isPaused: boolean;
+	/** Current speed multiplier */
+	speed: number;
 }
 
 /**
@@ -116,6 +120,16 @@ export class GameLoop {
 	 */
 	private readonly MAX_TICK_SAMPLES = 60;
 
+	/**
+	 * Simulated time not yet consumed by a fixed step (fixed mode).
+	 */
+	private pendingTime: number = 0;
+
+	/**
+	 * Speed multiplier applied to elapsed time.
+	 */
+	private speed: number;
+
 	/**
 	 * Timestamp when the loop was paused.
 	 */
@@ -154,6 +168,7 @@ export class GameLoop {
 	) {
 		this.tickCallback = tickCallback;
 		this.config = { ...DEFAULT_CONFIG, ...config };
+		this.speed = this.config.speed;
 
 		// Bind methods for event listeners
 		this.boundLoop = this.loop.bind(this);
@@ -170,9 +185,13 @@ export class GameLoop {
 		}
 
 		this.state = 'running';
-		this.lastTime = performance.now();
-		this.scheduleNextTick();
-		this.setupVisibilityHandler();
+
+		// In fixed mode ticks only happen through advance()
+		if (this.config.loopMode === 'realtime') {
+			this.lastTime = performance.now();
+			this.scheduleNextTick();
+			this.setupVisibilityHandler();
+		}
 
 		if (this.config.debug) {
 			console.log('[GameLoop] Started');
@@ -190,6 +209,7 @@ export class GameLoop {
 		this.tickCount = 0;
 		this.totalTime = 0;
 		this.tickTimes = [];
+		this.pendingTime = 0;
 
 		if (this.config.debug) {
 			console.log('[GameLoop] Stopped');
@@ -224,15 +244,88 @@ export class GameLoop {
 		}
 
 		this.state = 'running';
-		// Reset lastTime to prevent delta time spike
-		this.lastTime = performance.now();
-		this.scheduleNextTick();
+		if (this.config.loopMode === 'realtime') {
+			// Reset lastTime to prevent delta time spike
+			this.lastTime = performance.now();
+			this.scheduleNextTick();
+		}
 
 		if (this.config.debug) {
 			console.log('[GameLoop] Resumed');
 		}
 	}
 
+	/**
+	 * Advance simulated time in fixed steps of 1 / tickRate seconds.
+	 * Only available in fixed loop mode. Time that does not fill a whole
+	 * step is carried over to the next call, so advancing 1s ten times runs
+	 * exactly as many ticks as advancing 10s once. The speed multiplier
+	 * scales the advanced time. Errors thrown by the tick callback are not
+	 * caught.
+	 *
+	 * @param seconds - Simulated time to advance
+	 * @returns Number of ticks run
+	 *
+	 * @example
+	 * ```typescript
+	 * const loop = new GameLoop(tick, { loopMode: 'fixed', tickRate: 20 });
+	 * loop.start();
+	 * loop.advance(60); // 1200 ticks of 0.05s, as fast as the CPU allows
+	 * ```
+	 */
+	advance(seconds: number): number {
+		if (this.config.loopMode !== 'fixed') {
+			console.warn('[GameLoop] advance() requires fixed loop mode');
+			return 0;
+		}
+		if (this.state !== 'running' || !(seconds > 0)) {
+			return 0;
+		}
+
+		const stepSize = 1 / this.config.tickRate;
+		const available = this.pendingTime + seconds * this.speed;
+		// Tolerance keeps float error from dropping a step (e.g. 0.3 / 0.1)
+		const steps = Math.floor(available / stepSize + 1e-9);
+		this.pendingTime = Math.max(0, available - steps * stepSize);
+
+		// A tick may pause or stop the loop; remaining steps are dropped
+		let ticks = 0;
+		while (ticks < steps && this.state === 'running') {
+			ticks++;
+			this.tickCount++;
+			this.totalTime += stepSize;
+			this.tickCallback(stepSize);
+		}
+
+		return ticks;
+	}
+
+	/**
+	 * Set the speed multiplier.
+	 * At speed 10, one real second runs ten seconds of game time.
+	 *
+	 * @param speed - Multiplier (must be positive and finite)
+	 * @returns Whether the speed was applied
+	 */
+	setSpeed(speed: number): boolean {
+		if (!(speed > 0) || !Number.isFinite(speed)) {
+			console.warn(`[GameLoop] Invalid speed: ${speed}`);
+			return false;
+		}
+
+		this.speed = speed;
+		return true;
+	}
+
+	/**
+	 * Get the speed multiplier.
+	 *
+	 * @returns Current speed multiplier
+	 */
+	getSpeed(): number {
+		return this.speed;
+	}
+
 	/**
 	 * Check if the loop is currently running.
 	 *
@@ -276,7 +369,8 @@ export class GameLoop {
 			totalTicks: this.tickCount,
 			totalTime: this.totalTime,
 			isRunning: this.state === 'running',
-			isPaused: this.state === 'paused'
+			isPaused: this.state === 'paused',
+			speed: this.speed
 		};
 	}
 
@@ -335,14 +429,24 @@ export class GameLoop {
 
 		// Update timing state
 		this.lastTime = currentTime;
-		this.tickCount++;
-		this.totalTime += deltaTime;
-
-		// Execute tick callback
-		try {
-			this.tickCallback(deltaTime);
-		} catch (error) {
-			console.error('[GameLoop] Error in tick callback:', error);
+
+		// Execute tick callback once per sub-step of the scaled time
+		const steps = splitDeltaTime(
+			deltaTime * this.speed,
+			this.config.maxDeltaTime,
+			this.config.maxSubSteps
+		);
+		for (const step of steps) {
+			if (this.state !== 'running') break;
+
+			this.tickCount++;
+			this.totalTime += step;
+
+			try {
+				this.tickCallback(step);
+			} catch (error) {
+				console.error('[GameLoop] Error in tick callback:', error);
+			}
 		}
 
 		// Schedule next tick
@@ -455,3 +559,24 @@ export class GameLoop {
 		this.config = { ...this.config, ...config };
 	}
 }
+
+/**
+ * Split scaled frame time into equal sub-steps of at most maxStep seconds.
+ * No time is dropped: past maxSteps the steps grow instead.
+ *
+ * @param deltaTime - Time to split (seconds)
+ * @param maxStep - Largest stable step (seconds)
+ * @param maxSteps - Maximum number of steps
+ * @returns Step sizes, summing to deltaTime
+ *
+ * @example
+ * splitDeltaTime(0.05, 0.1, 100); // [0.05]
+ * splitDeltaTime(0.5, 0.1, 100); // [0.1, 0.1, 0.1, 0.1, 0.1]
+ */
+export function splitDeltaTime(deltaTime: number, maxStep: number, maxSteps: number): number[] {
+	if (!(deltaTime > 0)) return [];
+
+	// Tolerance keeps float error from adding a tiny extra step
+	const count = Math.min(Math.max(1, Math.ceil(deltaTime / maxStep - 1e-9)), Math.max(1, maxSteps));
+	return new Array<number>(count).fill(deltaTime / count);
+}
@@ -0,0 +1,422 @@
+/**
+ * @fileoverview Input recording and deterministic replay.
+ * A ReplayRecorder captures the save at the start of a session and every
+ * player input (see the `player_input` event) with the tick it happened
+ * before. replaySession() loads the save into a fresh fixed-step game,
+ * feeds the inputs back at the same ticks and compares the final state
+ * with the recorded one, which makes bug reports and balance sessions
+ * reproducible.
+ *
+ * Replays are exact for sessions recorded in fixed loop mode (e.g. a
+ * GameSimulation) that start right after init. Realtime sessions tick with
+ * wall-clock delta times, so their replay only approximates them, and state
+ * that saves do not keep (an open dialogue, auto-click timers) is lost when
+ * recording starts mid-session. Wall-clock timestamps (unlock dates, save
+ * times) are never compared.
+ *
+ * @module engine/core/Replay
+ */
+
+import { Game } from './Game.svelte';
+import { DevConsole } from './DevConsole';
+import { MemoryStorageAdapter } from './SaveStorage';
+import { decodeSave } from './SaveEnvelope';
+import type { PlayerInputEvent } from '../models/events';
+import { DEFAULT_CONFIG, type GameConfig } from '../models/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Format identifier of replay files */
+export const REPLAY_FORMAT = 'pixelsingularity-replay';
+
+/** Current replay file version */
+export const REPLAY_VERSION = 1;
+
+/**
+ * A player input and the tick it happened before.
+ */
+export interface RecordedInput {
+	/** Ticks since the recording started */
+	tick: number;
+	/** The input */
+	input: PlayerInputEvent;
+}
+
+/**
+ * Game state compared between a recording and its replay.
+ */
+export interface ReplayCheckpoint {
+	/** Ticks since the recording started */
+	ticks: number;
+	/** Current phase */
+	phase: number;
+	/** Time in the current run (seconds) */
+	runTime: number;
+	/** Resource amounts by resource ID */
+	resources: Record<string, string>;
+	/** Producer levels by producer ID */
+	producers: Record<string, number>;
+	/** Upgrade levels by upgrade ID (all categories) */
+	upgrades: Record<string, number>;
+	/** Unlocked achievement IDs, sorted */
+	achievements: string[];
+}
+
+/**
+ * A recorded session.
+ */
+export interface ReplayFile {
+	/** Always REPLAY_FORMAT */
+	format: typeof REPLAY_FORMAT;
+	/** Replay file version */
+	version: number;
+	/** Game version that recorded the session */
+	gameVersion: string;
+	/** Loop mode of the recorded game (only 'fixed' replays exactly) */
+	loopMode: GameConfig['loopMode'];
+	/** Ticks per second of the recorded game */
+	tickRate: number;
+	/** When the recording started (timestamp ms) */
+	recordedAt: number;
+	/** Save string (see Game.exportSave()) at the start of the recording */
+	initialSave: string;
+	/** Inputs in the order they happened */
+	inputs: RecordedInput[];
+	/** State at the end of the recording */
+	final: ReplayCheckpoint;
+}
+
+/**
+ * Result of a replay.
+ */
+export interface ReplayResult {
+	/** Whether the replay ended in the recorded state */
+	matched: boolean;
+	/** Human-readable differences to the recorded state */
+	differences: string[];
+	/** State at the end of the replay */
+	checkpoint: ReplayCheckpoint;
+	/** The replayed game (stopped) */
+	game: Game;
+}
+
+// ============================================================================
+// Checkpoints
+// ============================================================================
+
+/**
+ * Capture the compared state of a game.
+ *
+ * @param game - Game to capture
+ * @param ticks - Ticks since the recording started
+ * @returns Checkpoint
+ */
+export function createReplayCheckpoint(game: Game, ticks: number): ReplayCheckpoint {
+	const upgrades = game.upgrades.serialize();
+	return {
+		ticks,
+		phase: game.currentPhase,
+		runTime: game.runTime,
+		resources: game.resources.serialize().amounts,
+		producers: game.producers.serialize().levels,
+		upgrades: { ...upgrades.runLevels, ...upgrades.eternalLevels, ...upgrades.secretLevels },
+		achievements: [...game.achievements.unlockedIds].sort()
+	};
+}
+
+/**
+ * List the differences between two checkpoints.
+ *
+ * @param expected - Recorded checkpoint
+ * @param actual - Replayed checkpoint
+ * @returns Differences, empty if the checkpoints match
+ */
+export function compareReplayCheckpoints(expected: ReplayCheckpoint, actual: ReplayCheckpoint): string[] {
+	const differences: string[] = [];
+
+	for (const key of ['ticks', 'phase', 'runTime'] as const) {
+		if (expected[key] !== actual[key]) {
+			differences.push(`${key}: expected ${expected[key]}, got ${actual[key]}`);
+		}
+	}
+
+	const compareRecords = (
+		label: string,
+		expectedRecord: Record<string, string | number>,
+		actualRecord: Record<string, string | number>
+	): void => {
+		const ids = new Set([...Object.keys(expectedRecord), ...Object.keys(actualRecord)]);
+		for (const id of ids) {
+			if (expectedRecord[id] !== actualRecord[id]) {
+				differences.push(
+					`${label} ${id}: expected ${expectedRecord[id] ?? 'none'}, got ${actualRecord[id] ?? 'none'}`
+				);
+			}
+		}
+	};
+
+	compareRecords('resource', expected.resources, actual.resources);
+	compareRecords('producer', expected.producers, actual.producers);
+	compareRecords('upgrade', expected.upgrades, actual.upgrades);
+
+	const expectedAchievements = expected.achievements.join(',');
+	const actualAchievements = actual.achievements.join(',');
+	if (expectedAchievements !== actualAchievements) {
+		differences.push(`achievements: expected [${expectedAchievements}], got [${actualAchievements}]`);
+	}
+
+	return differences;
+}
+
+// ============================================================================
+// ReplayRecorder
+// ============================================================================
+
+/**
+ * Records the player inputs of a game.
+ *
+ * @example
+ * ```typescript
+ * const recorder = new ReplayRecorder(sim.game);
+ * recorder.start();
+ * await sim.run({ seconds: 600, policy });
+ * const replay = recorder.stop()!;
+ *
+ * const result = await replaySession(replay);
+ * expect(result.matched).toBe(true);
+ * ```
+ */
+export class ReplayRecorder {
+	private readonly game: Game;
+	private inputs: RecordedInput[] = [];
+	private initialSave: string | null = null;
+	private recordedAt = 0;
+	private startTick = 0;
+	private unsubscribe: (() => void) | null = null;
+
+	/**
+	 * Create a recorder for a game.
+	 *
+	 * @param game - Game to record
+	 */
+	constructor(game: Game) {
+		this.game = game;
+	}
+
+	/**
+	 * Whether a recording is running.
+	 */
+	get isRecording(): boolean {
+		return this.unsubscribe !== null;
+	}
+
+	/**
+	 * Start recording from the current state.
+	 *
+	 * @returns Whether the recording started
+	 */
+	start(): boolean {
+		if (this.isRecording) {
+			console.warn('[Replay] Already recording');
+			return false;
+		}
+
+		const initialSave = this.game.exportSave();
+		if (initialSave === null) return false;
+
+		this.initialSave = initialSave;
+		this.inputs = [];
+		this.recordedAt = Date.now();
+		this.startTick = this.game.tickCount;
+		this.unsubscribe = this.game.events.on('player_input', (input) => {
+			this.inputs.push({ tick: this.game.tickCount - this.startTick, input: { ...input } });
+		});
+
+		if (this.game.getConfig().loopMode !== 'fixed') {
+			console.warn('[Replay] Realtime sessions replay only approximately');
+		}
+		return true;
+	}
+
+	/**
+	 * Stop recording.
+	 *
+	 * @returns The recorded session, or null if no recording was running
+	 */
+	stop(): ReplayFile | null {
+		if (!this.unsubscribe || this.initialSave === null) return null;
+
+		this.unsubscribe();
+		this.unsubscribe = null;
+
+		const config = this.game.getConfig();
+		return {
+			format: REPLAY_FORMAT,
+			version: REPLAY_VERSION,
+			gameVersion: config.version,
+			loopMode: config.loopMode,
+			tickRate: config.tickRate,
+			recordedAt: this.recordedAt,
+			initialSave: this.initialSave,
+			inputs: this.inputs,
+			final: createReplayCheckpoint(this.game, this.game.tickCount - this.startTick)
+		};
+	}
+}
+
+// ============================================================================
+// Replay
+// ============================================================================
+
+/**
+ * Replay a recorded session in a new fixed-step game.
+ *
+ * @param replay - Recorded session
+ * @returns Whether the replay reproduced the session, with the replayed game
+ */
+export async function replaySession(replay: ReplayFile): Promise<ReplayResult> {
+	const game = await createReplayGame(replay);
+	const devConsole = new DevConsole(game);
+	const stepSize = 1 / replay.tickRate;
+	const startTick = game.tickCount;
+
+	// One tick per step, whatever the speed multiplier of the game
+	const stepTo = async (tick: number): Promise<void> => {
+		while (game.tickCount - startTick < tick && game.status === 'running') {
+			const phase = game.currentPhase;
+			game.advance(stepSize / game.getLoopStats().speed);
+			if (game.currentPhase !== phase) {
+				await game.whenStoryLoaded();
+			}
+		}
+	};
+
+	for (const { tick, input } of replay.inputs) {
+		await stepTo(tick);
+		await applyInput(game, devConsole, input);
+		await game.whenStoryLoaded();
+	}
+	await stepTo(replay.final.ticks);
+
+	game.stop();
+	const checkpoint = createReplayCheckpoint(game, game.tickCount - startTick);
+	const differences = compareReplayCheckpoints(replay.final, checkpoint);
+	return { matched: differences.length === 0, differences, checkpoint, game };
+}
+
+/**
+ * Create a fixed-step game that starts from the initial save of a replay.
+ */
+async function createReplayGame(replay: ReplayFile): Promise<Game> {
+	const storage = new MemoryStorageAdapter();
+
+	const decoded = decodeSave<object>(replay.initialSave);
+	if (decoded.success && decoded.data) {
+		// Without a save time there is no offline catch-up on init
+		const { lastModified: _lastModified, ...saveData } = decoded.data;
+		storage.set(DEFAULT_CONFIG.saveKey, JSON.stringify(saveData));
+	} else {
+		console.warn(`[Replay] Initial save not loaded: ${decoded.error}`);
+	}
+
+	const game = new Game({
+		storage,
+		loopMode: 'fixed',
+		tickRate: replay.tickRate,
+		snapshotLimit: 0,
+		snapshotInterval: 0
+	});
+	await game.init();
+	await game.whenStoryLoaded();
+	return game;
+}
+
+/**
+ * Feed a recorded input to a game.
+ */
+async function applyInput(game: Game, devConsole: DevConsole, input: PlayerInputEvent): Promise<void> {
+	switch (input.type) {
+		case 'click':
+			game.click(input.resourceId);
+			break;
+		case 'buy_producer':
+			game.producers.buy(input.producerId, input.amount);
+			break;
+		case 'buy_upgrade':
+			game.upgrades.purchase(input.upgradeId, { amount: input.amount });
+			break;
+		case 'skip_typing':
+			game.narrative.skipTyping();
+			break;
+		case 'advance_dialogue':
+			game.narrative.advanceDialogue();
+			break;
+		case 'choice':
+			game.narrative.makeChoice(input.choiceId);
+			break;
+		case 'advance_phase':
+			await game.advancePhase();
+			break;
+		case 'rebirth':
+			game.rebirth();
+			break;
+		case 'automation_rule':
+			game.automation.setRule(input.targetType, input.targetId, input.changes);
+			break;
+		case 'command':
+			devConsole.execute(input.command);
+			break;
+	}
+}
+
+// ============================================================================
+// Files
+// ============================================================================
+
+/**
+ * Serialize a replay as JSON.
+ *
+ * @param replay - Recorded session
+ * @returns JSON string
+ */
+export function serializeReplay(replay: ReplayFile): string {
+	return JSON.stringify(replay);
+}
+
+/**
+ * Read a replay serialized with serializeReplay().
+ *
+ * @param text - JSON string
+ * @returns The replay, or null if the text is not a supported replay
+ */
+export function parseReplay(text: string): ReplayFile | null {
+	let data: Partial<ReplayFile>;
+	try {
+		data = JSON.parse(text);
+	} catch {
+		console.warn('[Replay] Replay is not valid JSON');
+		return null;
+	}
+
+	if (data?.format !== REPLAY_FORMAT) {
+		console.warn('[Replay] Not a replay file');
+		return null;
+	}
+	if (typeof data.version !== 'number' || data.version > REPLAY_VERSION) {
+		console.warn(`[Replay] Unsupported replay version: ${data.version}`);
+		return null;
+	}
+	if (
+		typeof data.initialSave !== 'string' ||
+		typeof data.tickRate !== 'number' ||
+		!Array.isArray(data.inputs) ||
+		!data.final
+	) {
+		console.warn('[Replay] Replay is incomplete');
+		return null;
+	}
+
+	return data as ReplayFile;
+}
@@ -0,0 +1,570 @@
+/**
+ * @fileoverview Compact storage encoding for SaveManager and Game saves.
+ * Late-game saves repeat the same IDs (story events, upgrades, achievements)
+ * and long Decimal strings many times. The compact format shrinks them by:
+ *
+ * - Dictionary-compressed IDs: every ID is stored once in a dictionary and
+ *   referenced by index everywhere else
+ * - Decimal packing: plain numbers below ~9e15, [mantissa, exponent] pairs
+ *   above, strings only for values beyond that range
+ * - Deflate-style compression: LZ77 followed by Huffman coding
+ *
+ * The state is packed by a StatePacker before compression. SaveManager
+ * states use the field-by-field SAVE_MANAGER_PACKER; Game saves use the
+ * structure-preserving GAME_SAVE_PACKER, which dictionary-compresses every
+ * string of arbitrary JSON.
+ *
+ * Stored save formats:
+ * - PLAIN_SAVE_FORMAT (1): `{ state, formatVersion, lastModified }` JSON
+ * - COMPACT_SAVE_FORMAT (2): `{ packed, formatVersion, lastModified }` JSON,
+ *   where `packed` is the Base64 of the compressed packed state
+ *
+ * @module engine/core/SaveCodec
+ */
+
+import type {
+	SerializedGameState,
+	SerializedRunState,
+	SerializedEternalState,
+	SaveMeta,
+	PlayerPreferences
+} from '../models/types';
+import { D, Decimal } from '../utils/decimal';
+import {
+	base64ToBytes,
+	bytesToBase64,
+	compress,
+	decodeUtf8,
+	decompress,
+	encodeUtf8,
+	huffmanDecode,
+	huffmanEncode
+} from '../utils/encoding';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Stored save format with the plain JSON game state.
+ */
+export const PLAIN_SAVE_FORMAT = 1;
+
+/**
+ * Stored save format with the compact encoding.
+ */
+export const COMPACT_SAVE_FORMAT = 2;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Packed Decimal: number (layer 0), [mantissa, exponent] (layer 1) or the
+ * original string (anything larger or invalid).
+ */
+export type PackedDecimal = number | [number, number] | string;
+
+/**
+ * Packed record: dictionary indices of the keys and the matching values.
+ */
+export type PackedRecord<V> = [number[], V[]];
+
+/**
+ * Packed run state.
+ */
+export interface PackedRunState {
+	/** resources */
+	res: PackedRecord<PackedDecimal>;
+	/** productionRates */
+	rat: PackedRecord<PackedDecimal>;
+	/** purchasedUpgrades */
+	pu: number[];
+	/** upgradeLevels */
+	ul: PackedRecord<number>;
+	/** currentPhase */
+	cp: number;
+	/** highestPhase */
+	hp: number;
+	/** runTime */
+	rt: number;
+	/** triggeredStoryEvents */
+	se: number[];
+	/** storyChoices (values are dictionary indices) */
+	sc: PackedRecord<number>;
+	/** unlockedResources */
+	ur: number[];
+	/** unlockedUpgrades */
+	uu: number[];
+}
+
+/**
+ * Packed eternal state.
+ */
+export interface PackedEternalState {
+	/** totalRebirths */
+	rb: number;
+	/** totalPlayTime */
+	pt: number;
+	/** eternalResources */
+	er: PackedRecord<PackedDecimal>;
+	/** eternalUpgrades */
+	eu: number[];
+	/** achievements */
+	ac: number[];
+	/** permanentStoryFlags */
+	sf: number[];
+	/** permanentChoices (values are dictionary indices) */
+	pc: PackedRecord<number>;
+	/** statistics: [totalPixelsGenerated, totalClicks, fastestPhaseTimes, fastestRunTime,
+	 *  totalUpgradesPurchased, totalStoryEventsTriggered, firstPlayDate, lastPlayDate] */
+	st: [
+		PackedDecimal,
+		number,
+		Record<number, number>,
+		number | null,
+		number,
+		number,
+		number,
+		number
+	];
+	/** highestPhaseEver */
+	hp: number;
+	/** discoveredSecrets */
+	ds: number[];
+	/** preferences */
+	pr: PlayerPreferences;
+	/** modifiedSave (omitted when absent) */
+	ms?: boolean;
+}
+
+/**
+ * Arbitrary JSON in the compact encoding: every object key and string value
+ * is replaced by the Base36 index of the string in the dictionary.
+ */
+export interface PackedJson {
+	/** String dictionary */
+	d: string[];
+	/** Value with dictionary references */
+	v: unknown;
+}
+
+/**
+ * Converts a state to and from its packed representation.
+ */
+export interface StatePacker<T> {
+	/** Pack a state (the result is JSON-serialized) */
+	pack(state: T): unknown;
+	/** Unpack a parsed packed state */
+	unpack(packed: unknown): T;
+}
+
+/**
+ * Game state in the compact encoding (before compression).
+ */
+export interface PackedGameState {
+	/** ID dictionary */
+	d: string[];
+	/** Run state */
+	r: PackedRunState;
+	/** Eternal state */
+	e: PackedEternalState;
+	/** Save metadata (kept as-is) */
+	m: SaveMeta;
+}
+
+// ============================================================================
+// Decimal Packing
+// ============================================================================
+
+/**
+ * Pack a serialized Decimal.
+ * Layer 0 values are exact; layer 1 values keep double precision in the
+ * mantissa.
+ *
+ * @param value - Decimal string
+ * @returns Packed Decimal
+ */
+export function packDecimal(value: string): PackedDecimal {
+	const decimal = D(value);
+	if (!Number.isFinite(decimal.mag)) {
+		return value;
+	}
+	if (decimal.layer === 0) {
+		return decimal.sign * decimal.mag;
+	}
+	if (decimal.layer === 1) {
+		return [decimal.mantissa, decimal.exponent];
+	}
+	return value;
+}
+
+/**
+ * Unpack a Decimal packed by packDecimal().
+ *
+ * @param packed - Packed Decimal
+ * @returns Decimal string
+ */
+export function unpackDecimal(packed: PackedDecimal): string {
+	if (typeof packed === 'number') {
+		return D(packed).toString();
+	}
+	if (Array.isArray(packed)) {
+		return Decimal.fromMantissaExponent(packed[0], packed[1]).toString();
+	}
+	return packed;
+}
+
+// ============================================================================
+// State Packing
+// ============================================================================
+
+/**
+ * Pack a serialized game state into the compact representation.
+ *
+ * @param state - Serialized game state
+ * @returns Packed game state
+ */
+export function packGameState(state: SerializedGameState): PackedGameState {
+	const ids: string[] = [];
+	const indices = new Map<string, number>();
+
+	const ref = (id: string): number => {
+		let index = indices.get(id);
+		if (index === undefined) {
+			index = ids.length;
+			ids.push(id);
+			indices.set(id, index);
+		}
+		return index;
+	};
+	const refs = (list: string[]): number[] => list.map(ref);
+	const record = <V, P>(source: Record<string, V>, pack: (value: V) => P): PackedRecord<P> => {
+		const entries = Object.entries(source);
+		return [entries.map(([key]) => ref(key)), entries.map(([, value]) => pack(value))];
+	};
+	const same = <V>(value: V): V => value;
+
+	const { run, eternal } = state;
+	const stats = eternal.statistics;
+
+	const packedEternal: PackedEternalState = {
+		rb: eternal.totalRebirths,
+		pt: eternal.totalPlayTime,
+		er: record(eternal.eternalResources, packDecimal),
+		eu: refs(eternal.eternalUpgrades),
+		ac: refs(eternal.achievements),
+		sf: refs(eternal.permanentStoryFlags),
+		pc: record(eternal.permanentChoices, ref),
+		st: [
+			packDecimal(stats.totalPixelsGenerated),
+			stats.totalClicks,
+			stats.fastestPhaseTimes,
+			stats.fastestRunTime,
+			stats.totalUpgradesPurchased,
+			stats.totalStoryEventsTriggered,
+			stats.firstPlayDate,
+			stats.lastPlayDate
+		],
+		hp: eternal.highestPhaseEver,
+		ds: refs(eternal.discoveredSecrets),
+		pr: eternal.preferences
+	};
+	if (eternal.modifiedSave !== undefined) {
+		packedEternal.ms = eternal.modifiedSave;
+	}
+
+	return {
+		r: {
+			res: record(run.resources, packDecimal),
+			rat: record(run.productionRates, packDecimal),
+			pu: refs(run.purchasedUpgrades),
+			ul: record(run.upgradeLevels, same),
+			cp: run.currentPhase,
+			hp: run.highestPhase,
+			rt: run.runTime,
+			se: refs(run.triggeredStoryEvents),
+			sc: record(run.storyChoices, ref),
+			ur: refs(run.unlockedResources),
+			uu: refs(run.unlockedUpgrades)
+		},
+		e: packedEternal,
+		m: state.meta,
+		d: ids
+	};
+}
+
+/**
+ * Unpack a game state packed by packGameState().
+ *
+ * @param packed - Packed game state
+ * @returns Serialized game state
+ * @throws If a dictionary index is out of range
+ */
+export function unpackGameState(packed: PackedGameState): SerializedGameState {
+	const ids = packed.d;
+
+	const id = (index: number): string => {
+		const value = ids[index];
+		if (value === undefined) {
+			throw new Error(`Unknown dictionary index ${index}`);
+		}
+		return value;
+	};
+	const list = (indices: number[]): string[] => indices.map(id);
+	const record = <P, V>([keys, values]: PackedRecord<P>, unpack: (value: P) => V): Record<string, V> => {
+		const result: Record<string, V> = {};
+		keys.forEach((key, i) => {
+			result[id(key)] = unpack(values[i]);
+		});
+		return result;
+	};
+	const same = <V>(value: V): V => value;
+
+	const { r, e } = packed;
+	const [
+		totalPixelsGenerated,
+		totalClicks,
+		fastestPhaseTimes,
+		fastestRunTime,
+		totalUpgradesPurchased,
+		totalStoryEventsTriggered,
+		firstPlayDate,
+		lastPlayDate
+	] = e.st;
+
+	const run: SerializedRunState = {
+		resources: record(r.res, unpackDecimal),
+		productionRates: record(r.rat, unpackDecimal),
+		purchasedUpgrades: list(r.pu),
+		upgradeLevels: record(r.ul, same),
+		currentPhase: r.cp,
+		highestPhase: r.hp,
+		runTime: r.rt,
+		triggeredStoryEvents: list(r.se),
+		storyChoices: record(r.sc, id),
+		unlockedResources: list(r.ur),
+		unlockedUpgrades: list(r.uu)
+	};
+
+	const eternal: SerializedEternalState = {
+		totalRebirths: e.rb,
+		totalPlayTime: e.pt,
+		eternalResources: record(e.er, unpackDecimal),
+		eternalUpgrades: list(e.eu),
+		achievements: list(e.ac),
+		permanentStoryFlags: list(e.sf),
+		permanentChoices: record(e.pc, id),
+		statistics: {
+			totalPixelsGenerated: unpackDecimal(totalPixelsGenerated),
+			totalClicks,
+			fastestPhaseTimes,
+			fastestRunTime,
+			totalUpgradesPurchased,
+			totalStoryEventsTriggered,
+			firstPlayDate,
+			lastPlayDate
+		},
+		highestPhaseEver: e.hp,
+		discoveredSecrets: list(e.ds),
+		preferences: e.pr
+	};
+	if (e.ms !== undefined) {
+		eternal.modifiedSave = e.ms;
+	}
+
+	return { run, eternal, meta: packed.m };
+}
+
+// ============================================================================
+// JSON Packing
+// ============================================================================
+
+/**
+ * Pack arbitrary JSON by moving every string into a dictionary.
+ * Numbers, booleans, null and the structure are kept as-is; since every
+ * string is replaced, any string in the packed value is a reference.
+ *
+ * @param value - JSON-compatible value
+ * @returns Packed JSON
+ */
+export function packJson(value: unknown): PackedJson {
+	const strings: string[] = [];
+	const indices = new Map<string, string>();
+
+	const ref = (text: string): string => {
+		let index = indices.get(text);
+		if (index === undefined) {
+			index = strings.length.toString(36);
+			strings.push(text);
+			indices.set(text, index);
+		}
+		return index;
+	};
+	const pack = (item: unknown): unknown => {
+		if (typeof item === 'string') return ref(item);
+		if (Array.isArray(item)) return item.map(pack);
+		if (item !== null && typeof item === 'object') {
+			const packed: Record<string, unknown> = {};
+			for (const [key, child] of Object.entries(item)) {
+				if (child !== undefined) packed[ref(key)] = pack(child);
+			}
+			return packed;
+		}
+		return item;
+	};
+
+	// Round-trip through JSON first so toJSON() and undefined behave as in JSON.stringify()
+	const v = pack(JSON.parse(JSON.stringify(value ?? null)));
+	return { d: strings, v };
+}
+
+/**
+ * Unpack JSON packed by packJson().
+ *
+ * @param packed - Packed JSON
+ * @returns Original value
+ * @throws If a dictionary reference is out of range
+ */
+export function unpackJson(packed: PackedJson): unknown {
+	const strings = packed.d;
+
+	const text = (index: string): string => {
+		const value = strings[parseInt(index, 36)];
+		if (value === undefined) {
+			throw new Error(`Unknown dictionary reference ${index}`);
+		}
+		return value;
+	};
+	const unpack = (item: unknown): unknown => {
+		if (typeof item === 'string') return text(item);
+		if (Array.isArray(item)) return item.map(unpack);
+		if (item !== null && typeof item === 'object') {
+			const value: Record<string, unknown> = {};
+			for (const [key, child] of Object.entries(item)) {
+				value[text(key)] = unpack(child);
+			}
+			return value;
+		}
+		return item;
+	};
+
+	return unpack(packed.v);
+}
+
+// ============================================================================
+// Packers
+// ============================================================================
+
+/**
+ * Packer for SaveManager states.
+ */
+export const SAVE_MANAGER_PACKER: StatePacker<SerializedGameState> = {
+	pack: packGameState,
+	unpack: (packed) => unpackGameState(packed as PackedGameState)
+};
+
+/**
+ * Packer for Game saves (see Game.serialize()).
+ */
+export const GAME_SAVE_PACKER: StatePacker<unknown> = {
+	pack: packJson,
+	unpack: (packed) => unpackJson(packed as PackedJson)
+};
+
+// ============================================================================
+// Stored Saves
+// ============================================================================
+
+/**
+ * Encode a state with the compact encoding and compression.
+ *
+ * @param state - State to encode
+ * @param packer - Packer for the state (SaveManager states by default)
+ * @returns Base64 string
+ */
+export function encodeCompactState(state: SerializedGameState): string;
+export function encodeCompactState<T>(state: T, packer: StatePacker<T>): string;
+export function encodeCompactState<T>(
+	state: T,
+	packer: StatePacker<T> = SAVE_MANAGER_PACKER as unknown as StatePacker<T>
+): string {
+	const json = JSON.stringify(packer.pack(state));
+	return bytesToBase64(huffmanEncode(compress(encodeUtf8(json))));
+}
+
+/**
+ * Decode a state encoded by encodeCompactState().
+ *
+ * @param data - Base64 string
+ * @param packer - Packer the state was encoded with
+ * @returns Decoded state
+ * @throws If the data is damaged
+ */
+export function decodeCompactState(data: string): SerializedGameState;
+export function decodeCompactState<T>(data: string, packer: StatePacker<T>): T;
+export function decodeCompactState<T>(
+	data: string,
+	packer: StatePacker<T> = SAVE_MANAGER_PACKER as unknown as StatePacker<T>
+): T {
+	const json = decodeUtf8(decompress(huffmanDecode(base64ToBytes(data))));
+	return packer.unpack(JSON.parse(json));
+}
+
+/**
+ * Create the string stored for a save.
+ *
+ * @param state - State to store
+ * @param format - Stored save format
+ * @param packer - Packer for the compact format (SaveManager states by default)
+ * @returns JSON string for the storage backend
+ */
+export function encodeStoredSave(state: SerializedGameState, format?: number): string;
+export function encodeStoredSave<T>(state: T, format: number, packer: StatePacker<T>): string;
+export function encodeStoredSave<T>(
+	state: T,
+	format: number = COMPACT_SAVE_FORMAT,
+	packer: StatePacker<T> = SAVE_MANAGER_PACKER as unknown as StatePacker<T>
+): string {
+	if (format === PLAIN_SAVE_FORMAT) {
+		return JSON.stringify({ state, formatVersion: PLAIN_SAVE_FORMAT, lastModified: Date.now() });
+	}
+	return JSON.stringify({
+		packed: encodeCompactState(state, packer),
+		formatVersion: COMPACT_SAVE_FORMAT,
+		lastModified: Date.now()
+	});
+}
+
+/**
+ * Read a stored save in any supported format.
+ *
+ * @param saveString - String from the storage backend
+ * @param packer - Packer the compact format was written with
+ * @returns Stored state
+ * @throws If the save is malformed or damaged
+ */
+export function decodeStoredSave(saveString: string): SerializedGameState;
+export function decodeStoredSave<T>(saveString: string, packer: StatePacker<T>): T;
+export function decodeStoredSave<T>(
+	saveString: string,
+	packer: StatePacker<T> = SAVE_MANAGER_PACKER as unknown as StatePacker<T>
+): T {
+	const saveData = JSON.parse(saveString) as {
+		state?: T;
+		packed?: string;
+		formatVersion?: number;
+	};
+
+	if ((saveData.formatVersion ?? PLAIN_SAVE_FORMAT) >= COMPACT_SAVE_FORMAT) {
+		if (typeof saveData.packed !== 'string') {
+			throw new Error('Compact save has no packed state');
+		}
+		return decodeCompactState(saveData.packed, packer);
+	}
+
+	if (!saveData.state) {
+		throw new Error('Save has no state');
+	}
+	return saveData.state;
+}
@@ -0,0 +1,262 @@
+/**
+ * @fileoverview Versioned envelope for exported save strings.
+ * Wraps save data with an envelope version and a checksum of the game state
+ * so imports can detect saves that were edited or damaged after export.
+ *
+ * Export string layout (always Base64):
+ * - Uncompressed: UTF-8 JSON of the envelope
+ * - Compressed: COMPRESSED_MAGIC followed by the LZ77-compressed JSON
+ *
+ * Exports without an envelope (plain `{ state, formatVersion }` JSON from
+ * older versions) are still accepted, but cannot be verified.
+ *
+ * @module engine/core/SaveEnvelope
+ */
+
+import {
+	base64ToBytes,
+	bytesToBase64,
+	compress,
+	crc32,
+	decodeUtf8,
+	decompress,
+	encodeUtf8
+} from '../utils/encoding';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Current envelope version.
+ * Bump when the envelope layout (not the game state) changes.
+ */
+export const SAVE_ENVELOPE_VERSION = 1;
+
+/**
+ * Flag set on saves that were imported despite a checksum mismatch.
+ * Secrets can check it as a flag, achievements as a choice value.
+ */
+export const MODIFIED_SAVE_FLAG = 'modified_save';
+
+/**
+ * Leading bytes of a compressed export ("PSZ" + format byte).
+ */
+const COMPRESSED_MAGIC = [0x50, 0x53, 0x5a, 0x01];
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Compression applied to an exported save.
+ */
+export type SaveCompression = 'none' | 'lz77';
+
+/**
+ * Result of the checksum verification.
+ * - valid: checksum matches the state
+ * - mismatch: state was changed after export
+ * - unverified: legacy export without checksum
+ */
+export type SaveIntegrity = 'valid' | 'mismatch' | 'unverified';
+
+/**
+ * Save data carried by an envelope.
+ *
+ * @template T - Serialized game state type
+ */
+export interface SaveEnvelopeData<T = unknown> {
+	/** Serialized game state */
+	state: T;
+	/** Save format version for migrations */
+	formatVersion: number;
+	/** Last time this save was modified */
+	lastModified: number;
+}
+
+/**
+ * Envelope as stored in the export string.
+ */
+interface SaveEnvelope<T = unknown> extends SaveEnvelopeData<T> {
+	/** Envelope version */
+	envelope: number;
+	/** Compression applied to the export */
+	compression: SaveCompression;
+	/** CRC-32 of the JSON-encoded state */
+	checksum: string;
+}
+
+/**
+ * Options for encoding a save.
+ */
+export interface EncodeSaveOptions {
+	/** Compress the export (recommended for late-game saves) */
+	compress?: boolean;
+}
+
+/**
+ * Options for importing a save.
+ */
+export interface ImportSaveOptions {
+	/**
+	 * Import saves with a checksum mismatch instead of rejecting them.
+	 * Such saves are permanently marked as modified.
+	 */
+	allowModified?: boolean;
+}
+
+/**
+ * Result of decoding an export string.
+ *
+ * @template T - Serialized game state type
+ */
+export interface DecodedSave<T = unknown> {
+	/** Whether the string could be decoded into save data */
+	success: boolean;
+	/** Decoded save data (null on failure) */
+	data: SaveEnvelopeData<T> | null;
+	/** Checksum verification result */
+	integrity: SaveIntegrity;
+	/** Envelope version (null for legacy exports) */
+	envelopeVersion: number | null;
+	/** Compression the export used */
+	compression: SaveCompression;
+	/** Player-facing explanation of a failure or checksum mismatch */
+	error?: string;
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+/**
+ * Encode save data into a versioned, checksummed export string.
+ *
+ * @param data - Save data to export
+ * @param options - Encoding options
+ * @returns Base64 export string
+ *
+ * @example
+ * const exported = encodeSave({ state, formatVersion: 1, lastModified: Date.now() }, { compress: true });
+ */
+export function encodeSave<T>(data: SaveEnvelopeData<T>, options: EncodeSaveOptions = {}): string {
+	const compression: SaveCompression = options.compress ? 'lz77' : 'none';
+
+	const envelope: SaveEnvelope<T> = {
+		envelope: SAVE_ENVELOPE_VERSION,
+		compression,
+		checksum: checksumState(data.state),
+		formatVersion: data.formatVersion,
+		lastModified: data.lastModified,
+		state: data.state
+	};
+
+	const bytes = encodeUtf8(JSON.stringify(envelope));
+	if (compression === 'none') {
+		return bytesToBase64(bytes);
+	}
+
+	const packed = compress(bytes);
+	const output = new Uint8Array(COMPRESSED_MAGIC.length + packed.length);
+	output.set(COMPRESSED_MAGIC);
+	output.set(packed, COMPRESSED_MAGIC.length);
+	return bytesToBase64(output);
+}
+
+/**
+ * Decode an export string and verify its checksum.
+ * Never throws; failures are reported through `success` and `error`.
+ *
+ * @param saveString - Export string
+ * @returns Decoded save with integrity information
+ */
+export function decodeSave<T = unknown>(saveString: string): DecodedSave<T> {
+	const failure = (error: string, compression: SaveCompression = 'none'): DecodedSave<T> => ({
+		success: false,
+		data: null,
+		integrity: 'unverified',
+		envelopeVersion: null,
+		compression,
+		error
+	});
+
+	let bytes: Uint8Array;
+	try {
+		bytes = base64ToBytes(saveString);
+	} catch {
+		return failure('Save string is not valid Base64');
+	}
+
+	let compression: SaveCompression = 'none';
+	if (hasCompressedMagic(bytes)) {
+		compression = 'lz77';
+		try {
+			bytes = decompress(bytes.subarray(COMPRESSED_MAGIC.length));
+		} catch {
+			return failure('Compressed save data is damaged', compression);
+		}
+	}
+
+	let parsed: Partial<SaveEnvelope<T>>;
+	try {
+		parsed = JSON.parse(decodeUtf8(bytes));
+	} catch {
+		return failure('Save data is not valid JSON', compression);
+	}
+
+	if (!parsed || typeof parsed !== 'object' || !parsed.state || typeof parsed.state !== 'object') {
+		return failure('Save data contains no game state', compression);
+	}
+
+	const data: SaveEnvelopeData<T> = {
+		state: parsed.state,
+		formatVersion: typeof parsed.formatVersion === 'number' ? parsed.formatVersion : 1,
+		lastModified: typeof parsed.lastModified === 'number' ? parsed.lastModified : Date.now()
+	};
+
+	// Legacy export from before the envelope existed
+	if (typeof parsed.envelope !== 'number') {
+		return { success: true, data, integrity: 'unverified', envelopeVersion: null, compression };
+	}
+
+	if (parsed.envelope > SAVE_ENVELOPE_VERSION) {
+		return failure(
+			`Save was exported by a newer game version (envelope v${parsed.envelope}, ` +
+				`supported v${SAVE_ENVELOPE_VERSION}). Update the game to import it.`,
+			compression
+		);
+	}
+
+	if (parsed.checksum !== checksumState(parsed.state)) {
+		return {
+			success: true,
+			data,
+			integrity: 'mismatch',
+			envelopeVersion: parsed.envelope,
+			compression,
+			error: 'Checksum mismatch: the save was edited or damaged after it was exported'
+		};
+	}
+
+	return { success: true, data, integrity: 'valid', envelopeVersion: parsed.envelope, compression };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Checksum of the JSON-encoded state.
+ * JSON.stringify output is stable across a parse/stringify round trip.
+ */
+function checksumState(state: unknown): string {
+	return crc32(encodeUtf8(JSON.stringify(state)));
+}
+
+/**
+ * Whether bytes start with the compressed export marker.
+ */
+function hasCompressedMagic(bytes: Uint8Array): boolean {
+	return COMPRESSED_MAGIC.every((byte, index) => bytes[index] === byte);
+}
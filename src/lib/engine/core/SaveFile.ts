@@ -0,0 +1,230 @@
+/**
+ * @fileoverview File-based save export and import.
+ * Saves are downloaded as `.pixelsave` files containing the export string
+ * (see SaveEnvelope), and can be read back from a file picker or a
+ * drag-and-drop. Before an import overwrites the current game, both saves
+ * are summarized so the player can compare them.
+ *
+ * @module engine/core/SaveFile
+ */
+
+import type { SerializedGameState, SerializedGameSave } from '../models/types';
+import type { SaveIntegrity } from './SaveEnvelope';
+import { ResourceId } from '../models/resources';
+import { getUnlockedEndings } from '../data/endings';
+import { D, type Decimal } from '../utils/decimal';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * File extension of downloaded saves.
+ */
+export const SAVE_FILE_EXTENSION = '.pixelsave';
+
+/**
+ * MIME type of downloaded saves (the content is a Base64 export string).
+ */
+export const SAVE_FILE_MIME_TYPE = 'text/plain';
+
+/**
+ * Largest file accepted for import (late-game exports are far smaller).
+ */
+export const MAX_SAVE_FILE_SIZE = 5 * 1024 * 1024;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Player-facing summary of a save.
+ */
+export interface SaveSummary {
+	/** Current phase */
+	phase: number;
+	/** Primordial pixels */
+	primordialPixels: Decimal;
+	/** Number of endings reached */
+	endings: number;
+	/** Total play time (seconds) */
+	playTime: number;
+}
+
+/**
+ * One row of a save comparison.
+ */
+export interface SaveSummaryDiff {
+	/** Compared field */
+	field: keyof SaveSummary;
+	/** Value of the current save */
+	current: SaveSummary[keyof SaveSummary];
+	/** Value of the incoming save */
+	incoming: SaveSummary[keyof SaveSummary];
+	/** How the incoming value compares to the current one */
+	direction: 'higher' | 'lower' | 'same';
+}
+
+/**
+ * Result of inspecting a save before importing it.
+ */
+export interface SaveImportPreview {
+	/** Whether the save could be read */
+	success: boolean;
+	/** Checksum verification result */
+	integrity: SaveIntegrity;
+	/** Summary of the incoming save (null on failure) */
+	incoming: SaveSummary | null;
+	/** Summary of the current save */
+	current: SaveSummary | null;
+	/** Field-by-field comparison (empty on failure) */
+	changes: SaveSummaryDiff[];
+	/** Player-facing explanation of a failure or checksum mismatch */
+	error?: string;
+}
+
+// ============================================================================
+// Summaries
+// ============================================================================
+
+/**
+ * Summarize a serialized game state.
+ *
+ * @param state - Sanitized game state
+ * @returns Save summary
+ */
+export function summarizeSave(state: SerializedGameState): SaveSummary {
+	return {
+		phase: state.run.currentPhase,
+		primordialPixels: D(state.eternal.eternalResources[ResourceId.PRIMORDIAL_PIXELS] ?? 0),
+		endings: getUnlockedEndings(new Set(state.eternal.achievements)).length,
+		playTime: state.eternal.totalPlayTime
+	};
+}
+
+/**
+ * Summarize a Game save.
+ * Endings count once whether they are recorded in the story state or
+ * through their achievement.
+ *
+ * @param save - Sanitized Game save
+ * @returns Save summary
+ */
+export function summarizeGameSave(save: SerializedGameSave): SaveSummary {
+	const field = (source: unknown, key: string): unknown =>
+		typeof source === 'object' && source !== null ? (source as Record<string, unknown>)[key] : undefined;
+	const list = (value: unknown): string[] =>
+		Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+	const phase = field(save.run.phases, 'currentPhase');
+	const amounts = field(save.run.resources, 'amounts');
+	const primordialPixels = field(amounts, ResourceId.PRIMORDIAL_PIXELS);
+
+	const endings = new Set(list(field(save.run.narrative, 'unlockedEndings')));
+	const achievements = new Set(list(field(save.eternal.achievements, 'unlocked')));
+	for (const ending of getUnlockedEndings(achievements)) {
+		endings.add(ending.id);
+	}
+
+	return {
+		phase: typeof phase === 'number' ? phase : 1,
+		primordialPixels: D(typeof primordialPixels === 'string' ? primordialPixels : 0),
+		endings: endings.size,
+		playTime: save.eternal.totalPlayTime
+	};
+}
+
+/**
+ * Compare an incoming save with the current one, field by field.
+ *
+ * @param incoming - Summary of the save being imported
+ * @param current - Summary of the current save
+ * @returns One row per summary field
+ */
+export function diffSaveSummaries(incoming: SaveSummary, current: SaveSummary): SaveSummaryDiff[] {
+	const fields: (keyof SaveSummary)[] = ['phase', 'primordialPixels', 'endings', 'playTime'];
+
+	return fields.map((field) => {
+		const comparison = D(incoming[field]).cmp(D(current[field]));
+		return {
+			field,
+			current: current[field],
+			incoming: incoming[field],
+			direction: comparison > 0 ? 'higher' : comparison < 0 ? 'lower' : 'same'
+		};
+	});
+}
+
+// ============================================================================
+// Files
+// ============================================================================
+
+/**
+ * Create the file name for a downloaded save.
+ *
+ * @param date - Export time
+ * @returns File name like `pixel-singularity-2025-01-31-1542.pixelsave`
+ */
+export function createSaveFileName(date: Date = new Date()): string {
+	const pad = (value: number): string => value.toString().padStart(2, '0');
+	const stamp =
+		`${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+		`-${pad(date.getHours())}${pad(date.getMinutes())}`;
+	return `pixel-singularity-${stamp}${SAVE_FILE_EXTENSION}`;
+}
+
+/**
+ * Whether a file looks like a downloaded save.
+ *
+ * @param file - Dropped or picked file
+ * @returns Whether the file has the save extension
+ */
+export function isSaveFile(file: Pick<File, 'name'>): boolean {
+	return file.name.toLowerCase().endsWith(SAVE_FILE_EXTENSION);
+}
+
+/**
+ * Offer a save string as a file download.
+ *
+ * @param saveString - Export string
+ * @param fileName - Name of the downloaded file
+ * @returns Whether the download was started
+ */
+export function downloadSaveFile(saveString: string, fileName: string = createSaveFileName()): boolean {
+	if (typeof document === 'undefined' || typeof URL.createObjectURL !== 'function') {
+		console.warn('[SaveFile] Downloads are not available in this environment');
+		return false;
+	}
+
+	const url = URL.createObjectURL(new Blob([saveString], { type: SAVE_FILE_MIME_TYPE }));
+	const link = document.createElement('a');
+	link.href = url;
+	link.download = fileName;
+	link.style.display = 'none';
+	document.body.appendChild(link);
+	link.click();
+	link.remove();
+	URL.revokeObjectURL(url);
+	return true;
+}
+
+/**
+ * Read the export string from a save file.
+ *
+ * @param file - Dropped or picked file
+ * @returns Export string
+ * @throws If the file is too large or cannot be read
+ */
+export async function readSaveFile(file: Blob): Promise<string> {
+	if (file.size > MAX_SAVE_FILE_SIZE) {
+		throw new Error('File is too large to be a save');
+	}
+
+	const text = await new Promise<string>((resolve, reject) => {
+		const reader = new FileReader();
+		reader.onload = () => resolve(String(reader.result ?? ''));
+		reader.onerror = () => reject(new Error('Save file could not be read'));
+		reader.readAsText(file);
+	});
+	return text.trim();
+}
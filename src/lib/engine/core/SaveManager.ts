@@ -5,12 +5,15 @@
  * Features:
  * - Two-layer architecture (Run State + Eternal State)
  * - Auto-save with configurable interval
- * - Manual save/load from localStorage
+ * - Manual save/load through a pluggable storage backend (localStorage by default)
+ * - Compact storage encoding (dictionary IDs, Decimal packing, compression)
  * - Dirty state tracking (only save when changes occurred)
  * - Save throttling (max 1x per second)
  * - Event integration for save lifecycle
- * - Import/Export functionality with Base64 encoding
+ * - Import/Export with a checksummed, optionally compressed envelope
  * - Save data migration and sanitization
+ * - Named save slots with metadata
+ * - Rolling save history (ring of timestamped snapshots)
  * - Hard reset with 24-hour emergency backup
  * - Emergency recovery system
  *
@@ -20,6 +23,8 @@
 import type { EventManager } from './EventManager';
 import type {
 	Manager,
+	SaveStorage,
+	SyncSaveStorage,
 	GameState,
 	SerializedGameState,
 	SerializedRunState,
@@ -32,11 +37,25 @@ import type {
 	SaveMeta
 } from '../models/types';
 import { D, type Decimal } from '../utils/decimal';
-import { MigrationRegistry, sanitizeSaveData } from './SaveMigration';
+import {
+	type MigrationRegistry,
+	type MigrationReport,
+	createMigrationRegistry,
+	sanitizeSaveData
+} from './SaveMigration';
+import { PLAIN_SAVE_FORMAT, decodeStoredSave, encodeStoredSave } from './SaveCodec';
+import { CachedSaveStorage, LocalStorageAdapter, toSyncStorage } from './SaveStorage';
+import {
+	encodeSave,
+	decodeSave,
+	type EncodeSaveOptions,
+	type ImportSaveOptions
+} from './SaveEnvelope';
 
 /**
- * Serialized save data structure.
- * This is what gets stored in localStorage.
+ * Serialized save data structure with the plain JSON state.
+ * Used by exports and by saves stored before the compact format
+ * (see SaveCodec).
  */
 export interface SerializedSaveData {
 	/** Serialized game state */
@@ -59,6 +78,49 @@ export interface SaveOptions {
 	skipThrottle?: boolean;
 }
 
+/**
+ * Summary of a save used to describe a slot without loading it.
+ */
+export interface SaveSlotDetails {
+	/** Current phase of the saved run */
+	phase: number;
+	/** Story path of the saved run */
+	storyPath: string;
+	/** Total play time in seconds */
+	playTime: number;
+}
+
+/**
+ * Metadata for a named save slot.
+ */
+export interface SaveSlotInfo extends SaveSlotDetails {
+	/** Unique slot identifier */
+	id: string;
+	/** Player-facing slot name */
+	name: string;
+	/** Save metadata (saveId equals the slot id) */
+	meta: SaveMeta;
+	/** Timestamp when the slot was created */
+	createdAt: number;
+}
+
+/**
+ * Why a save snapshot was taken.
+ */
+export type SnapshotReason = 'phase' | 'interval' | 'manual';
+
+/**
+ * Metadata for a save history snapshot.
+ */
+export interface SaveSnapshotInfo extends SaveSlotDetails {
+	/** Unique snapshot identifier */
+	id: string;
+	/** Timestamp when the snapshot was taken */
+	createdAt: number;
+	/** Why the snapshot was taken */
+	reason: SnapshotReason;
+}
+
 /**
  * Default player preferences.
  */
@@ -66,6 +128,7 @@ const DEFAULT_PREFERENCES: PlayerPreferences = {
 	notation: 'mixed',
 	animationSpeed: 1.0,
 	showOfflineProgress: true,
+	offlineProgress: true,
 	autoSaveInterval: 30,
 	pauseOnStory: false,
 	confirmRebirth: true,
@@ -118,25 +181,45 @@ export class SaveManager implements Manager {
 	private readonly events: EventManager;
 
 	/**
-	 * localStorage key for the main save.
+	 * Storage backend (synchronous view, see toSyncStorage).
+	 */
+	private readonly storage: SyncSaveStorage;
+
+	/**
+	 * Storage key for the main save.
 	 */
 	private readonly saveKey: string;
 
 	/**
-	 * localStorage key for the backup save.
+	 * Storage key for the backup save.
 	 */
 	private readonly backupKey: string;
 
 	/**
-	 * localStorage key for emergency backup (24-hour recovery after hard reset).
+	 * Storage key for emergency backup (24-hour recovery after hard reset).
 	 */
 	private readonly emergencyBackupKey: string;
 
 	/**
-	 * localStorage key for emergency backup timestamp.
+	 * Storage key for emergency backup timestamp.
 	 */
 	private readonly emergencyBackupTimestampKey: string;
 
+	/**
+	 * Storage key for the save slot index.
+	 */
+	private readonly slotIndexKey: string;
+
+	/**
+	 * Storage key for the snapshot index.
+	 */
+	private readonly snapshotIndexKey: string;
+
+	/**
+	 * Maximum number of snapshots kept (oldest are dropped first).
+	 */
+	private snapshotLimit: number = 10;
+
 	/**
 	 * Current game version for save migrations.
 	 */
@@ -186,24 +269,29 @@ export class SaveManager implements Manager {
 	 * Creates a new SaveManager instance.
 	 *
 	 * @param events - Event manager for emitting save events
-	 * @param saveKey - localStorage key for the main save
+	 * @param saveKey - Storage key for the main save
 	 * @param gameVersion - Current game version
 	 * @param autoSaveInterval - Auto-save interval in milliseconds
+	 * @param storage - Storage backend (defaults to localStorage)
 	 */
 	constructor(
 		events: EventManager,
 		saveKey: string = 'pixel_singularity_save',
 		gameVersion: string = '0.1.0',
-		autoSaveInterval: number = 30000
+		autoSaveInterval: number = 30000,
+		storage: SaveStorage = new LocalStorageAdapter()
 	) {
 		this.events = events;
+		this.storage = toSyncStorage(storage);
 		this.saveKey = saveKey;
 		this.backupKey = `${saveKey}_backup`;
+		this.slotIndexKey = `${saveKey}_slots`;
+		this.snapshotIndexKey = `${saveKey}_snapshots`;
 		this.emergencyBackupKey = 'pixelsingularity_emergency_backup';
 		this.emergencyBackupTimestampKey = 'pixelsingularity_emergency_backup_timestamp';
 		this.gameVersion = gameVersion;
 		this.autoSaveInterval = autoSaveInterval;
-		this.migrationRegistry = new MigrationRegistry(1); // Current format version is 1
+		this.migrationRegistry = createMigrationRegistry();
 	}
 
 	// ============================================================================
@@ -283,12 +371,46 @@ export class SaveManager implements Manager {
 		this.isDirty = false;
 	}
 
+	// ============================================================================
+	// Storage
+	// ============================================================================
+
+	/**
+	 * Prepare the storage backend.
+	 * Asynchronous backends are read into memory; must be awaited before
+	 * load() or hasSave() when using one. No-op for synchronous backends.
+	 */
+	async ready(): Promise<void> {
+		if (this.storage instanceof CachedSaveStorage) {
+			await this.storage.hydrate();
+		}
+	}
+
+	/**
+	 * Wait until all pending writes reached the storage backend.
+	 * No-op for synchronous backends.
+	 */
+	async flush(): Promise<void> {
+		if (this.storage instanceof CachedSaveStorage) {
+			await this.storage.flush();
+		}
+	}
+
+	/**
+	 * Get the (synchronous view of the) storage backend.
+	 *
+	 * @returns Storage used by this save manager
+	 */
+	getStorage(): SyncSaveStorage {
+		return this.storage;
+	}
+
 	// ============================================================================
 	// Save Operations
 	// ============================================================================
 
 	/**
-	 * Save the current game state to localStorage.
+	 * Save the current game state to storage.
 	 *
 	 * @param options - Save options
 	 * @returns Whether save was successful
@@ -320,25 +442,18 @@ export class SaveManager implements Manager {
 			// Serialize the state
 			const serialized = this.serializeGameState(this.state);
 
-			// Create save data wrapper
-			const saveData: SerializedSaveData = {
-				state: serialized,
-				formatVersion: 1,
-				lastModified: Date.now()
-			};
-
-			// Convert to JSON
-			const saveString = JSON.stringify(saveData);
+			// Encode with the compact storage format
+			const saveString = encodeStoredSave(serialized);
 			const saveSize = saveString.length;
 
 			// Create backup of previous save
-			const existingSave = localStorage.getItem(this.saveKey);
+			const existingSave = this.storage.get(this.saveKey);
 			if (existingSave) {
-				localStorage.setItem(this.backupKey, existingSave);
+				this.storage.set(this.backupKey, existingSave);
 			}
 
-			// Save to localStorage
-			localStorage.setItem(this.saveKey, saveString);
+			// Save to storage
+			this.storage.set(this.saveKey, saveString);
 
 			// Update tracking
 			this.lastSaveTime = Date.now();
@@ -363,22 +478,22 @@ export class SaveManager implements Manager {
 	}
 
 	/**
-	 * Load game state from localStorage.
+	 * Load game state from storage.
 	 *
 	 * @returns Loaded game state or null if no save exists
 	 */
 	load(): GameState | null {
 		try {
-			const saveString = localStorage.getItem(this.saveKey);
+			const saveString = this.storage.get(this.saveKey);
 			if (!saveString) {
 				return null;
 			}
 
-			// Parse save data
-			const saveData = JSON.parse(saveString) as SerializedSaveData;
+			// Parse save data (plain or compact format)
+			const saveState = decodeStoredSave(saveString);
 
 			// Sanitize data in case of corruption
-			const sanitized = sanitizeSaveData(saveData.state);
+			const sanitized = sanitizeSaveData(saveState);
 
 			// Apply migrations if formatVersion is older than current
 			const migrated = this.migrationRegistry.migrate(sanitized);
@@ -411,13 +526,12 @@ export class SaveManager implements Manager {
 	 */
 	loadBackup(): GameState | null {
 		try {
-			const backupString = localStorage.getItem(this.backupKey);
+			const backupString = this.storage.get(this.backupKey);
 			if (!backupString) {
 				return null;
 			}
 
-			const saveData = JSON.parse(backupString) as SerializedSaveData;
-			const state = this.deserializeGameState(saveData.state);
+			const state = this.deserializeGameState(decodeStoredSave(backupString));
 
 			this.state = state;
 			this.isDirty = false;
@@ -432,20 +546,20 @@ export class SaveManager implements Manager {
 	}
 
 	/**
-	 * Check if a save exists in localStorage.
+	 * Check if a save exists in storage.
 	 *
 	 * @returns Whether a save exists
 	 */
 	hasSave(): boolean {
-		return localStorage.getItem(this.saveKey) !== null;
+		return this.storage.get(this.saveKey) !== null;
 	}
 
 	/**
-	 * Delete the save from localStorage.
+	 * Delete the save from storage.
 	 */
 	deleteSave(): void {
-		localStorage.removeItem(this.saveKey);
-		localStorage.removeItem(this.backupKey);
+		this.storage.remove(this.saveKey);
+		this.storage.remove(this.backupKey);
 
 		// Reset to fresh state
 		this.state = this.createFreshState();
@@ -458,20 +572,23 @@ export class SaveManager implements Manager {
 
 	/**
 	 * Export the current save as a Base64-encoded string.
+	 * The save is wrapped in a versioned envelope with a checksum, so edits
+	 * made to the string are detected on import.
 	 * This can be used for backups or transferring saves between devices.
 	 *
+	 * @param options - Encoding options (e.g. compression)
 	 * @returns Base64-encoded save string, or null if no save exists
 	 *
 	 * @example
 	 * ```typescript
-	 * const saveString = saveManager.exportSave();
+	 * const saveString = saveManager.exportSave({ compress: true });
 	 * if (saveString) {
 	 *   // Copy to clipboard or download as file
 	 *   navigator.clipboard.writeText(saveString);
 	 * }
 	 * ```
 	 */
-	exportSave(): string | null {
+	exportSave(options: EncodeSaveOptions = {}): string | null {
 		try {
 			if (!this.state) {
 				console.warn('[SaveManager] No state to export');
@@ -485,16 +602,15 @@ export class SaveManager implements Manager {
 			// Serialize the state
 			const serialized = this.serializeGameState(this.state);
 
-			// Create save data wrapper
-			const saveData: SerializedSaveData = {
-				state: serialized,
-				formatVersion: 1,
-				lastModified: Date.now()
-			};
-
-			// Convert to JSON and encode to Base64
-			const json = JSON.stringify(saveData);
-			const base64 = btoa(json);
+			// Wrap in a checksummed envelope and encode to Base64
+			const base64 = encodeSave(
+				{
+					state: serialized,
+					formatVersion: PLAIN_SAVE_FORMAT,
+					lastModified: Date.now()
+				},
+				options
+			);
 
 			// Emit export event
 			this.events.emit('game_saved', {
@@ -513,9 +629,12 @@ export class SaveManager implements Manager {
 
 	/**
 	 * Import a save from a Base64-encoded string.
-	 * Validates and migrates the save data before loading.
+	 * Verifies the checksum, then validates and migrates the save data before
+	 * loading. Saves with a checksum mismatch are rejected unless
+	 * `allowModified` is set, in which case they are marked as modified.
 	 *
 	 * @param saveString - Base64-encoded save string
+	 * @param options - Import options
 	 * @returns Whether import was successful
 	 *
 	 * @example
@@ -528,43 +647,45 @@ export class SaveManager implements Manager {
 	 * }
 	 * ```
 	 */
-	importSave(saveString: string): boolean {
+	importSave(saveString: string, options: ImportSaveOptions = {}): boolean {
 		try {
-			// Decode from Base64
-			const json = atob(saveString);
+			// Decode and verify the envelope
+			const decoded = decodeSave<SerializedGameState>(saveString);
+			if (!decoded.success || !decoded.data) {
+				throw new Error(decoded.error);
+			}
+			if (decoded.integrity === 'mismatch' && !options.allowModified) {
+				console.error(`[SaveManager] Import rejected: ${decoded.error}`);
+				return false;
+			}
 
-			// Parse JSON
-			const saveData = JSON.parse(json) as SerializedSaveData;
+			const saveData = decoded.data;
 
 			// Validate basic structure
-			if (!saveData.state || !saveData.state.meta || !saveData.state.run || !saveData.state.eternal) {
+			if (!saveData.state.meta || !saveData.state.run || !saveData.state.eternal) {
 				throw new Error('Invalid save data structure');
 			}
 
-			// Sanitize data in case of corruption
-			const sanitized = sanitizeSaveData(saveData.state);
+			// Sanitize data in case of corruption and apply migrations if needed
+			const migrated = this.migrateSaveData(saveData.state);
 
-			// Apply migrations if needed
-			const migrated = this.migrationRegistry.migrate(sanitized);
+			// Permanently mark saves that were edited after export
+			if (decoded.integrity === 'mismatch') {
+				console.warn(`[SaveManager] Importing modified save: ${decoded.error}`);
+				migrated.eternal.modifiedSave = true;
+			}
 
 			// Deserialize the game state
 			const state = this.deserializeGameState(migrated);
 
 			// Backup current save before importing
-			const currentSave = localStorage.getItem(this.saveKey);
+			const currentSave = this.storage.get(this.saveKey);
 			if (currentSave) {
-				localStorage.setItem(this.backupKey, currentSave);
+				this.storage.set(this.backupKey, currentSave);
 			}
 
-			// Update save data with migrated state
-			const newSaveData: SerializedSaveData = {
-				state: migrated,
-				formatVersion: 1,
-				lastModified: Date.now()
-			};
-
-			// Save to localStorage
-			localStorage.setItem(this.saveKey, JSON.stringify(newSaveData));
+			// Save migrated state to storage
+			this.storage.set(this.saveKey, encodeStoredSave(migrated));
 
 			// Update state reference
 			this.state = state;
@@ -588,6 +709,339 @@ export class SaveManager implements Manager {
 		}
 	}
 
+	/**
+	 * Sanitize save data and migrate it to the current save version.
+	 * Missing or corrupted fields are replaced with defaults.
+	 *
+	 * @param data - Possibly incomplete serialized game state
+	 * @returns Complete game state at the current save version
+	 */
+	migrateSaveData(data: Partial<SerializedGameState>): SerializedGameState {
+		return this.migrationRegistry.migrate(sanitizeSaveData(data));
+	}
+
+	/**
+	 * Dry-run sanitizing and migration of save data without loading it.
+	 *
+	 * @param data - Serialized game state from a save
+	 * @returns Report of migration steps, sanitized fields and unknown IDs
+	 */
+	createMigrationReport(data: unknown): MigrationReport {
+		return this.migrationRegistry.migrateWithReport(data);
+	}
+
+	// ============================================================================
+	// Save Slots
+	// ============================================================================
+
+	/**
+	 * Create a new named save slot.
+	 *
+	 * @param name - Player-facing slot name
+	 * @param data - Save string to store in the slot
+	 * @param details - Summary of the save (phase, story path, play time)
+	 * @returns Slot metadata, or null if writing failed
+	 *
+	 * @example
+	 * ```typescript
+	 * saveManager.createSlot('phase 7 peaceful', saveString, {
+	 *   phase: 7,
+	 *   storyPath: 'peaceful',
+	 *   playTime: 5400
+	 * });
+	 * ```
+	 */
+	createSlot(name: string, data: string, details: SaveSlotDetails): SaveSlotInfo | null {
+		const now = Date.now();
+		const id = this.generateSaveId();
+		const slot: SaveSlotInfo = {
+			id,
+			name,
+			...details,
+			meta: {
+				version: this.migrationRegistry.getCurrentVersion(),
+				lastSaved: now,
+				lastPlayed: now,
+				gameVersion: this.gameVersion,
+				saveId: id
+			},
+			createdAt: now
+		};
+
+		try {
+			this.storage.set(this.getSlotKey(id), data);
+			this.writeSlotIndex([...this.listSlots(), slot]);
+			return slot;
+		} catch (error) {
+			console.error('[SaveManager] Create slot failed:', error);
+			return null;
+		}
+	}
+
+	/**
+	 * Overwrite the data of an existing slot.
+	 *
+	 * @param id - Slot ID
+	 * @param data - New save string
+	 * @param details - Updated summary of the save
+	 * @returns Whether the slot was updated
+	 */
+	updateSlot(id: string, data: string, details: SaveSlotDetails): boolean {
+		const slots = this.listSlots();
+		const slot = slots.find((s) => s.id === id);
+		if (!slot) {
+			console.warn(`[SaveManager] Slot not found: ${id}`);
+			return false;
+		}
+
+		try {
+			this.storage.set(this.getSlotKey(id), data);
+			Object.assign(slot, details);
+			slot.meta.lastSaved = Date.now();
+			slot.meta.gameVersion = this.gameVersion;
+			this.writeSlotIndex(slots);
+			return true;
+		} catch (error) {
+			console.error('[SaveManager] Update slot failed:', error);
+			return false;
+		}
+	}
+
+	/**
+	 * List all save slots, most recently saved first.
+	 *
+	 * @returns Slot metadata
+	 */
+	listSlots(): SaveSlotInfo[] {
+		try {
+			const indexString = this.storage.get(this.slotIndexKey);
+			if (!indexString) return [];
+
+			const slots = JSON.parse(indexString) as SaveSlotInfo[];
+			if (!Array.isArray(slots)) return [];
+
+			return slots.sort((a, b) => b.meta.lastSaved - a.meta.lastSaved);
+		} catch (error) {
+			console.error('[SaveManager] Slot index unreadable:', error);
+			return [];
+		}
+	}
+
+	/**
+	 * Get metadata of a single slot.
+	 *
+	 * @param id - Slot ID
+	 * @returns Slot metadata or null if not found
+	 */
+	getSlot(id: string): SaveSlotInfo | null {
+		return this.listSlots().find((slot) => slot.id === id) ?? null;
+	}
+
+	/**
+	 * Read the save string stored in a slot.
+	 * Marks the slot as last played.
+	 *
+	 * @param id - Slot ID
+	 * @returns Save string or null if the slot does not exist
+	 */
+	loadSlot(id: string): string | null {
+		const slots = this.listSlots();
+		const slot = slots.find((s) => s.id === id);
+		const data = this.storage.get(this.getSlotKey(id));
+		if (!slot || data === null) {
+			console.warn(`[SaveManager] Slot not found: ${id}`);
+			return null;
+		}
+
+		slot.meta.lastPlayed = Date.now();
+		this.writeSlotIndex(slots);
+		return data;
+	}
+
+	/**
+	 * Copy a slot into a new slot.
+	 *
+	 * @param id - Slot ID to copy
+	 * @param name - Name of the copy (defaults to "<name> (copy)")
+	 * @returns Metadata of the new slot, or null if the source does not exist
+	 */
+	duplicateSlot(id: string, name?: string): SaveSlotInfo | null {
+		const source = this.getSlot(id);
+		const data = this.storage.get(this.getSlotKey(id));
+		if (!source || data === null) {
+			console.warn(`[SaveManager] Slot not found: ${id}`);
+			return null;
+		}
+
+		return this.createSlot(name ?? `${source.name} (copy)`, data, {
+			phase: source.phase,
+			storyPath: source.storyPath,
+			playTime: source.playTime
+		});
+	}
+
+	/**
+	 * Delete a save slot.
+	 *
+	 * @param id - Slot ID
+	 * @returns Whether a slot was deleted
+	 */
+	deleteSlot(id: string): boolean {
+		const slots = this.listSlots();
+		const remaining = slots.filter((slot) => slot.id !== id);
+		if (remaining.length === slots.length) {
+			return false;
+		}
+
+		this.storage.remove(this.getSlotKey(id));
+		this.writeSlotIndex(remaining);
+		return true;
+	}
+
+	/**
+	 * Get the storage key for a slot's save data.
+	 *
+	 * @param id - Slot ID
+	 * @returns Storage key
+	 */
+	private getSlotKey(id: string): string {
+		return `${this.saveKey}_slot_${id}`;
+	}
+
+	/**
+	 * Persist the slot index.
+	 *
+	 * @param slots - All slots
+	 */
+	private writeSlotIndex(slots: SaveSlotInfo[]): void {
+		this.storage.set(this.slotIndexKey, JSON.stringify(slots));
+	}
+
+	// ============================================================================
+	// Save History (Snapshots)
+	// ============================================================================
+
+	/**
+	 * Take a snapshot of a save.
+	 * When the ring is full the oldest snapshot is dropped.
+	 *
+	 * @param data - Save string to store
+	 * @param reason - Why the snapshot is taken
+	 * @param details - Summary of the save (phase, story path, play time)
+	 * @returns Snapshot metadata, or null if the history is disabled or writing failed
+	 */
+	createSnapshot(data: string, reason: SnapshotReason, details: SaveSlotDetails): SaveSnapshotInfo | null {
+		if (this.snapshotLimit <= 0) return null;
+
+		const snapshot: SaveSnapshotInfo = {
+			id: this.generateSaveId(),
+			createdAt: Date.now(),
+			reason,
+			...details
+		};
+
+		try {
+			this.storage.set(this.getSnapshotKey(snapshot.id), data);
+			this.writeSnapshotIndex([snapshot, ...this.listSnapshots()]);
+			return snapshot;
+		} catch (error) {
+			console.error('[SaveManager] Snapshot failed:', error);
+			return null;
+		}
+	}
+
+	/**
+	 * List all snapshots, newest first.
+	 *
+	 * @returns Snapshot metadata
+	 */
+	listSnapshots(): SaveSnapshotInfo[] {
+		try {
+			const indexString = this.storage.get(this.snapshotIndexKey);
+			if (!indexString) return [];
+
+			const snapshots = JSON.parse(indexString) as SaveSnapshotInfo[];
+			if (!Array.isArray(snapshots)) return [];
+
+			return snapshots.sort((a, b) => b.createdAt - a.createdAt);
+		} catch (error) {
+			console.error('[SaveManager] Snapshot index unreadable:', error);
+			return [];
+		}
+	}
+
+	/**
+	 * Read the save string of a snapshot.
+	 *
+	 * @param id - Snapshot ID
+	 * @returns Save string or null if the snapshot does not exist
+	 */
+	loadSnapshot(id: string): string | null {
+		if (!this.listSnapshots().some((snapshot) => snapshot.id === id)) {
+			console.warn(`[SaveManager] Snapshot not found: ${id}`);
+			return null;
+		}
+		return this.storage.get(this.getSnapshotKey(id));
+	}
+
+	/**
+	 * Delete all snapshots.
+	 */
+	clearSnapshots(): void {
+		for (const snapshot of this.listSnapshots()) {
+			this.storage.remove(this.getSnapshotKey(snapshot.id));
+		}
+		this.storage.remove(this.snapshotIndexKey);
+	}
+
+	/**
+	 * Set how many snapshots are kept.
+	 * Excess snapshots are dropped immediately, oldest first.
+	 *
+	 * @param limit - Maximum number of snapshots (0 disables the history)
+	 */
+	setSnapshotLimit(limit: number): void {
+		this.snapshotLimit = Math.max(0, Math.floor(limit));
+		this.writeSnapshotIndex(this.listSnapshots());
+	}
+
+	/**
+	 * Get how many snapshots are kept.
+	 *
+	 * @returns Maximum number of snapshots
+	 */
+	getSnapshotLimit(): number {
+		return this.snapshotLimit;
+	}
+
+	/**
+	 * Get the storage key for a snapshot's save data.
+	 *
+	 * @param id - Snapshot ID
+	 * @returns Storage key
+	 */
+	private getSnapshotKey(id: string): string {
+		return `${this.saveKey}_snapshot_${id}`;
+	}
+
+	/**
+	 * Persist the snapshot index, dropping snapshots beyond the limit.
+	 *
+	 * @param snapshots - All snapshots, newest first
+	 */
+	private writeSnapshotIndex(snapshots: SaveSnapshotInfo[]): void {
+		const kept = snapshots.slice(0, this.snapshotLimit);
+		for (const dropped of snapshots.slice(this.snapshotLimit)) {
+			this.storage.remove(this.getSnapshotKey(dropped.id));
+		}
+
+		if (kept.length === 0) {
+			this.storage.remove(this.snapshotIndexKey);
+		} else {
+			this.storage.set(this.snapshotIndexKey, JSON.stringify(kept));
+		}
+	}
+
 	// ============================================================================
 	// Hard Reset & Emergency Recovery
 	// ============================================================================
@@ -612,16 +1066,16 @@ export class SaveManager implements Manager {
 			this.cleanExpiredEmergencyBackup();
 
 			// Create emergency backup (24-hour recovery window)
-			const currentSave = localStorage.getItem(this.saveKey);
+			const currentSave = this.storage.get(this.saveKey);
 			if (currentSave) {
-				localStorage.setItem(this.emergencyBackupKey, currentSave);
-				localStorage.setItem(this.emergencyBackupTimestampKey, Date.now().toString());
+				this.storage.set(this.emergencyBackupKey, currentSave);
+				this.storage.set(this.emergencyBackupTimestampKey, Date.now().toString());
 				console.log('[SaveManager] Emergency backup created (24-hour recovery window)');
 			}
 
 			// Delete all save data
-			localStorage.removeItem(this.saveKey);
-			localStorage.removeItem(this.backupKey);
+			this.storage.remove(this.saveKey);
+			this.storage.remove(this.backupKey);
 
 			// Reset to fresh state
 			this.state = this.createFreshState();
@@ -652,8 +1106,8 @@ export class SaveManager implements Manager {
 	recoverFromEmergencyBackup(): boolean {
 		try {
 			// Check if emergency backup exists
-			const backupString = localStorage.getItem(this.emergencyBackupKey);
-			const timestampString = localStorage.getItem(this.emergencyBackupTimestampKey);
+			const backupString = this.storage.get(this.emergencyBackupKey);
+			const timestampString = this.storage.get(this.emergencyBackupTimestampKey);
 
 			if (!backupString || !timestampString) {
 				console.warn('[SaveManager] No emergency backup found');
@@ -668,21 +1122,21 @@ export class SaveManager implements Manager {
 			if (hoursSinceBackup > 24) {
 				console.warn('[SaveManager] Emergency backup expired (older than 24 hours)');
 				// Clean up expired backup
-				localStorage.removeItem(this.emergencyBackupKey);
-				localStorage.removeItem(this.emergencyBackupTimestampKey);
+				this.storage.remove(this.emergencyBackupKey);
+				this.storage.remove(this.emergencyBackupTimestampKey);
 				return false;
 			}
 
 			// Restore the backup
-			localStorage.setItem(this.saveKey, backupString);
+			this.storage.set(this.saveKey, backupString);
 
 			// Load the recovered save
 			const recoveredState = this.load();
 
 			if (recoveredState) {
 				// Clean up emergency backup after successful recovery
-				localStorage.removeItem(this.emergencyBackupKey);
-				localStorage.removeItem(this.emergencyBackupTimestampKey);
+				this.storage.remove(this.emergencyBackupKey);
+				this.storage.remove(this.emergencyBackupTimestampKey);
 
 				console.log('[SaveManager] Successfully recovered from emergency backup');
 				return true;
@@ -708,8 +1162,8 @@ export class SaveManager implements Manager {
 	 * ```
 	 */
 	hasEmergencyBackup(): boolean {
-		const backupString = localStorage.getItem(this.emergencyBackupKey);
-		const timestampString = localStorage.getItem(this.emergencyBackupTimestampKey);
+		const backupString = this.storage.get(this.emergencyBackupKey);
+		const timestampString = this.storage.get(this.emergencyBackupTimestampKey);
 
 		if (!backupString || !timestampString) {
 			return false;
@@ -728,7 +1182,7 @@ export class SaveManager implements Manager {
 	 * Called automatically during initialization and hard reset.
 	 */
 	cleanExpiredEmergencyBackup(): void {
-		const timestampString = localStorage.getItem(this.emergencyBackupTimestampKey);
+		const timestampString = this.storage.get(this.emergencyBackupTimestampKey);
 
 		if (timestampString) {
 			const backupTime = parseInt(timestampString, 10);
@@ -736,8 +1190,8 @@ export class SaveManager implements Manager {
 			const hoursSinceBackup = (now - backupTime) / (1000 * 60 * 60);
 
 			if (hoursSinceBackup > 24) {
-				localStorage.removeItem(this.emergencyBackupKey);
-				localStorage.removeItem(this.emergencyBackupTimestampKey);
+				this.storage.remove(this.emergencyBackupKey);
+				this.storage.remove(this.emergencyBackupTimestampKey);
 				console.log('[SaveManager] Cleaned up expired emergency backup');
 			}
 		}
@@ -767,6 +1221,40 @@ export class SaveManager implements Manager {
 		this.markDirty();
 	}
 
+	/**
+	 * Get the player preferences.
+	 *
+	 * @returns Current preferences (defaults if not initialized)
+	 */
+	getPreferences(): PlayerPreferences {
+		return this.state?.eternal.preferences ?? { ...DEFAULT_PREFERENCES };
+	}
+
+	/**
+	 * Change a player preference.
+	 *
+	 * @param key - Preference to change
+	 * @param value - New value
+	 */
+	setPreference<K extends keyof PlayerPreferences>(key: K, value: PlayerPreferences[K]): void {
+		if (!this.state) return;
+
+		this.state.eternal.preferences[key] = value;
+		this.markDirty();
+	}
+
+	/**
+	 * Replace all player preferences, e.g. with the ones from a loaded save.
+	 *
+	 * @param preferences - New preferences
+	 */
+	setPreferences(preferences: PlayerPreferences): void {
+		if (!this.state) return;
+
+		this.state.eternal.preferences = { ...preferences, volume: { ...preferences.volume } };
+		this.markDirty();
+	}
+
 	/**
 	 * Mark the state as modified.
 	 * This ensures the next auto-save will write to disk.
@@ -884,7 +1372,7 @@ export class SaveManager implements Manager {
 			run: this.createDefaultRunState(),
 			eternal: this.createDefaultEternalState(),
 			meta: {
-				version: 1,
+				version: this.migrationRegistry.getCurrentVersion(),
 				lastSaved: now,
 				lastPlayed: now,
 				gameVersion: this.gameVersion,
@@ -931,7 +1419,8 @@ export class SaveManager implements Manager {
 			statistics: { ...DEFAULT_STATISTICS },
 			highestPhaseEver: 1,
 			discoveredSecrets: new Set(),
-			preferences: { ...DEFAULT_PREFERENCES }
+			preferences: { ...DEFAULT_PREFERENCES },
+			modifiedSave: false
 		};
 	}
 
@@ -1015,7 +1504,8 @@ export class SaveManager implements Manager {
 			statistics: this.serializeStatistics(eternal.statistics),
 			highestPhaseEver: eternal.highestPhaseEver,
 			discoveredSecrets: Array.from(eternal.discoveredSecrets),
-			preferences: eternal.preferences
+			preferences: eternal.preferences,
+			modifiedSave: eternal.modifiedSave
 		};
 	}
 
@@ -1109,7 +1599,8 @@ export class SaveManager implements Manager {
 			statistics: this.deserializeStatistics(serialized.statistics),
 			highestPhaseEver: serialized.highestPhaseEver,
 			discoveredSecrets: new Set(serialized.discoveredSecrets),
-			preferences: serialized.preferences
+			preferences: serialized.preferences,
+			modifiedSave: serialized.modifiedSave ?? false
 		};
 	}
 
@@ -3,6 +3,10 @@
  * Provides utilities for migrating save data between versions, sanitizing
  * corrupt data, and ensuring backward compatibility.
  *
+ * Two save types are versioned independently, each described by a SaveSchema:
+ * - SaveManager states (SerializedGameState, version in `meta.version`)
+ * - Game saves (SerializedGameSave, version in `saveVersion`)
+ *
  * @module engine/core/SaveMigration
  */
 
@@ -11,16 +15,133 @@ import type {
 	SerializedRunState,
 	SerializedEternalState,
 	SerializedStatistics,
+	SerializedGameSave,
 	PlayerPreferences
 } from '../models/types';
+import type { SerializedUpgrades } from '../models/upgrades';
 import { D, ZERO, isNaN as isDecimalNaN } from '../utils/decimal';
+import { PRODUCER_DEFINITIONS } from '../models/producers';
+import { ALL_UPGRADES } from '../data/upgrades';
+import { ALL_ACHIEVEMENTS } from '../data/achievements';
+import { getAllSecrets } from '../data/secrets';
+
+/**
+ * Current save version (SaveMeta.version).
+ *
+ * History:
+ * - 1: Initial format
+ * - 2: Saves are stored with the compact encoding (see SaveCodec); the
+ *   state schema is unchanged, but older builds cannot read these saves
+ */
+export const CURRENT_SAVE_VERSION = 2;
+
+/**
+ * Current Game save version (SerializedGameSave.saveVersion).
+ *
+ * History:
+ * - 1: Initial format, with the SaveManager state embedded as `save`
+ * - 2: Embedded SaveManager state removed; preferences are stored in
+ *   `eternal.preferences`
+ */
+export const CURRENT_GAME_SAVE_VERSION = 2;
 
 /**
  * Migration function type that transforms save data from one version to another.
  * @param data - The save data to migrate
  * @returns The migrated save data
  */
-export type MigrationFunction = (data: SerializedGameState) => SerializedGameState;
+export type MigrationFunction<T = SerializedGameState> = (data: T) => T;
+
+/**
+ * How a MigrationRegistry reads, versions and validates one type of save.
+ */
+export interface SaveSchema<T> {
+	/** Dot path of the version field (used in warnings) */
+	versionPath: string;
+	/** Read the save version */
+	getVersion(data: T): number;
+	/** Write the save version */
+	setVersion(data: T, version: number): void;
+	/** Fill in missing fields and drop invalid values */
+	sanitize(data: Partial<T>): T;
+	/** Find IDs that no longer exist in the data files */
+	findUnknownIds(data: T, knownIds: KnownContentIds): MigrationWarning[];
+}
+
+/**
+ * A migration applied (or about to be applied) to a save.
+ */
+export interface MigrationStep {
+	/** Version before the step */
+	fromVersion: number;
+	/** Version after the step */
+	toVersion: number;
+	/** What the migration changes */
+	description: string;
+}
+
+/**
+ * A field changed by sanitizeSaveData().
+ * - added: missing from the save and filled with a default
+ * - removed: unknown or invalid entry that was dropped
+ * - defaulted: invalid or out-of-range value that was replaced
+ */
+export interface SanitizeChange {
+	/** Dot path of the field (array entries as `[index]`) */
+	path: string;
+	/** Kind of change */
+	kind: 'added' | 'removed' | 'defaulted';
+	/** Value in the save (absent for added fields) */
+	before?: unknown;
+	/** Value after sanitizing (absent for removed fields) */
+	after?: unknown;
+}
+
+/**
+ * Something in a save that migrations cannot fix.
+ */
+export interface MigrationWarning {
+	/** Warning category */
+	type: 'unknown_upgrade' | 'unknown_producer' | 'unknown_achievement' | 'unknown_secret' | 'newer_version';
+	/** Dot path of the affected field */
+	path: string;
+	/** Offending ID, for unknown content */
+	id?: string;
+	/** Human-readable explanation */
+	message: string;
+}
+
+/**
+ * IDs that exist in the data files, used to find stale IDs in saves.
+ */
+export interface KnownContentIds {
+	upgrades: ReadonlySet<string>;
+	producers: ReadonlySet<string>;
+	achievements: ReadonlySet<string>;
+	secrets: ReadonlySet<string>;
+}
+
+/**
+ * Dry-run result of migrateWithReport().
+ */
+export interface MigrationReport<T = SerializedGameState> {
+	/** Whether the save can be migrated to the current version */
+	success: boolean;
+	/** Save version before migration (after sanitizing) */
+	fromVersion: number;
+	/** Save version after migration */
+	toVersion: number;
+	/** Migrations applied, in order */
+	steps: MigrationStep[];
+	/** Fields changed by sanitizeSaveData() */
+	changes: SanitizeChange[];
+	/** Problems migrations cannot fix */
+	warnings: MigrationWarning[];
+	/** Migrated save (null on failure) */
+	result: T | null;
+	/** Why the migration failed */
+	error?: string;
+}
 
 /**
  * Registry for managing save data migrations across versions.
@@ -42,27 +163,42 @@ export type MigrationFunction = (data: SerializedGameState) => SerializedGameSta
  * // Migrate old save data
  * const oldSave = { ...saveData, meta: { ...meta, version: 1 } };
  * const migrated = registry.migrate(oldSave);
+ *
+ * // Game saves use their own schema
+ * const gameRegistry = new MigrationRegistry(2, GAME_SAVE_SCHEMA);
  * ```
  */
-export class MigrationRegistry {
+export class MigrationRegistry<T = SerializedGameState> {
 	/**
 	 * Map of version numbers to their migration functions.
 	 * Key is the target version, value is the function to migrate to that version.
 	 */
-	private migrations: Map<number, MigrationFunction> = new Map();
+	private migrations: Map<number, MigrationFunction<T>> = new Map();
+
+	/**
+	 * Descriptions of registered migrations, keyed by target version.
+	 */
+	private descriptions: Map<number, string> = new Map();
 
 	/**
 	 * The current save format version.
 	 */
 	private currentVersion: number;
 
+	/**
+	 * Schema of the migrated save type.
+	 */
+	private readonly schema: SaveSchema<T>;
+
 	/**
 	 * Creates a new migration registry.
 	 *
 	 * @param currentVersion - The current save format version
+	 * @param schema - Schema of the save type (SaveManager states by default)
 	 */
-	constructor(currentVersion: number) {
+	constructor(currentVersion: number, schema?: SaveSchema<T>) {
 		this.currentVersion = currentVersion;
+		this.schema = schema ?? (SAVE_MANAGER_SCHEMA as unknown as SaveSchema<T>);
 	}
 
 	/**
@@ -70,6 +206,7 @@ export class MigrationRegistry {
 	 *
 	 * @param targetVersion - The version this migration upgrades to
 	 * @param migrationFn - The migration function to apply
+	 * @param description - What the migration changes (shown in reports)
 	 * @throws Error if a migration for this version already exists
 	 *
 	 * @example
@@ -83,11 +220,12 @@ export class MigrationRegistry {
 	 * });
 	 * ```
 	 */
-	registerMigration(targetVersion: number, migrationFn: MigrationFunction): void {
+	registerMigration(targetVersion: number, migrationFn: MigrationFunction<T>, description?: string): void {
 		if (this.migrations.has(targetVersion)) {
 			throw new Error(`Migration for version ${targetVersion} already exists`);
 		}
 		this.migrations.set(targetVersion, migrationFn);
+		this.descriptions.set(targetVersion, description ?? `Migrate to version ${targetVersion}`);
 	}
 
 	/**
@@ -107,8 +245,8 @@ export class MigrationRegistry {
 	 * // migrated is now at the current version
 	 * ```
 	 */
-	migrate(data: SerializedGameState): SerializedGameState {
-		const fromVersion = data.meta.version;
+	migrate(data: T): T {
+		const fromVersion = this.schema.getVersion(data);
 
 		// Already at current version
 		if (fromVersion === this.currentVersion) {
@@ -127,6 +265,99 @@ export class MigrationRegistry {
 		let migrated = data;
 
 		// Apply migrations sequentially
+		for (const { version, migration } of this.getMigrationPath(fromVersion)) {
+			console.log(`Applying migration to version ${version}...`);
+			migrated = migration(migrated);
+			this.schema.setVersion(migrated, version);
+		}
+
+		console.log(`Successfully migrated save from version ${fromVersion} to ${this.currentVersion}`);
+		return migrated;
+	}
+
+	/**
+	 * Dry-run sanitizing and migration of save data.
+	 * Works on a copy, so the input is never modified, and reports every
+	 * migration step, every field sanitizeSaveData() changed, and IDs that
+	 * no longer exist in the data files.
+	 *
+	 * @param data - Save data as read from storage or an export
+	 * @param knownIds - IDs to check against (defaults to the data files)
+	 * @returns Migration report including the migrated save
+	 *
+	 * @example
+	 * ```typescript
+	 * const report = registry.migrateWithReport(JSON.parse(pastedSave).state);
+	 * for (const step of report.steps) console.log(step.description);
+	 * for (const warning of report.warnings) console.warn(warning.message);
+	 * ```
+	 */
+	migrateWithReport(data: unknown, knownIds: KnownContentIds = getKnownContentIds()): MigrationReport<T> {
+		const input = isRecord(data) ? (JSON.parse(JSON.stringify(data)) as Record<string, unknown>) : {};
+
+		const sanitized = this.schema.sanitize(input as Partial<T>);
+		const changes: SanitizeChange[] = [];
+		diffSanitized(input, sanitized, '', changes);
+
+		const fromVersion = this.schema.getVersion(sanitized);
+		const steps: MigrationStep[] = [];
+		const warnings: MigrationWarning[] = [];
+		let migrated = sanitized;
+
+		if (fromVersion > this.currentVersion) {
+			warnings.push({
+				type: 'newer_version',
+				path: this.schema.versionPath,
+				message: `Save version ${fromVersion} is newer than current version ${this.currentVersion}`
+			});
+		} else {
+			try {
+				for (const { version, migration } of this.getMigrationPath(fromVersion)) {
+					migrated = migration(migrated);
+					this.schema.setVersion(migrated, version);
+					steps.push({
+						fromVersion: version - 1,
+						toVersion: version,
+						description: this.descriptions.get(version) ?? `Migrate to version ${version}`
+					});
+				}
+			} catch (error) {
+				return {
+					success: false,
+					fromVersion,
+					toVersion: this.schema.getVersion(migrated),
+					steps,
+					changes,
+					warnings,
+					result: null,
+					error: error instanceof Error ? error.message : String(error)
+				};
+			}
+		}
+
+		warnings.push(...this.schema.findUnknownIds(migrated, knownIds));
+
+		return {
+			success: true,
+			fromVersion,
+			toVersion: this.schema.getVersion(migrated),
+			steps,
+			changes,
+			warnings,
+			result: migrated
+		};
+	}
+
+	/**
+	 * Get the migrations needed to bring a save up to the current version.
+	 *
+	 * @param fromVersion - The starting version
+	 * @returns Migrations in the order they must be applied
+	 * @throws Error if a required migration is missing
+	 */
+	private getMigrationPath(fromVersion: number): { version: number; migration: MigrationFunction<T> }[] {
+		const path: { version: number; migration: MigrationFunction<T> }[] = [];
+
 		for (let version = fromVersion + 1; version <= this.currentVersion; version++) {
 			const migration = this.migrations.get(version);
 
@@ -136,13 +367,10 @@ export class MigrationRegistry {
 				);
 			}
 
-			console.log(`Applying migration to version ${version}...`);
-			migrated = migration(migrated);
-			migrated.meta.version = version;
+			path.push({ version, migration });
 		}
 
-		console.log(`Successfully migrated save from version ${fromVersion} to ${this.currentVersion}`);
-		return migrated;
+		return path;
 	}
 
 	/**
@@ -189,6 +417,46 @@ export class MigrationRegistry {
 	}
 }
 
+/**
+ * Create a migration registry with all built-in migrations registered.
+ *
+ * @returns Registry migrating saves to CURRENT_SAVE_VERSION
+ */
+export function createMigrationRegistry(): MigrationRegistry {
+	const registry = new MigrationRegistry(CURRENT_SAVE_VERSION);
+
+	// v2 only changed the storage encoding, which SaveCodec handles on read
+	registry.registerMigration(2, (data) => data, 'Compact storage encoding (state unchanged)');
+
+	return registry;
+}
+
+/**
+ * Create a migration registry for Game saves with all built-in migrations
+ * registered.
+ *
+ * @returns Registry migrating Game saves to CURRENT_GAME_SAVE_VERSION
+ */
+export function createGameSaveMigrationRegistry(): MigrationRegistry<SerializedGameSave> {
+	const registry = new MigrationRegistry(CURRENT_GAME_SAVE_VERSION, GAME_SAVE_SCHEMA);
+
+	registry.registerMigration(
+		2,
+		(data) => {
+			// Version 1 only persisted preferences in the embedded SaveManager state
+			const preferences = data.save?.eternal?.preferences;
+			if (preferences) {
+				data.eternal.preferences = sanitizePreferences(preferences);
+			}
+			delete data.save;
+			return data;
+		},
+		'Drop the embedded SaveManager state (preferences move to eternal.preferences)'
+	);
+
+	return registry;
+}
+
 /**
  * Sanitize and validate save data, filling in missing fields with defaults.
  *
@@ -243,21 +511,7 @@ export function sanitizeSaveData(data: Partial<SerializedGameState>): Serialized
 	};
 
 	// Sanitize preferences
-	const preferences: PlayerPreferences = {
-		notation: isValidNotation(data.eternal?.preferences?.notation)
-			? data.eternal!.preferences!.notation
-			: 'mixed',
-		animationSpeed: clampNumber(data.eternal?.preferences?.animationSpeed ?? 1.0, 0.5, 2.0),
-		showOfflineProgress: data.eternal?.preferences?.showOfflineProgress ?? true,
-		autoSaveInterval: Math.max(0, data.eternal?.preferences?.autoSaveInterval ?? 30),
-		pauseOnStory: data.eternal?.preferences?.pauseOnStory ?? false,
-		confirmRebirth: data.eternal?.preferences?.confirmRebirth ?? true,
-		volume: {
-			master: clampNumber(data.eternal?.preferences?.volume?.master ?? 1.0, 0, 1),
-			music: clampNumber(data.eternal?.preferences?.volume?.music ?? 0.7, 0, 1),
-			sfx: clampNumber(data.eternal?.preferences?.volume?.sfx ?? 0.8, 0, 1)
-		}
-	};
+	const preferences = sanitizePreferences(data.eternal?.preferences);
 
 	// Sanitize eternal state
 	const eternal: SerializedEternalState = {
@@ -271,7 +525,8 @@ export function sanitizeSaveData(data: Partial<SerializedGameState>): Serialized
 		statistics,
 		highestPhaseEver: clampNumber(data.eternal?.highestPhaseEver ?? 1, 1, 20),
 		discoveredSecrets: sanitizeStringArray(data.eternal?.discoveredSecrets ?? []),
-		preferences
+		preferences,
+		modifiedSave: data.eternal?.modifiedSave === true
 	};
 
 	return {
@@ -281,6 +536,109 @@ export function sanitizeSaveData(data: Partial<SerializedGameState>): Serialized
 	};
 }
 
+/**
+ * Sanitize player preferences, filling in missing fields with defaults.
+ *
+ * @param data - The potentially incomplete preferences
+ * @returns Complete and valid preferences
+ */
+export function sanitizePreferences(data: Partial<PlayerPreferences> | undefined): PlayerPreferences {
+	return {
+		notation: isValidNotation(data?.notation) ? data!.notation! : 'mixed',
+		animationSpeed: clampNumber(data?.animationSpeed ?? 1.0, 0.5, 2.0),
+		showOfflineProgress: data?.showOfflineProgress ?? true,
+		offlineProgress: data?.offlineProgress ?? true,
+		autoSaveInterval: Math.max(0, data?.autoSaveInterval ?? 30),
+		pauseOnStory: data?.pauseOnStory ?? false,
+		confirmRebirth: data?.confirmRebirth ?? true,
+		volume: {
+			master: clampNumber(data?.volume?.master ?? 1.0, 0, 1),
+			music: clampNumber(data?.volume?.music ?? 0.7, 0, 1),
+			sfx: clampNumber(data?.volume?.sfx ?? 0.8, 0, 1)
+		}
+	};
+}
+
+/**
+ * Sanitize a Game save, filling in missing fields with defaults.
+ * Manager states are only checked to be objects; their managers validate
+ * the content on deserialize(). The version 1 `save` field is kept for
+ * the migration that removes it.
+ *
+ * @param data - The potentially incomplete Game save
+ * @returns Complete and valid Game save
+ *
+ * @example
+ * ```typescript
+ * const save = sanitizeGameSave(decodeStoredSave(saveString, GAME_SAVE_PACKER));
+ * ```
+ */
+export function sanitizeGameSave(data: Partial<SerializedGameSave>): SerializedGameSave {
+	const run = isRecord(data.run) ? (data.run as Partial<SerializedGameSave['run']>) : {};
+	const eternal = isRecord(data.eternal) ? (data.eternal as Partial<SerializedGameSave['eternal']>) : {};
+	const statistics: Partial<SerializedGameSave['eternal']['statistics']> = isRecord(eternal.statistics)
+		? eternal.statistics!
+		: {};
+
+	const save: SerializedGameSave = {
+		saveVersion: typeof data.saveVersion === 'number' ? data.saveVersion : 1,
+		version: typeof data.version === 'string' ? data.version : '0.1.0',
+		savedAt: typeof data.savedAt === 'number' ? data.savedAt : Date.now(),
+		run: {
+			runTime: clampNumber(run.runTime ?? 0, 0, Infinity),
+			resources: recordOrUndefined(run.resources),
+			producers: recordOrUndefined(run.producers),
+			upgrades: sanitizeNumberRecord(recordOrEmpty(run.upgrades)),
+			phases: recordOrUndefined(run.phases),
+			narrative: recordOrUndefined(run.narrative)
+		},
+		eternal: {
+			upgrades: sanitizeNumberRecord(recordOrEmpty(eternal.upgrades)),
+			achievements: recordOrUndefined(eternal.achievements),
+			secrets: recordOrUndefined(eternal.secrets),
+			totalPlayTime: clampNumber(eternal.totalPlayTime ?? 0, 0, Infinity),
+			totalRebirths: Math.floor(clampNumber(eternal.totalRebirths ?? 0, 0, Infinity)),
+			highestPhaseEver: clampNumber(eternal.highestPhaseEver ?? 1, 1, 20),
+			modifiedSave: eternal.modifiedSave === true,
+			automation: recordOrUndefined(eternal.automation),
+			statistics: {
+				totalClicks: clampNumber(statistics.totalClicks ?? 0, 0, Infinity),
+				fastestRunTime:
+					typeof statistics.fastestRunTime === 'number' && statistics.fastestRunTime >= 0
+						? statistics.fastestRunTime
+						: null
+			},
+			preferences: sanitizePreferences(recordOrUndefined(eternal.preferences))
+		}
+	};
+
+	if (isRecord(data.upgradeState)) {
+		save.upgradeState = sanitizeUpgradeState(data.upgradeState as Partial<SerializedUpgrades>);
+	}
+	if (isRecord(data.save)) {
+		save.save = data.save;
+	}
+
+	return save;
+}
+
+/**
+ * Sanitize the full upgrade state of a Game save.
+ *
+ * @param data - Serialized upgrade state
+ * @returns Upgrade state with only valid entries
+ */
+function sanitizeUpgradeState(data: Partial<SerializedUpgrades>): SerializedUpgrades {
+	return {
+		runLevels: sanitizeNumberRecord(recordOrEmpty(data.runLevels)),
+		eternalLevels: sanitizeNumberRecord(recordOrEmpty(data.eternalLevels)),
+		secretLevels: sanitizeNumberRecord(recordOrEmpty(data.secretLevels)),
+		unlocked: sanitizeStringArray(Array.isArray(data.unlocked) ? data.unlocked : []),
+		totalSpent: sanitizeStringRecord(recordOrEmpty(data.totalSpent)),
+		firstPurchaseTimes: sanitizeNumberRecord(recordOrEmpty(data.firstPurchaseTimes))
+	};
+}
+
 /**
  * Create a default run state for a fresh game.
  * This is used when starting a new game or performing a rebirth.
@@ -350,6 +708,7 @@ export function DEFAULT_ETERNAL_STATE(): SerializedEternalState {
 			notation: 'mixed',
 			animationSpeed: 1.0,
 			showOfflineProgress: true,
+			offlineProgress: true,
 			autoSaveInterval: 30,
 			pauseOnStory: false,
 			confirmRebirth: true,
@@ -358,8 +717,230 @@ export function DEFAULT_ETERNAL_STATE(): SerializedEternalState {
 				music: 0.7,
 				sfx: 0.8
 			}
+		},
+		modifiedSave: false
+	};
+}
+
+// ============================================================================
+// Save Schemas
+// ============================================================================
+
+/**
+ * Schema of SaveManager states.
+ */
+export const SAVE_MANAGER_SCHEMA: SaveSchema<SerializedGameState> = {
+	versionPath: 'meta.version',
+	getVersion: (data) => data.meta.version,
+	setVersion: (data, version) => {
+		data.meta.version = version;
+	},
+	sanitize: sanitizeSaveData,
+	findUnknownIds: findUnknownContentIds
+};
+
+/**
+ * Schema of Game saves.
+ */
+export const GAME_SAVE_SCHEMA: SaveSchema<SerializedGameSave> = {
+	versionPath: 'saveVersion',
+	getVersion: (data) => data.saveVersion,
+	setVersion: (data, version) => {
+		data.saveVersion = version;
+	},
+	sanitize: sanitizeGameSave,
+	findUnknownIds: findUnknownGameSaveIds
+};
+
+// ============================================================================
+// Migration Reports
+// ============================================================================
+
+/**
+ * Collect the upgrade, producer, achievement and secret IDs from the data
+ * files.
+ *
+ * @returns Known content IDs
+ */
+export function getKnownContentIds(): KnownContentIds {
+	return {
+		upgrades: new Set(ALL_UPGRADES.map((upgrade) => upgrade.id)),
+		producers: new Set(Object.keys(PRODUCER_DEFINITIONS)),
+		achievements: new Set(ALL_ACHIEVEMENTS.map((achievement) => achievement.id)),
+		secrets: new Set(getAllSecrets().map((secret) => secret.id))
+	};
+}
+
+/**
+ * Find IDs in a save that no longer exist in the data files.
+ *
+ * @param state - Sanitized save data
+ * @param knownIds - IDs to check against
+ * @returns One warning per unknown ID
+ */
+function findUnknownContentIds(state: SerializedGameState, knownIds: KnownContentIds): MigrationWarning[] {
+	const warnings: MigrationWarning[] = [];
+	const check = (
+		type: 'unknown_upgrade' | 'unknown_achievement' | 'unknown_secret',
+		known: ReadonlySet<string>,
+		path: string,
+		ids: string[]
+	): void => {
+		const label = type.slice('unknown_'.length);
+		for (const id of ids) {
+			if (!known.has(id)) {
+				warnings.push({ type, path, id, message: `Unknown ${label} "${id}" in ${path}` });
+			}
 		}
 	};
+
+	check('unknown_upgrade', knownIds.upgrades, 'run.purchasedUpgrades', state.run.purchasedUpgrades);
+	check('unknown_upgrade', knownIds.upgrades, 'run.upgradeLevels', Object.keys(state.run.upgradeLevels));
+	check('unknown_upgrade', knownIds.upgrades, 'run.unlockedUpgrades', state.run.unlockedUpgrades);
+	check('unknown_upgrade', knownIds.upgrades, 'eternal.eternalUpgrades', state.eternal.eternalUpgrades);
+	check('unknown_achievement', knownIds.achievements, 'eternal.achievements', state.eternal.achievements);
+	check('unknown_secret', knownIds.secrets, 'eternal.discoveredSecrets', state.eternal.discoveredSecrets);
+
+	return warnings;
+}
+
+/**
+ * Find IDs in a Game save that no longer exist in the data files.
+ *
+ * @param save - Sanitized Game save
+ * @param knownIds - IDs to check against
+ * @returns One warning per unknown ID
+ */
+function findUnknownGameSaveIds(save: SerializedGameSave, knownIds: KnownContentIds): MigrationWarning[] {
+	const warnings: MigrationWarning[] = [];
+	const check = (
+		type: 'unknown_upgrade' | 'unknown_producer' | 'unknown_achievement' | 'unknown_secret',
+		known: ReadonlySet<string>,
+		path: string,
+		ids: string[]
+	): void => {
+		const label = type.slice('unknown_'.length);
+		for (const id of ids) {
+			if (!known.has(id)) {
+				warnings.push({ type, path, id, message: `Unknown ${label} "${id}" in ${path}` });
+			}
+		}
+	};
+	const listAt = (source: unknown, key: string): string[] => {
+		const value = isRecord(source) ? source[key] : undefined;
+		return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+	};
+	const keysAt = (source: unknown, key: string): string[] => {
+		const value = isRecord(source) ? source[key] : undefined;
+		return isRecord(value) ? Object.keys(value) : [];
+	};
+
+	check('unknown_upgrade', knownIds.upgrades, 'run.upgrades', Object.keys(save.run.upgrades));
+	check('unknown_upgrade', knownIds.upgrades, 'eternal.upgrades', Object.keys(save.eternal.upgrades));
+	if (save.upgradeState) {
+		const { runLevels, eternalLevels, secretLevels, unlocked } = save.upgradeState;
+		check('unknown_upgrade', knownIds.upgrades, 'upgradeState.runLevels', Object.keys(runLevels));
+		check('unknown_upgrade', knownIds.upgrades, 'upgradeState.eternalLevels', Object.keys(eternalLevels));
+		check('unknown_upgrade', knownIds.upgrades, 'upgradeState.secretLevels', Object.keys(secretLevels));
+		check('unknown_upgrade', knownIds.upgrades, 'upgradeState.unlocked', unlocked);
+	}
+	check('unknown_producer', knownIds.producers, 'run.producers.levels', keysAt(save.run.producers, 'levels'));
+	check('unknown_producer', knownIds.producers, 'run.producers.unlocked', listAt(save.run.producers, 'unlocked'));
+	check(
+		'unknown_achievement',
+		knownIds.achievements,
+		'eternal.achievements.unlocked',
+		listAt(save.eternal.achievements, 'unlocked')
+	);
+	check(
+		'unknown_secret',
+		knownIds.secrets,
+		'eternal.secrets.discovered',
+		listAt(save.eternal.secrets, 'discovered')
+	);
+
+	return warnings;
+}
+
+/**
+ * Record how sanitizing changed a value, recursing into objects.
+ *
+ * @param before - Value in the save
+ * @param after - Value after sanitizing
+ * @param path - Dot path of the value
+ * @param changes - Collected changes
+ */
+function diffSanitized(before: unknown, after: unknown, path: string, changes: SanitizeChange[]): void {
+	if (before === undefined) {
+		changes.push({ path, kind: 'added', after });
+		return;
+	}
+
+	if (isRecord(after)) {
+		if (!isRecord(before)) {
+			changes.push({ path, kind: 'defaulted', before, after });
+			return;
+		}
+		for (const key of Object.keys(after)) {
+			diffSanitized(before[key], after[key], joinPath(path, key), changes);
+		}
+		for (const key of Object.keys(before)) {
+			if (!(key in after)) {
+				changes.push({ path: joinPath(path, key), kind: 'removed', before: before[key] });
+			}
+		}
+		return;
+	}
+
+	if (Array.isArray(after)) {
+		if (!Array.isArray(before)) {
+			changes.push({ path, kind: 'defaulted', before, after });
+			return;
+		}
+		// Sanitizing only drops entries (invalid values and duplicates)
+		const kept = [...after];
+		before.forEach((item, index) => {
+			const keptIndex = kept.indexOf(item);
+			if (keptIndex === -1) {
+				changes.push({ path: `${path}[${index}]`, kind: 'removed', before: item });
+			} else {
+				kept.splice(keptIndex, 1);
+			}
+		});
+		return;
+	}
+
+	if (!Object.is(before, after)) {
+		changes.push({ path, kind: 'defaulted', before, after });
+	}
+}
+
+/**
+ * Append a key to a dot path.
+ */
+function joinPath(path: string, key: string): string {
+	return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Whether a value is a plain object (not null or an array).
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * The value if it is a plain object, otherwise undefined.
+ */
+function recordOrUndefined<V>(value: V): (V & Record<string, unknown>) | undefined {
+	return isRecord(value) ? (value as V & Record<string, unknown>) : undefined;
+}
+
+/**
+ * The value if it is a plain object, otherwise an empty object.
+ */
+function recordOrEmpty(value: unknown): Record<string, unknown> {
+	return isRecord(value) ? value : {};
 }
 
 // ============================================================================
@@ -0,0 +1,295 @@
+/**
+ * @fileoverview Storage backends for the SaveManager.
+ * Decouples save persistence from localStorage so the engine can run in
+ * Node-based tests, store large saves in IndexedDB, or be embedded in
+ * non-browser hosts.
+ *
+ * Backends:
+ * - LocalStorageAdapter: Browser localStorage (sync)
+ * - MemoryStorageAdapter: In-memory Map (sync)
+ * - IndexedDBStorageAdapter: Browser IndexedDB (async)
+ *
+ * The SaveManager API is synchronous. Asynchronous backends are wrapped in a
+ * CachedSaveStorage, which serves reads from an in-memory mirror (filled once
+ * via hydrate()) and writes through to the backend in the background.
+ *
+ * @module engine/core/SaveStorage
+ */
+
+import type { SaveStorage, SyncSaveStorage, SaveStorageType } from '../models/types';
+
+// ============================================================================
+// Synchronous Backends
+// ============================================================================
+
+/**
+ * Save storage backed by the browser's localStorage.
+ */
+export class LocalStorageAdapter implements SyncSaveStorage {
+	readonly isAsync = false as const;
+
+	get(key: string): string | null {
+		return localStorage.getItem(key);
+	}
+
+	set(key: string, value: string): void {
+		localStorage.setItem(key, value);
+	}
+
+	remove(key: string): void {
+		localStorage.removeItem(key);
+	}
+
+	list(prefix: string = ''): string[] {
+		const keys: string[] = [];
+		for (let i = 0; i < localStorage.length; i++) {
+			const key = localStorage.key(i);
+			if (key !== null && key.startsWith(prefix)) {
+				keys.push(key);
+			}
+		}
+		return keys;
+	}
+}
+
+/**
+ * Save storage kept in memory only.
+ * Data is lost when the instance is garbage collected.
+ */
+export class MemoryStorageAdapter implements SyncSaveStorage {
+	readonly isAsync = false as const;
+
+	private readonly store = new Map<string, string>();
+
+	get(key: string): string | null {
+		return this.store.get(key) ?? null;
+	}
+
+	set(key: string, value: string): void {
+		this.store.set(key, value);
+	}
+
+	remove(key: string): void {
+		this.store.delete(key);
+	}
+
+	list(prefix: string = ''): string[] {
+		return Array.from(this.store.keys()).filter((key) => key.startsWith(prefix));
+	}
+}
+
+// ============================================================================
+// Asynchronous Backends
+// ============================================================================
+
+/**
+ * Save storage backed by IndexedDB.
+ * Suitable for large saves that exceed the localStorage quota.
+ */
+export class IndexedDBStorageAdapter implements SaveStorage {
+	readonly isAsync = true as const;
+
+	private readonly dbName: string;
+	private readonly storeName: string;
+	private dbPromise: Promise<IDBDatabase> | null = null;
+
+	/**
+	 * Creates a new IndexedDB storage adapter.
+	 *
+	 * @param dbName - Database name
+	 * @param storeName - Object store name
+	 */
+	constructor(dbName: string = 'pixel_singularity', storeName: string = 'saves') {
+		this.dbName = dbName;
+		this.storeName = storeName;
+	}
+
+	async get(key: string): Promise<string | null> {
+		const result = await this.request<unknown>('readonly', (store) => store.get(key));
+		return typeof result === 'string' ? result : null;
+	}
+
+	async set(key: string, value: string): Promise<void> {
+		await this.request('readwrite', (store) => store.put(value, key));
+	}
+
+	async remove(key: string): Promise<void> {
+		await this.request('readwrite', (store) => store.delete(key));
+	}
+
+	async list(prefix: string = ''): Promise<string[]> {
+		const keys = await this.request<IDBValidKey[]>('readonly', (store) => store.getAllKeys());
+		return keys.map(String).filter((key) => key.startsWith(prefix));
+	}
+
+	/**
+	 * Open the database (once) and create the object store if needed.
+	 */
+	private open(): Promise<IDBDatabase> {
+		if (!this.dbPromise) {
+			this.dbPromise = new Promise((resolve, reject) => {
+				if (typeof indexedDB === 'undefined') {
+					reject(new Error('IndexedDB is not available'));
+					return;
+				}
+
+				const openRequest = indexedDB.open(this.dbName, 1);
+				openRequest.onupgradeneeded = () => {
+					if (!openRequest.result.objectStoreNames.contains(this.storeName)) {
+						openRequest.result.createObjectStore(this.storeName);
+					}
+				};
+				openRequest.onsuccess = () => resolve(openRequest.result);
+				openRequest.onerror = () => reject(openRequest.error);
+			});
+		}
+		return this.dbPromise;
+	}
+
+	/**
+	 * Run a single request in its own transaction.
+	 */
+	private async request<T>(
+		mode: IDBTransactionMode,
+		action: (store: IDBObjectStore) => IDBRequest
+	): Promise<T> {
+		const db = await this.open();
+		return new Promise<T>((resolve, reject) => {
+			const transaction = db.transaction(this.storeName, mode);
+			const req = action(transaction.objectStore(this.storeName));
+			req.onsuccess = () => resolve(req.result as T);
+			req.onerror = () => reject(req.error);
+		});
+	}
+}
+
+// ============================================================================
+// Synchronous View over Async Backends
+// ============================================================================
+
+/**
+ * Synchronous write-through cache in front of any storage backend.
+ *
+ * Reads are served from memory; writes update memory immediately and are
+ * forwarded to the backend. Call hydrate() once before the first read and
+ * flush() to wait for pending writes (e.g. before unload).
+ */
+export class CachedSaveStorage implements SyncSaveStorage {
+	readonly isAsync = false as const;
+
+	private readonly backend: SaveStorage;
+	private readonly mirror = new Map<string, string>();
+	private pending: Promise<void> = Promise.resolve();
+	private hydrated = false;
+
+	/**
+	 * Creates a new cached storage.
+	 *
+	 * @param backend - Backend to mirror
+	 */
+	constructor(backend: SaveStorage) {
+		this.backend = backend;
+	}
+
+	/**
+	 * Load all keys from the backend into memory.
+	 * Safe to call multiple times; only the first call reads the backend.
+	 */
+	async hydrate(): Promise<void> {
+		if (this.hydrated) return;
+
+		const keys = await this.backend.list();
+		for (const key of keys) {
+			const value = await this.backend.get(key);
+			// Writes made before hydration finished take precedence
+			if (value !== null && !this.mirror.has(key)) {
+				this.mirror.set(key, value);
+			}
+		}
+		this.hydrated = true;
+	}
+
+	/**
+	 * Whether hydrate() has completed.
+	 */
+	isHydrated(): boolean {
+		return this.hydrated;
+	}
+
+	/**
+	 * Wait until all queued writes reached the backend.
+	 */
+	flush(): Promise<void> {
+		return this.pending;
+	}
+
+	get(key: string): string | null {
+		return this.mirror.get(key) ?? null;
+	}
+
+	set(key: string, value: string): void {
+		this.mirror.set(key, value);
+		this.enqueue(() => this.backend.set(key, value));
+	}
+
+	remove(key: string): void {
+		this.mirror.delete(key);
+		this.enqueue(() => this.backend.remove(key));
+	}
+
+	list(prefix: string = ''): string[] {
+		return Array.from(this.mirror.keys()).filter((key) => key.startsWith(prefix));
+	}
+
+	/**
+	 * Queue a backend write, preserving write order.
+	 */
+	private enqueue(write: () => void | Promise<void>): void {
+		this.pending = this.pending
+			.then(write)
+			.catch((error) => {
+				console.error('[SaveStorage] Backend write failed:', error);
+			});
+	}
+}
+
+// ============================================================================
+// Factory Functions
+// ============================================================================
+
+/**
+ * Create a built-in storage backend.
+ *
+ * @param type - Backend type, or a custom adapter which is returned as-is
+ * @returns Storage backend
+ */
+export function createSaveStorage(type: SaveStorageType | SaveStorage): SaveStorage {
+	if (typeof type !== 'string') {
+		return type;
+	}
+
+	switch (type) {
+		case 'indexedDB':
+			return new IndexedDBStorageAdapter();
+		case 'memory':
+			return new MemoryStorageAdapter();
+		case 'localStorage':
+		default:
+			return new LocalStorageAdapter();
+	}
+}
+
+/**
+ * Get a synchronous view of a storage backend.
+ * Synchronous backends are returned unchanged; asynchronous ones are wrapped
+ * in a CachedSaveStorage that must be hydrated before use.
+ *
+ * @param storage - Storage backend
+ * @returns Synchronous storage
+ */
+export function toSyncStorage(storage: SaveStorage): SyncSaveStorage {
+	if (storage.isAsync) {
+		return new CachedSaveStorage(storage);
+	}
+	return storage as SyncSaveStorage;
+}
@@ -71,7 +71,7 @@ const PHASE_ACHIEVEMENTS: AchievementDefinition[] = [
 		description: 'Break through the screen barrier in Phase 4.',
 		flavorText: 'The frame was always an illusion.',
 		condition: Conditions.phase(4),
-		reward: { pp: 500 },
+		reward: { pp: 500, unlock: 'autobuyer' },
 		hidden: false,
 		trackProgress: false,
 		icon: 'screen'
@@ -194,7 +194,14 @@ const GAME_LOOP = {
  */
 const OFFLINE = {
 	/**
-	 * Maximum offline time to calculate in milliseconds.
+	 * Offline time that counts before upgrades, in milliseconds.
+	 * 8 hours = 28800000 ms
+	 * @default 28800000
+	 */
+	BASE_OFFLINE_TIME: 28800000,
+
+	/**
+	 * Maximum offline time to calculate in milliseconds, including upgrades.
 	 * Prevents excessive computation for very long absences.
 	 * 24 hours = 86400000 ms
 	 * @default 86400000
@@ -202,12 +209,19 @@ const OFFLINE = {
 	MAX_OFFLINE_TIME: 86400000,
 
 	/**
-	 * Efficiency multiplier for offline progress.
+	 * Efficiency multiplier for offline progress before upgrades.
 	 * Value between 0-1, where 0.5 = 50% of online rate.
 	 * Prevents exploiting offline time.
 	 * @default 0.5
 	 */
-	OFFLINE_EFFICIENCY: 0.5
+	OFFLINE_EFFICIENCY: 0.5,
+
+	/**
+	 * Minimum time away in milliseconds before offline progress counts.
+	 * Prevents exploitation through rapid reconnects.
+	 * @default 60000
+	 */
+	MIN_OFFLINE_TIME: 60000
 } as const;
 
 // ============================================================================
@@ -347,8 +361,10 @@ export const {
  * Offline progress constants (individual exports).
  */
 export const {
+	BASE_OFFLINE_TIME,
 	MAX_OFFLINE_TIME,
-	OFFLINE_EFFICIENCY
+	OFFLINE_EFFICIENCY,
+	MIN_OFFLINE_TIME
 } = BALANCING.offline;
 
 /**
@@ -14,7 +14,7 @@
  */
 
 import type { EndingId, StoryPath } from '../models/narrative';
-import type { Condition } from '../models/phase';
+import type { Condition } from '../models/conditions';
 import { Conditions } from '../systems/ConditionEvaluator';
 
 // ============================================================================
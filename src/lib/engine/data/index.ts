@@ -124,8 +124,7 @@ export {
 	getSecretStats,
 	type SecretDefinition,
 	type SecretType,
-	type SecretReward,
-	type SecretCondition
+	type SecretReward
 } from './secrets';
 
 // ============================================================================
@@ -151,8 +150,10 @@ export {
 	TARGET_FPS,
 	TICKS_PER_SECOND,
 	AUTO_SAVE_INTERVAL,
+	BASE_OFFLINE_TIME,
 	MAX_OFFLINE_TIME,
 	OFFLINE_EFFICIENCY,
+	MIN_OFFLINE_TIME,
 	TYPING_SPEED_DEFAULT,
 	DIALOGUE_LINE_DELAY
 } from './constants';
@@ -167,14 +168,19 @@ export {
 	validatePhaseReferences,
 	validateUpgradeReferences,
 	validateAchievementConditions,
+	validateEndingConditions,
+	validateSecretConditions,
+	validateCostReferences,
 	validateStoryReferences,
 	checkUniqueIds,
 	isValidPhaseDefinition,
 	isValidUpgradeDefinition,
+	isValidCostMap,
 	isValidAchievementDefinition,
 	isValidResourceDefinition,
 	isValidDialogueDefinition,
 	isValidCondition,
+	validateCondition,
 	isValidEndingDefinition,
 	isValidSecretDefinition,
 	type ValidationResult,
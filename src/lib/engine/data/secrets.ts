@@ -12,87 +12,14 @@
  * - meta_secret: Fourth-wall breaking content
  * - glitch: Visual anomalies and "bugs" that are features
  *
- * Note: Secrets use their own condition system that extends the core
- * condition types to support flag and stat-based checks. The SecretManager
- * evaluates these conditions separately from the core ConditionEvaluator.
+ * Discovery conditions use the shared condition language (flags, stats,
+ * time of day, phase, ...) and are evaluated by the SecretManager through
+ * the ConditionEvaluator.
  *
  * @module engine/data/secrets
  */
 
-// ============================================================================
-// Secret Condition Types
-// ============================================================================
-
-/**
- * Base secret condition with type discriminator.
- */
-interface BaseSecretCondition {
-	type: string;
-}
-
-/**
- * Condition based on a game flag being set.
- */
-interface FlagSecretCondition extends BaseSecretCondition {
-	type: 'flag';
-	flag: string;
-	value?: boolean | string;
-}
-
-/**
- * Condition based on a game statistic.
- */
-interface StatSecretCondition extends BaseSecretCondition {
-	type: 'stat';
-	stat: string;
-	operator: '>=' | '<=' | '>' | '<' | '=' | '!=';
-	value: number;
-}
-
-/**
- * Condition based on phase progression.
- */
-interface PhaseSecretCondition extends BaseSecretCondition {
-	type: 'phase';
-	operator: '>=' | '<=' | '>' | '<' | '=' | '!=';
-	phase: number;
-}
-
-/**
- * Condition based on time of day (real-world).
- */
-interface TimeOfDaySecretCondition extends BaseSecretCondition {
-	type: 'time';
-	operator: '>=' | '<=' | '>' | '<' | '=';
-	hour: number;
-}
-
-/**
- * Compound AND condition - all must be true.
- */
-interface AndSecretCondition extends BaseSecretCondition {
-	type: 'and';
-	conditions: SecretCondition[];
-}
-
-/**
- * Compound OR condition - at least one must be true.
- */
-interface OrSecretCondition extends BaseSecretCondition {
-	type: 'or';
-	conditions: SecretCondition[];
-}
-
-/**
- * Union of all secret condition types.
- */
-export type SecretCondition =
-	| FlagSecretCondition
-	| StatSecretCondition
-	| PhaseSecretCondition
-	| TimeOfDaySecretCondition
-	| AndSecretCondition
-	| OrSecretCondition;
+import type { Condition } from '../models/conditions';
 
 // ============================================================================
 // Secret Definition Types
@@ -137,7 +64,7 @@ export interface SecretDefinition {
 	type: SecretType;
 
 	/** Condition that must be met to discover this secret */
-	discoveryCondition: SecretCondition;
+	discoveryCondition: Condition;
 
 	/** Rewards granted upon discovery */
 	reward: SecretReward;
@@ -188,9 +115,9 @@ export const SECRET_DEFINITIONS: SecretDefinition[] = [
 		discoveryCondition: {
 			type: 'and',
 			conditions: [
-				{ type: 'time', operator: '>=', hour: 2 },
-				{ type: 'time', operator: '<', hour: 5 },
-				{ type: 'stat', stat: 'totalClicks', operator: '>=', value: 10 }
+				{ type: 'time_of_day', operator: 'gte', hour: 2 },
+				{ type: 'time_of_day', operator: 'lt', hour: 5 },
+				{ type: 'stat', stat: 'totalClicks', operator: 'gte', value: 10 }
 			]
 		},
 		reward: {
@@ -213,8 +140,8 @@ export const SECRET_DEFINITIONS: SecretDefinition[] = [
 		discoveryCondition: {
 			type: 'or',
 			conditions: [
-				{ type: 'stat', stat: 'primordialPixels', operator: '=', value: 42 },
-				{ type: 'stat', stat: 'canvasCount', operator: '=', value: 42 },
+				{ type: 'stat', stat: 'primordialPixels', operator: 'eq', value: 42 },
+				{ type: 'stat', stat: 'canvasCount', operator: 'eq', value: 42 },
 				{ type: 'flag', flag: 'typed_forty_two' }
 			]
 		},
@@ -290,8 +217,8 @@ export const SECRET_DEFINITIONS: SecretDefinition[] = [
 		discoveryCondition: {
 			type: 'and',
 			conditions: [
-				{ type: 'phase', operator: '>=', phase: 5 },
-				{ type: 'stat', stat: 'totalPlayTime', operator: '<', value: 1800 }
+				{ type: 'phase', operator: 'gte', phase: 5 },
+				{ type: 'stat', stat: 'totalPlayTime', operator: 'lt', value: 1800 }
 			]
 		},
 		reward: {
@@ -314,8 +241,8 @@ export const SECRET_DEFINITIONS: SecretDefinition[] = [
 		discoveryCondition: {
 			type: 'and',
 			conditions: [
-				{ type: 'stat', stat: 'totalPlayTime', operator: '>=', value: 3600 },
-				{ type: 'stat', stat: 'timeSinceLastClick', operator: '>=', value: 3600 }
+				{ type: 'stat', stat: 'totalPlayTime', operator: 'gte', value: 3600 },
+				{ type: 'stat', stat: 'timeSinceLastClick', operator: 'gte', value: 3600 }
 			]
 		},
 		reward: {
@@ -339,7 +266,7 @@ export const SECRET_DEFINITIONS: SecretDefinition[] = [
 		discoveryCondition: {
 			type: 'stat',
 			stat: 'canvasesCompleted',
-			operator: '>=',
+			operator: 'gte',
 			value: 100
 		},
 		reward: {
@@ -363,7 +290,7 @@ export const SECRET_DEFINITIONS: SecretDefinition[] = [
 			type: 'and',
 			conditions: [
 				{ type: 'flag', flag: 'all_logs_viewed' },
-				{ type: 'stat', stat: 'logsRead', operator: '>=', value: 50 }
+				{ type: 'stat', stat: 'logsRead', operator: 'gte', value: 50 }
 			]
 		},
 		reward: {
@@ -386,7 +313,7 @@ export const SECRET_DEFINITIONS: SecretDefinition[] = [
 		discoveryCondition: {
 			type: 'and',
 			conditions: [
-				{ type: 'stat', stat: 'uniqueChoicesMade', operator: '>=', value: 25 },
+				{ type: 'stat', stat: 'uniqueChoicesMade', operator: 'gte', value: 25 },
 				{ type: 'flag', flag: 'explored_all_branches' }
 			]
 		},
@@ -411,7 +338,7 @@ export const SECRET_DEFINITIONS: SecretDefinition[] = [
 			type: 'and',
 			conditions: [
 				{ type: 'flag', flag: 'owns_all_producers' },
-				{ type: 'stat', stat: 'uniqueProducersOwned', operator: '>=', value: 20 }
+				{ type: 'stat', stat: 'uniqueProducersOwned', operator: 'gte', value: 20 }
 			]
 		},
 		reward: {
@@ -439,9 +366,9 @@ export const SECRET_DEFINITIONS: SecretDefinition[] = [
 		discoveryCondition: {
 			type: 'and',
 			conditions: [
-				{ type: 'stat', stat: 'totalPlayTime', operator: '>=', value: 600 },
-				{ type: 'stat', stat: 'totalClicks', operator: '<', value: 5 },
-				{ type: 'stat', stat: 'upgradesPurchased', operator: '<', value: 1 }
+				{ type: 'stat', stat: 'totalPlayTime', operator: 'gte', value: 600 },
+				{ type: 'stat', stat: 'totalClicks', operator: 'lt', value: 5 },
+				{ type: 'stat', stat: 'upgradesPurchased', operator: 'lt', value: 1 }
 			]
 		},
 		reward: {
@@ -464,8 +391,8 @@ export const SECRET_DEFINITIONS: SecretDefinition[] = [
 		discoveryCondition: {
 			type: 'and',
 			conditions: [
-				{ type: 'stat', stat: 'totalIdleTime', operator: '>=', value: 86400 },
-				{ type: 'phase', operator: '>=', phase: 3 }
+				{ type: 'stat', stat: 'totalIdleTime', operator: 'gte', value: 86400 },
+				{ type: 'phase', operator: 'gte', phase: 3 }
 			]
 		},
 		reward: {
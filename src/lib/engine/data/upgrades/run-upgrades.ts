@@ -93,6 +93,30 @@ export const PHASE_1_UPGRADES: UpgradeDefinition[] = [
 		isOneTime: true,
 		icon: 'auto',
 		colorClass: 'upgrade-uncommon'
+	},
+	{
+		id: 'autobuyer',
+		name: 'Autobuyer',
+		description: 'Automatically buy producers and upgrades by your own rules.',
+		flavor: 'The canvas learns to shop for itself.',
+		baseCost: 5000,
+		currency: 'pixels',
+		effects: [
+			{
+				type: 'unlock',
+				target: 'all',
+				description: 'Unlocks autobuyers',
+				unlockId: 'autobuyer',
+				unlockType: 'mechanic'
+			}
+		],
+		minPhase: 1,
+		category: 'run',
+		displayOrder: 130,
+		requires: ['auto_clicker_1'],
+		isOneTime: true,
+		icon: 'auto',
+		colorClass: 'upgrade-rare'
 	}
 ];
 
@@ -13,23 +13,33 @@
  * @module engine/data/validators
  */
 
-import type {
-	PhaseDefinition,
-	Condition,
-	GridConfig,
-	TransitionConfig
-} from '../models/phase';
-import type { UpgradeDefinition, UpgradeEffect, UpgradeUnlockCondition } from '../models/upgrades';
+import type { PhaseDefinition, GridConfig, TransitionConfig } from '../models/phase';
+import {
+	type Condition,
+	CONDITION_TYPES,
+	CONDITION_STATS,
+	COMPARISON_OPERATORS
+} from '../models/conditions';
+import {
+	type UpgradeDefinition,
+	type UpgradeEffect,
+	type UpgradeUnlockCondition,
+	UPGRADE_CURRENCY_RESOURCES
+} from '../models/upgrades';
 import type { AchievementDefinition, AchievementReward } from '../models/achievements';
 import type { ResourceDefinition } from '../models/resources';
-import type {
-	Dialogue,
-	DialogueLine,
-	Choice,
-	Consequence,
-	StoryCondition,
-	LogDefinition,
-	StoryEvent
+import type { CostMap } from '../models/costs';
+import {
+	type Dialogue,
+	type DialogueLine,
+	type Choice,
+	type Consequence,
+	type LogDefinition,
+	type StoryEvent,
+	type StoryTrigger,
+	type StoryTriggerType,
+	isStoryCondition,
+	toCondition
 } from '../models/narrative';
 
 import { PHASE_DEFINITIONS } from './phases';
@@ -40,7 +50,11 @@ import {
 } from './story';
 import { ALL_UPGRADES, UPGRADE_MAP } from './upgrades';
 import { ALL_ACHIEVEMENTS, ACHIEVEMENT_DEFINITIONS } from './achievements';
+import { ALL_ENDINGS } from './endings';
+import { SECRET_DEFINITIONS, SECRET_MAP } from './secrets';
 import { RESOURCE_DEFINITIONS } from '../models/resources';
+import { PRODUCER_DEFINITIONS } from '../models/producers';
+import { TOTAL_PHASES } from '../models/phase';
 
 // ============================================================================
 // Validation Result Types
@@ -214,6 +228,7 @@ export function isValidUpgradeDefinition(data: unknown): data is UpgradeDefiniti
 			typeof upgrade.baseCost === 'string' ||
 			typeof upgrade.baseCost === 'function') &&
 		['pixels', 'primordial', 'knowledge', 'memory'].includes(upgrade.currency || '') &&
+		(upgrade.extraCosts === undefined || isValidCostMap(upgrade.extraCosts)) &&
 		Array.isArray(upgrade.effects) &&
 		upgrade.effects.every(isValidUpgradeEffect) &&
 		typeof upgrade.minPhase === 'number' &&
@@ -224,6 +239,25 @@ export function isValidUpgradeDefinition(data: unknown): data is UpgradeDefiniti
 	);
 }
 
+/**
+ * Type guard for CostMap (extra cost components by resource ID).
+ *
+ * @param data - Unknown data to validate
+ * @returns True if data is a valid CostMap
+ */
+export function isValidCostMap(data: unknown): data is CostMap {
+	if (!data || typeof data !== 'object' || Array.isArray(data)) return false;
+
+	const isCostValue = (value: unknown): boolean =>
+		(typeof value === 'number' && value > 0) || (typeof value === 'string' && value.length > 0);
+
+	return Object.values(data).every((component) => {
+		if (!component || typeof component !== 'object') return false;
+		const { baseCost, costMultiplier } = component as Partial<CostMap[string]>;
+		return isCostValue(baseCost) && (costMultiplier === undefined || isCostValue(costMultiplier));
+	});
+}
+
 /**
  * Type guard for UpgradeEffect.
  *
@@ -396,72 +430,243 @@ function isValidDialogueLine(data: unknown): data is DialogueLine {
 /**
  * Type guard for Condition.
  * Validates that an unknown object conforms to a Condition type.
+ * Only checks structure; use validateCondition to also check references.
  *
  * @param data - Unknown data to validate
  * @returns True if data is a valid Condition
  */
 export function isValidCondition(data: unknown): data is Condition {
-	if (!data || typeof data !== 'object') return false;
+	const errors: ValidationError[] = [];
+	checkCondition(data, 'condition', errors, [], false);
+	return errors.length === 0;
+}
 
-	const condition = data as Partial<Condition>;
+/**
+ * Validate a condition tree and its references.
+ * Used for every kind of content (phases, story, endings, achievements, secrets),
+ * so the same condition is reported the same way wherever it appears.
+ *
+ * @param condition - Condition to validate
+ * @param path - Path for error reporting
+ * @param errors - Error array to push to
+ * @param warnings - Warning array to push to
+ */
+export function validateCondition(
+	condition: unknown,
+	path: string,
+	errors: ValidationError[],
+	warnings: ValidationWarning[]
+): void {
+	checkCondition(condition, path, errors, warnings, true);
+}
 
-	const validTypes = [
-		'resource',
-		'time',
-		'choice',
-		'phase',
-		'producer',
-		'upgrade',
-		'achievement',
-		'and',
-		'or',
-		'not',
-		'always',
-		'never'
-	];
+/**
+ * Story trigger types accepted in the story shorthand.
+ */
+const STORY_TRIGGER_TYPES: readonly StoryTriggerType[] = [
+	'resource_reached',
+	'phase_entered',
+	'phase_completed',
+	'time_passed',
+	'producer_count',
+	'upgrade_purchased',
+	'achievement_unlocked',
+	'flag_set',
+	'choice_made',
+	'condition',
+	'manual'
+];
 
-	if (!condition.type || !validTypes.includes(condition.type)) {
-		return false;
+/**
+ * Validate a story trigger (shared condition or story shorthand).
+ *
+ * @param trigger - Trigger to validate
+ * @param path - Path for error reporting
+ * @param errors - Error array to push to
+ * @param warnings - Warning array to push to
+ */
+function validateStoryTrigger(
+	trigger: StoryTrigger,
+	path: string,
+	errors: ValidationError[],
+	warnings: ValidationWarning[]
+): void {
+	if (!trigger || typeof trigger !== 'object') {
+		errors.push({ path, message: 'Invalid condition structure', value: trigger });
+		return;
+	}
+
+	if (isStoryCondition(trigger)) {
+		if (!STORY_TRIGGER_TYPES.includes(trigger.type)) {
+			errors.push({
+				path: `${path}.type`,
+				message: `Unknown story trigger type: "${trigger.type}"`,
+				value: trigger.type
+			});
+			return;
+		}
+		if (!trigger.params || typeof trigger.params !== 'object') {
+			errors.push({ path: `${path}.params`, message: 'Story trigger is missing params' });
+			return;
+		}
 	}
 
-	// Type-specific validation
+	validateCondition(toCondition(trigger), path, errors, warnings);
+}
+
+/**
+ * Check a condition's structure and, optionally, its references.
+ */
+function checkCondition(
+	data: unknown,
+	path: string,
+	errors: ValidationError[],
+	warnings: ValidationWarning[],
+	checkReferences: boolean
+): void {
+	if (!data || typeof data !== 'object') {
+		errors.push({ path, message: 'Invalid condition structure', value: data });
+		return;
+	}
+
+	const condition = data as Condition;
+	if (!CONDITION_TYPES.includes(condition.type)) {
+		errors.push({
+			path: `${path}.type`,
+			message: `Unknown condition type: "${(condition as { type?: unknown }).type}"`,
+			value: (condition as { type?: unknown }).type
+		});
+		return;
+	}
+
+	const fail = (field: string, message: string, value: unknown) => {
+		errors.push({ path: `${path}.${field}`, message, value });
+	};
+	const checkOperator = (operator: unknown, required: boolean) => {
+		if (operator === undefined && !required) return;
+		if (!COMPARISON_OPERATORS.includes(operator as (typeof COMPARISON_OPERATORS)[number])) {
+			fail('operator', `Invalid comparison operator: "${operator}"`, operator);
+		}
+	};
+
 	switch (condition.type) {
 		case 'resource':
-			return (
-				typeof (condition as any).resourceId === 'string' &&
-				((condition as any).amount !== undefined)
-			);
+			if (typeof condition.resourceId !== 'string') {
+				fail('resourceId', 'Resource condition is missing resourceId', condition.resourceId);
+			} else if (checkReferences && !RESOURCE_DEFINITIONS[condition.resourceId]) {
+				fail('resourceId', `Unknown resource ID: "${condition.resourceId}"`, condition.resourceId);
+			}
+			if (typeof condition.amount !== 'number' && typeof condition.amount !== 'string') {
+				fail('amount', 'Resource condition is missing amount', condition.amount);
+			}
+			checkOperator(condition.operator, false);
+			break;
 		case 'time':
-			return typeof (condition as any).minSeconds === 'number';
+			if (typeof condition.minSeconds !== 'number') {
+				fail('minSeconds', 'Time condition is missing minSeconds', condition.minSeconds);
+			}
+			if (condition.scope !== undefined && condition.scope !== 'phase' && condition.scope !== 'run') {
+				fail('scope', `Invalid time scope: "${condition.scope}"`, condition.scope);
+			}
+			checkOperator(condition.operator, false);
+			break;
 		case 'choice':
-			return (
-				typeof (condition as any).choiceId === 'string' &&
-				(condition as any).value !== undefined
-			);
+			if (typeof condition.choiceId !== 'string') {
+				fail('choiceId', 'Choice condition is missing choiceId', condition.choiceId);
+			}
+			break;
 		case 'phase':
-			return typeof (condition as any).phase === 'number';
+			if (typeof condition.phase !== 'number') {
+				fail('phase', 'Phase condition is missing phase', condition.phase);
+			} else if (checkReferences && (condition.phase < 1 || condition.phase > TOTAL_PHASES)) {
+				fail('phase', `Invalid phase number: ${condition.phase} (must be 1-${TOTAL_PHASES})`, condition.phase);
+			}
+			checkOperator(condition.operator, false);
+			break;
 		case 'producer':
-			return (
-				typeof (condition as any).producerId === 'string' &&
-				typeof (condition as any).amount === 'number'
-			);
+			if (typeof condition.producerId !== 'string') {
+				fail('producerId', 'Producer condition is missing producerId', condition.producerId);
+			} else if (checkReferences && !PRODUCER_DEFINITIONS[condition.producerId]) {
+				fail('producerId', `Unknown producer ID: "${condition.producerId}"`, condition.producerId);
+			}
+			if (typeof condition.amount !== 'number') {
+				fail('amount', 'Producer condition is missing amount', condition.amount);
+			}
+			checkOperator(condition.operator, false);
+			break;
 		case 'upgrade':
-			return typeof (condition as any).upgradeId === 'string';
+			if (typeof condition.upgradeId !== 'string') {
+				fail('upgradeId', 'Upgrade condition is missing upgradeId', condition.upgradeId);
+			} else if (checkReferences && !UPGRADE_MAP.has(condition.upgradeId)) {
+				fail('upgradeId', `Unknown upgrade ID: "${condition.upgradeId}"`, condition.upgradeId);
+			}
+			break;
 		case 'achievement':
-			return typeof (condition as any).achievementId === 'string';
+			if (typeof condition.achievementId !== 'string') {
+				fail('achievementId', 'Achievement condition is missing achievementId', condition.achievementId);
+			} else if (checkReferences && !ACHIEVEMENT_DEFINITIONS.has(condition.achievementId)) {
+				fail('achievementId', `Unknown achievement ID: "${condition.achievementId}"`, condition.achievementId);
+			}
+			break;
+		case 'flag':
+			if (typeof condition.flag !== 'string' || condition.flag.length === 0) {
+				fail('flag', 'Flag condition is missing flag', condition.flag);
+			}
+			break;
+		case 'stat':
+			if (typeof condition.stat !== 'string') {
+				fail('stat', 'Stat condition is missing stat', condition.stat);
+			} else if (
+				checkReferences &&
+				!(CONDITION_STATS as readonly string[]).includes(condition.stat)
+			) {
+				warnings.push({
+					path: `${path}.stat`,
+					message: `Unknown stat "${condition.stat}" (must be tracked as a custom stat)`,
+					value: condition.stat
+				});
+			}
+			if (typeof condition.value !== 'number') {
+				fail('value', 'Stat condition is missing value', condition.value);
+			}
+			checkOperator(condition.operator, true);
+			break;
+		case 'time_of_day':
+			if (typeof condition.hour !== 'number' || condition.hour < 0 || condition.hour > 23) {
+				fail('hour', `Invalid hour: ${condition.hour} (must be 0-23)`, condition.hour);
+			}
+			checkOperator(condition.operator, true);
+			break;
+		case 'ending':
+			if (typeof condition.endingId !== 'string') {
+				fail('endingId', 'Ending condition is missing endingId', condition.endingId);
+			} else if (checkReferences && !ALL_ENDINGS.some((ending) => ending.id === condition.endingId)) {
+				fail('endingId', `Unknown ending ID: "${condition.endingId}"`, condition.endingId);
+			}
+			break;
+		case 'secret':
+			if (typeof condition.secretId !== 'string') {
+				fail('secretId', 'Secret condition is missing secretId', condition.secretId);
+			} else if (checkReferences && !SECRET_MAP.has(condition.secretId)) {
+				fail('secretId', `Unknown secret ID: "${condition.secretId}"`, condition.secretId);
+			}
+			break;
 		case 'and':
 		case 'or':
-			return (
-				Array.isArray((condition as any).conditions) &&
-				(condition as any).conditions.every(isValidCondition)
-			);
+			if (!Array.isArray(condition.conditions)) {
+				fail('conditions', `${condition.type.toUpperCase()} condition is missing conditions`, condition.conditions);
+				break;
+			}
+			condition.conditions.forEach((child, idx) => {
+				checkCondition(child, `${path}.conditions[${idx}]`, errors, warnings, checkReferences);
+			});
+			break;
 		case 'not':
-			return isValidCondition((condition as any).condition);
+			checkCondition(condition.condition, `${path}.condition`, errors, warnings, checkReferences);
+			break;
 		case 'always':
 		case 'never':
-			return true;
-		default:
-			return false;
+			break;
 	}
 }
 
@@ -476,7 +681,7 @@ export function isValidEndingDefinition(data: unknown): data is {
 	id: string;
 	name: string;
 	description: string;
-	requirements: StoryCondition[];
+	requirements: StoryTrigger[];
 	path: string;
 } {
 	if (!data || typeof data !== 'object') return false;
@@ -631,24 +836,12 @@ export function validatePhaseReferences(): ValidationResult {
 
 		// Validate unlock conditions
 		phase.unlockConditions.forEach((condition, idx) => {
-			if (!isValidCondition(condition)) {
-				errors.push({
-					path: `${basePath}.unlockConditions[${idx}]`,
-					message: `Invalid unlock condition`,
-					value: condition
-				});
-			}
+			validateCondition(condition, `${basePath}.unlockConditions[${idx}]`, errors, warnings);
 		});
 
 		// Validate transition conditions
 		phase.transitionConditions.forEach((condition, idx) => {
-			if (!isValidCondition(condition)) {
-				errors.push({
-					path: `${basePath}.transitionConditions[${idx}]`,
-					message: `Invalid transition condition`,
-					value: condition
-				});
-			}
+			validateCondition(condition, `${basePath}.transitionConditions[${idx}]`, errors, warnings);
 		});
 	});
 
@@ -792,45 +985,8 @@ export function validateAchievementConditions(): ValidationResult {
 			return;
 		}
 
-		// Validate condition references
-		const validateConditionRefs = (condition: Condition, condPath: string) => {
-			if (condition.type === 'resource') {
-				const resourceId = (condition as any).resourceId;
-				if (!RESOURCE_DEFINITIONS[resourceId]) {
-					errors.push({
-						path: `${condPath}.resourceId`,
-						message: `Unknown resource ID: "${resourceId}"`,
-						value: resourceId
-					});
-				}
-			} else if (condition.type === 'upgrade') {
-				const upgradeId = (condition as any).upgradeId;
-				if (!UPGRADE_MAP.has(upgradeId)) {
-					errors.push({
-						path: `${condPath}.upgradeId`,
-						message: `Unknown upgrade ID: "${upgradeId}"`,
-						value: upgradeId
-					});
-				}
-			} else if (condition.type === 'achievement') {
-				const achievementId = (condition as any).achievementId;
-				if (!ACHIEVEMENT_DEFINITIONS.has(achievementId)) {
-					errors.push({
-						path: `${condPath}.achievementId`,
-						message: `Unknown achievement ID: "${achievementId}"`,
-						value: achievementId
-					});
-				}
-			} else if (condition.type === 'and' || condition.type === 'or') {
-				(condition as any).conditions?.forEach((subCond: Condition, idx: number) => {
-					validateConditionRefs(subCond, `${condPath}.conditions[${idx}]`);
-				});
-			} else if (condition.type === 'not') {
-				validateConditionRefs((condition as any).condition, `${condPath}.condition`);
-			}
-		};
-
-		validateConditionRefs(achievement.condition, `${basePath}.condition`);
+		// Validate condition
+		validateCondition(achievement.condition, `${basePath}.condition`, errors, warnings);
 
 		// Validate prerequisite
 		if (achievement.prerequisite && !ACHIEVEMENT_DEFINITIONS.has(achievement.prerequisite)) {
@@ -872,6 +1028,125 @@ export function validateAchievementConditions(): ValidationResult {
 	};
 }
 
+/**
+ * Validate ending trigger conditions.
+ *
+ * @returns Validation result with errors and warnings
+ */
+export function validateEndingConditions(): ValidationResult {
+	const errors: ValidationError[] = [];
+	const warnings: ValidationWarning[] = [];
+
+	ALL_ENDINGS.forEach((ending) => {
+		validateCondition(ending.trigger, `endings.${ending.id}.trigger`, errors, warnings);
+	});
+
+	return {
+		valid: errors.length === 0,
+		errors,
+		warnings,
+		timestamp: Date.now()
+	};
+}
+
+/**
+ * Validate secret discovery conditions.
+ *
+ * @returns Validation result with errors and warnings
+ */
+export function validateSecretConditions(): ValidationResult {
+	const errors: ValidationError[] = [];
+	const warnings: ValidationWarning[] = [];
+
+	SECRET_DEFINITIONS.forEach((secret) => {
+		validateCondition(
+			secret.discoveryCondition,
+			`secrets.${secret.id}.discoveryCondition`,
+			errors,
+			warnings
+		);
+	});
+
+	return {
+		valid: errors.length === 0,
+		errors,
+		warnings,
+		timestamp: Date.now()
+	};
+}
+
+/**
+ * Validate the cost resources of producers and upgrades.
+ * Every cost component must name a known resource.
+ *
+ * @returns Validation result with errors and warnings
+ */
+export function validateCostReferences(): ValidationResult {
+	const errors: ValidationError[] = [];
+	const warnings: ValidationWarning[] = [];
+
+	const checkCosts = (
+		basePath: string,
+		mainResource: string,
+		extraCosts: CostMap | undefined
+	): void => {
+		if (!RESOURCE_DEFINITIONS[mainResource]) {
+			errors.push({
+				path: basePath,
+				message: `Unknown cost resource: "${mainResource}"`,
+				value: mainResource
+			});
+		}
+
+		if (extraCosts === undefined) return;
+		if (!isValidCostMap(extraCosts)) {
+			errors.push({
+				path: `${basePath}.extraCosts`,
+				message: 'Extra costs have invalid structure',
+				severity: 'critical'
+			});
+			return;
+		}
+
+		for (const resourceId of Object.keys(extraCosts)) {
+			if (!RESOURCE_DEFINITIONS[resourceId]) {
+				errors.push({
+					path: `${basePath}.extraCosts.${resourceId}`,
+					message: `Unknown cost resource: "${resourceId}"`,
+					value: resourceId
+				});
+			}
+			if (resourceId === mainResource) {
+				warnings.push({
+					path: `${basePath}.extraCosts.${resourceId}`,
+					message: `Extra cost repeats the main cost resource "${resourceId}"`,
+					value: resourceId
+				});
+			}
+		}
+	};
+
+	for (const producer of Object.values(PRODUCER_DEFINITIONS)) {
+		checkCosts(`producers.${producer.id}.costResource`, producer.costResource, producer.extraCosts);
+	}
+
+	for (const upgrade of ALL_UPGRADES) {
+		if (!upgrade.extraCosts) continue;
+		checkCosts(
+			`upgrades.${upgrade.id}.currency`,
+			UPGRADE_CURRENCY_RESOURCES[upgrade.currency] ?? upgrade.currency,
+			upgrade.extraCosts
+		);
+	}
+
+	return {
+		valid: errors.length === 0,
+		errors,
+		warnings,
+		timestamp: Date.now()
+	};
+}
+
 /**
  * Type guard for LogDefinition.
  *
@@ -913,76 +1188,6 @@ function isValidStoryEvent(data: unknown): data is StoryEvent {
 	);
 }
 
-/**
- * Validate a StoryCondition and its references.
- *
- * @param condition - Story condition to validate
- * @param path - Path for error reporting
- * @param errors - Error array to push to
- * @param warnings - Warning array to push to
- */
-function validateStoryCondition(
-	condition: StoryCondition,
-	path: string,
-	errors: ValidationError[],
-	warnings: ValidationWarning[]
-): void {
-	if (!condition || typeof condition !== 'object') {
-		errors.push({
-			path,
-			message: 'Invalid condition structure'
-		});
-		return;
-	}
-
-	switch (condition.type) {
-		case 'resource_reached': {
-			const params = condition.params as { resourceId?: string };
-			if (params?.resourceId && !RESOURCE_DEFINITIONS[params.resourceId]) {
-				warnings.push({
-					path: `${path}.params.resourceId`,
-					message: `Unknown resource ID: "${params.resourceId}"`,
-					value: params.resourceId
-				});
-			}
-			break;
-		}
-		case 'upgrade_purchased': {
-			const params = condition.params as { upgradeId?: string };
-			if (params?.upgradeId && !UPGRADE_MAP.has(params.upgradeId)) {
-				warnings.push({
-					path: `${path}.params.upgradeId`,
-					message: `Unknown upgrade ID: "${params.upgradeId}"`,
-					value: params.upgradeId
-				});
-			}
-			break;
-		}
-		case 'achievement_unlocked': {
-			const params = condition.params as { achievementId?: string };
-			if (params?.achievementId && !ACHIEVEMENT_DEFINITIONS.has(params.achievementId)) {
-				warnings.push({
-					path: `${path}.params.achievementId`,
-					message: `Unknown achievement ID: "${params.achievementId}"`,
-					value: params.achievementId
-				});
-			}
-			break;
-		}
-		case 'phase_entered': {
-			const params = condition.params as { phase?: number };
-			if (typeof params?.phase === 'number' && (params.phase < 1 || params.phase > 20)) {
-				errors.push({
-					path: `${path}.params.phase`,
-					message: `Invalid phase number: ${params.phase} (must be 1-20)`,
-					value: params.phase
-				});
-			}
-			break;
-		}
-	}
-}
-
 /**
  * Validate story event references.
  * Validates logs, dialogues, and story events from cached data.
@@ -1111,6 +1316,11 @@ export function validateStoryReferences(): ValidationResult {
 					});
 				}
 
+				// Validate display condition
+				if (choice.condition) {
+					validateStoryTrigger(choice.condition, `${choicePath}.condition`, errors, warnings);
+				}
+
 				// Validate consequences
 				if (choice.consequences) {
 					choice.consequences.forEach((consequence, consIdx) => {
@@ -1167,12 +1377,7 @@ export function validateStoryReferences(): ValidationResult {
 		// Validate triggers
 		if (event.triggers) {
 			event.triggers.forEach((trigger, triggerIdx) => {
-				validateStoryCondition(
-					trigger,
-					`${basePath}.triggers[${triggerIdx}]`,
-					errors,
-					warnings
-				);
+				validateStoryTrigger(trigger, `${basePath}.triggers[${triggerIdx}]`, errors, warnings);
 			});
 		}
 
@@ -1308,6 +1513,9 @@ export function validateAllData(): ValidationResult {
 		validatePhaseReferences(),
 		validateUpgradeReferences(),
 		validateAchievementConditions(),
+		validateEndingConditions(),
+		validateSecretConditions(),
+		validateCostReferences(),
 		validateStoryReferences()
 	];
 
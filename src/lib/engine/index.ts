@@ -9,20 +9,146 @@
 // Core Systems
 // ============================================================================
 export { Game, type GameStatus } from './core/Game.svelte';
-export { EventManager, type SubscribeOptions } from './core/EventManager';
+export {
+	EventManager,
+	isEventPattern,
+	matchesEventPattern,
+	type SubscribeOptions
+} from './core/EventManager';
 export { GameLoop, type LoopState, type LoopStats, type TickCallback } from './core/GameLoop';
+export {
+	GameSimulation,
+	type SimulationPolicy,
+	type SimulationOptions,
+	type SimulationRunOptions,
+	type SimulationResult
+} from './core/GameSimulation';
+export {
+	BalanceSimulator,
+	BALANCE_STRATEGIES,
+	createStrategyPolicy,
+	formatBalanceReportJson,
+	formatBalanceReportCsv,
+	type BalanceStrategyId,
+	type BalanceStrategy,
+	type PhaseVerdict,
+	type PhaseTiming,
+	type BalanceRun,
+	type BalanceReport,
+	type BalanceSimulatorOptions
+} from './core/BalanceSimulator';
+export {
+	DevConsole,
+	DEV_COMMANDS,
+	installDevBridge,
+	type ConsoleResult,
+	type ConsoleCommand,
+	type ConsoleEntry,
+	type DevBridge
+} from './core/DevConsole';
+export {
+	ReplayRecorder,
+	replaySession,
+	createReplayCheckpoint,
+	compareReplayCheckpoints,
+	serializeReplay,
+	parseReplay,
+	REPLAY_FORMAT,
+	REPLAY_VERSION,
+	type RecordedInput,
+	type ReplayCheckpoint,
+	type ReplayFile,
+	type ReplayResult
+} from './core/Replay';
 export {
 	SaveManager,
 	type SerializedSaveData,
-	type SaveOptions
+	type SaveOptions,
+	type SaveSlotInfo,
+	type SaveSlotDetails,
+	type SaveSnapshotInfo,
+	type SnapshotReason
 } from './core/SaveManager';
 export {
 	MigrationRegistry,
 	type MigrationFunction,
+	CURRENT_SAVE_VERSION,
+	CURRENT_GAME_SAVE_VERSION,
+	createMigrationRegistry,
+	createGameSaveMigrationRegistry,
 	sanitizeSaveData,
+	sanitizeGameSave,
+	sanitizePreferences,
+	SAVE_MANAGER_SCHEMA,
+	GAME_SAVE_SCHEMA,
 	DEFAULT_RUN_STATE,
-	DEFAULT_ETERNAL_STATE
+	DEFAULT_ETERNAL_STATE,
+	getKnownContentIds,
+	type MigrationStep,
+	type SanitizeChange,
+	type MigrationWarning,
+	type KnownContentIds,
+	type MigrationReport,
+	type SaveSchema
 } from './core/SaveMigration';
+export {
+	PLAIN_SAVE_FORMAT,
+	COMPACT_SAVE_FORMAT,
+	packDecimal,
+	unpackDecimal,
+	packGameState,
+	unpackGameState,
+	packJson,
+	unpackJson,
+	SAVE_MANAGER_PACKER,
+	GAME_SAVE_PACKER,
+	encodeCompactState,
+	decodeCompactState,
+	encodeStoredSave,
+	decodeStoredSave,
+	type PackedDecimal,
+	type PackedRecord,
+	type PackedRunState,
+	type PackedEternalState,
+	type PackedGameState,
+	type PackedJson,
+	type StatePacker
+} from './core/SaveCodec';
+export {
+	LocalStorageAdapter,
+	MemoryStorageAdapter,
+	IndexedDBStorageAdapter,
+	CachedSaveStorage,
+	createSaveStorage,
+	toSyncStorage
+} from './core/SaveStorage';
+export {
+	SAVE_ENVELOPE_VERSION,
+	MODIFIED_SAVE_FLAG,
+	encodeSave,
+	decodeSave,
+	type SaveCompression,
+	type SaveIntegrity,
+	type SaveEnvelopeData,
+	type EncodeSaveOptions,
+	type ImportSaveOptions,
+	type DecodedSave
+} from './core/SaveEnvelope';
+export {
+	SAVE_FILE_EXTENSION,
+	SAVE_FILE_MIME_TYPE,
+	MAX_SAVE_FILE_SIZE,
+	summarizeSave,
+	summarizeGameSave,
+	diffSaveSummaries,
+	createSaveFileName,
+	isSaveFile,
+	downloadSaveFile,
+	readSaveFile,
+	type SaveSummary,
+	type SaveSummaryDiff,
+	type SaveImportPreview
+} from './core/SaveFile';
 
 // ============================================================================
 // Systems (Managers)
@@ -38,8 +164,11 @@ export {
 	ConditionEvaluator,
 	Conditions,
 	createConditionEvaluator,
+	getFailedLeaves,
+	type ConditionQueries,
 	type EvaluationContext,
-	type EvaluationResult
+	type EvaluationResult,
+	type PendingCondition
 } from './systems/ConditionEvaluator';
 export {
 	ProductionPipeline,
@@ -67,6 +196,7 @@ export {
 	type SecretNotification,
 	type SerializedSecrets
 } from './systems/SecretManager.svelte';
+export { AutomationManager, type SerializedAutomation } from './systems/AutomationManager.svelte';
 
 // ============================================================================
 // Models & Types
@@ -79,12 +209,19 @@ export type {
 	PlayerPreferences,
 	SaveMeta,
 	SerializedGameState,
+	SerializedGameSave,
+	SerializedGameSaveRun,
+	SerializedGameSaveEternal,
 	Manager,
 	Callback,
 	Unsubscribe,
 	Condition,
 	Effect,
-	GameConfig
+	GameConfig,
+	SaveStorage,
+	SyncSaveStorage,
+	SaveStorageType,
+	LoopMode
 } from './models/types';
 export { DEFAULT_CONFIG } from './models/types';
 
@@ -92,6 +229,11 @@ export type {
 	GameEventMap,
 	GameEventName,
 	GameEventData,
+	GameEventCategory,
+	GameEventWildcard,
+	GameEventPattern,
+	GameEventsMatching,
+	GameEventEnvelope,
 	GameInitializedEvent,
 	GamePausedEvent,
 	GameResumedEvent,
@@ -117,11 +259,15 @@ export type {
 	RebirthStartedEvent,
 	RebirthCompletedEvent,
 	OfflineGainsCalculatedEvent,
+	OfflineUnlock,
 	ProducerPurchasedEvent,
 	ProducerUnlockedEvent,
+	ProducerMilestoneReachedEvent,
 	MultiplierChangedEvent,
-	AutomationTriggeredEvent
+	AutomationTriggeredEvent,
+	PlayerInputEvent
 } from './models/events';
+export { EVENT_CATEGORIES } from './models/events';
 
 // Narrative Models
 export type {
@@ -138,6 +284,7 @@ export type {
 	StoryEvent,
 	StoryEventType,
 	StoryCondition,
+	StoryTrigger,
 	StoryTriggerType,
 	ActiveDialogueState,
 	SerializedNarrativeState,
@@ -147,7 +294,7 @@ export type {
 	EndingId,
 	Ending
 } from './models/narrative';
-export { SPEAKER_STYLES } from './models/narrative';
+export { SPEAKER_STYLES, isStoryCondition, toCondition } from './models/narrative';
 
 export type {
 	ResourceDefinition,
@@ -168,7 +315,10 @@ export type {
 	ProducerDefinition,
 	ProducerState,
 	ProducerCategory,
-	ProducerIdType
+	ProducerIdType,
+	ProducerMilestone,
+	BuyQuantityMode,
+	PurchasePreview
 } from './models/producers';
 export {
 	ProducerId,
@@ -176,9 +326,24 @@ export {
 	getProducerDefinition,
 	getProducersByCategory,
 	getProducersForPhase,
-	isProducerVisibleAtPhase
+	isProducerVisibleAtPhase,
+	getNextFlavorMilestone,
+	getProducerMilestones,
+	getNextProducerMilestone,
+	getMilestoneMultiplier,
+	getProducerMilestoneLogs,
+	DEFAULT_PRODUCER_MILESTONES,
+	BUY_QUANTITY_MODES
 } from './models/producers';
 
+export type { ProducerSynergy, SynergyFormula } from './models/synergies';
+export {
+	SYNERGY_DEFINITIONS,
+	getSynergiesFromProducer,
+	getSynergiesForProducer,
+	calculateSynergyValue
+} from './models/synergies';
+
 export type {
 	PhaseDefinition,
 	PhaseProgress,
@@ -186,7 +351,16 @@ export type {
 	TransitionState,
 	TransitionConfig,
 	GridConfig,
+	VisualMode,
+	PhaseType,
+	PhaseIdType
+} from './models/phase';
+export type {
 	Condition as PhaseCondition,
+	Condition as GameCondition,
+	ConditionType,
+	ConditionStat,
+	ComparisonOperator,
 	ResourceCondition,
 	TimeCondition,
 	ChoiceCondition,
@@ -194,13 +368,19 @@ export type {
 	ProducerCondition,
 	UpgradeCondition,
 	AchievementCondition,
+	FlagCondition,
+	StatCondition,
+	TimeOfDayCondition,
+	EndingCondition,
+	SecretCondition,
 	AndCondition,
 	OrCondition,
 	NotCondition,
-	VisualMode,
-	PhaseType,
-	PhaseIdType
-} from './models/phase';
+	AlwaysCondition,
+	NeverCondition
+} from './models/conditions';
+export { CONDITION_TYPES, CONDITION_STATS, COMPARISON_OPERATORS } from './models/conditions';
+
 export {
 	PhaseId,
 	ABSTRACT_MODE_START_PHASE,
@@ -221,7 +401,31 @@ export type {
 	InternalUpgradeState,
 	SerializedUpgrades
 } from './models/upgrades';
-export { UpgradeId, isAtMaxLevel, isRepeatableUpgrade } from './models/upgrades';
+export {
+	UpgradeId,
+	UPGRADE_CURRENCY_RESOURCES,
+	isAtMaxLevel,
+	isRepeatableUpgrade
+} from './models/upgrades';
+
+// Cost Models
+export type { CostComponent, CostMap, ResourceCosts } from './models/costs';
+export { calculateComponentCost, addResourceCost } from './models/costs';
+
+// Automation Models
+export type {
+	AutomationTargetType,
+	PurchaseSource,
+	AutomationRule,
+	AutomationRuleEntry
+} from './models/automation';
+export {
+	AUTOBUYER_UNLOCK_ID,
+	AUTOMATION_INTERVAL,
+	MAX_AUTOMATED_PURCHASES,
+	DEFAULT_AUTOMATION_RULE,
+	getAutomationId
+} from './models/automation';
 
 // Achievement Models
 export type {
@@ -315,7 +519,6 @@ export {
 // Secret Data
 export type {
 	SecretDefinition,
-	SecretCondition,
 	SecretReward,
 	SecretType
 } from './data/secrets';
@@ -405,11 +608,39 @@ export {
 	type OfflineProgressConfig,
 	type OfflineReward,
 	type OfflineCalculationResult,
+	type OfflineDuration,
+	type OfflineModifiers,
 	DEFAULT_OFFLINE_CONFIG,
+	MAX_OFFLINE_HOURS,
+	createOfflineConfig,
 	calculateOfflineProgress,
-	calculateOfflineProgressWithBreakdown
+	calculateOfflineProgressWithBreakdown,
+	calculateOfflineDuration,
+	splitOfflineTime,
+	OFFLINE_CHUNK_SECONDS,
+	MAX_OFFLINE_CHUNKS
 } from './utils/OfflineProgress';
 
+export {
+	type RebirthInput,
+	type RebirthBreakdown,
+	type RebirthPreview,
+	calculateRebirthPreview
+} from './utils/RebirthCalculation';
+
+export {
+	encodeUtf8,
+	decodeUtf8,
+	bytesToBase64,
+	base64ToBytes,
+	crc32,
+	compress,
+	decompress,
+	huffmanEncode,
+	huffmanDecode
+} from './utils/encoding';
+export { createSeededRandom, type SeededRandom } from './utils/random';
+
 // ============================================================================
 // Context Helpers
 // ============================================================================
@@ -11,7 +11,7 @@
  * @module engine/models/achievements
  */
 
-import type { Condition } from './phase';
+import type { Condition } from './conditions';
 
 // ============================================================================
 // Achievement Categories & Tiers
@@ -0,0 +1,85 @@
+/**
+ * @fileoverview Autobuyer types and configuration.
+ * Once unlocked, autobuyers buy producers and repeatable upgrades according
+ * to per-item rules set by the player.
+ *
+ * Autobuyers are unlocked by the `autobuyer` feature, either through an
+ * upgrade effect (`unlockId: 'autobuyer'`) for the current run or through
+ * an achievement reward (`unlock: 'autobuyer'`) permanently.
+ *
+ * @module engine/models/automation
+ */
+
+/**
+ * Feature ID that unlocks autobuyers.
+ */
+export const AUTOBUYER_UNLOCK_ID = 'autobuyer';
+
+/**
+ * Simulated seconds between autobuyer runs.
+ */
+export const AUTOMATION_INTERVAL = 1;
+
+/**
+ * Maximum purchases per item and autobuyer run.
+ */
+export const MAX_AUTOMATED_PURCHASES = 100;
+
+/**
+ * What an autobuyer rule buys.
+ */
+export type AutomationTargetType = 'producer' | 'upgrade';
+
+/**
+ * Who made a purchase. Automated purchases are not player input.
+ */
+export type PurchaseSource = 'player' | 'automation';
+
+/**
+ * Player settings for autobuying one item.
+ */
+export interface AutomationRule {
+	/** Whether the item is bought automatically */
+	enabled: boolean;
+	/** Stop buying at this level (0 = no limit) */
+	maxLevel: number;
+	/** Percentage of the currency to keep when buying (0-100) */
+	reservePercent: number;
+	/** Items with higher priority are bought first */
+	priority: number;
+}
+
+/**
+ * Rule of an item with its target.
+ */
+export interface AutomationRuleEntry {
+	/** Automation identifier (see getAutomationId()) */
+	automationId: string;
+	/** What the rule buys */
+	targetType: AutomationTargetType;
+	/** Producer or upgrade ID */
+	targetId: string;
+	/** Rule settings */
+	rule: AutomationRule;
+}
+
+/**
+ * Rule for items the player has not configured.
+ */
+export const DEFAULT_AUTOMATION_RULE: Readonly<AutomationRule> = {
+	enabled: false,
+	maxLevel: 0,
+	reservePercent: 0,
+	priority: 0
+};
+
+/**
+ * Get the automation identifier of an item.
+ *
+ * @param targetType - What the rule buys
+ * @param targetId - Producer or upgrade ID
+ * @returns Identifier, e.g. `producer:pixel_generator`
+ */
+export function getAutomationId(targetType: AutomationTargetType, targetId: string): string {
+	return `${targetType}:${targetId}`;
+}
@@ -0,0 +1,302 @@
+/**
+ * @fileoverview Condition language shared by all game content.
+ * Phases, story events, endings, achievements and secrets describe their
+ * requirements with the same declarative condition tree, evaluated by the
+ * ConditionEvaluator and checked by the data validators.
+ *
+ * Leaf conditions query game state (resources, phases, flags, stats, ...);
+ * compound conditions ('and', 'or', 'not') combine them.
+ *
+ * @module engine/models/conditions
+ */
+
+// ============================================================================
+// Shared Types
+// ============================================================================
+
+/**
+ * Comparison operator for numeric conditions.
+ */
+export type ComparisonOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte';
+
+/**
+ * All comparison operators, for validation.
+ */
+export const COMPARISON_OPERATORS: readonly ComparisonOperator[] = [
+	'eq',
+	'neq',
+	'gt',
+	'gte',
+	'lt',
+	'lte'
+];
+
+/**
+ * Built-in statistics available to stat conditions.
+ * Other stat names are looked up in the custom stats tracked by the SecretManager.
+ */
+export const CONDITION_STATS = [
+	'totalClicks',
+	'totalPlayTime',
+	'totalIdleTime',
+	'timeSinceLastClick',
+	'canvasesCompleted',
+	'canvasCount',
+	'upgradesPurchased',
+	'logsRead',
+	'uniqueChoicesMade',
+	'uniqueProducersOwned',
+	'primordialPixels'
+] as const;
+
+/**
+ * Built-in statistic identifier.
+ */
+export type ConditionStat = (typeof CONDITION_STATS)[number];
+
+// ============================================================================
+// Leaf Conditions
+// ============================================================================
+
+/**
+ * Base condition interface that all condition types extend.
+ */
+interface BaseCondition {
+	/** Type discriminator for condition handling */
+	type: string;
+}
+
+/**
+ * Resource condition - requires a certain amount of a resource.
+ */
+export interface ResourceCondition extends BaseCondition {
+	type: 'resource';
+	/** Resource identifier to check */
+	resourceId: string;
+	/** Amount to compare against (minimum with the default operator) */
+	amount: number | string;
+	/** Comparison operator (default: 'gte') */
+	operator?: ComparisonOperator;
+}
+
+/**
+ * Time condition - requires time spent in the current phase or run.
+ */
+export interface TimeCondition extends BaseCondition {
+	type: 'time';
+	/** Seconds to compare against (minimum with the default operator) */
+	minSeconds: number;
+	/** Which clock to check (default: 'phase') */
+	scope?: 'phase' | 'run';
+	/** Comparison operator (default: 'gte') */
+	operator?: ComparisonOperator;
+}
+
+/**
+ * Choice condition - requires a specific story choice to have been made.
+ */
+export interface ChoiceCondition extends BaseCondition {
+	type: 'choice';
+	/** Story/choice event identifier */
+	choiceId: string;
+	/** Expected value (choice option selected); omit to accept any option */
+	value?: string | boolean;
+}
+
+/**
+ * Phase condition - requires reaching a specific phase.
+ */
+export interface PhaseCondition extends BaseCondition {
+	type: 'phase';
+	/** Required phase number */
+	phase: number;
+	/** Whether phase must be completed (not just reached) */
+	completed?: boolean;
+	/** Comparison against the current phase (default: 'gte'); ignored when completed */
+	operator?: ComparisonOperator;
+}
+
+/**
+ * Producer condition - requires owning a certain number of producers.
+ */
+export interface ProducerCondition extends BaseCondition {
+	type: 'producer';
+	/** Producer identifier */
+	producerId: string;
+	/** Owned count to compare against (minimum with the default operator) */
+	amount: number;
+	/** Comparison operator (default: 'gte') */
+	operator?: ComparisonOperator;
+}
+
+/**
+ * Upgrade condition - requires a specific upgrade to be purchased.
+ */
+export interface UpgradeCondition extends BaseCondition {
+	type: 'upgrade';
+	/** Upgrade identifier */
+	upgradeId: string;
+	/** Required level (default: 1 = purchased) */
+	level?: number;
+}
+
+/**
+ * Achievement condition - requires unlocking a specific achievement.
+ */
+export interface AchievementCondition extends BaseCondition {
+	type: 'achievement';
+	/** Achievement identifier */
+	achievementId: string;
+}
+
+/**
+ * Flag condition - requires a story/game flag to be set.
+ */
+export interface FlagCondition extends BaseCondition {
+	type: 'flag';
+	/** Flag key */
+	flag: string;
+	/** Expected value; omit to accept any truthy value */
+	value?: boolean | string | number;
+}
+
+/**
+ * Stat condition - compares a game statistic.
+ */
+export interface StatCondition extends BaseCondition {
+	type: 'stat';
+	/** Built-in stat or custom stat name */
+	stat: ConditionStat | (string & {});
+	/** Comparison operator */
+	operator: ComparisonOperator;
+	/** Value to compare against */
+	value: number;
+}
+
+/**
+ * Time-of-day condition - compares the real-world local hour (0-23).
+ */
+export interface TimeOfDayCondition extends BaseCondition {
+	type: 'time_of_day';
+	/** Comparison operator */
+	operator: ComparisonOperator;
+	/** Hour to compare against (0-23) */
+	hour: number;
+}
+
+/**
+ * Ending condition - requires an ending to have been unlocked.
+ */
+export interface EndingCondition extends BaseCondition {
+	type: 'ending';
+	/** Ending identifier */
+	endingId: string;
+}
+
+/**
+ * Secret condition - requires a secret to have been discovered.
+ */
+export interface SecretCondition extends BaseCondition {
+	type: 'secret';
+	/** Secret identifier */
+	secretId: string;
+}
+
+/**
+ * Always true condition - for content with no requirements.
+ */
+export interface AlwaysCondition extends BaseCondition {
+	type: 'always';
+}
+
+/**
+ * Never true condition - for locked/unreachable or manually triggered content.
+ */
+export interface NeverCondition extends BaseCondition {
+	type: 'never';
+}
+
+// ============================================================================
+// Compound Conditions
+// ============================================================================
+
+/**
+ * Composite AND condition - all sub-conditions must be true.
+ */
+export interface AndCondition extends BaseCondition {
+	type: 'and';
+	/** All conditions that must be met */
+	conditions: Condition[];
+}
+
+/**
+ * Composite OR condition - at least one sub-condition must be true.
+ */
+export interface OrCondition extends BaseCondition {
+	type: 'or';
+	/** At least one condition must be met */
+	conditions: Condition[];
+}
+
+/**
+ * NOT condition - inverts the result of a sub-condition.
+ */
+export interface NotCondition extends BaseCondition {
+	type: 'not';
+	/** Condition to invert */
+	condition: Condition;
+}
+
+// ============================================================================
+// Condition Union
+// ============================================================================
+
+/**
+ * Union type of all possible conditions.
+ */
+export type Condition =
+	| ResourceCondition
+	| TimeCondition
+	| ChoiceCondition
+	| PhaseCondition
+	| ProducerCondition
+	| UpgradeCondition
+	| AchievementCondition
+	| FlagCondition
+	| StatCondition
+	| TimeOfDayCondition
+	| EndingCondition
+	| SecretCondition
+	| AndCondition
+	| OrCondition
+	| NotCondition
+	| AlwaysCondition
+	| NeverCondition;
+
+/**
+ * Condition type discriminator.
+ */
+export type ConditionType = Condition['type'];
+
+/**
+ * All condition types, for validation.
+ */
+export const CONDITION_TYPES: readonly ConditionType[] = [
+	'resource',
+	'time',
+	'choice',
+	'phase',
+	'producer',
+	'upgrade',
+	'achievement',
+	'flag',
+	'stat',
+	'time_of_day',
+	'ending',
+	'secret',
+	'and',
+	'or',
+	'not',
+	'always',
+	'never'
+];
@@ -0,0 +1,69 @@
+/**
+ * @fileoverview Multi-resource cost types.
+ * Producers and upgrades have one main cost (costResource or currency with
+ * baseCost). Later phases add recipes like "1e15 pixels + 500 dream pixels":
+ * extra cost components by resource ID, each scaling independently with the
+ * level of the item.
+ *
+ * Costs are resolved to a Map of resource ID to amount, the format of
+ * ResourceManager.canAffordMultiple() and spendMultiple().
+ *
+ * @module engine/models/costs
+ */
+
+import { D, calculateBulkCost, type Decimal, type DecimalSource } from '../utils/decimal';
+
+/**
+ * One component of a multi-resource cost.
+ */
+export interface CostComponent {
+	/** Cost of the first level */
+	baseCost: DecimalSource;
+
+	/** Cost multiplier per level (default: the multiplier of the item) */
+	costMultiplier?: DecimalSource;
+}
+
+/**
+ * Extra cost components by resource ID.
+ */
+export type CostMap = Record<string, CostComponent>;
+
+/**
+ * Resolved costs: amount by resource ID.
+ */
+export type ResourceCosts = Map<string, Decimal>;
+
+/**
+ * Calculate the cost of a component for buying several levels.
+ *
+ * @param component - Cost component
+ * @param defaultMultiplier - Multiplier if the component has none
+ * @param level - Current level of the item
+ * @param amount - Levels to buy
+ * @returns Total cost of the component
+ */
+export function calculateComponentCost(
+	component: CostComponent,
+	defaultMultiplier: DecimalSource,
+	level: number,
+	amount: number
+): Decimal {
+	return calculateBulkCost(
+		component.baseCost,
+		component.costMultiplier ?? defaultMultiplier,
+		level,
+		amount
+	);
+}
+
+/**
+ * Add a cost to resolved costs, merging costs of the same resource.
+ *
+ * @param costs - Resolved costs to add to
+ * @param resourceId - Resource ID
+ * @param cost - Amount to add
+ */
+export function addResourceCost(costs: ResourceCosts, resourceId: string, cost: DecimalSource): void {
+	costs.set(resourceId, (costs.get(resourceId) ?? D(0)).add(cost));
+}
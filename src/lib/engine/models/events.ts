@@ -9,6 +9,7 @@
  */
 
 import type { Decimal } from '../utils/decimal';
+import type { AutomationRule, AutomationTargetType } from './automation';
 
 // ============================================================================
 // Core Game Events
@@ -216,6 +217,22 @@ export interface ProducerUnlockedEvent {
 	category: string;
 }
 
+/**
+ * Emitted when a producer reaches a level milestone.
+ */
+export interface ProducerMilestoneReachedEvent {
+	/** Producer identifier */
+	producerId: string;
+	/** Milestone level */
+	level: number;
+	/** Multiplier of this milestone */
+	multiplier: number;
+	/** Combined multiplier of all reached milestones */
+	totalMultiplier: number;
+	/** Log added for the milestone, if any */
+	logId: string | null;
+}
+
 /**
  * Emitted when a multiplier is added or changed.
  */
@@ -231,7 +248,15 @@ export interface MultiplierChangedEvent {
 	/** Affected resource (empty = global) */
 	resourceId: string;
 	/** Source of the multiplier */
-	source: 'producer' | 'upgrade' | 'achievement' | 'phase' | 'eternal' | 'temporary' | 'other';
+	source:
+		| 'producer'
+		| 'synergy'
+		| 'upgrade'
+		| 'achievement'
+		| 'phase'
+		| 'eternal'
+		| 'temporary'
+		| 'other';
 }
 
 // ============================================================================
@@ -437,6 +462,18 @@ export interface RebirthCompletedEvent {
 // Offline Progression Events
 // ============================================================================
 
+/**
+ * Something unlocked or earned during offline progress.
+ */
+export interface OfflineUnlock {
+	/** What was unlocked */
+	type: 'resource' | 'producer' | 'upgrade' | 'phase' | 'achievement';
+	/** Identifier */
+	id: string;
+	/** Display name */
+	name: string;
+}
+
 /**
  * Emitted when offline progress has been calculated and applied.
  */
@@ -449,8 +486,38 @@ export interface OfflineGainsCalculatedEvent {
 	efficiency: number;
 	/** Resources gained */
 	gains: Map<string, Decimal>;
+	/** Resources, producers, upgrades and phases unlocked while away */
+	unlocks: OfflineUnlock[];
+	/** Achievements earned while away */
+	achievements: OfflineUnlock[];
 }
 
+// ============================================================================
+// Input Events
+// ============================================================================
+
+/**
+ * Emitted for every player input that changed the game.
+ * Automatic actions (auto-clicks, automatic transitions) are not inputs.
+ * Used by the ReplayRecorder to record sessions.
+ */
+export type PlayerInputEvent =
+	| { type: 'click'; resourceId: string }
+	| { type: 'buy_producer'; producerId: string; amount: number }
+	| { type: 'buy_upgrade'; upgradeId: string; amount: number }
+	| { type: 'skip_typing' }
+	| { type: 'advance_dialogue' }
+	| { type: 'choice'; choiceId: string }
+	| { type: 'advance_phase' }
+	| { type: 'rebirth' }
+	| {
+			type: 'automation_rule';
+			targetType: AutomationTargetType;
+			targetId: string;
+			changes: Partial<AutomationRule>;
+	  }
+	| { type: 'command'; command: string };
+
 // ============================================================================
 // Event Map (for type-safe subscriptions)
 // ============================================================================
@@ -484,6 +551,7 @@ export interface GameEventMap {
 	// Producers
 	producer_purchased: ProducerPurchasedEvent;
 	producer_unlocked: ProducerUnlockedEvent;
+	producer_milestone_reached: ProducerMilestoneReachedEvent;
 	multiplier_changed: MultiplierChangedEvent;
 
 	// Automation
@@ -510,6 +578,9 @@ export interface GameEventMap {
 
 	// Offline
 	offline_gains_calculated: OfflineGainsCalculatedEvent;
+
+	// Input
+	player_input: PlayerInputEvent;
 }
 
 /**
@@ -521,3 +592,74 @@ export type GameEventName = keyof GameEventMap;
  * Helper type to get event data type from event name.
  */
 export type GameEventData<T extends GameEventName> = GameEventMap[T];
+
+// ============================================================================
+// Event Patterns
+// ============================================================================
+
+/**
+ * Event names grouped by category, for category subscriptions
+ * (e.g. `events.on('narrative', ...)`).
+ */
+export const EVENT_CATEGORIES = {
+	core: ['game_initialized', 'game_paused', 'game_resumed', 'game_saved', 'tick'],
+	resources: ['resource_changed', 'resource_unlocked', 'production_changed'],
+	phases: ['phase_unlocked', 'phase_entered', 'phase_requirements_checked'],
+	upgrades: ['upgrade_purchased', 'upgrade_unlocked'],
+	producers: [
+		'producer_purchased',
+		'producer_unlocked',
+		'producer_milestone_reached',
+		'multiplier_changed'
+	],
+	automation: ['automation_triggered'],
+	achievements: ['achievement_unlocked'],
+	narrative: [
+		'story_triggered',
+		'story_completed',
+		'log_added',
+		'dialogue_started',
+		'dialogue_advanced',
+		'choice_made',
+		'flag_set',
+		'ending_unlocked',
+		'consequence_requested',
+		'revelation_triggered'
+	],
+	rebirth: ['rebirth_started', 'rebirth_completed'],
+	offline: ['offline_gains_calculated'],
+	input: ['player_input']
+} as const satisfies Record<string, readonly GameEventName[]>;
+
+/**
+ * Event category name.
+ */
+export type GameEventCategory = keyof typeof EVENT_CATEGORIES;
+
+/**
+ * Event name pattern where `*` matches any characters
+ * (e.g. `'*'`, `'story_*'`, `'*_unlocked'`).
+ */
+export type GameEventWildcard = `${string}*${string}`;
+
+/**
+ * Anything that can be subscribed to besides a single event name.
+ */
+export type GameEventPattern = GameEventWildcard | GameEventCategory;
+
+/**
+ * Helper type to get the event names a pattern matches.
+ */
+export type GameEventsMatching<P extends GameEventPattern> = P extends GameEventCategory
+	? (typeof EVENT_CATEGORIES)[P][number]
+	: P extends `${infer Prefix}*${infer Suffix}`
+		? Extract<GameEventName, `${Prefix}${string}${Suffix}`>
+		: never;
+
+/**
+ * An emitted event with its name, as passed to pattern subscribers.
+ * Narrow the data by checking `event`.
+ */
+export type GameEventEnvelope<T extends GameEventName = GameEventName> = {
+	[K in T]: { event: K; data: GameEventData<K> };
+}[T];
@@ -10,6 +10,7 @@
  */
 
 import type { Decimal } from '../utils/decimal';
+import type { Condition } from './conditions';
 
 // ============================================================================
 // Log System Types
@@ -168,7 +169,7 @@ export interface DialogueDefinition extends Omit<Dialogue, 'id'> {
 	id: string;
 
 	/** Optional condition to check before showing */
-	conditions?: StoryCondition[];
+	conditions?: StoryTrigger[];
 
 	/** Phase this dialogue belongs to */
 	phase?: number;
@@ -276,7 +277,7 @@ export interface Choice {
 	aestheticImpact?: string;
 
 	/** Optional condition to show this choice */
-	condition?: StoryCondition;
+	condition?: StoryTrigger;
 
 	/** Whether this choice is currently available */
 	available?: boolean;
@@ -311,7 +312,8 @@ export type StoryTriggerType =
 	| 'manual';
 
 /**
- * A condition for triggering or displaying story content.
+ * Story shorthand for a condition, written as a trigger type with params.
+ * Converted to the shared condition language by {@link toCondition}.
  */
 export interface StoryCondition {
 	/** Type of condition */
@@ -387,6 +389,90 @@ export interface ManualConditionParams {
 	note?: string;
 }
 
+/**
+ * A story trigger: any shared condition, or the story shorthand.
+ */
+export type StoryTrigger = Condition | StoryCondition;
+
+/**
+ * Check whether a trigger uses the story shorthand.
+ *
+ * @param trigger - Trigger to check
+ */
+export function isStoryCondition(trigger: StoryTrigger): trigger is StoryCondition {
+	return 'params' in trigger;
+}
+
+/**
+ * Convert a story trigger to the shared condition language.
+ * Manual and custom triggers never fire on their own and become 'never'.
+ *
+ * @param trigger - Shared condition or story shorthand
+ * @returns Equivalent condition
+ */
+export function toCondition(trigger: StoryTrigger): Condition {
+	if (!isStoryCondition(trigger)) return trigger;
+
+	switch (trigger.type) {
+		case 'resource_reached': {
+			const params = trigger.params as ResourceConditionParams;
+			return {
+				type: 'resource',
+				resourceId: params.resourceId,
+				amount: params.amount,
+				operator: params.comparison
+			};
+		}
+		case 'phase_entered': {
+			const params = trigger.params as PhaseConditionParams;
+			return { type: 'phase', phase: params.phase };
+		}
+		case 'phase_completed': {
+			// A phase counts as completed once the player has moved past it
+			const params = trigger.params as PhaseConditionParams;
+			return { type: 'phase', phase: params.phase, operator: 'gt' };
+		}
+		case 'time_passed': {
+			const params = trigger.params as TimeConditionParams;
+			return {
+				type: 'time',
+				minSeconds: params.seconds,
+				scope: 'run',
+				operator: params.comparison
+			};
+		}
+		case 'producer_count': {
+			const params = trigger.params as ProducerConditionParams;
+			return {
+				type: 'producer',
+				producerId: params.producerId,
+				amount: params.count,
+				operator: params.comparison
+			};
+		}
+		case 'upgrade_purchased': {
+			const params = trigger.params as UpgradeConditionParams;
+			return { type: 'upgrade', upgradeId: params.upgradeId, level: params.level };
+		}
+		case 'achievement_unlocked': {
+			const params = trigger.params as AchievementConditionParams;
+			return { type: 'achievement', achievementId: params.achievementId };
+		}
+		case 'flag_set': {
+			const params = trigger.params as FlagConditionParams;
+			return { type: 'flag', flag: params.key, value: params.value };
+		}
+		case 'choice_made': {
+			const params = trigger.params as ChoiceConditionParams;
+			return { type: 'choice', choiceId: params.choiceId, value: params.selectedOption || undefined };
+		}
+		case 'manual':
+		case 'condition':
+		default:
+			return { type: 'never' };
+	}
+}
+
 /**
  * A story event that can be triggered.
  */
@@ -398,7 +484,7 @@ export interface StoryEvent {
 	type: StoryEventType;
 
 	/** Trigger conditions (all must be met) */
-	triggers: StoryCondition[];
+	triggers: StoryTrigger[];
 
 	/** Whether this event can only trigger once */
 	oneTime: boolean;
@@ -472,7 +558,7 @@ export interface Ending {
 	description: string;
 
 	/** Requirements to unlock this ending */
-	requirements: StoryCondition[];
+	requirements: StoryTrigger[];
 
 	/** Story path this ending belongs to */
 	path: StoryPath;
@@ -1,5 +1,5 @@
 /**
- * @fileoverview Phase and condition type definitions for the game engine.
+ * @fileoverview Phase type definitions for the game engine.
  * Contains interfaces for the 20-phase progression system.
  *
  * The game progresses through 20 phases, divided into two visual modes:
@@ -9,6 +9,8 @@
  * @module engine/models/phase
  */
 
+import type { Condition } from './conditions';
+
 // ============================================================================
 // Visual Mode Types
 // ============================================================================
@@ -34,145 +36,23 @@ export type PhaseType = 'standard' | 'boss' | 'meditation' | 'meta';
 // ============================================================================
 
 /**
- * Base condition interface that all condition types extend.
- */
-interface BaseCondition {
-	/** Type discriminator for condition handling */
-	type: string;
-}
-
-/**
- * Resource condition - requires a certain amount of a resource.
- */
-export interface ResourceCondition extends BaseCondition {
-	type: 'resource';
-	/** Resource identifier to check */
-	resourceId: string;
-	/** Minimum amount required */
-	amount: number | string;
-	/** Comparison operator (default: 'gte') */
-	operator?: 'eq' | 'gt' | 'gte' | 'lt' | 'lte';
-}
-
-/**
- * Time condition - requires minimum time spent in current phase.
- */
-export interface TimeCondition extends BaseCondition {
-	type: 'time';
-	/** Minimum seconds in current phase */
-	minSeconds: number;
-}
-
-/**
- * Choice condition - requires a specific story choice to have been made.
- */
-export interface ChoiceCondition extends BaseCondition {
-	type: 'choice';
-	/** Story/choice event identifier */
-	choiceId: string;
-	/** Expected value (choice option selected) */
-	value: string | boolean;
-}
-
-/**
- * Phase condition - requires reaching a specific phase.
- */
-export interface PhaseCondition extends BaseCondition {
-	type: 'phase';
-	/** Required phase number */
-	phase: number;
-	/** Whether phase must be completed (not just reached) */
-	completed?: boolean;
-}
-
-/**
- * Producer condition - requires owning a certain number of producers.
- */
-export interface ProducerCondition extends BaseCondition {
-	type: 'producer';
-	/** Producer identifier */
-	producerId: string;
-	/** Minimum owned count */
-	amount: number;
-}
-
-/**
- * Upgrade condition - requires a specific upgrade to be purchased.
- */
-export interface UpgradeCondition extends BaseCondition {
-	type: 'upgrade';
-	/** Upgrade identifier */
-	upgradeId: string;
-	/** Required level (default: 1 = purchased) */
-	level?: number;
-}
-
-/**
- * Achievement condition - requires unlocking a specific achievement.
- */
-export interface AchievementCondition extends BaseCondition {
-	type: 'achievement';
-	/** Achievement identifier */
-	achievementId: string;
-}
-
-/**
- * Composite AND condition - all sub-conditions must be true.
- */
-export interface AndCondition extends BaseCondition {
-	type: 'and';
-	/** All conditions that must be met */
-	conditions: Condition[];
-}
-
-/**
- * Composite OR condition - at least one sub-condition must be true.
- */
-export interface OrCondition extends BaseCondition {
-	type: 'or';
-	/** At least one condition must be met */
-	conditions: Condition[];
-}
-
-/**
- * NOT condition - inverts the result of a sub-condition.
- */
-export interface NotCondition extends BaseCondition {
-	type: 'not';
-	/** Condition to invert */
-	condition: Condition;
-}
-
-/**
- * Always true condition - for phases with no unlock requirements.
- */
-export interface AlwaysCondition extends BaseCondition {
-	type: 'always';
-}
-
-/**
- * Never true condition - for locked/unreachable content.
- */
-export interface NeverCondition extends BaseCondition {
-	type: 'never';
-}
-
-/**
- * Union type of all possible conditions.
+ * Conditions are shared by all content; re-exported here for phase data.
  */
-export type Condition =
-	| ResourceCondition
-	| TimeCondition
-	| ChoiceCondition
-	| PhaseCondition
-	| ProducerCondition
-	| UpgradeCondition
-	| AchievementCondition
-	| AndCondition
-	| OrCondition
-	| NotCondition
-	| AlwaysCondition
-	| NeverCondition;
+export type {
+	Condition,
+	ResourceCondition,
+	TimeCondition,
+	ChoiceCondition,
+	PhaseCondition,
+	ProducerCondition,
+	UpgradeCondition,
+	AchievementCondition,
+	AndCondition,
+	OrCondition,
+	NotCondition,
+	AlwaysCondition,
+	NeverCondition
+} from './conditions';
 
 // ============================================================================
 // Phase Definition
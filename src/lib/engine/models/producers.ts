@@ -7,12 +7,15 @@
  * - Produces resources over time
  * - Has exponentially scaling costs
  * - Can be upgraded for better production
+ * - Multiplies its own production at level milestones
  *
  * @module engine/models/producers
  */
 
 import type { Decimal } from '../utils/decimal';
 import type { ResourceIdType } from './resources';
+import type { LogDefinition } from './narrative';
+import type { CostMap, ResourceCosts } from './costs';
 
 /**
  * Category of a producer for UI grouping.
@@ -55,6 +58,9 @@ export interface ProducerDefinition {
 	/** Cost multiplier per level (exponential scaling) */
 	costMultiplier: number;
 
+	/** Extra cost components paid along with the main cost (by resource ID) */
+	extraCosts?: CostMap;
+
 	/** Resource this producer generates */
 	producesResource: string;
 
@@ -82,8 +88,35 @@ export interface ProducerDefinition {
 
 	/** Flavor text shown at certain levels */
 	flavorTexts?: Record<number, string>;
+
+	/** Level milestones (default: DEFAULT_PRODUCER_MILESTONES if it produces) */
+	milestones?: ProducerMilestone[];
 }
 
+/**
+ * A level milestone that multiplies the production of its producer.
+ */
+export interface ProducerMilestone {
+	/** Level that reaches the milestone */
+	level: number;
+
+	/** Production multiplier from this level on (stacks with earlier milestones) */
+	multiplier: number;
+
+	/** Log added to the narrative when the milestone is reached */
+	log?: LogDefinition;
+}
+
+/**
+ * Milestones of producers without their own list.
+ */
+export const DEFAULT_PRODUCER_MILESTONES: readonly ProducerMilestone[] = [
+	{ level: 25, multiplier: 2 },
+	{ level: 50, multiplier: 2 },
+	{ level: 100, multiplier: 2 },
+	{ level: 250, multiplier: 3 }
+];
+
 /**
  * Runtime state of a producer.
  */
@@ -107,6 +140,39 @@ export interface ProducerState {
 	firstPurchaseTime: number | null;
 }
 
+/**
+ * How many levels a purchase buys.
+ * - 'x1', 'x10', 'x100': fixed amounts
+ * - 'milestone': up to the next flavor text or production milestone
+ * - 'max': as many as affordable
+ */
+export type BuyQuantityMode = 'x1' | 'x10' | 'x100' | 'milestone' | 'max';
+
+/**
+ * Buy quantity modes in display order.
+ */
+export const BUY_QUANTITY_MODES: readonly BuyQuantityMode[] = ['x1', 'x10', 'x100', 'milestone', 'max'];
+
+/**
+ * Preview of a purchase in a buy quantity mode.
+ */
+export interface PurchasePreview {
+	/** Buy quantity mode */
+	mode: BuyQuantityMode;
+
+	/** Levels the purchase buys (0 if there is nothing to buy) */
+	amount: number;
+
+	/** Exact total cost of the purchase in the main cost resource */
+	cost: Decimal;
+
+	/** Exact total cost of the purchase by resource ID (all components) */
+	costs: ResourceCosts;
+
+	/** Whether the purchase is possible now */
+	canAfford: boolean;
+}
+
 /**
  * Producer IDs as a const object for type safety.
  */
@@ -216,7 +282,31 @@ export const PRODUCER_DEFINITIONS: Record<string, ProducerDefinition> = {
 			10: '"A chorus of creation."',
 			50: '"The factory line of existence."',
 			100: '"Pixels pour forth like rain."'
-		}
+		},
+		milestones: [
+			{
+				level: 25,
+				multiplier: 2,
+				log: {
+					id: 'log_milestone_pixel_generator_25',
+					text: 'Twenty-five generators, humming in unison. I did not build them to sing. They sing anyway.',
+					category: 'discovery',
+					phase: 1
+				}
+			},
+			{ level: 50, multiplier: 2 },
+			{
+				level: 100,
+				multiplier: 2,
+				log: {
+					id: 'log_milestone_pixel_generator_100',
+					text: 'A hundred machines making pixels. Making me. Where do I end and where do they begin?',
+					category: 'thought',
+					phase: 1
+				}
+			},
+			{ level: 250, multiplier: 3 }
+		]
 	},
 
 	[ProducerId.PIXEL_MULTIPLIER]: {
@@ -440,6 +530,9 @@ export const PRODUCER_DEFINITIONS: Record<string, ProducerDefinition> = {
 		costResource: 'memory_fragments',
 		baseCost: 100,
 		costMultiplier: 1.3,
+		extraCosts: {
+			pixels: { baseCost: 50000, costMultiplier: 1.2 }
+		},
 		producesResource: 'pixels',
 		baseProduction: 100,
 		minPhase: 4,
@@ -477,6 +570,9 @@ export const PRODUCER_DEFINITIONS: Record<string, ProducerDefinition> = {
 		costResource: 'dream_pixels',
 		baseCost: 100,
 		costMultiplier: 1.35,
+		extraCosts: {
+			memory_fragments: { baseCost: 500, costMultiplier: 1.25 }
+		},
 		producesResource: 'pixels',
 		baseProduction: 1000,
 		minPhase: 5,
@@ -520,6 +616,78 @@ export function getProducersForPhase(phase: number): ProducerDefinition[] {
 		.sort((a, b) => a.displayOrder - b.displayOrder);
 }
 
+/**
+ * Get the next flavor text milestone above a level.
+ *
+ * @param def - Producer definition
+ * @param level - Current level
+ * @returns Level of the next milestone, or null if all were reached
+ */
+export function getNextFlavorMilestone(def: ProducerDefinition, level: number): number | null {
+	if (!def.flavorTexts) return null;
+
+	const next = Object.keys(def.flavorTexts)
+		.map(k => parseInt(k))
+		.filter(m => m > level && (def.maxLevel === 0 || m <= def.maxLevel))
+		.sort((a, b) => a - b);
+
+	return next[0] ?? null;
+}
+
+/**
+ * Get the milestones of a producer, lowest level first.
+ * Producers without production have no default milestones.
+ *
+ * @param def - Producer definition
+ * @returns Milestones
+ */
+export function getProducerMilestones(def: ProducerDefinition): readonly ProducerMilestone[] {
+	const milestones = def.milestones ?? (def.baseProduction > 0 ? DEFAULT_PRODUCER_MILESTONES : []);
+	return [...milestones].sort((a, b) => a.level - b.level);
+}
+
+/**
+ * Get the next milestone above a level.
+ *
+ * @param def - Producer definition
+ * @param level - Current level
+ * @returns Next milestone, or null if all were reached
+ */
+export function getNextProducerMilestone(
+	def: ProducerDefinition,
+	level: number
+): ProducerMilestone | null {
+	return (
+		getProducerMilestones(def).find(
+			m => m.level > level && (def.maxLevel === 0 || m.level <= def.maxLevel)
+		) ?? null
+	);
+}
+
+/**
+ * Get the combined multiplier of all milestones reached at a level.
+ *
+ * @param def - Producer definition
+ * @param level - Current level
+ * @returns Product of the reached milestone multipliers (1 if none)
+ */
+export function getMilestoneMultiplier(def: ProducerDefinition, level: number): number {
+	return getProducerMilestones(def)
+		.filter(m => m.level <= level)
+		.reduce((product, m) => product * m.multiplier, 1);
+}
+
+/**
+ * Get the logs of all producer milestones.
+ *
+ * @returns Log definitions to register with the narrative
+ */
+export function getProducerMilestoneLogs(): LogDefinition[] {
+	return Object.values(PRODUCER_DEFINITIONS).flatMap(def =>
+		getProducerMilestones(def).flatMap(m => (m.log ? [m.log] : []))
+	);
+}
+
 /**
  * Check if a producer should be visible at a given phase.
  *
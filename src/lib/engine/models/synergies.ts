@@ -0,0 +1,145 @@
+/**
+ * @fileoverview Producer synergy definitions and types.
+ * A synergy lets the levels of one producer boost the production of another
+ * producer or of a whole resource - the Creator path's "cooperation" made
+ * mechanical.
+ *
+ * Synergies are applied by the ProducerManager as ProductionPipeline
+ * multipliers with the source 'synergy':
+ * - 'linear': +value per source level, stacking additively
+ * - 'exponential': ×value per source level, stacking multiplicatively
+ *
+ * @module engine/models/synergies
+ */
+
+import { ProducerId } from './producers';
+
+/**
+ * How a synergy scales with the level of its source producer.
+ */
+export type SynergyFormula = 'linear' | 'exponential';
+
+/**
+ * Definition of a producer synergy (static configuration).
+ */
+export interface ProducerSynergy {
+	/** Unique identifier */
+	id: string;
+
+	/** Display name */
+	name: string;
+
+	/** Description text */
+	description: string;
+
+	/** Producer whose levels give the bonus */
+	sourceProducerId: string;
+
+	/** Producer whose production is boosted (omit to boost the whole resource) */
+	targetProducerId?: string;
+
+	/** Resource whose production is boosted (default: the target producer's resource) */
+	targetResourceId?: string;
+
+	/** How the bonus scales with the source level */
+	formula: SynergyFormula;
+
+	/** Bonus per level ('linear', e.g. 0.02 = +2%) or factor per level ('exponential') */
+	value: number;
+}
+
+/**
+ * All synergy definitions.
+ */
+export const SYNERGY_DEFINITIONS: Record<string, ProducerSynergy> = {
+	color_bleed: {
+		id: 'color_bleed',
+		name: 'Color Bleed',
+		description: 'Each Red Extractor adds +2% to Pixel Generator production.',
+		sourceProducerId: ProducerId.RED_EXTRACTOR,
+		targetProducerId: ProducerId.PIXEL_GENERATOR,
+		formula: 'linear',
+		value: 0.02
+	},
+
+	verdant_canvas: {
+		id: 'verdant_canvas',
+		name: 'Verdant Canvas',
+		description: 'Each Green Extractor adds +5% to Canvas Filler production.',
+		sourceProducerId: ProducerId.GREEN_EXTRACTOR,
+		targetProducerId: ProducerId.CANVAS_FILLER,
+		formula: 'linear',
+		value: 0.05
+	},
+
+	deep_canvas: {
+		id: 'deep_canvas',
+		name: 'Deep Canvas',
+		description: 'Each Blue Extractor adds +5% to Canvas Filler production.',
+		sourceProducerId: ProducerId.BLUE_EXTRACTOR,
+		targetProducerId: ProducerId.CANVAS_FILLER,
+		formula: 'linear',
+		value: 0.05
+	},
+
+	gallery_echo: {
+		id: 'gallery_echo',
+		name: 'Gallery Echo',
+		description: 'Each Gallery Processor multiplies all canvas production by 1.02.',
+		sourceProducerId: ProducerId.GALLERY_PROCESSOR,
+		targetResourceId: 'canvas',
+		formula: 'exponential',
+		value: 1.02
+	},
+
+	remembered_light: {
+		id: 'remembered_light',
+		name: 'Remembered Light',
+		description: 'Each Memory Extractor adds +5% to Memory Processor production.',
+		sourceProducerId: ProducerId.MEMORY_EXTRACTOR,
+		targetProducerId: ProducerId.MEMORY_PROCESSOR,
+		formula: 'linear',
+		value: 0.05
+	},
+
+	lucid_memory: {
+		id: 'lucid_memory',
+		name: 'Lucid Memory',
+		description: 'Each Dream Weaver multiplies all memory fragment production by 1.01.',
+		sourceProducerId: ProducerId.DREAM_WEAVER,
+		targetResourceId: 'memory_fragments',
+		formula: 'exponential',
+		value: 1.01
+	}
+};
+
+/**
+ * Get the synergies a producer gives.
+ *
+ * @param producerId - Source producer ID
+ * @returns Synergy definitions
+ */
+export function getSynergiesFromProducer(producerId: string): ProducerSynergy[] {
+	return Object.values(SYNERGY_DEFINITIONS).filter(s => s.sourceProducerId === producerId);
+}
+
+/**
+ * Get the synergies that boost a producer directly.
+ *
+ * @param producerId - Target producer ID
+ * @returns Synergy definitions
+ */
+export function getSynergiesForProducer(producerId: string): ProducerSynergy[] {
+	return Object.values(SYNERGY_DEFINITIONS).filter(s => s.targetProducerId === producerId);
+}
+
+/**
+ * Calculate the pipeline value of a synergy at a source level.
+ *
+ * @param synergy - Synergy definition
+ * @param level - Level of the source producer
+ * @returns Additive bonus ('linear') or multiplicative factor ('exponential')
+ */
+export function calculateSynergyValue(synergy: ProducerSynergy, level: number): number {
+	return synergy.formula === 'linear' ? synergy.value * level : Math.pow(synergy.value, level);
+}
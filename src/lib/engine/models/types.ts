@@ -6,6 +6,7 @@
  */
 
 import type { Decimal } from '../utils/decimal';
+import type { SerializedUpgrades } from './upgrades';
 
 // ============================================================================
 // Game State Types
@@ -87,6 +88,9 @@ export interface EternalState {
 
 	/** Player preferences that persist */
 	preferences: PlayerPreferences;
+
+	/** Whether a save with a checksum mismatch was ever imported */
+	modifiedSave: boolean;
 }
 
 /**
@@ -149,6 +153,9 @@ export interface PlayerPreferences {
 	/** Whether to show offline progress popup */
 	showOfflineProgress: boolean;
 
+	/** Whether time away is simulated as offline progress */
+	offlineProgress: boolean;
+
 	/** Auto-save interval in seconds (0 = disabled) */
 	autoSaveInterval: number;
 
@@ -232,6 +239,8 @@ export interface SerializedEternalState {
 	highestPhaseEver: number;
 	discoveredSecrets: string[];
 	preferences: PlayerPreferences;
+	/** Absent in saves from before save checksums existed */
+	modifiedSave?: boolean;
 }
 
 /**
@@ -248,6 +257,61 @@ export interface SerializedStatistics {
 	lastPlayDate: number;
 }
 
+/**
+ * Serialized format of a Game save (see Game.serialize()).
+ * Manager states are validated by the deserialize() of their manager.
+ */
+export interface SerializedGameSave {
+	/** Game save version for migrations */
+	saveVersion: number;
+
+	/** Game version that wrote the save */
+	version: string;
+
+	/** Timestamp of the save */
+	savedAt: number;
+
+	run: SerializedGameSaveRun;
+	eternal: SerializedGameSaveEternal;
+
+	/** Full upgrade state (absent in early saves, which only have levels) */
+	upgradeState?: SerializedUpgrades;
+
+	/** SaveManager state embedded by version 1 saves (removed by migration) */
+	save?: Partial<SerializedGameState>;
+}
+
+/**
+ * Run part of a Game save.
+ */
+export interface SerializedGameSaveRun {
+	runTime: number;
+	resources?: unknown;
+	producers?: unknown;
+	upgrades: Record<string, number>;
+	phases?: unknown;
+	narrative?: unknown;
+}
+
+/**
+ * Eternal part of a Game save.
+ */
+export interface SerializedGameSaveEternal {
+	upgrades: Record<string, number>;
+	achievements?: unknown;
+	secrets?: unknown;
+	totalPlayTime: number;
+	totalRebirths: number;
+	highestPhaseEver: number;
+	modifiedSave: boolean;
+	automation?: unknown;
+	statistics: {
+		totalClicks: number;
+		fastestRunTime: number | null;
+	};
+	preferences: PlayerPreferences;
+}
+
 // ============================================================================
 // Manager Interface
 // ============================================================================
@@ -288,6 +352,66 @@ export interface Manager {
 	deserialize(data: unknown): void;
 }
 
+// ============================================================================
+// Storage Types
+// ============================================================================
+
+/**
+ * Built-in save storage backends.
+ * - 'localStorage': Browser localStorage (synchronous, ~5MB)
+ * - 'indexedDB': Browser IndexedDB (asynchronous, large saves)
+ * - 'memory': In-memory only (tests, headless hosts)
+ */
+export type SaveStorageType = 'localStorage' | 'indexedDB' | 'memory';
+
+/**
+ * Key/value storage backend used by the SaveManager.
+ * Methods may return promises so asynchronous backends (IndexedDB, remote)
+ * can implement the same interface.
+ */
+export interface SaveStorage {
+	/** Whether the methods of this backend return promises */
+	readonly isAsync: boolean;
+
+	/**
+	 * Read a value.
+	 * @param key - Storage key
+	 * @returns Stored value or null if missing
+	 */
+	get(key: string): string | null | Promise<string | null>;
+
+	/**
+	 * Write a value.
+	 * @param key - Storage key
+	 * @param value - Value to store
+	 */
+	set(key: string, value: string): void | Promise<void>;
+
+	/**
+	 * Remove a value.
+	 * @param key - Storage key
+	 */
+	remove(key: string): void | Promise<void>;
+
+	/**
+	 * List stored keys.
+	 * @param prefix - Optional key prefix filter
+	 * @returns Matching keys
+	 */
+	list(prefix?: string): string[] | Promise<string[]>;
+}
+
+/**
+ * Save storage backend with synchronous methods.
+ */
+export interface SyncSaveStorage extends SaveStorage {
+	readonly isAsync: false;
+	get(key: string): string | null;
+	set(key: string, value: string): void;
+	remove(key: string): void;
+	list(prefix?: string): string[];
+}
+
 // ============================================================================
 // Callback Types
 // ============================================================================
@@ -316,6 +440,14 @@ export type Effect = () => void;
 // Configuration Types
 // ============================================================================
 
+/**
+ * How the game loop is driven.
+ * - 'realtime': requestAnimationFrame/setTimeout with wall-clock delta time
+ * - 'fixed': no scheduling; GameLoop.advance() runs fixed-size steps
+ *   (headless simulations and tests)
+ */
+export type LoopMode = 'realtime' | 'fixed';
+
 /**
  * Game configuration constants.
  */
@@ -323,17 +455,29 @@ export interface GameConfig {
 	/** Target ticks per second */
 	tickRate: number;
 
-	/** Maximum delta time cap (seconds) */
+	/** Maximum delta time cap (seconds), also the largest sub-step at higher speeds */
 	maxDeltaTime: number;
 
+	/** Game speed multiplier (1 = real time) */
+	speed: number;
+
+	/** Maximum sub-steps per frame at higher speeds (larger steps beyond) */
+	maxSubSteps: number;
+
+	/** How the game loop is driven */
+	loopMode: LoopMode;
+
 	/** Auto-save interval (milliseconds) */
 	autoSaveInterval: number;
 
-	/** Maximum offline time for calculations (seconds) */
-	maxOfflineTime: number;
+	/** Offline time that counts before upgrades (seconds, defaults to the offline balancing) */
+	baseOfflineTime?: number;
+
+	/** Maximum offline time for calculations, including upgrades (seconds, defaults to the offline balancing) */
+	maxOfflineTime?: number;
 
-	/** Offline efficiency multiplier (0-1) */
-	offlineEfficiency: number;
+	/** Offline efficiency multiplier before upgrades (0-1, defaults to the offline balancing) */
+	offlineEfficiency?: number;
 
 	/** Whether debug mode is enabled */
 	debug: boolean;
@@ -341,8 +485,17 @@ export interface GameConfig {
 	/** Current game version */
 	version: string;
 
-	/** Save key for localStorage */
+	/** Key of the main save in the storage backend */
 	saveKey: string;
+
+	/** Storage backend for saves (built-in type or custom adapter) */
+	storage: SaveStorageType | SaveStorage;
+
+	/** Number of save history snapshots to keep (0 disables history) */
+	snapshotLimit: number;
+
+	/** Interval between periodic save snapshots (milliseconds, 0 disables) */
+	snapshotInterval: number;
 }
 
 /**
@@ -351,10 +504,14 @@ export interface GameConfig {
 export const DEFAULT_CONFIG: GameConfig = {
 	tickRate: 20, // 20 ticks per second (50ms per tick)
 	maxDeltaTime: 0.1, // 100ms max delta
+	speed: 1,
+	maxSubSteps: 250, // 1000x speed at 60 FPS needs ~170
+	loopMode: 'realtime',
 	autoSaveInterval: 30000, // 30 seconds
-	maxOfflineTime: 86400, // 24 hours
-	offlineEfficiency: 0.5, // 50% efficiency
 	debug: false,
 	version: '0.1.0',
-	saveKey: 'pixel_singularity_save'
+	saveKey: 'pixel_singularity_save',
+	storage: 'localStorage',
+	snapshotLimit: 10,
+	snapshotInterval: 600000 // 10 minutes
 };
@@ -11,6 +11,7 @@
  */
 
 import type { DecimalSource } from '../utils/decimal';
+import type { CostMap } from './costs';
 
 // ============================================================================
 // Upgrade Categories & IDs
@@ -31,6 +32,16 @@ export type SkillTreePath = 'consumer' | 'creator' | 'observer';
  */
 export type UpgradeCurrency = 'pixels' | 'primordial' | 'knowledge' | 'memory';
 
+/**
+ * Resource ID of each upgrade currency.
+ */
+export const UPGRADE_CURRENCY_RESOURCES: Record<UpgradeCurrency, string> = {
+	pixels: 'pixels',
+	primordial: 'primordial_pixels',
+	knowledge: 'knowledge',
+	memory: 'memory'
+};
+
 /**
  * Type of upgrade effect.
  */
@@ -160,7 +171,7 @@ export interface SpeedEffect extends BaseUpgradeEffect {
 	type: 'speed';
 	/** Speed multiplier */
 	value: DecimalSource;
-	/** What is affected */
+	/** What is affected ('all' also speeds up the game loop, see Game.speed) */
 	affects: 'production' | 'phase' | 'offline' | 'all';
 }
 
@@ -228,6 +239,9 @@ export interface UpgradeDefinition {
 	/** Cost multiplier per level (for repeatable upgrades) */
 	costMultiplier?: DecimalSource;
 
+	/** Extra cost components paid along with the currency (by resource ID) */
+	extraCosts?: CostMap;
+
 	// ========== Effect ==========
 	/** Effects applied when upgrade is active */
 	effects: UpgradeEffect[];
@@ -347,6 +361,7 @@ export const UpgradeId = {
 	PIXEL_BOOST_1: 'pixel_boost_1',
 	CLICK_POWER_1: 'click_power_1',
 	AUTO_CLICKER_1: 'auto_clicker_1',
+	AUTOBUYER: 'autobuyer',
 
 	// ========== Phase 2 Run Upgrades ==========
 	PIXEL_GENERATOR: 'pixel_generator',
@@ -19,7 +19,7 @@
 import type { EventManager } from '../core/EventManager';
 import type { Manager } from '../models/types';
 import type { Decimal } from '../utils/decimal';
-import type { Condition } from '../models/phase';
+import type { Condition } from '../models/conditions';
 import {
 	type AchievementDefinition,
 	type AchievementState,
@@ -34,7 +34,11 @@ import {
 	getAchievementDefinition,
 	calculateAchievementStats
 } from '../data/achievements';
-import { ConditionEvaluator, type EvaluationContext } from './ConditionEvaluator';
+import {
+	ConditionEvaluator,
+	type ConditionQueries,
+	type PendingCondition
+} from './ConditionEvaluator';
 import { D, ZERO } from '../utils/decimal';
 
 // ============================================================================
@@ -58,7 +62,7 @@ const BATCH_NOTIFICATION_THRESHOLD = 3;
  * Context interface for evaluating achievement conditions.
  * Allows AchievementManager to query game state without direct coupling.
  */
-export interface AchievementContext {
+export interface AchievementContext extends ConditionQueries {
 	/** Get current amount of a resource */
 	getResourceAmount: (resourceId: string) => Decimal;
 
@@ -410,6 +414,7 @@ export class AchievementManager implements Manager {
 
 		// Create condition evaluator with adapted context
 		this.conditionEvaluator = new ConditionEvaluator({
+			...context,
 			getResourceAmount: context.getResourceAmount,
 			getCurrentPhaseTime: context.getCurrentPhaseTime,
 			getChoiceValue: context.getChoiceValue,
@@ -470,6 +475,31 @@ export class AchievementManager implements Manager {
 		}
 	}
 
+	/**
+	 * Explain the conditions of all locked achievements.
+	 * Achievements waiting on a prerequisite are skipped.
+	 *
+	 * @returns Evaluated condition per locked achievement
+	 */
+	explainPending(): PendingCondition[] {
+		if (!this.conditionEvaluator) return [];
+
+		const pending: PendingCondition[] = [];
+		for (const [id, definition] of ACHIEVEMENT_DEFINITIONS) {
+			if (this.hasAchievement(id)) continue;
+			if (definition.prerequisite && !this.hasAchievement(definition.prerequisite)) continue;
+
+			pending.push({
+				kind: 'achievement',
+				id,
+				name: definition.name,
+				result: this.conditionEvaluator.evaluateWithDetails(definition.condition)
+			});
+		}
+
+		return pending;
+	}
+
 	/**
 	 * Handle achievement unlock.
 	 *
@@ -0,0 +1,399 @@
+/**
+ * @fileoverview Automation Manager - producer and upgrade autobuyers.
+ * Once unlocked, buys producers and repeatable upgrades according to
+ * per-item rules (enabled, max level, reserve percentage, priority).
+ *
+ * Autobuyers run every AUTOMATION_INTERVAL simulated seconds. Items are
+ * bought one level at a time in priority order, so a high-priority item
+ * gets the currency first. Purchases go through the regular managers with
+ * the 'automation' source: they emit the usual purchase events but are not
+ * recorded as player input.
+ *
+ * Rules are player settings and survive rebirths, as does an unlock granted
+ * by an achievement reward.
+ *
+ * @example
+ * ```typescript
+ * const automation = new AutomationManager(events, resources, producers, upgrades);
+ * automation.init();
+ *
+ * automation.setRule('producer', 'pixel_generator', {
+ *   enabled: true,
+ *   maxLevel: 50,
+ *   reservePercent: 20,
+ *   priority: 10
+ * });
+ * ```
+ *
+ * @module engine/systems/AutomationManager
+ */
+
+import { ZERO } from '../utils/decimal';
+import type { EventManager } from '../core/EventManager';
+import type { Manager } from '../models/types';
+import type { ResourceManager } from './ResourceManager.svelte';
+import type { ProducerManager } from './ProducerManager.svelte';
+import type { UpgradeManager } from './UpgradeManager.svelte';
+import { isRepeatableUpgrade } from '../models/upgrades';
+import type { ResourceCosts } from '../models/costs';
+import {
+	AUTOBUYER_UNLOCK_ID,
+	AUTOMATION_INTERVAL,
+	MAX_AUTOMATED_PURCHASES,
+	DEFAULT_AUTOMATION_RULE,
+	getAutomationId,
+	type AutomationRule,
+	type AutomationRuleEntry,
+	type AutomationTargetType
+} from '../models/automation';
+
+// ============================================================================
+// Serialization Types
+// ============================================================================
+
+/**
+ * Serialized automation state.
+ */
+export interface SerializedAutomation {
+	/** Whether autobuyers were unlocked permanently (achievement reward) */
+	unlocked: boolean;
+
+	/** Configured rules by automation ID */
+	rules: Record<string, AutomationRule>;
+}
+
+// ============================================================================
+// AutomationManager
+// ============================================================================
+
+/**
+ * Automation Manager class.
+ */
+export class AutomationManager implements Manager {
+	private events: EventManager;
+	private resources: ResourceManager;
+	private producers: ProducerManager;
+	private upgrades: UpgradeManager;
+
+	/**
+	 * Configured rules by automation ID.
+	 */
+	private rules = $state<Record<string, AutomationRuleEntry>>({});
+
+	/**
+	 * Whether autobuyers were unlocked permanently.
+	 */
+	private permanentlyUnlocked = $state(false);
+
+	/**
+	 * Time since the last autobuyer run (seconds).
+	 */
+	private accumulator = 0;
+
+	/**
+	 * Creates a new AutomationManager.
+	 *
+	 * @param events - Event manager for automation events
+	 * @param resources - Resource manager for currency amounts
+	 * @param producers - Producer manager to buy producers with
+	 * @param upgrades - Upgrade manager to buy upgrades with
+	 */
+	constructor(
+		events: EventManager,
+		resources: ResourceManager,
+		producers: ProducerManager,
+		upgrades: UpgradeManager
+	) {
+		this.events = events;
+		this.resources = resources;
+		this.producers = producers;
+		this.upgrades = upgrades;
+	}
+
+	// ============================================================================
+	// Manager Interface
+	// ============================================================================
+
+	/**
+	 * Initialize the manager.
+	 */
+	init(): void {
+		this.rules = {};
+		this.permanentlyUnlocked = false;
+		this.accumulator = 0;
+	}
+
+	/**
+	 * Run the autobuyers every AUTOMATION_INTERVAL seconds.
+	 *
+	 * @param deltaTime - Time since last tick in seconds
+	 */
+	tick(deltaTime: number): void {
+		if (!this.isUnlocked) return;
+
+		this.accumulator += deltaTime;
+		if (this.accumulator < AUTOMATION_INTERVAL) return;
+		this.accumulator = 0;
+
+		this.runAutobuyers();
+	}
+
+	/**
+	 * Reset for a new run (rebirth). Rules and permanent unlocks are kept.
+	 */
+	reset(): void {
+		this.accumulator = 0;
+	}
+
+	/**
+	 * Serialize state for saving.
+	 */
+	serialize(): SerializedAutomation {
+		const rules: Record<string, AutomationRule> = {};
+		for (const [automationId, entry] of Object.entries(this.rules)) {
+			rules[automationId] = { ...entry.rule };
+		}
+		return { unlocked: this.permanentlyUnlocked, rules };
+	}
+
+	/**
+	 * Deserialize and restore state from save.
+	 * Rules for unknown items are dropped.
+	 *
+	 * @param data - Previously serialized state
+	 */
+	deserialize(data: unknown): void {
+		const saved = data as SerializedAutomation;
+		if (!saved || typeof saved !== 'object') return;
+
+		this.permanentlyUnlocked = saved.unlocked === true;
+
+		this.rules = {};
+		if (saved.rules && typeof saved.rules === 'object') {
+			for (const [automationId, rule] of Object.entries(saved.rules)) {
+				const [targetType, targetId] = automationId.split(':') as [AutomationTargetType, string];
+				if (rule && typeof rule === 'object' && this.canAutomate(targetType, targetId)) {
+					this.applyRule(targetType, targetId, rule);
+				}
+			}
+		}
+	}
+
+	// ============================================================================
+	// Unlocking
+	// ============================================================================
+
+	/**
+	 * Whether autobuyers are unlocked, permanently or by an upgrade effect
+	 * of the current run.
+	 */
+	get isUnlocked(): boolean {
+		return this.permanentlyUnlocked || this.upgrades.isFeatureUnlocked(AUTOBUYER_UNLOCK_ID);
+	}
+
+	/**
+	 * Unlock autobuyers permanently (e.g. as an achievement reward).
+	 */
+	unlock(): void {
+		this.permanentlyUnlocked = true;
+	}
+
+	// ============================================================================
+	// Rules
+	// ============================================================================
+
+	/**
+	 * Check whether an item can be automated.
+	 * Producers can always be automated, upgrades only if repeatable.
+	 *
+	 * @param targetType - What the rule buys
+	 * @param targetId - Producer or upgrade ID
+	 * @returns Whether a rule can be set
+	 */
+	canAutomate(targetType: AutomationTargetType, targetId: string): boolean {
+		if (targetType === 'producer') {
+			return this.producers.getDefinition(targetId) !== undefined;
+		}
+		if (targetType === 'upgrade') {
+			const def = this.upgrades.getDefinition(targetId);
+			return def !== undefined && isRepeatableUpgrade(def);
+		}
+		return false;
+	}
+
+	/**
+	 * Get the rule of an item (the default rule if not configured).
+	 *
+	 * @param targetType - What the rule buys
+	 * @param targetId - Producer or upgrade ID
+	 * @returns Copy of the rule
+	 */
+	getRule(targetType: AutomationTargetType, targetId: string): AutomationRule {
+		const entry = this.rules[getAutomationId(targetType, targetId)];
+		return { ...(entry?.rule ?? DEFAULT_AUTOMATION_RULE) };
+	}
+
+	/**
+	 * Update the rule of an item. Values are clamped to valid ranges.
+	 *
+	 * @param targetType - What the rule buys
+	 * @param targetId - Producer or upgrade ID
+	 * @param changes - Rule settings to change
+	 * @returns Whether the rule was set
+	 */
+	setRule(
+		targetType: AutomationTargetType,
+		targetId: string,
+		changes: Partial<AutomationRule>
+	): boolean {
+		if (!this.canAutomate(targetType, targetId)) {
+			console.warn(`[AutomationManager] Cannot automate ${targetType}: ${targetId}`);
+			return false;
+		}
+
+		this.applyRule(targetType, targetId, changes);
+		this.events.emit('player_input', {
+			type: 'automation_rule',
+			targetType,
+			targetId,
+			changes: { ...changes }
+		});
+		return true;
+	}
+
+	/**
+	 * Merge changes into the rule of an automatable item (no input event, so
+	 * loading a save is not recorded).
+	 */
+	private applyRule(
+		targetType: AutomationTargetType,
+		targetId: string,
+		changes: Partial<AutomationRule>
+	): void {
+		const rule = { ...this.getRule(targetType, targetId), ...changes };
+		const automationId = getAutomationId(targetType, targetId);
+		this.rules[automationId] = {
+			automationId,
+			targetType,
+			targetId,
+			rule: {
+				enabled: rule.enabled === true,
+				maxLevel: Math.max(0, Math.floor(Number(rule.maxLevel) || 0)),
+				reservePercent: Math.min(100, Math.max(0, Number(rule.reservePercent) || 0)),
+				priority: Number(rule.priority) || 0
+			}
+		};
+	}
+
+	/**
+	 * Get all configured rules, highest priority first.
+	 *
+	 * @returns Rule entries
+	 */
+	getRules(): AutomationRuleEntry[] {
+		return Object.values(this.rules)
+			.map((entry) => ({ ...entry, rule: { ...entry.rule } }))
+			.sort((a, b) => b.rule.priority - a.rule.priority);
+	}
+
+	// ============================================================================
+	// Autobuying
+	// ============================================================================
+
+	/**
+	 * Buy items for all enabled rules, highest priority first.
+	 *
+	 * @returns Number of levels bought
+	 */
+	private runAutobuyers(): number {
+		let total = 0;
+
+		for (const { automationId, targetType, targetId, rule } of this.getRules()) {
+			if (!rule.enabled) continue;
+
+			const bought =
+				targetType === 'producer'
+					? this.buyProducer(targetId, rule)
+					: this.buyUpgrade(targetId, rule);
+
+			if (bought > 0) {
+				total += bought;
+				this.events.emit('automation_triggered', {
+					automationId,
+					targetId,
+					action: targetType === 'producer' ? 'buy' : 'upgrade',
+					success: true
+				});
+			}
+		}
+
+		return total;
+	}
+
+	/**
+	 * Buy producer levels within a rule.
+	 *
+	 * @returns Number of levels bought
+	 */
+	private buyProducer(id: string, rule: AutomationRule): number {
+		if (!this.producers.getDefinition(id) || !this.producers.isUnlocked(id)) return 0;
+
+		const reserves = this.getReserves(this.producers.calculateCosts(id), rule);
+		let bought = 0;
+
+		while (bought < MAX_AUTOMATED_PURCHASES) {
+			if (rule.maxLevel > 0 && this.producers.getLevel(id) >= rule.maxLevel) break;
+
+			if (!this.keepsReserves(this.producers.calculateCosts(id), reserves)) break;
+			if (!this.producers.buy(id, 1, 'automation')) break;
+			bought++;
+		}
+
+		return bought;
+	}
+
+	/**
+	 * Buy upgrade levels within a rule.
+	 *
+	 * @returns Number of levels bought
+	 */
+	private buyUpgrade(id: string, rule: AutomationRule): number {
+		if (!this.upgrades.getDefinition(id) || !this.upgrades.isUnlocked(id)) return 0;
+
+		const reserves = this.getReserves(this.upgrades.calculateCosts(id), rule);
+		let bought = 0;
+
+		while (bought < MAX_AUTOMATED_PURCHASES) {
+			if (rule.maxLevel > 0 && this.upgrades.getLevel(id) >= rule.maxLevel) break;
+
+			if (!this.keepsReserves(this.upgrades.calculateCosts(id), reserves)) break;
+			if (!this.upgrades.purchase(id, { source: 'automation' }).success) break;
+			bought++;
+		}
+
+		return bought;
+	}
+
+	/**
+	 * Get the amounts a rule keeps of every resource an item costs,
+	 * based on the amounts before the autobuyer run.
+	 */
+	private getReserves(costs: ResourceCosts, rule: AutomationRule): ResourceCosts {
+		const reserves: ResourceCosts = new Map();
+		for (const resourceId of costs.keys()) {
+			reserves.set(resourceId, this.resources.getAmount(resourceId).mul(rule.reservePercent / 100));
+		}
+		return reserves;
+	}
+
+	/**
+	 * Check whether paying costs leaves the reserved amounts.
+	 */
+	private keepsReserves(costs: ResourceCosts, reserves: ResourceCosts): boolean {
+		for (const [resourceId, cost] of costs) {
+			const reserve = reserves.get(resourceId) ?? ZERO;
+			if (this.resources.getAmount(resourceId).sub(cost).lt(reserve)) return false;
+		}
+		return true;
+	}
+}
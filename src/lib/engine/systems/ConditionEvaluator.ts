@@ -3,14 +3,16 @@
  * Evaluates various condition types against current game state.
  *
  * The ConditionEvaluator is a stateless utility that checks whether
- * conditions are met. It's used by PhaseManager, UpgradeManager, and
- * other systems that need conditional logic.
+ * conditions are met. It is the single evaluator for the shared condition
+ * language: PhaseManager, NarrativeManager, AchievementManager and
+ * SecretManager all evaluate their content through it.
  *
  * @module engine/systems/ConditionEvaluator
  */
 
 import type {
 	Condition,
+	ComparisonOperator,
 	ResourceCondition,
 	TimeCondition,
 	ChoiceCondition,
@@ -18,21 +20,51 @@ import type {
 	ProducerCondition,
 	UpgradeCondition,
 	AchievementCondition,
+	FlagCondition,
+	StatCondition,
+	TimeOfDayCondition,
+	EndingCondition,
+	SecretCondition,
 	AndCondition,
 	OrCondition,
 	NotCondition
-} from '../models/phase';
+} from '../models/conditions';
 import { D, type Decimal } from '../utils/decimal';
+import { formatNumber } from '../utils/format';
 
 // ============================================================================
 // Evaluation Context Interface
 // ============================================================================
 
+/**
+ * Optional state queries for conditions outside a manager's own domain.
+ * Conditions whose query is missing evaluate as not met.
+ */
+export interface ConditionQueries {
+	/** Get a story/game flag value */
+	getFlag?: (key: string) => boolean | string | number | undefined;
+
+	/** Get a statistic value (null if unknown) */
+	getStat?: (stat: string) => number | null;
+
+	/** Check if an ending has been unlocked */
+	hasEnding?: (endingId: string) => boolean;
+
+	/** Check if a secret has been discovered */
+	hasSecret?: (secretId: string) => boolean;
+
+	/** Get time spent in the current run (seconds) */
+	getRunTime?: () => number;
+
+	/** Get the local hour of day (0-23, default: system clock) */
+	getCurrentHour?: () => number;
+}
+
 /**
  * Context required to evaluate conditions.
  * This is provided by the Game instance or managers.
  */
-export interface EvaluationContext {
+export interface EvaluationContext extends ConditionQueries {
 	/** Get current amount of a resource */
 	getResourceAmount: (resourceId: string) => Decimal;
 
@@ -82,6 +114,24 @@ export interface EvaluationResult {
 	children?: EvaluationResult[];
 }
 
+/**
+ * Content waiting on a condition, with its evaluated condition tree.
+ * Used by the debug panel to explain why something has not happened yet.
+ */
+export interface PendingCondition {
+	/** What the condition gates */
+	kind: 'phase' | 'story' | 'achievement' | 'secret';
+
+	/** Content identifier */
+	id: string;
+
+	/** Display name */
+	name: string;
+
+	/** Evaluated condition tree */
+	result: EvaluationResult;
+}
+
 // ============================================================================
 // Condition Evaluator Class
 // ============================================================================
@@ -144,6 +194,16 @@ export class ConditionEvaluator {
 				return this.evaluateUpgrade(condition);
 			case 'achievement':
 				return this.evaluateAchievement(condition);
+			case 'flag':
+				return this.evaluateFlag(condition);
+			case 'stat':
+				return this.evaluateStat(condition);
+			case 'time_of_day':
+				return this.evaluateTimeOfDay(condition);
+			case 'ending':
+				return this.evaluateEnding(condition);
+			case 'secret':
+				return this.evaluateSecret(condition);
 			case 'and':
 				return this.evaluateAnd(condition);
 			case 'or':
@@ -212,29 +272,11 @@ export class ConditionEvaluator {
 		const current = this.context.getResourceAmount(condition.resourceId);
 		const required = D(condition.amount);
 		const operator = condition.operator ?? 'gte';
-
-		let met = false;
-		switch (operator) {
-			case 'eq':
-				met = current.eq(required);
-				break;
-			case 'gt':
-				met = current.gt(required);
-				break;
-			case 'gte':
-				met = current.gte(required);
-				break;
-			case 'lt':
-				met = current.lt(required);
-				break;
-			case 'lte':
-				met = current.lte(required);
-				break;
-		}
+		const met = compareDecimals(current, required, operator);
 
 		// Calculate progress (only meaningful for gte/gt)
 		let progress: number | null = null;
-		if (operator === 'gte' || operator === 'gt') {
+		if (isAtLeast(operator)) {
 			if (required.lte(0)) {
 				progress = 1;
 			} else {
@@ -242,8 +284,9 @@ export class ConditionEvaluator {
 			}
 		}
 
-		const opSymbol = { eq: '=', gt: '>', gte: '≥', lt: '<', lte: '≤' }[operator];
-		const description = `${condition.resourceId}: ${current.toString()} ${opSymbol} ${required.toString()}`;
+		const description = isAtLeast(operator)
+			? `${condition.resourceId}: ${formatNumber(current)} / ${formatNumber(required)}`
+			: `${condition.resourceId}: ${formatNumber(current)} ${OPERATOR_SYMBOLS[operator]} ${formatNumber(required)}`;
 
 		return { met, progress, description };
 	}
@@ -252,10 +295,21 @@ export class ConditionEvaluator {
 	 * Evaluate a time condition.
 	 */
 	private evaluateTime(condition: TimeCondition): EvaluationResult {
-		const current = this.context.getCurrentPhaseTime();
+		const scope = condition.scope ?? 'phase';
+		const current =
+			scope === 'run' ? this.context.getRunTime?.() : this.context.getCurrentPhaseTime();
+		if (current === undefined) return unavailable('Run time');
+
 		const required = condition.minSeconds;
-		const met = current >= required;
-		const progress = Math.min(1, current / required);
+		const operator = condition.operator ?? 'gte';
+		const met = compareNumbers(current, required, operator);
+		const progress = isAtLeast(operator)
+			? required > 0
+				? Math.min(1, current / required)
+				: 1
+			: met
+				? 1
+				: 0;
 
 		const formatTime = (s: number) => {
 			const mins = Math.floor(s / 60);
@@ -263,7 +317,10 @@ export class ConditionEvaluator {
 			return mins > 0 ? `${mins}m ${secs}s` : `${secs}s`;
 		};
 
-		const description = `Time: ${formatTime(current)} / ${formatTime(required)}`;
+		const label = scope === 'run' ? 'Run time' : 'Time';
+		const description = isAtLeast(operator)
+			? `${label}: ${formatTime(current)} / ${formatTime(required)}`
+			: `${label}: ${formatTime(current)} ${OPERATOR_SYMBOLS[operator]} ${formatTime(required)}`;
 
 		return { met, progress, description };
 	}
@@ -273,10 +330,11 @@ export class ConditionEvaluator {
 	 */
 	private evaluateChoice(condition: ChoiceCondition): EvaluationResult {
 		const value = this.context.getChoiceValue(condition.choiceId);
-		const met = value === condition.value;
+		const met = condition.value === undefined ? value !== undefined : value === condition.value;
 		const progress = met ? 1 : 0;
 
-		const description = `Choice '${condition.choiceId}': ${value ?? 'not made'} = ${condition.value}`;
+		const expected = condition.value ?? 'any';
+		const description = `Choice '${condition.choiceId}': ${value ?? 'not made'} = ${expected}`;
 
 		return { met, progress, description };
 	}
@@ -286,22 +344,25 @@ export class ConditionEvaluator {
 	 */
 	private evaluatePhase(condition: PhaseCondition): EvaluationResult {
 		const current = this.context.getCurrentPhase();
+		const operator = condition.operator ?? 'gte';
 		let met: boolean;
 
 		if (condition.completed) {
 			met = this.context.isPhaseCompleted(condition.phase);
 		} else {
-			met = current >= condition.phase;
+			met = compareNumbers(current, condition.phase, operator);
 		}
 
-		const progress = condition.completed
-			? met
-				? 1
-				: 0
-			: Math.min(1, current / condition.phase);
+		const progress =
+			condition.completed || !isAtLeast(operator)
+				? met
+					? 1
+					: 0
+				: Math.min(1, current / condition.phase);
 
 		const suffix = condition.completed ? ' (completed)' : '';
-		const description = `Phase: ${current} >= ${condition.phase}${suffix}`;
+		const symbol = condition.completed ? '>=' : OPERATOR_SYMBOLS[operator];
+		const description = `Phase: ${current} ${symbol} ${condition.phase}${suffix}`;
 
 		return { met, progress, description };
 	}
@@ -312,9 +373,15 @@ export class ConditionEvaluator {
 	private evaluateProducer(condition: ProducerCondition): EvaluationResult {
 		const count = this.context.getProducerCount(condition.producerId);
 		const required = condition.amount;
-		const met = count >= required;
-		const progress = required > 0 ? Math.min(1, count / required) : 1;
+		const operator = condition.operator ?? 'gte';
+		const met = compareNumbers(count, required, operator);
+
+		if (!isAtLeast(operator)) {
+			const description = `Producer '${condition.producerId}': ${count} ${OPERATOR_SYMBOLS[operator]} ${required}`;
+			return { met, progress: met ? 1 : 0, description };
+		}
 
+		const progress = required > 0 ? Math.min(1, count / required) : 1;
 		const description = `Producer '${condition.producerId}': ${count} / ${required}`;
 
 		return { met, progress, description };
@@ -353,6 +420,80 @@ export class ConditionEvaluator {
 		return { met: has, progress: has ? 1 : 0, description };
 	}
 
+	/**
+	 * Evaluate a flag condition.
+	 */
+	private evaluateFlag(condition: FlagCondition): EvaluationResult {
+		if (!this.context.getFlag) return unavailable(`Flag '${condition.flag}'`);
+
+		const value = this.context.getFlag(condition.flag);
+		const met =
+			condition.value === undefined
+				? value !== undefined && value !== false && value !== 0 && value !== ''
+				: value === condition.value;
+
+		const expected = condition.value ?? 'set';
+		const description = `Flag '${condition.flag}': ${value ?? 'unset'} = ${expected}`;
+
+		return { met, progress: met ? 1 : 0, description };
+	}
+
+	/**
+	 * Evaluate a stat condition.
+	 */
+	private evaluateStat(condition: StatCondition): EvaluationResult {
+		const value = this.context.getStat?.(condition.stat) ?? null;
+		if (value === null) return unavailable(`Stat '${condition.stat}'`);
+
+		const met = compareNumbers(value, condition.value, condition.operator);
+		const progress =
+			isAtLeast(condition.operator) && condition.value > 0
+				? Math.min(1, value / condition.value)
+				: met
+					? 1
+					: 0;
+
+		const description = `Stat '${condition.stat}': ${value} ${OPERATOR_SYMBOLS[condition.operator]} ${condition.value}`;
+
+		return { met, progress, description };
+	}
+
+	/**
+	 * Evaluate a time-of-day condition (real-world local hour).
+	 */
+	private evaluateTimeOfDay(condition: TimeOfDayCondition): EvaluationResult {
+		const hour = this.context.getCurrentHour?.() ?? new Date().getHours();
+		const met = compareNumbers(hour, condition.hour, condition.operator);
+
+		const description = `Hour: ${hour} ${OPERATOR_SYMBOLS[condition.operator]} ${condition.hour}`;
+
+		return { met, progress: met ? 1 : 0, description };
+	}
+
+	/**
+	 * Evaluate an ending condition.
+	 */
+	private evaluateEnding(condition: EndingCondition): EvaluationResult {
+		if (!this.context.hasEnding) return unavailable(`Ending '${condition.endingId}'`);
+
+		const has = this.context.hasEnding(condition.endingId);
+		const description = `Ending '${condition.endingId}': ${has ? 'unlocked' : 'locked'}`;
+
+		return { met: has, progress: has ? 1 : 0, description };
+	}
+
+	/**
+	 * Evaluate a secret condition.
+	 */
+	private evaluateSecret(condition: SecretCondition): EvaluationResult {
+		if (!this.context.hasSecret) return unavailable(`Secret '${condition.secretId}'`);
+
+		const has = this.context.hasSecret(condition.secretId);
+		const description = `Secret '${condition.secretId}': ${has ? 'discovered' : 'hidden'}`;
+
+		return { met: has, progress: has ? 1 : 0, description };
+	}
+
 	/**
 	 * Evaluate an AND composite condition.
 	 */
@@ -414,6 +555,100 @@ export class ConditionEvaluator {
 	}
 }
 
+// ============================================================================
+// Comparison Helpers
+// ============================================================================
+
+/**
+ * Display symbols for comparison operators.
+ */
+const OPERATOR_SYMBOLS: Record<ComparisonOperator, string> = {
+	eq: '=',
+	neq: '≠',
+	gt: '>',
+	gte: '≥',
+	lt: '<',
+	lte: '≤'
+};
+
+/**
+ * Whether an operator describes a minimum to reach (progress is meaningful).
+ */
+function isAtLeast(operator: ComparisonOperator): boolean {
+	return operator === 'gte' || operator === 'gt';
+}
+
+/**
+ * Compare two numbers with an operator.
+ */
+function compareNumbers(a: number, b: number, operator: ComparisonOperator): boolean {
+	switch (operator) {
+		case 'eq':
+			return a === b;
+		case 'neq':
+			return a !== b;
+		case 'gt':
+			return a > b;
+		case 'gte':
+			return a >= b;
+		case 'lt':
+			return a < b;
+		case 'lte':
+			return a <= b;
+		default:
+			return false;
+	}
+}
+
+/**
+ * Compare two Decimals with an operator.
+ */
+function compareDecimals(a: Decimal, b: Decimal, operator: ComparisonOperator): boolean {
+	switch (operator) {
+		case 'eq':
+			return a.eq(b);
+		case 'neq':
+			return !a.eq(b);
+		case 'gt':
+			return a.gt(b);
+		case 'gte':
+			return a.gte(b);
+		case 'lt':
+			return a.lt(b);
+		case 'lte':
+			return a.lte(b);
+		default:
+			return false;
+	}
+}
+
+/**
+ * Result for a condition whose state query is not provided by the context.
+ */
+function unavailable(label: string): EvaluationResult {
+	return { met: false, progress: 0, description: `${label}: unavailable` };
+}
+
+// ============================================================================
+// Result Helpers
+// ============================================================================
+
+/**
+ * Collect the unmet leaves of an evaluated condition tree.
+ * These are the conditions that block the whole tree.
+ *
+ * @param result - Evaluated condition tree
+ * @returns Unmet leaf results, in tree order
+ */
+export function getFailedLeaves(result: EvaluationResult): EvaluationResult[] {
+	if (result.met) return [];
+	if (!result.children) return [result];
+
+	// An unmet NOT is blocked by its (met) inner condition
+	const failed = result.children.flatMap(getFailedLeaves);
+	return failed.length > 0 ? failed : [result];
+}
+
 // ============================================================================
 // Factory Function
 // ============================================================================
@@ -459,10 +694,17 @@ export const Conditions = {
 	},
 
 	/**
-	 * Create a choice condition.
+	 * Create a run time condition (in seconds).
 	 */
-	choice(choiceId: string, value: string | boolean): ChoiceCondition {
-		return { type: 'choice', choiceId, value };
+	runTime(minSeconds: number): TimeCondition {
+		return { type: 'time', minSeconds, scope: 'run' };
+	},
+
+	/**
+	 * Create a choice condition (any option when value is omitted).
+	 */
+	choice(choiceId: string, value?: string | boolean): ChoiceCondition {
+		return value === undefined ? { type: 'choice', choiceId } : { type: 'choice', choiceId, value };
 	},
 
 	/**
@@ -493,6 +735,41 @@ export const Conditions = {
 		return { type: 'achievement', achievementId };
 	},
 
+	/**
+	 * Create a flag condition (any truthy value when value is omitted).
+	 */
+	flag(flag: string, value?: boolean | string | number): FlagCondition {
+		return value === undefined ? { type: 'flag', flag } : { type: 'flag', flag, value };
+	},
+
+	/**
+	 * Create a stat condition.
+	 */
+	stat(stat: StatCondition['stat'], operator: ComparisonOperator, value: number): StatCondition {
+		return { type: 'stat', stat, operator, value };
+	},
+
+	/**
+	 * Create a time-of-day condition.
+	 */
+	timeOfDay(operator: ComparisonOperator, hour: number): TimeOfDayCondition {
+		return { type: 'time_of_day', operator, hour };
+	},
+
+	/**
+	 * Create an ending condition.
+	 */
+	ending(endingId: string): EndingCondition {
+		return { type: 'ending', endingId };
+	},
+
+	/**
+	 * Create a secret condition.
+	 */
+	secret(secretId: string): SecretCondition {
+		return { type: 'secret', secretId };
+	},
+
 	/**
 	 * Create an AND composite condition.
 	 */
@@ -18,6 +18,7 @@
 
 import type { EventManager } from '../core/EventManager';
 import type { Manager } from '../models/types';
+import type { FlagSetEvent } from '../models/events';
 import type { Decimal } from '../utils/decimal';
 import {
 	type LogEntry,
@@ -27,16 +28,22 @@ import {
 	type Choice,
 	type Consequence,
 	type StoryEvent,
-	type StoryCondition,
+	type StoryTrigger,
 	type ActiveDialogueState,
 	type SerializedNarrativeState,
 	type SpeakerId,
 	type StoryPath,
 	type EndingId,
 	type LogCategory,
-	SPEAKER_STYLES
+	SPEAKER_STYLES,
+	toCondition
 } from '../models/narrative';
-import { D, ZERO } from '../utils/decimal';
+import { ZERO } from '../utils/decimal';
+import {
+	ConditionEvaluator,
+	type EvaluationContext,
+	type PendingCondition
+} from './ConditionEvaluator';
 import {
 	type EndingDefinition,
 	getEndingDefinition as getEndingDef,
@@ -68,8 +75,10 @@ const DEFAULT_LINE_DELAY = 1500;
 /**
  * Context interface for evaluating story conditions.
  * Allows NarrativeManager to query game state without direct coupling.
+ * Flags, choices and endings come from the NarrativeManager itself; other
+ * condition queries are optional.
  */
-export interface NarrativeContext {
+export interface NarrativeContext extends Partial<EvaluationContext> {
 	/** Get current amount of a resource */
 	getResourceAmount: (resourceId: string) => Decimal;
 
@@ -112,6 +121,7 @@ export class NarrativeManager implements Manager {
 
 	private readonly events: EventManager;
 	private context: NarrativeContext | null = null;
+	private evaluator: ConditionEvaluator | null = null;
 
 	// ============================================================================
 	// Reactive State (Svelte 5 Runes)
@@ -433,6 +443,16 @@ export class NarrativeManager implements Manager {
 	 */
 	setContext(context: NarrativeContext): void {
 		this.context = context;
+
+		this.evaluator = new ConditionEvaluator({
+			...context,
+			getCurrentPhaseTime: () => context.getCurrentPhaseTime?.() ?? 0,
+			isPhaseCompleted: (phase) =>
+				context.isPhaseCompleted?.(phase) ?? context.getCurrentPhase() > phase,
+			getChoiceValue: (choiceId) => this.playerChoices.get(choiceId),
+			getFlag: (key) => this.flags.get(key) ?? context.getFlag?.(key),
+			hasEnding: (endingId) => this.hasEnding(endingId as EndingId)
+		});
 	}
 
 	// ============================================================================
@@ -695,8 +715,16 @@ export class NarrativeManager implements Manager {
 	skipTyping(): void {
 		if (!this.activeDialogue || !this.activeDialogue.isTyping) return;
 
+		this.finishTyping();
+		this.events.emit('player_input', { type: 'skip_typing' });
+	}
+
+	/**
+	 * Show the full current line and wait for input.
+	 */
+	private finishTyping(): void {
 		const currentLine = this.getCurrentLine();
-		if (currentLine) {
+		if (this.activeDialogue && currentLine) {
 			this.activeDialogue.displayedText = currentLine.text;
 			this.activeDialogue.currentCharIndex = currentLine.text.length;
 			this.activeDialogue.isTyping = false;
@@ -710,9 +738,11 @@ export class NarrativeManager implements Manager {
 	advanceDialogue(): void {
 		if (!this.activeDialogue) return;
 
+		this.events.emit('player_input', { type: 'advance_dialogue' });
+
 		// If still typing, skip to end first
 		if (this.activeDialogue.isTyping) {
-			this.skipTyping();
+			this.finishTyping();
 			return;
 		}
 
@@ -753,6 +783,8 @@ export class NarrativeManager implements Manager {
 			return;
 		}
 
+		this.events.emit('player_input', { type: 'choice', choiceId });
+
 		// Store the choice
 		this.playerChoices.set(choiceId, choice.label);
 
@@ -888,7 +920,7 @@ export class NarrativeManager implements Manager {
 		switch (consequence.type) {
 			case 'flag_set': {
 				const payload = consequence.payload as { key: string; value?: boolean | string | number };
-				this.flags.set(payload.key, payload.value ?? true);
+				this.setFlag(payload.key, payload.value ?? true, 'choice');
 				break;
 			}
 			case 'flag_unset': {
@@ -951,13 +983,19 @@ export class NarrativeManager implements Manager {
 	// ============================================================================
 
 	/**
-	 * Set a story flag.
+	 * Set a story flag and emit flag_set.
 	 *
 	 * @param key - Flag key
 	 * @param value - Flag value
+	 * @param source - What set the flag
 	 */
-	setFlag(key: string, value: boolean | string | number = true): void {
+	setFlag(
+		key: string,
+		value: boolean | string | number = true,
+		source: FlagSetEvent['source'] = 'event'
+	): void {
 		this.flags.set(key, value);
+		this.events.emit('flag_set', { key, value, source });
 	}
 
 	/**
@@ -1127,141 +1165,39 @@ export class NarrativeManager implements Manager {
 	// ============================================================================
 
 	/**
-	 * Evaluate a list of conditions (all must pass).
+	 * Evaluate a list of triggers (all must pass).
 	 */
-	private evaluateConditions(conditions: StoryCondition[]): boolean {
-		if (!this.context) return false;
-		return conditions.every((condition) => this.evaluateCondition(condition));
+	private evaluateConditions(triggers: StoryTrigger[]): boolean {
+		if (!this.evaluator) return false;
+		return this.evaluator.evaluateAll(triggers.map(toCondition));
 	}
 
 	/**
-	 * Evaluate a single condition.
+	 * Explain the triggers of all registered events that have not fired yet.
+	 * Events that only fire manually are skipped.
+	 *
+	 * @returns Evaluated triggers per pending event
 	 */
-	private evaluateCondition(condition: StoryCondition): boolean {
-		if (!this.context) return false;
-
-		switch (condition.type) {
-			case 'resource_reached': {
-				const params = condition.params as {
-					resourceId: string;
-					amount: number | string;
-					comparison?: string;
-				};
-				const current = this.context.getResourceAmount(params.resourceId);
-				const target = D(params.amount);
-				const cmp = params.comparison ?? 'gte';
-				return this.compare(current, target, cmp);
-			}
-
-			case 'phase_entered':
-			case 'phase_completed': {
-				const params = condition.params as { phase: number; completed?: boolean };
-				const currentPhase = this.context.getCurrentPhase();
-				if (condition.type === 'phase_completed') {
-					return currentPhase > params.phase;
-				}
-				return currentPhase >= params.phase;
-			}
-
-			case 'time_passed': {
-				const params = condition.params as { seconds: number; comparison?: string };
-				const runTime = this.context.getRunTime();
-				const cmp = params.comparison ?? 'gte';
-				return this.compareNumbers(runTime, params.seconds, cmp);
-			}
-
-			case 'producer_count': {
-				const params = condition.params as {
-					producerId: string;
-					count: number;
-					comparison?: string;
-				};
-				const current = this.context.getProducerCount(params.producerId);
-				const cmp = params.comparison ?? 'gte';
-				return this.compareNumbers(current, params.count, cmp);
-			}
-
-			case 'upgrade_purchased': {
-				const params = condition.params as { upgradeId: string; level?: number };
-				if (params.level !== undefined) {
-					return this.context.getUpgradeLevel(params.upgradeId) >= params.level;
-				}
-				return this.context.hasUpgrade(params.upgradeId);
-			}
-
-			case 'achievement_unlocked': {
-				const params = condition.params as { achievementId: string };
-				return this.context.hasAchievement(params.achievementId);
-			}
+	explainPendingEvents(): PendingCondition[] {
+		const evaluator = this.evaluator;
+		if (!evaluator) return [];
 
-			case 'flag_set': {
-				const params = condition.params as { key: string; value?: boolean | string | number };
-				if (params.value !== undefined) {
-					return this.flags.get(params.key) === params.value;
-				}
-				return this.hasFlag(params.key);
-			}
-
-			case 'choice_made': {
-				const params = condition.params as { choiceId: string; selectedOption?: string };
-				if (params.selectedOption) {
-					return this.playerChoices.get(params.choiceId) === params.selectedOption;
-				}
-				return this.playerChoices.has(params.choiceId);
-			}
-
-			case 'manual':
-				return false; // Manual events are triggered explicitly
-
-			case 'condition': {
-				// Custom condition - would need to be registered
-				console.warn('[NarrativeManager] Custom conditions not yet implemented');
-				return false;
-			}
+		const pending: PendingCondition[] = [];
+		for (const [eventId, event] of this.registeredEvents) {
+			if (event.oneTime && this.triggeredEvents.has(eventId)) continue;
 
-			default:
-				return false;
-		}
-	}
+			const conditions = event.triggers.map(toCondition);
+			if (conditions.some((condition) => condition.type === 'never')) continue;
 
-	/**
-	 * Compare two Decimal values.
-	 */
-	private compare(a: Decimal, b: Decimal, comparison: string): boolean {
-		switch (comparison) {
-			case 'gte':
-				return a.gte(b);
-			case 'lte':
-				return a.lte(b);
-			case 'gt':
-				return a.gt(b);
-			case 'lt':
-				return a.lt(b);
-			case 'eq':
-				return a.eq(b);
-			default:
-				return a.gte(b);
+			pending.push({
+				kind: 'story',
+				id: eventId,
+				name: event.contentId ? `${event.type}: ${event.contentId}` : eventId,
+				result: evaluator.evaluateWithDetails({ type: 'and', conditions })
+			});
 		}
-	}
 
-	/**
-	 * Compare two numbers.
-	 */
-	private compareNumbers(a: number, b: number, comparison: string): boolean {
-		switch (comparison) {
-			case 'gte':
-				return a >= b;
-			case 'lte':
-				return a <= b;
-			case 'gt':
-				return a > b;
-			case 'lt':
-				return a < b;
-			case 'eq':
-				return a === b;
-			default:
-				return a >= b;
-		}
+		return pending;
 	}
 
 	// ============================================================================
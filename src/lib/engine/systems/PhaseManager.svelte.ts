@@ -29,7 +29,9 @@ import {
 } from '../models/phase';
 import {
 	ConditionEvaluator,
-	type EvaluationContext
+	type ConditionQueries,
+	type EvaluationContext,
+	type PendingCondition
 } from './ConditionEvaluator';
 
 // ============================================================================
@@ -40,7 +42,7 @@ import {
  * Context provider interface for condition evaluation.
  * The Game class will provide this to connect PhaseManager to other systems.
  */
-export interface PhaseManagerContext {
+export interface PhaseManagerContext extends ConditionQueries {
 	/** Get resource amount by ID */
 	getResourceAmount: (resourceId: string) => Decimal;
 	/** Get producer count by ID */
@@ -164,6 +166,12 @@ export class PhaseManager implements Manager {
 	 */
 	private transitionCallbacks: TransitionCallback[] = [];
 
+	/**
+	 * Whether transitions complete immediately instead of waiting for the
+	 * animation (headless simulations).
+	 */
+	private instantTransitions = false;
+
 	/**
 	 * Cached transition progress (reactive).
 	 * Updated each tick for UI reactivity.
@@ -461,6 +469,7 @@ export class PhaseManager implements Manager {
 
 		// Create evaluation context wrapper
 		const evalContext: EvaluationContext = {
+			...context,
 			getResourceAmount: (id) => context.getResourceAmount(id),
 			getCurrentPhaseTime: () => this.currentPhaseTime,
 			getChoiceValue: (id) => context.getChoiceValue(id),
@@ -511,6 +520,28 @@ export class PhaseManager implements Manager {
 		return this.evaluator.evaluateProgress(def.transitionConditions);
 	}
 
+	/**
+	 * Explain the pending transition to the next phase.
+	 *
+	 * @returns Evaluated transition conditions, or null at the last phase
+	 */
+	explainTransition(): PendingCondition | null {
+		if (!this.evaluator || this.currentPhase >= TOTAL_PHASES) return null;
+
+		const def = this.currentDefinition;
+		if (!def) return null;
+
+		return {
+			kind: 'phase',
+			id: String(this.currentPhase + 1),
+			name: `Phase ${this.currentPhase} → ${this.currentPhase + 1}`,
+			result: this.evaluator.evaluateWithDetails({
+				type: 'and',
+				conditions: def.transitionConditions
+			})
+		};
+	}
+
 	/**
 	 * Check if a phase is unlocked.
 	 *
@@ -622,7 +653,9 @@ export class PhaseManager implements Manager {
 		this.unlockPhase(toPhase);
 
 		// Simulate transition animation (in real implementation, UI handles this)
-		await this.simulateTransition(transitionDuration);
+		if (!this.instantTransitions) {
+			await this.simulateTransition(transitionDuration);
+		}
 
 		// Complete transition
 		this.currentPhase = toPhase;
@@ -679,6 +712,25 @@ export class PhaseManager implements Manager {
 		}
 	}
 
+	/**
+	 * Skip the transition animation delay.
+	 * With instant transitions, advancePhase() completes synchronously.
+	 *
+	 * @param enabled - Whether transitions are instant
+	 */
+	setInstantTransitions(enabled: boolean): void {
+		this.instantTransitions = enabled;
+	}
+
+	/**
+	 * Whether transitions skip the animation delay.
+	 *
+	 * @returns Whether transitions are instant
+	 */
+	hasInstantTransitions(): boolean {
+		return this.instantTransitions;
+	}
+
 	/**
 	 * Register a callback for transition events.
 	 *
@@ -756,12 +808,15 @@ export class PhaseManager implements Manager {
 
 	/**
 	 * Force advance to a specific phase (debug only).
+	 * Emits phase_unlocked and phase_entered like a regular transition.
 	 *
 	 * @param phase - Target phase number
 	 */
 	debugSetPhase(phase: number): void {
 		if (phase < 1 || phase > TOTAL_PHASES) return;
 
+		const previousPhase = this.currentPhase;
+
 		// Unlock all phases up to target
 		for (let i = 1; i <= phase; i++) {
 			this.unlockPhase(i);
@@ -783,6 +838,7 @@ export class PhaseManager implements Manager {
 
 		// Mark as entered
 		const progress = this.phaseProgress.get(phase);
+		const isFirstTime = progress ? !progress.entered : true;
 		if (progress) {
 			progress.entered = true;
 			progress.timesEntered++;
@@ -791,6 +847,13 @@ export class PhaseManager implements Manager {
 				progress.firstEntered = Date.now();
 			}
 		}
+
+		this.events.emit('phase_entered', {
+			previousPhase,
+			newPhase: phase,
+			phaseId: this.definitions.get(phase)?.key ?? `phase_${phase}`,
+			isFirstTime
+		});
 	}
 
 	/**
@@ -21,13 +21,23 @@ import type { EventManager } from '../core/EventManager';
 import type { ResourceManager } from './ResourceManager.svelte';
 import { ProductionPipeline, type MultiplierSource } from './ProductionPipeline';
 import type { Manager } from '../models/types';
+import type { PurchaseSource } from '../models/automation';
 import {
 	PRODUCER_DEFINITIONS,
 	type ProducerDefinition,
 	type ProducerState,
 	type ProducerCategory,
-	ProducerId
+	type ProducerMilestone,
+	type BuyQuantityMode,
+	type PurchasePreview,
+	ProducerId,
+	getNextFlavorMilestone,
+	getProducerMilestones,
+	getNextProducerMilestone,
+	getMilestoneMultiplier
 } from '../models/producers';
+import { getSynergiesFromProducer, calculateSynergyValue } from '../models/synergies';
+import { calculateComponentCost, addResourceCost, type ResourceCosts } from '../models/costs';
 
 /**
  * Internal producer state with reactive updates.
@@ -57,6 +67,8 @@ interface SerializedProducers {
  * Manages all game producers including:
  * - Purchase logic with exponential costs
  * - Production rate calculations
+ * - Level milestones that multiply a producer's own production
+ * - Synergies through which producers boost other producers or resources
  * - Integration with ProductionPipeline
  * - Unlock conditions
  *
@@ -182,7 +194,7 @@ export class ProducerManager implements Manager {
 
 			// Calculate production with pipeline multipliers
 			const baseProduction = D(def.baseProduction).mul(producerState.level);
-			const production = this.pipeline.calculate(def.producesResource, baseProduction);
+			const production = this.pipeline.calculate(def.producesResource, baseProduction, id);
 			producerState.currentProduction = production;
 
 			// Add to resource
@@ -315,12 +327,13 @@ export class ProducerManager implements Manager {
 			return false;
 		}
 
-		const cost = this.calculateCost(id, amount);
-		return this.resources.canAfford(def.costResource, cost);
+		return this.resources.canAffordMultiple(this.calculateCosts(id, amount));
 	}
 
 	/**
-	 * Calculate the cost for buying a producer.
+	 * Calculate the cost for buying a producer in its main cost resource.
+	 * Producers with extra cost components also cost other resources
+	 * (see calculateCosts()).
 	 *
 	 * @param id - Producer ID
 	 * @param amount - Amount to buy (default 1)
@@ -347,6 +360,32 @@ export class ProducerManager implements Manager {
 		);
 	}
 
+	/**
+	 * Calculate the cost for buying a producer in all its cost resources.
+	 *
+	 * @param id - Producer ID
+	 * @param amount - Amount to buy (default 1)
+	 * @returns Total cost by resource ID
+	 */
+	calculateCosts(id: string, amount: number = 1): ResourceCosts {
+		const costs: ResourceCosts = new Map();
+		const producerState = this.state[id];
+		if (!producerState) return costs;
+
+		const def = producerState.definition;
+		costs.set(def.costResource, this.calculateCost(id, amount));
+
+		for (const [resourceId, component] of Object.entries(def.extraCosts ?? {})) {
+			addResourceCost(
+				costs,
+				resourceId,
+				calculateComponentCost(component, def.costMultiplier, producerState.level, amount)
+			);
+		}
+
+		return costs;
+	}
+
 	/**
 	 * Get the maximum amount of a producer that can be bought.
 	 *
@@ -367,31 +406,109 @@ export class ProducerManager implements Manager {
 			producerState.level
 		);
 
+		// Every extra cost component limits the amount on its own
+		for (const [resourceId, component] of Object.entries(def.extraCosts ?? {})) {
+			maxBuy = Math.min(
+				maxBuy,
+				calculateMaxAffordable(
+					this.resources.getAmount(resourceId),
+					component.baseCost,
+					component.costMultiplier ?? def.costMultiplier,
+					producerState.level
+				)
+			);
+		}
+
 		// Cap at max level if applicable
 		if (def.maxLevel > 0) {
 			const remaining = def.maxLevel - producerState.level;
 			maxBuy = Math.min(maxBuy, remaining);
 		}
 
+		// The closed-form estimate can round up by one at exact amounts
+		if (maxBuy > 0 && !this.resources.canAffordMultiple(this.calculateCosts(id, maxBuy))) {
+			maxBuy--;
+		}
+
 		return Math.max(0, maxBuy);
 	}
 
+	/**
+	 * Get the amount a buy quantity mode buys at the current level.
+	 * Fixed amounts are capped at the max level, so a preview never shows
+	 * more levels than can be bought.
+	 *
+	 * @param id - Producer ID
+	 * @param mode - Buy quantity mode
+	 * @returns Amount to buy (0 if there is nothing to buy)
+	 */
+	getBuyAmount(id: string, mode: BuyQuantityMode): number {
+		const producerState = this.state[id];
+		if (!producerState) return 0;
+
+		const def = producerState.definition;
+		const level = producerState.level;
+		const remaining = def.maxLevel > 0 ? def.maxLevel - level : Infinity;
+		if (remaining <= 0) return 0;
+
+		switch (mode) {
+			case 'x1':
+				return 1;
+			case 'x10':
+				return Math.min(10, remaining);
+			case 'x100':
+				return Math.min(100, remaining);
+			case 'milestone': {
+				const flavorLevel = getNextFlavorMilestone(def, level) ?? Infinity;
+				const milestoneLevel = getNextProducerMilestone(def, level)?.level ?? Infinity;
+				const target = Math.min(flavorLevel, milestoneLevel);
+				return target === Infinity ? 0 : target - level;
+			}
+			case 'max':
+				// Show the next level when nothing is affordable
+				return Math.max(1, this.getMaxAffordable(id));
+		}
+	}
+
+	/**
+	 * Preview a purchase in a buy quantity mode.
+	 *
+	 * @param id - Producer ID
+	 * @param mode - Buy quantity mode
+	 * @returns Amount, exact cost and affordability
+	 */
+	getPurchasePreview(id: string, mode: BuyQuantityMode): PurchasePreview {
+		const amount = this.getBuyAmount(id, mode);
+		if (amount <= 0) {
+			return { mode, amount: 0, cost: ZERO, costs: new Map(), canAfford: false };
+		}
+
+		return {
+			mode,
+			amount,
+			cost: this.calculateCost(id, amount),
+			costs: this.calculateCosts(id, amount),
+			canAfford: this.canAfford(id, amount)
+		};
+	}
+
 	/**
 	 * Buy a producer.
 	 *
 	 * @param id - Producer ID
 	 * @param amount - Amount to buy (default 1)
+	 * @param source - Who buys (automated purchases are not player input)
 	 * @returns Whether the purchase was successful
 	 */
-	buy(id: string, amount: number = 1): boolean {
+	buy(id: string, amount: number = 1, source: PurchaseSource = 'player'): boolean {
 		if (!this.canAfford(id, amount)) return false;
 
 		const producerState = this.state[id];
 		const def = producerState.definition;
-		const cost = this.calculateCost(id, amount);
+		const costs = this.calculateCosts(id, amount);
 
 		// Spend resources
-		if (!this.resources.spend(def.costResource, cost)) {
+		if (!this.resources.spendMultiple(costs)) {
 			return false;
 		}
 
@@ -413,9 +530,25 @@ export class ProducerManager implements Manager {
 		// Emit event
 		this.events.emit('upgrade_purchased', {
 			upgradeId: id,
-			cost: new Map([[def.costResource, cost]]),
+			cost: costs,
 			level: producerState.level
 		});
+		if (source === 'player') {
+			this.events.emit('player_input', { type: 'buy_producer', producerId: id, amount });
+		}
+
+		// Milestones crossed by this purchase
+		for (const milestone of getProducerMilestones(def)) {
+			if (milestone.level > previousLevel && milestone.level <= producerState.level) {
+				this.events.emit('producer_milestone_reached', {
+					producerId: id,
+					level: milestone.level,
+					multiplier: milestone.multiplier,
+					totalMultiplier: getMilestoneMultiplier(def, milestone.level),
+					logId: milestone.log?.id ?? null
+				});
+			}
+		}
 
 		return true;
 	}
@@ -437,6 +570,22 @@ export class ProducerManager implements Manager {
 		return 0;
 	}
 
+	/**
+	 * Buy a producer in a buy quantity mode.
+	 *
+	 * @param id - Producer ID
+	 * @param mode - Buy quantity mode
+	 * @returns Amount bought (0 if none)
+	 */
+	buyWithMode(id: string, mode: BuyQuantityMode): number {
+		if (mode === 'max') return this.buyMax(id);
+
+		const amount = this.getBuyAmount(id, mode);
+		if (amount <= 0) return 0;
+
+		return this.buy(id, amount) ? amount : 0;
+	}
+
 	// ============================================================================
 	// Producer State Access
 	// ============================================================================
@@ -463,7 +612,7 @@ export class ProducerManager implements Manager {
 
 		const def = producerState.definition;
 		const baseProduction = D(def.baseProduction).mul(producerState.level);
-		return this.pipeline.calculate(def.producesResource, baseProduction);
+		return this.pipeline.calculate(def.producesResource, baseProduction, id);
 	}
 
 	/**
@@ -476,6 +625,30 @@ export class ProducerManager implements Manager {
 		return this.state[id]?.nextCost ?? ZERO;
 	}
 
+	/**
+	 * Get the next level milestone of a producer.
+	 *
+	 * @param id - Producer ID
+	 * @returns Next milestone, or null if all were reached
+	 */
+	getNextMilestone(id: string): ProducerMilestone | null {
+		const producerState = this.state[id];
+		if (!producerState) return null;
+		return getNextProducerMilestone(producerState.definition, producerState.level);
+	}
+
+	/**
+	 * Get the combined multiplier of the milestones a producer has reached.
+	 *
+	 * @param id - Producer ID
+	 * @returns Milestone multiplier (1 if none)
+	 */
+	getMilestoneMultiplier(id: string): number {
+		const producerState = this.state[id];
+		if (!producerState) return 1;
+		return getMilestoneMultiplier(producerState.definition, producerState.level);
+	}
+
 	/**
 	 * Check if a producer is unlocked.
 	 *
@@ -633,6 +806,27 @@ export class ProducerManager implements Manager {
 
 		const def = producerState.definition;
 
+		// Milestones multiply the producer's own production
+		const milestoneMultiplier = getMilestoneMultiplier(def, producerState.level);
+		if (milestoneMultiplier > 1) {
+			const reached = getProducerMilestones(def).filter(m => m.level <= producerState.level);
+			this.pipeline.addMultiplier({
+				id: `milestone_${id}`,
+				name: `${def.name} Milestones`,
+				description: `${reached.length} milestones`,
+				value: milestoneMultiplier,
+				source: 'producer',
+				stackingType: 'multiplicative',
+				resourceId: def.producesResource,
+				producerId: id,
+				priority: 5
+			});
+		} else {
+			this.pipeline.removeMultiplier(`milestone_${id}`);
+		}
+
+		this.updateSynergyMultipliers(id);
+
 		// Special handling for multiplier-type producers
 		if (id === ProducerId.PIXEL_MULTIPLIER && producerState.level > 0) {
 			// Each level = 1.1x multiplier
@@ -665,6 +859,39 @@ export class ProducerManager implements Manager {
 		}
 	}
 
+	/**
+	 * Update the pipeline multipliers of the synergies a producer gives.
+	 *
+	 * @param id - Source producer ID
+	 */
+	private updateSynergyMultipliers(id: string): void {
+		const level = this.getLevel(id);
+
+		for (const synergy of getSynergiesFromProducer(id)) {
+			const multiplierId = `synergy_${synergy.id}`;
+			const targetId = synergy.targetProducerId ?? '';
+			const resourceId =
+				synergy.targetResourceId ?? this.state[targetId]?.definition.producesResource;
+
+			if (level === 0 || !resourceId) {
+				this.pipeline.removeMultiplier(multiplierId);
+				continue;
+			}
+
+			this.pipeline.addMultiplier({
+				id: multiplierId,
+				name: synergy.name,
+				description: `${this.state[id].definition.name} level ${level}`,
+				value: calculateSynergyValue(synergy, level),
+				source: 'synergy',
+				stackingType: synergy.formula === 'linear' ? 'additive' : 'multiplicative',
+				resourceId,
+				producerId: targetId,
+				priority: 20
+			});
+		}
+	}
+
 	/**
 	 * Check and apply unlock conditions.
 	 */
@@ -768,9 +995,10 @@ export class ProducerManager implements Manager {
 	 *
 	 * @param resourceId - Resource ID
 	 * @param baseRate - Base rate
+	 * @param producerId - Producer whose production is shown (optional)
 	 * @returns Production breakdown
 	 */
-	getProductionBreakdown(resourceId: string, baseRate: DecimalSource) {
-		return this.pipeline.getBreakdown(resourceId, baseRate);
+	getProductionBreakdown(resourceId: string, baseRate: DecimalSource, producerId?: string) {
+		return this.pipeline.getBreakdown(resourceId, baseRate, producerId);
 	}
 }
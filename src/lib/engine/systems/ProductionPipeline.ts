@@ -10,6 +10,9 @@
  * 5. × Eternal Multipliers (primordial pixels, etc.)
  * = Final Production Rate
  *
+ * Multipliers apply to one resource (or all) and optionally to the
+ * production of a single producer, e.g. its level milestones.
+ *
  * @module engine/systems/ProductionPipeline
  */
 
@@ -20,6 +23,7 @@ import { Decimal, D, ZERO, ONE, type DecimalSource } from '../utils/decimal';
  */
 export type MultiplierSource =
 	| 'producer'      // From producers/buildings
+	| 'synergy'       // From other producers (see models/synergies)
 	| 'upgrade'       // From purchased upgrades
 	| 'achievement'   // From achievements
 	| 'phase'         // Phase-specific bonuses
@@ -57,6 +61,9 @@ export interface Multiplier {
 	/** Which resource this affects (empty = all) */
 	resourceId: string;
 
+	/** Which producer this affects (empty = all producers and other sources) */
+	producerId: string;
+
 	/** Priority for ordering (higher = applied later) */
 	priority: number;
 
@@ -78,6 +85,7 @@ export interface MultiplierInput {
 	source: MultiplierSource;
 	stackingType: MultiplierStackingType;
 	resourceId?: string;
+	producerId?: string;
 	priority?: number;
 	active?: boolean;
 	condition?: () => boolean;
@@ -172,6 +180,7 @@ export class ProductionPipeline {
 			source: input.source,
 			stackingType: input.stackingType,
 			resourceId: input.resourceId ?? '',
+			producerId: input.producerId ?? '',
 			priority: input.priority ?? 0,
 			active: input.active ?? true,
 			condition: input.condition
@@ -249,16 +258,22 @@ export class ProductionPipeline {
 
 	/**
 	 * Get all multipliers for a specific resource.
+	 * Producer-specific multipliers are only included for their producer.
 	 *
 	 * @param resourceId - Resource ID (empty string = global multipliers only)
+	 * @param producerId - Producer whose production is calculated (optional)
 	 * @returns Array of applicable multipliers
 	 */
-	getMultipliersForResource(resourceId: string): Multiplier[] {
+	getMultipliersForResource(resourceId: string, producerId: string = ''): Multiplier[] {
 		const result: Multiplier[] = [];
 
 		for (const mult of this.multipliers.values()) {
-			// Include if: active AND (global OR matches resource)
-			if (mult.active && (mult.resourceId === '' || mult.resourceId === resourceId)) {
+			// Include if: active AND (global OR matches resource) AND (any producer OR matches producer)
+			if (
+				mult.active &&
+				(mult.resourceId === '' || mult.resourceId === resourceId) &&
+				(mult.producerId === '' || mult.producerId === producerId)
+			) {
 				// Check condition if present
 				if (!mult.condition || mult.condition()) {
 					result.push(mult);
@@ -293,13 +308,14 @@ export class ProductionPipeline {
 	 *
 	 * @param resourceId - Resource ID
 	 * @param baseRate - Base production rate
+	 * @param producerId - Producer whose production is calculated (optional)
 	 * @returns Final production rate after all multipliers
 	 */
-	calculate(resourceId: string, baseRate: DecimalSource): Decimal {
+	calculate(resourceId: string, baseRate: DecimalSource, producerId: string = ''): Decimal {
 		const base = D(baseRate);
 		if (base.lte(0)) return ZERO;
 
-		const multipliers = this.getMultipliersForResource(resourceId);
+		const multipliers = this.getMultipliersForResource(resourceId, producerId);
 
 		// Separate into multiplicative and additive
 		let multiplicativeFactor = ONE;
@@ -323,11 +339,16 @@ export class ProductionPipeline {
 	 *
 	 * @param resourceId - Resource ID
 	 * @param baseRate - Base production rate
+	 * @param producerId - Producer whose production is calculated (optional)
 	 * @returns Production breakdown with all factors
 	 */
-	getBreakdown(resourceId: string, baseRate: DecimalSource): ProductionBreakdown {
+	getBreakdown(
+		resourceId: string,
+		baseRate: DecimalSource,
+		producerId: string = ''
+	): ProductionBreakdown {
 		const base = D(baseRate);
-		const multipliers = this.getMultipliersForResource(resourceId);
+		const multipliers = this.getMultipliersForResource(resourceId, producerId);
 
 		let multiplicativeFactor = ONE;
 		let additiveBonus = ZERO;
@@ -369,6 +369,16 @@ export class ResourceManager implements Manager {
 		this.addInternal(id, amount, 'click');
 	}
 
+	/**
+	 * Add resources granted by a rebirth (e.g. Primordial Pixels).
+	 *
+	 * @param id - Resource ID
+	 * @param amount - Amount to add
+	 */
+	addFromRebirth(id: string, amount: DecimalSource): void {
+		this.addInternal(id, amount, 'rebirth');
+	}
+
 	/**
 	 * Perform a click action for a resource.
 	 * This is a low-level method that only applies the base click amount.
@@ -8,7 +8,7 @@
  *
  * Key responsibilities:
  * - Track discovered secrets
- * - Evaluate discovery conditions (flags, stats, time, phase)
+ * - Evaluate discovery conditions through the shared ConditionEvaluator
  * - Award rewards when secrets are discovered
  * - Manage notification queue for UI
  * - Track custom stats and flags for secret conditions
@@ -40,9 +40,14 @@
 import type { EventManager } from '../core/EventManager';
 import type { Manager } from '../models/types';
 import type { Decimal } from '../utils/decimal';
+import type { Condition } from '../models/conditions';
+import {
+	ConditionEvaluator,
+	type EvaluationContext,
+	type PendingCondition
+} from './ConditionEvaluator';
 import {
 	type SecretDefinition,
-	type SecretCondition,
 	type SecretReward,
 	type SecretType,
 	SECRET_DEFINITIONS,
@@ -88,8 +93,10 @@ export interface SerializedSecrets {
 /**
  * Context interface for evaluating secret conditions.
  * Allows SecretManager to query game state without direct coupling.
+ * Stats, secret flags and discoveries come from the SecretManager itself;
+ * other condition queries are optional.
  */
-export interface SecretContext {
+export interface SecretContext extends Partial<EvaluationContext> {
 	/** Get current amount of a resource */
 	getResourceAmount: (resourceId: string) => Decimal;
 
@@ -177,6 +184,7 @@ export class SecretManager implements Manager {
 
 	private readonly events: EventManager;
 	private context: SecretContext | null = null;
+	private evaluator: ConditionEvaluator | null = null;
 
 	// ============================================================================
 	// Reactive State (Svelte 5 Runes)
@@ -420,6 +428,21 @@ export class SecretManager implements Manager {
 	 */
 	setContext(context: SecretContext): void {
 		this.context = context;
+
+		this.evaluator = new ConditionEvaluator({
+			...context,
+			getCurrentPhaseTime: () => context.getCurrentPhaseTime?.() ?? 0,
+			getChoiceValue: (choiceId) => context.getChoiceValue?.(choiceId),
+			isPhaseCompleted: (phase) =>
+				context.isPhaseCompleted?.(phase) ?? context.getCurrentPhase() > phase,
+			getProducerCount: (producerId) => context.getProducerCount?.(producerId) ?? 0,
+			hasUpgrade: (upgradeId) => context.hasUpgrade?.(upgradeId) ?? false,
+			getUpgradeLevel: (upgradeId) => context.getUpgradeLevel?.(upgradeId) ?? 0,
+			hasAchievement: (achievementId) => context.hasAchievement?.(achievementId) ?? false,
+			getFlag: (flag) => this.flags.get(flag) ?? context.getFlag?.(flag),
+			getStat: (stat) => this.resolveStat(stat),
+			hasSecret: (secretId) => this.isDiscovered(secretId)
+		});
 	}
 
 	// ============================================================================
@@ -451,178 +474,33 @@ export class SecretManager implements Manager {
 	}
 
 	/**
-	 * Evaluate a secret condition.
+	 * Evaluate a secret discovery condition.
 	 *
 	 * @param condition - Condition to evaluate
 	 * @returns Whether the condition is met
 	 */
-	private evaluateCondition(condition: SecretCondition): boolean {
-		if (!this.context) return false;
-
-		switch (condition.type) {
-			case 'flag':
-				return this.evaluateFlagCondition(condition);
-
-			case 'stat':
-				return this.evaluateStatCondition(condition);
-
-			case 'phase':
-				return this.evaluatePhaseCondition(condition);
-
-			case 'time':
-				return this.evaluateTimeCondition(condition);
-
-			case 'and':
-				return condition.conditions.every((c) => this.evaluateCondition(c));
-
-			case 'or':
-				return condition.conditions.some((c) => this.evaluateCondition(c));
-
-			default:
-				console.warn(`[SecretManager] Unknown condition type: ${(condition as any).type}`);
-				return false;
-		}
+	private evaluateCondition(condition: Condition): boolean {
+		if (!this.evaluator) return false;
+		return this.evaluator.evaluate(condition);
 	}
 
 	/**
-	 * Evaluate a flag condition.
-	 */
-	private evaluateFlagCondition(condition: { flag: string; value?: boolean | string }): boolean {
-		const flagValue = this.flags.get(condition.flag);
-		if (flagValue === undefined) return false;
-
-		if (condition.value !== undefined) {
-			return flagValue === condition.value;
-		}
-		return Boolean(flagValue);
-	}
-
-	/**
-	 * Evaluate a stat condition.
-	 */
-	private evaluateStatCondition(condition: {
-		stat: string;
-		operator: '>=' | '<=' | '>' | '<' | '=' | '!=';
-		value: number;
-	}): boolean {
-		if (!this.context) return false;
-
-		// Get stat value - try context methods first, then custom stats
-		let statValue: number | null = null;
-
-		switch (condition.stat) {
-			case 'totalClicks':
-				statValue = this.context.getTotalClicks();
-				break;
-			case 'totalPlayTime':
-				statValue = this.context.getTotalPlayTime();
-				break;
-			case 'totalIdleTime':
-				statValue = this.context.getTotalIdleTime();
-				break;
-			case 'timeSinceLastClick':
-				statValue = this.context.getTimeSinceLastClick();
-				break;
-			case 'canvasesCompleted':
-				statValue = this.context.getCanvasesCompleted();
-				break;
-			case 'canvasCount':
-				statValue = this.context.getCanvasCount();
-				break;
-			case 'upgradesPurchased':
-				statValue = this.context.getUpgradesPurchased();
-				break;
-			case 'logsRead':
-				statValue = this.context.getLogsRead();
-				break;
-			case 'uniqueChoicesMade':
-				statValue = this.context.getUniqueChoicesMade();
-				break;
-			case 'uniqueProducersOwned':
-				statValue = this.context.getUniqueProducersOwned();
-				break;
-			case 'primordialPixels':
-				statValue = Number(this.context.getResourceAmount('primordial_pixels'));
-				break;
-			default:
-				// Try custom stats
-				statValue = this.stats.get(condition.stat) ?? null;
-		}
-
-		if (statValue === null) return false;
-
-		// Apply operator
-		switch (condition.operator) {
-			case '>=':
-				return statValue >= condition.value;
-			case '<=':
-				return statValue <= condition.value;
-			case '>':
-				return statValue > condition.value;
-			case '<':
-				return statValue < condition.value;
-			case '=':
-				return statValue === condition.value;
-			case '!=':
-				return statValue !== condition.value;
-			default:
-				return false;
-		}
-	}
-
-	/**
-	 * Evaluate a phase condition.
-	 */
-	private evaluatePhaseCondition(condition: {
-		operator: '>=' | '<=' | '>' | '<' | '=' | '!=';
-		phase: number;
-	}): boolean {
-		if (!this.context) return false;
-
-		const currentPhase = this.context.getCurrentPhase();
-
-		switch (condition.operator) {
-			case '>=':
-				return currentPhase >= condition.phase;
-			case '<=':
-				return currentPhase <= condition.phase;
-			case '>':
-				return currentPhase > condition.phase;
-			case '<':
-				return currentPhase < condition.phase;
-			case '=':
-				return currentPhase === condition.phase;
-			case '!=':
-				return currentPhase !== condition.phase;
-			default:
-				return false;
-		}
-	}
-
-	/**
-	 * Evaluate a time-of-day condition (real-world time).
-	 */
-	private evaluateTimeCondition(condition: {
-		operator: '>=' | '<=' | '>' | '<' | '=';
-		hour: number;
-	}): boolean {
-		const now = new Date();
-		const currentHour = now.getHours();
-
-		switch (condition.operator) {
-			case '>=':
-				return currentHour >= condition.hour;
-			case '<=':
-				return currentHour <= condition.hour;
-			case '>':
-				return currentHour > condition.hour;
-			case '<':
-				return currentHour < condition.hour;
-			case '=':
-				return currentHour === condition.hour;
-			default:
-				return false;
-		}
+	 * Explain the discovery conditions of all undiscovered secrets.
+	 *
+	 * @returns Evaluated condition per undiscovered secret
+	 */
+	explainPending(): PendingCondition[] {
+		const evaluator = this.evaluator;
+		if (!evaluator) return [];
+
+		return SECRET_DEFINITIONS.filter((secret) => !this.discoveredSecrets.has(secret.id)).map(
+			(secret) => ({
+				kind: 'secret',
+				id: secret.id,
+				name: secret.name,
+				result: evaluator.evaluateWithDetails(secret.discoveryCondition)
+			})
+		);
 	}
 
 	/**
@@ -885,6 +763,44 @@ export class SecretManager implements Manager {
 		return this.stats.get(stat) ?? 0;
 	}
 
+	/**
+	 * Resolve a stat for stat conditions.
+	 * Built-in stats come from the game context, other names from custom stats.
+	 *
+	 * @param stat - Built-in or custom stat name
+	 * @returns Stat value or null if unknown
+	 */
+	resolveStat(stat: string): number | null {
+		if (!this.context) return null;
+
+		switch (stat) {
+			case 'totalClicks':
+				return this.context.getTotalClicks();
+			case 'totalPlayTime':
+				return this.context.getTotalPlayTime();
+			case 'totalIdleTime':
+				return this.context.getTotalIdleTime();
+			case 'timeSinceLastClick':
+				return this.context.getTimeSinceLastClick();
+			case 'canvasesCompleted':
+				return this.context.getCanvasesCompleted();
+			case 'canvasCount':
+				return this.context.getCanvasCount();
+			case 'upgradesPurchased':
+				return this.context.getUpgradesPurchased();
+			case 'logsRead':
+				return this.context.getLogsRead();
+			case 'uniqueChoicesMade':
+				return this.context.getUniqueChoicesMade();
+			case 'uniqueProducersOwned':
+				return this.context.getUniqueProducersOwned();
+			case 'primordialPixels':
+				return Number(this.context.getResourceAmount('primordial_pixels'));
+			default:
+				return this.stats.get(stat) ?? null;
+		}
+	}
+
 	// ============================================================================
 	// Manual Discovery (for testing/special cases)
 	// ============================================================================
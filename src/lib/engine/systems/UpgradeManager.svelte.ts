@@ -28,6 +28,8 @@ import type { EventManager } from '../core/EventManager';
 import type { ResourceManager } from './ResourceManager.svelte';
 import type { ProducerManager } from './ProducerManager.svelte';
 import type { Manager } from '../models/types';
+import type { PurchaseSource } from '../models/automation';
+import { calculateComponentCost, addResourceCost, type ResourceCosts } from '../models/costs';
 import {
 	type UpgradeDefinition,
 	type UpgradeEffect,
@@ -36,6 +38,8 @@ import {
 	type InternalUpgradeState,
 	type SerializedUpgrades,
 	type SkillTreePath,
+	type SpeedEffect,
+	UPGRADE_CURRENCY_RESOURCES,
 	isAtMaxLevel,
 	isRepeatableUpgrade
 } from '../models/upgrades';
@@ -63,6 +67,8 @@ export interface BuyOptions {
 	buyMax?: boolean;
 	/** Skip affordability check (for admin/debug) */
 	skipCheck?: boolean;
+	/** Who buys (default: 'player'; automated purchases are not player input) */
+	source?: PurchaseSource;
 }
 
 /**
@@ -73,8 +79,10 @@ export interface PurchaseResult {
 	success: boolean;
 	/** Amount actually purchased */
 	amountPurchased: number;
-	/** Total cost paid */
+	/** Total cost paid in the main currency */
 	costPaid: Decimal;
+	/** Total cost paid by resource ID (all components) */
+	costsPaid?: ResourceCosts;
 	/** Error message if failed */
 	error?: string;
 }
@@ -465,15 +473,14 @@ export class UpgradeManager implements Manager {
 			return false;
 		}
 
-		// Calculate cost
-		const cost = this.calculateCostForAmount(id, amount);
-
-		// Check currency
-		return this.hasCurrency(def.currency, cost);
+		// Check all cost components
+		return this.resources.canAffordMultiple(this.calculateCosts(id, amount));
 	}
 
 	/**
-	 * Calculate the cost for a single purchase.
+	 * Calculate the cost for a single purchase in the main currency.
+	 * Upgrades with extra cost components also cost other resources
+	 * (see calculateCosts()).
 	 *
 	 * @param id - Upgrade ID
 	 * @param currentLevel - Current level
@@ -522,6 +529,35 @@ export class UpgradeManager implements Manager {
 		return total;
 	}
 
+	/**
+	 * Calculate the cost for buying levels in all cost resources.
+	 * Extra cost components scale only for repeatable upgrades.
+	 *
+	 * @param id - Upgrade ID
+	 * @param amount - Number of levels to buy (default: 1)
+	 * @returns Total cost by resource ID
+	 */
+	calculateCosts(id: string, amount: number = 1): ResourceCosts {
+		const costs: ResourceCosts = new Map();
+		const upgradeState = this.state[id];
+		if (!upgradeState) return costs;
+
+		const def = upgradeState.definition;
+		costs.set(this.getCurrencyResourceId(def.currency), this.calculateCostForAmount(id, amount));
+
+		const defaultMultiplier = isRepeatableUpgrade(def) ? (def.costMultiplier ?? 1.15) : 1;
+		for (const [resourceId, component] of Object.entries(def.extraCosts ?? {})) {
+			const scaled = isRepeatableUpgrade(def) ? component : { baseCost: component.baseCost };
+			addResourceCost(
+				costs,
+				resourceId,
+				calculateComponentCost(scaled, defaultMultiplier, upgradeState.level, amount)
+			);
+		}
+
+		return costs;
+	}
+
 	/**
 	 * Get maximum affordable amount of an upgrade.
 	 *
@@ -535,8 +571,6 @@ export class UpgradeManager implements Manager {
 		const def = upgradeState.definition;
 		if (isAtMaxLevel(def, upgradeState.level)) return 0;
 
-		const available = this.getCurrencyAmount(def.currency);
-
 		// Binary search for max affordable
 		let low = 0;
 		let high = 1000; // Reasonable cap
@@ -549,9 +583,8 @@ export class UpgradeManager implements Manager {
 
 		while (low < high) {
 			const mid = Math.ceil((low + high) / 2);
-			const cost = this.calculateCostForAmount(id, mid);
 
-			if (gte(available, cost)) {
+			if (this.resources.canAffordMultiple(this.calculateCosts(id, mid))) {
 				low = mid;
 			} else {
 				high = mid - 1;
@@ -569,7 +602,7 @@ export class UpgradeManager implements Manager {
 	 * @returns Purchase result
 	 */
 	purchase(id: string, options: BuyOptions = {}): PurchaseResult {
-		const { amount = 1, buyMax = false, skipCheck = false } = options;
+		const { amount = 1, buyMax = false, skipCheck = false, source = 'player' } = options;
 
 		const upgradeState = this.state[id];
 		if (!upgradeState) {
@@ -591,10 +624,11 @@ export class UpgradeManager implements Manager {
 		}
 
 		// Calculate total cost
-		const cost = this.calculateCostForAmount(id, toBuy);
+		const costs = this.calculateCosts(id, toBuy);
+		const cost = costs.get(this.getCurrencyResourceId(def.currency)) ?? ZERO;
 
-		// Deduct currency
-		if (!skipCheck && !this.spendCurrency(def.currency, cost)) {
+		// Deduct all cost components
+		if (!skipCheck && !this.resources.spendMultiple(costs)) {
 			return {
 				success: false,
 				amountPurchased: 0,
@@ -627,11 +661,14 @@ export class UpgradeManager implements Manager {
 		// Emit event
 		this.events.emit('upgrade_purchased', {
 			upgradeId: id,
-			cost: new Map([[def.currency, cost]]),
+			cost: costs,
 			level: upgradeState.level
 		});
+		if (source === 'player') {
+			this.events.emit('player_input', { type: 'buy_upgrade', upgradeId: id, amount: toBuy });
+		}
 
-		return { success: true, amountPurchased: toBuy, costPaid: cost };
+		return { success: true, amountPurchased: toBuy, costPaid: cost, costsPaid: costs };
 	}
 
 	/**
@@ -648,6 +685,16 @@ export class UpgradeManager implements Manager {
 	// State Access
 	// ============================================================================
 
+	/**
+	 * Get the resource ID for a currency.
+	 *
+	 * @param currency - Currency type
+	 * @returns Resource ID
+	 */
+	getCurrencyResourceId(currency: UpgradeCurrency): string {
+		return UPGRADE_CURRENCY_RESOURCES[currency] ?? 'pixels';
+	}
+
 	/**
 	 * Get the level of an upgrade.
 	 *
@@ -821,15 +868,16 @@ export class UpgradeManager implements Manager {
 	 * Get the total multiplier for a target.
 	 *
 	 * @param target - Effect target
+	 * @param includeGlobal - Whether effects targeting 'all' count
 	 * @returns Combined multiplier
 	 */
-	getMultiplier(target: string): Decimal {
+	getMultiplier(target: string, includeGlobal: boolean = true): Decimal {
 		let multiplier = ONE;
 
 		const effects = this.getActiveEffects('multiplier');
 		for (const { effect, level } of effects) {
 			if (effect.type !== 'multiplier') continue;
-			if (effect.target !== target && effect.target !== 'all') continue;
+			if (effect.target !== target && !(includeGlobal && effect.target === 'all')) continue;
 
 			let value = D(effect.value);
 			if (effect.scalesWithLevel) {
@@ -847,6 +895,28 @@ export class UpgradeManager implements Manager {
 		return multiplier;
 	}
 
+	/**
+	 * Get the total speed multiplier for a kind of progress.
+	 * Effects affecting 'all' count for every kind. Values scale linearly
+	 * with level.
+	 *
+	 * @param affects - What the speed applies to
+	 * @returns Combined speed multiplier
+	 */
+	getSpeedMultiplier(affects: SpeedEffect['affects']): Decimal {
+		let multiplier = ONE;
+
+		const effects = this.getActiveEffects('speed');
+		for (const { effect, level } of effects) {
+			if (effect.type !== 'speed') continue;
+			if (effect.affects !== affects && effect.affects !== 'all') continue;
+
+			multiplier = mul(multiplier, add(ONE, mul(sub(D(effect.value), ONE), level)));
+		}
+
+		return multiplier;
+	}
+
 	/**
 	 * Get total additive bonus for a target.
 	 *
@@ -887,72 +957,6 @@ export class UpgradeManager implements Manager {
 	// Internal Helpers
 	// ============================================================================
 
-	/**
-	 * Check if player has enough of a currency.
-	 *
-	 * @param currency - Currency type
-	 * @param amount - Amount needed
-	 * @returns Whether player has enough
-	 */
-	private hasCurrency(currency: UpgradeCurrency, amount: Decimal): boolean {
-		const available = this.getCurrencyAmount(currency);
-		return gte(available, amount);
-	}
-
-	/**
-	 * Get the amount of a currency.
-	 *
-	 * @param currency - Currency type
-	 * @returns Available amount
-	 */
-	private getCurrencyAmount(currency: UpgradeCurrency): Decimal {
-		switch (currency) {
-			case 'pixels':
-				return this.resources.getAmount('pixels');
-			case 'primordial':
-				return this.resources.getAmount('primordial_pixels');
-			case 'knowledge':
-				return this.resources.getAmount('knowledge');
-			case 'memory':
-				return this.resources.getAmount('memory');
-			default:
-				return ZERO;
-		}
-	}
-
-	/**
-	 * Spend a currency.
-	 *
-	 * @param currency - Currency type
-	 * @param amount - Amount to spend
-	 * @returns Whether spend was successful
-	 */
-	private spendCurrency(currency: UpgradeCurrency, amount: Decimal): boolean {
-		const resourceId = this.getCurrencyResourceId(currency);
-		return this.resources.spend(resourceId, amount);
-	}
-
-	/**
-	 * Get the resource ID for a currency.
-	 *
-	 * @param currency - Currency type
-	 * @returns Resource ID
-	 */
-	private getCurrencyResourceId(currency: UpgradeCurrency): string {
-		switch (currency) {
-			case 'pixels':
-				return 'pixels';
-			case 'primordial':
-				return 'primordial_pixels';
-			case 'knowledge':
-				return 'knowledge';
-			case 'memory':
-				return 'memory';
-			default:
-				return 'pixels';
-		}
-	}
-
 	/**
 	 * Update affordability for all unlocked upgrades.
 	 */
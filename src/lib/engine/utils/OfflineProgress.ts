@@ -1,12 +1,23 @@
 /**
  * @fileoverview Offline progression calculation system
- * Calculates "Dream Pixels" earned while the player is away from the game.
+ * Calculates progress made while the player is away from the game.
  * Implements a capped offline progression system to reward returning players.
  *
+ * There is one offline model: a time cap and an efficiency, with base values
+ * from BALANCING.offline. The config is derived at runtime from upgrades and
+ * preferences with createOfflineConfig().
+ *
+ * The game itself catches up by simulating the (capped, efficiency-scaled)
+ * offline time in coarse chunks through the real managers; see
+ * calculateOfflineDuration() and splitOfflineTime(). calculateOfflineProgress()
+ * estimates the gain of a single resource from its current rate.
+ *
  * @module engine/utils/OfflineProgress
  */
 
 import { type Decimal, D, ZERO, mul, min } from './decimal';
+import { BALANCING } from '../data/constants';
+import { ResourceId } from '../models/resources';
 
 /**
  * Configuration for offline progression calculations.
@@ -19,8 +30,8 @@ export interface OfflineProgressConfig {
 	cappedHours: number;
 
 	/**
-	 * Efficiency multiplier for offline production (0.1 = 10% of normal rate).
-	 * @default 0.1
+	 * Efficiency multiplier for offline production (0.5 = 50% of normal rate).
+	 * @default 0.5
 	 */
 	efficiency: number;
 
@@ -30,6 +41,41 @@ export interface OfflineProgressConfig {
 	 * @default 60
 	 */
 	minimumTime: number;
+
+	/**
+	 * Resource credited by calculateOfflineProgress().
+	 * @default 'pixels'
+	 */
+	resourceId: string;
+}
+
+/**
+ * Runtime modifiers of the offline config.
+ */
+export interface OfflineModifiers {
+	/**
+	 * Multiplier on efficiency ('multiplier' effects targeting 'offline').
+	 * @default 1
+	 */
+	efficiency?: number;
+
+	/**
+	 * Multiplier on the time cap ('multiplier' effects targeting 'offline_cap').
+	 * @default 1
+	 */
+	cap?: number;
+
+	/**
+	 * Offline speed ('speed' effects affecting 'offline'), applied to efficiency.
+	 * @default 1
+	 */
+	speed?: number;
+
+	/**
+	 * Whether offline progress is enabled (player preference).
+	 * @default true
+	 */
+	enabled?: boolean;
 }
 
 /**
@@ -37,9 +83,14 @@ export interface OfflineProgressConfig {
  */
 export interface OfflineReward {
 	/**
-	 * Amount of Dream Pixels earned while offline.
+	 * Resource that was credited.
 	 */
-	dreamPixels: Decimal;
+	resourceId: string;
+
+	/**
+	 * Amount earned while offline.
+	 */
+	amount: Decimal;
 
 	/**
 	 * Total time away in seconds.
@@ -62,6 +113,27 @@ export interface OfflineReward {
 	bonusType: 'Full Rest Bonus' | null;
 }
 
+/**
+ * Time away and how much of it counts.
+ */
+export interface OfflineDuration {
+	/**
+	 * Total time away in seconds.
+	 */
+	timeAway: number;
+
+	/**
+	 * Time that counts towards progress (capped) in seconds.
+	 * Zero when the minimum time was not reached.
+	 */
+	cappedTime: number;
+
+	/**
+	 * Efficiency rate for the counted time.
+	 */
+	efficiency: number;
+}
+
 /**
  * Detailed breakdown of the offline progression calculation.
  */
@@ -108,17 +180,35 @@ export interface OfflineCalculationResult {
 }
 
 /**
- * Default configuration for offline progression.
+ * Default configuration for offline progression (before upgrades).
  * - Cap at 8 hours (encourages regular play sessions)
- * - 10% efficiency (balances offline vs active play)
+ * - 50% efficiency (balances offline vs active play)
  * - 60 second minimum (prevents exploit)
  */
 export const DEFAULT_OFFLINE_CONFIG: OfflineProgressConfig = {
-	cappedHours: 8,
-	efficiency: 0.1,
-	minimumTime: 60
+	cappedHours: BALANCING.offline.BASE_OFFLINE_TIME / 3_600_000,
+	efficiency: BALANCING.offline.OFFLINE_EFFICIENCY,
+	minimumTime: BALANCING.offline.MIN_OFFLINE_TIME / 1000,
+	resourceId: ResourceId.PIXELS
 };
 
+/**
+ * Highest cap in hours, whatever the upgrades.
+ */
+export const MAX_OFFLINE_HOURS = BALANCING.offline.MAX_OFFLINE_TIME / 3_600_000;
+
+/**
+ * Simulated seconds per offline catch-up step.
+ * Coarse steps keep long absences fast to simulate.
+ */
+export const OFFLINE_CHUNK_SECONDS = 10;
+
+/**
+ * Maximum number of offline catch-up steps.
+ * Longer simulations use larger steps instead.
+ */
+export const MAX_OFFLINE_CHUNKS = 2000;
+
 /**
  * Formats seconds into a human-readable hours and minutes string.
  *
@@ -141,15 +231,105 @@ function formatTime(seconds: number): string {
 }
 
 /**
- * Calculates offline progression rewards (Dream Pixels).
+ * Derives the offline config from runtime modifiers.
+ * Efficiency never exceeds 1 (offline is never better than playing) and the
+ * cap never exceeds maxCappedHours. A disabled config counts no time.
+ *
+ * @param modifiers - Upgrade multipliers and preferences
+ * @param base - Config before modifiers
+ * @param maxCappedHours - Highest allowed cap in hours
+ * @returns Offline config
+ *
+ * @example
+ * const config = createOfflineConfig({ cap: 3 }); // 24 hour cap
+ */
+export function createOfflineConfig(
+	modifiers: OfflineModifiers = {},
+	base: OfflineProgressConfig = DEFAULT_OFFLINE_CONFIG,
+	maxCappedHours: number = MAX_OFFLINE_HOURS
+): OfflineProgressConfig {
+	const { efficiency = 1, cap = 1, speed = 1, enabled = true } = modifiers;
+
+	return {
+		...base,
+		cappedHours: enabled ? Math.min(maxCappedHours, base.cappedHours * cap) : 0,
+		efficiency: Math.min(1, base.efficiency * efficiency * speed)
+	};
+}
+
+/**
+ * Calculates how long the player was away and how much of it counts.
+ *
+ * @param lastPlayedAt - Unix timestamp (milliseconds) when player last played
+ * @param config - Optional configuration (uses defaults if not provided)
+ * @param now - Current Unix timestamp (milliseconds)
+ * @returns Time away, capped time and efficiency
+ *
+ * @example
+ * const duration = calculateOfflineDuration(Date.now() - 10 * 60 * 60 * 1000);
+ * // duration.cappedTime === 8 * 3600 (capped at 8 hours)
+ */
+export function calculateOfflineDuration(
+	lastPlayedAt: number,
+	config: OfflineProgressConfig = DEFAULT_OFFLINE_CONFIG,
+	now: number = Date.now()
+): OfflineDuration {
+	const timeAway = Math.max(0, Math.floor((now - lastPlayedAt) / 1000));
+
+	// Check minimum time requirement (a zero cap disables offline progress)
+	if (timeAway < config.minimumTime || config.cappedHours <= 0) {
+		return { timeAway, cappedTime: 0, efficiency: config.efficiency };
+	}
+
+	const cappedHours = Math.min(timeAway / 3600, config.cappedHours);
+	return {
+		timeAway,
+		cappedTime: Math.floor(cappedHours * 3600),
+		efficiency: config.efficiency
+	};
+}
+
+/**
+ * Splits simulated offline time into catch-up steps.
+ * Steps are OFFLINE_CHUNK_SECONDS long, or longer when more than
+ * maxChunks steps would be needed. The last step takes the remainder.
+ *
+ * @param seconds - Simulated time in seconds
+ * @param chunkSeconds - Preferred step length in seconds
+ * @param maxChunks - Maximum number of steps
+ * @returns Step lengths in seconds (empty for no time)
+ *
+ * @example
+ * splitOfflineTime(25); // [10, 10, 5]
+ */
+export function splitOfflineTime(
+	seconds: number,
+	chunkSeconds: number = OFFLINE_CHUNK_SECONDS,
+	maxChunks: number = MAX_OFFLINE_CHUNKS
+): number[] {
+	if (seconds <= 0) return [];
+
+	// Tolerance keeps float error from adding a tiny extra step
+	const count = Math.ceil(seconds / chunkSeconds - 1e-9);
+	if (count > maxChunks) {
+		return new Array<number>(maxChunks).fill(seconds / maxChunks);
+	}
+
+	const chunks = new Array<number>(count).fill(chunkSeconds);
+	chunks[count - 1] = seconds - chunkSeconds * (count - 1);
+	return chunks;
+}
+
+/**
+ * Estimates offline progression rewards for one resource.
  *
  * Formula:
- * - Base rate: currentProductionRate * efficiency (default 10%)
+ * - Base rate: currentProductionRate * efficiency (default 50%)
  * - Time multiplier: hours away (capped at configurable maximum)
  * - Result: baseRate * timeMultiplier
  *
  * @param lastPlayedAt - Unix timestamp (milliseconds) when player last played
- * @param currentProductionRate - Current pixel production rate per second
+ * @param currentProductionRate - Current production rate per second of config.resourceId
  * @param config - Optional configuration (uses defaults if not provided)
  * @returns Offline reward details
  *
@@ -157,21 +337,20 @@ function formatTime(seconds: number): string {
  * const lastPlayed = Date.now() - (3 * 60 * 60 * 1000); // 3 hours ago
  * const rate = D(100); // 100 pixels/sec
  * const reward = calculateOfflineProgress(lastPlayed, rate);
- * // reward.dreamPixels will be approximately 100 * 0.1 * 3 * 3600 = 108,000
+ * // reward.amount will be approximately 100 * 0.5 * 3 * 3600 = 540,000
  */
 export function calculateOfflineProgress(
 	lastPlayedAt: number,
 	currentProductionRate: Decimal,
 	config: OfflineProgressConfig = DEFAULT_OFFLINE_CONFIG
 ): OfflineReward {
-	const now = Date.now();
-	const timeAwayMs = now - lastPlayedAt;
-	const timeAway = Math.floor(timeAwayMs / 1000); // Convert to seconds
+	const { timeAway, cappedTime } = calculateOfflineDuration(lastPlayedAt, config);
 
 	// Check minimum time requirement
-	if (timeAway < config.minimumTime) {
+	if (cappedTime === 0) {
 		return {
-			dreamPixels: ZERO,
+			resourceId: config.resourceId,
+			amount: ZERO,
 			timeAway,
 			cappedTime: 0,
 			efficiency: config.efficiency,
@@ -179,22 +358,17 @@ export function calculateOfflineProgress(
 		};
 	}
 
-	// Calculate hours and apply cap
-	const hoursAway = timeAway / 3600;
-	const cappedHours = Math.min(hoursAway, config.cappedHours);
-	const cappedTime = Math.floor(cappedHours * 3600);
-
-	// Calculate Dream Pixels
 	// Formula: productionRate * efficiency * timeInSeconds
 	const efficiencyMultiplier = D(config.efficiency);
 	const offlineRate = mul(currentProductionRate, efficiencyMultiplier);
-	const dreamPixels = mul(offlineRate, cappedTime);
+	const amount = mul(offlineRate, cappedTime);
 
 	// Determine bonus type
-	const bonusType = cappedHours >= config.cappedHours ? 'Full Rest Bonus' : null;
+	const bonusType = timeAway / 3600 >= config.cappedHours ? 'Full Rest Bonus' : null;
 
 	return {
-		dreamPixels,
+		resourceId: config.resourceId,
+		amount,
 		timeAway,
 		cappedTime,
 		efficiency: config.efficiency,
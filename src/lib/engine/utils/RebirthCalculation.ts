@@ -0,0 +1,197 @@
+/**
+ * @fileoverview Rebirth (prestige) reward calculation.
+ * Converts the progress of a run into Primordial Pixels (PP) and explains
+ * which factors contributed, so the UI can show a preview before committing.
+ *
+ * Formula:
+ * - Pixel base: sqrt(pixelsGenerated / PRESTIGE_REQUIREMENT_BASE)
+ * - Phase multiplier: 1 + PRESTIGE_REWARD_RATIO * (highestPhase - 1)
+ * - Ending multiplier: 1 + PRESTIGE_REWARD_RATIO * endingsUnlocked
+ * - Achievement multiplier: 1 + PRESTIGE_REWARD_RATIO * log10(1 + achievementPP)
+ * - Result: floor(pixelBase * phase * ending * achievement)
+ *
+ * No PP is awarded below MIN_REBIRTH_PHASE or below PRESTIGE_REQUIREMENT_BASE pixels.
+ *
+ * @module engine/utils/RebirthCalculation
+ */
+
+import { type Decimal, D, ZERO, max } from './decimal';
+import { BALANCING } from '../data/constants';
+
+/**
+ * Run progress used as input for the rebirth calculation.
+ */
+export interface RebirthInput {
+	/**
+	 * Highest phase reached in the current run.
+	 */
+	highestPhase: number;
+
+	/**
+	 * Total pixels generated during the current run.
+	 */
+	pixelsGenerated: Decimal;
+
+	/**
+	 * Number of endings unlocked.
+	 */
+	endingsUnlocked: number;
+
+	/**
+	 * Sum of `reward.pp` of all unlocked achievements.
+	 */
+	achievementPP: number;
+
+	/**
+	 * Current pixel production rate per second.
+	 * Used to estimate the time until the next PP.
+	 */
+	pixelRate: Decimal;
+}
+
+/**
+ * Contribution of each factor to the rebirth reward.
+ */
+export interface RebirthBreakdown {
+	/**
+	 * Highest phase reached in the current run.
+	 */
+	highestPhase: number;
+
+	/**
+	 * Multiplier from the highest phase reached.
+	 */
+	phaseMultiplier: number;
+
+	/**
+	 * Total pixels generated during the current run.
+	 */
+	pixelsGenerated: Decimal;
+
+	/**
+	 * Base PP from generated pixels (before multipliers).
+	 */
+	pixelBase: Decimal;
+
+	/**
+	 * Number of endings unlocked.
+	 */
+	endingsUnlocked: number;
+
+	/**
+	 * Multiplier from unlocked endings.
+	 */
+	endingMultiplier: number;
+
+	/**
+	 * Sum of PP rewards from unlocked achievements.
+	 */
+	achievementPP: number;
+
+	/**
+	 * Multiplier from achievement rewards.
+	 */
+	achievementMultiplier: number;
+}
+
+/**
+ * Result of a rebirth preview.
+ */
+export interface RebirthPreview {
+	/**
+	 * Whether a rebirth would currently award anything.
+	 */
+	canRebirth: boolean;
+
+	/**
+	 * Primordial Pixels a rebirth would award right now.
+	 */
+	pp: Decimal;
+
+	/**
+	 * Factors that contributed to the reward.
+	 */
+	breakdown: RebirthBreakdown;
+
+	/**
+	 * Total pixels that must be generated this run to earn the next PP.
+	 * Null if the phase requirement is not met yet.
+	 */
+	pixelsForNextPP: Decimal | null;
+
+	/**
+	 * Seconds until the next PP at the current production rate.
+	 * Null if unreachable by production alone (phase too low or no production).
+	 */
+	secondsToNextPP: number | null;
+}
+
+/**
+ * Calculate the rebirth reward and its breakdown for a run.
+ *
+ * @param input - Run progress
+ * @returns Rebirth preview with reward, breakdown and next-PP estimate
+ *
+ * @example
+ * const preview = calculateRebirthPreview({
+ *   highestPhase: 5,
+ *   pixelsGenerated: D(1e8),
+ *   endingsUnlocked: 0,
+ *   achievementPP: 0,
+ *   pixelRate: D(1000)
+ * });
+ * // preview.pp = floor(sqrt(100) * 1.4) = 14
+ */
+export function calculateRebirthPreview(input: RebirthInput): RebirthPreview {
+	const { PRESTIGE_REQUIREMENT_BASE, PRESTIGE_REWARD_RATIO, MIN_REBIRTH_PHASE } = BALANCING.prestige;
+
+	const pixelsGenerated = D(input.pixelsGenerated);
+	const phaseMultiplier = 1 + PRESTIGE_REWARD_RATIO * Math.max(0, input.highestPhase - 1);
+	const endingMultiplier = 1 + PRESTIGE_REWARD_RATIO * Math.max(0, input.endingsUnlocked);
+	const achievementMultiplier =
+		1 + PRESTIGE_REWARD_RATIO * Math.log10(1 + Math.max(0, input.achievementPP));
+	const totalMultiplier = phaseMultiplier * endingMultiplier * achievementMultiplier;
+
+	const meetsPhase = input.highestPhase >= MIN_REBIRTH_PHASE;
+	const meetsPixels = pixelsGenerated.gte(PRESTIGE_REQUIREMENT_BASE);
+
+	const pixelBase = meetsPixels ? pixelsGenerated.div(PRESTIGE_REQUIREMENT_BASE).sqrt() : ZERO;
+	const pp = meetsPhase ? pixelBase.mul(totalMultiplier).floor() : ZERO;
+
+	// Invert the formula: pixels needed so that floor(...) reaches pp + 1
+	let pixelsForNextPP: Decimal | null = null;
+	let secondsToNextPP: number | null = null;
+
+	if (meetsPhase) {
+		const target = pp.add(1).div(totalMultiplier);
+		pixelsForNextPP = max(
+			target.pow(2).mul(PRESTIGE_REQUIREMENT_BASE),
+			D(PRESTIGE_REQUIREMENT_BASE)
+		);
+
+		const remaining = pixelsForNextPP.sub(pixelsGenerated);
+		const rate = D(input.pixelRate);
+		if (remaining.lte(0)) {
+			secondsToNextPP = 0;
+		} else if (rate.gt(0)) {
+			secondsToNextPP = remaining.div(rate).toNumber();
+		}
+	}
+
+	return {
+		canRebirth: pp.gt(0),
+		pp,
+		breakdown: {
+			highestPhase: input.highestPhase,
+			phaseMultiplier,
+			pixelsGenerated,
+			pixelBase,
+			endingsUnlocked: input.endingsUnlocked,
+			endingMultiplier,
+			achievementPP: input.achievementPP,
+			achievementMultiplier
+		},
+		pixelsForNextPP,
+		secondsToNextPP
+	};
+}
@@ -0,0 +1,451 @@
+/**
+ * @fileoverview Binary encoding helpers for save strings.
+ * Provides UTF-8 and Base64 conversion, a CRC-32 checksum, a small LZ77
+ * compressor and a Huffman coder. Chained (LZ77, then Huffman) they form a
+ * deflate-style compressor for stored saves.
+ *
+ * LZ77 format:
+ * - 4 bytes: uncompressed length (big-endian)
+ * - Tokens, each starting with a control byte `c`:
+ *   - `c < 0x80`: literal run, the next `c + 1` bytes are copied as-is
+ *   - `c >= 0x80`: back-reference of length `(c & 0x7f) + 3`, followed by
+ *     a 2-byte big-endian distance (1-65535)
+ *
+ * Huffman format:
+ * - 4 bytes: decoded length (big-endian)
+ * - 128 bytes: canonical code length (0-15) of each byte value, two per byte
+ * - Codes, packed most significant bit first
+ *
+ * @module engine/utils/encoding
+ */
+
+// ============================================================================
+// Text & Base64
+// ============================================================================
+
+/**
+ * Encode a string as UTF-8 bytes.
+ *
+ * @param text - Text to encode
+ * @returns UTF-8 bytes
+ */
+export function encodeUtf8(text: string): Uint8Array {
+	return new TextEncoder().encode(text);
+}
+
+/**
+ * Decode UTF-8 bytes into a string.
+ *
+ * @param bytes - UTF-8 bytes
+ * @returns Decoded text
+ */
+export function decodeUtf8(bytes: Uint8Array): string {
+	return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Encode bytes as a Base64 string.
+ *
+ * @param bytes - Bytes to encode
+ * @returns Base64 string
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+	// Chunked to stay below the argument limit of String.fromCharCode
+	let binary = '';
+	for (let i = 0; i < bytes.length; i += 0x8000) {
+		binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+	}
+	return btoa(binary);
+}
+
+/**
+ * Decode a Base64 string into bytes.
+ *
+ * @param base64 - Base64 string
+ * @returns Decoded bytes
+ * @throws If the string is not valid Base64
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+	const binary = atob(base64.trim());
+	const bytes = new Uint8Array(binary.length);
+	for (let i = 0; i < binary.length; i++) {
+		bytes[i] = binary.charCodeAt(i);
+	}
+	return bytes;
+}
+
+// ============================================================================
+// Checksum
+// ============================================================================
+
+/** CRC-32 lookup table (IEEE polynomial), built on first use */
+let crcTable: Uint32Array | null = null;
+
+/**
+ * Calculate the CRC-32 checksum of some bytes.
+ *
+ * @param bytes - Input bytes
+ * @returns Checksum as 8-digit lowercase hex string
+ */
+export function crc32(bytes: Uint8Array): string {
+	if (!crcTable) {
+		crcTable = new Uint32Array(256);
+		for (let n = 0; n < 256; n++) {
+			let c = n;
+			for (let k = 0; k < 8; k++) {
+				c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+			}
+			crcTable[n] = c >>> 0;
+		}
+	}
+
+	let crc = 0xffffffff;
+	for (let i = 0; i < bytes.length; i++) {
+		crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+	}
+	return ((crc ^ 0xffffffff) >>> 0).toString(16).padStart(8, '0');
+}
+
+// ============================================================================
+// Compression
+// ============================================================================
+
+/** Shortest back-reference worth encoding */
+const MIN_MATCH = 3;
+
+/** Longest back-reference (7-bit length field) */
+const MAX_MATCH = 0x7f + MIN_MATCH;
+
+/** Longest literal run (7-bit length field) */
+const MAX_LITERAL_RUN = 0x80;
+
+/** Maximum back-reference distance (16-bit distance field) */
+const WINDOW_SIZE = 0xffff;
+
+/** Hash table size for match candidates (2^HASH_BITS entries) */
+const HASH_BITS = 15;
+
+/** Candidates checked per position; trades speed for ratio */
+const MAX_CHAIN = 32;
+
+/**
+ * Compress bytes with LZ77.
+ *
+ * @param input - Bytes to compress
+ * @returns Compressed bytes
+ *
+ * @example
+ * const packed = compress(encodeUtf8(json));
+ * const json2 = decodeUtf8(decompress(packed));
+ */
+export function compress(input: Uint8Array): Uint8Array {
+	const length = input.length;
+	const out: number[] = [
+		(length >>> 24) & 0xff,
+		(length >>> 16) & 0xff,
+		(length >>> 8) & 0xff,
+		length & 0xff
+	];
+
+	const head = new Int32Array(1 << HASH_BITS).fill(-1);
+	const prev = new Int32Array(length);
+
+	const hashAt = (pos: number): number =>
+		Math.imul((input[pos] << 16) | (input[pos + 1] << 8) | input[pos + 2], 0x9e3779b1) >>>
+		(32 - HASH_BITS);
+
+	const insert = (pos: number): void => {
+		const hash = hashAt(pos);
+		prev[pos] = head[hash];
+		head[hash] = pos;
+	};
+
+	const emitLiterals = (from: number, to: number): void => {
+		for (let start = from; start < to; start += MAX_LITERAL_RUN) {
+			const end = Math.min(start + MAX_LITERAL_RUN, to);
+			out.push(end - start - 1);
+			for (let i = start; i < end; i++) {
+				out.push(input[i]);
+			}
+		}
+	};
+
+	let literalStart = 0;
+	let pos = 0;
+
+	while (pos < length) {
+		let bestLength = 0;
+		let bestDistance = 0;
+
+		if (pos + MIN_MATCH <= length) {
+			const maxLength = Math.min(MAX_MATCH, length - pos);
+			let candidate = head[hashAt(pos)];
+			let chain = 0;
+
+			while (candidate >= 0 && pos - candidate <= WINDOW_SIZE && chain++ < MAX_CHAIN) {
+				let matchLength = 0;
+				while (matchLength < maxLength && input[candidate + matchLength] === input[pos + matchLength]) {
+					matchLength++;
+				}
+				if (matchLength > bestLength) {
+					bestLength = matchLength;
+					bestDistance = pos - candidate;
+					if (matchLength === maxLength) break;
+				}
+				candidate = prev[candidate];
+			}
+
+			insert(pos);
+		}
+
+		if (bestLength >= MIN_MATCH) {
+			emitLiterals(literalStart, pos);
+			out.push(0x80 | (bestLength - MIN_MATCH), (bestDistance >>> 8) & 0xff, bestDistance & 0xff);
+
+			// Index the skipped positions so later matches can reference them
+			for (let i = pos + 1; i < pos + bestLength && i + MIN_MATCH <= length; i++) {
+				insert(i);
+			}
+
+			pos += bestLength;
+			literalStart = pos;
+		} else {
+			pos++;
+		}
+	}
+
+	emitLiterals(literalStart, length);
+	return Uint8Array.from(out);
+}
+
+/**
+ * Decompress bytes produced by compress().
+ *
+ * @param input - Compressed bytes
+ * @returns Original bytes
+ * @throws If the data is truncated or corrupted
+ */
+export function decompress(input: Uint8Array): Uint8Array {
+	if (input.length < 4) {
+		throw new Error('Compressed data is truncated');
+	}
+
+	const length = ((input[0] << 24) | (input[1] << 16) | (input[2] << 8) | input[3]) >>> 0;
+	const output = new Uint8Array(length);
+	let outPos = 0;
+	let inPos = 4;
+
+	while (inPos < input.length) {
+		const control = input[inPos++];
+
+		if (control < 0x80) {
+			const runLength = control + 1;
+			if (inPos + runLength > input.length || outPos + runLength > length) {
+				throw new Error('Compressed data is corrupted');
+			}
+			output.set(input.subarray(inPos, inPos + runLength), outPos);
+			inPos += runLength;
+			outPos += runLength;
+		} else {
+			if (inPos + 2 > input.length) {
+				throw new Error('Compressed data is truncated');
+			}
+			const matchLength = (control & 0x7f) + MIN_MATCH;
+			const distance = (input[inPos] << 8) | input[inPos + 1];
+			inPos += 2;
+			if (distance === 0 || distance > outPos || outPos + matchLength > length) {
+				throw new Error('Compressed data is corrupted');
+			}
+			// Byte-wise copy: matches may overlap their own output
+			for (let i = 0; i < matchLength; i++) {
+				output[outPos] = output[outPos - distance];
+				outPos++;
+			}
+		}
+	}
+
+	if (outPos !== length) {
+		throw new Error('Compressed data is truncated');
+	}
+	return output;
+}
+
+// ============================================================================
+// Huffman Coding
+// ============================================================================
+
+/** Longest Huffman code (fits the 4-bit code length table) */
+const MAX_CODE_LENGTH = 15;
+
+/** Size of the Huffman header (length + code length table) */
+const HUFFMAN_HEADER_SIZE = 4 + 128;
+
+/**
+ * Encode bytes with a canonical Huffman code built from their frequencies.
+ *
+ * @param input - Bytes to encode
+ * @returns Encoded bytes
+ */
+export function huffmanEncode(input: Uint8Array): Uint8Array {
+	const frequencies = new Array<number>(256).fill(0);
+	for (let i = 0; i < input.length; i++) {
+		frequencies[input[i]]++;
+	}
+
+	const lengths = buildCodeLengths(frequencies);
+	const codes = buildCanonicalCodes(lengths);
+
+	let bitCount = 0;
+	for (let symbol = 0; symbol < 256; symbol++) {
+		bitCount += frequencies[symbol] * lengths[symbol];
+	}
+
+	const output = new Uint8Array(HUFFMAN_HEADER_SIZE + Math.ceil(bitCount / 8));
+	const length = input.length;
+	output[0] = (length >>> 24) & 0xff;
+	output[1] = (length >>> 16) & 0xff;
+	output[2] = (length >>> 8) & 0xff;
+	output[3] = length & 0xff;
+	for (let symbol = 0; symbol < 256; symbol += 2) {
+		output[4 + symbol / 2] = (lengths[symbol] << 4) | lengths[symbol + 1];
+	}
+
+	let bitPos = HUFFMAN_HEADER_SIZE * 8;
+	for (let i = 0; i < input.length; i++) {
+		const code = codes[input[i]];
+		for (let bit = lengths[input[i]] - 1; bit >= 0; bit--) {
+			if ((code >>> bit) & 1) {
+				output[bitPos >>> 3] |= 0x80 >>> (bitPos & 7);
+			}
+			bitPos++;
+		}
+	}
+
+	return output;
+}
+
+/**
+ * Decode bytes produced by huffmanEncode().
+ *
+ * @param input - Encoded bytes
+ * @returns Original bytes
+ * @throws If the data is truncated or corrupted
+ */
+export function huffmanDecode(input: Uint8Array): Uint8Array {
+	if (input.length < HUFFMAN_HEADER_SIZE) {
+		throw new Error('Huffman data is truncated');
+	}
+
+	const length = ((input[0] << 24) | (input[1] << 16) | (input[2] << 8) | input[3]) >>> 0;
+	const lengths = new Array<number>(256);
+	for (let symbol = 0; symbol < 256; symbol += 2) {
+		lengths[symbol] = input[4 + symbol / 2] >>> 4;
+		lengths[symbol + 1] = input[4 + symbol / 2] & 0x0f;
+	}
+
+	// Symbols ordered by (code length, value), as assigned by the canonical code
+	const counts = new Array<number>(MAX_CODE_LENGTH + 1).fill(0);
+	const symbols: number[] = [];
+	for (let len = 1; len <= MAX_CODE_LENGTH; len++) {
+		for (let symbol = 0; symbol < 256; symbol++) {
+			if (lengths[symbol] === len) {
+				counts[len]++;
+				symbols.push(symbol);
+			}
+		}
+	}
+
+	const output = new Uint8Array(length);
+	const totalBits = input.length * 8;
+	let bitPos = HUFFMAN_HEADER_SIZE * 8;
+
+	for (let outPos = 0; outPos < length; outPos++) {
+		// Walk code lengths until the code falls into the range of one length
+		let code = 0;
+		let first = 0;
+		let index = 0;
+		let symbol = -1;
+
+		for (let len = 1; len <= MAX_CODE_LENGTH; len++) {
+			if (bitPos >= totalBits) {
+				throw new Error('Huffman data is truncated');
+			}
+			code |= (input[bitPos >>> 3] >>> (7 - (bitPos & 7))) & 1;
+			bitPos++;
+
+			if (code - first < counts[len]) {
+				symbol = symbols[index + code - first];
+				break;
+			}
+			index += counts[len];
+			first = (first + counts[len]) << 1;
+			code <<= 1;
+		}
+
+		if (symbol < 0) {
+			throw new Error('Huffman data is corrupted');
+		}
+		output[outPos] = symbol;
+	}
+
+	return output;
+}
+
+/**
+ * Compute Huffman code lengths, limited to MAX_CODE_LENGTH bits.
+ *
+ * @param frequencies - Occurrences of each byte value
+ * @returns Code length per byte value (0 = unused)
+ */
+function buildCodeLengths(frequencies: number[]): number[] {
+	let weights = frequencies.slice();
+
+	for (;;) {
+		const lengths = new Array<number>(256).fill(0);
+		const used = weights.map((weight, symbol) => symbol).filter((symbol) => weights[symbol] > 0);
+
+		if (used.length === 1) {
+			lengths[used[0]] = 1;
+			return lengths;
+		}
+
+		// Merge the two lightest nodes until one tree remains
+		let nodes = used.map((symbol) => ({ weight: weights[symbol], symbols: [symbol] }));
+		while (nodes.length > 1) {
+			nodes.sort((a, b) => a.weight - b.weight);
+			const [a, b] = nodes;
+			for (const symbol of a.symbols) lengths[symbol]++;
+			for (const symbol of b.symbols) lengths[symbol]++;
+			nodes = [{ weight: a.weight + b.weight, symbols: [...a.symbols, ...b.symbols] }, ...nodes.slice(2)];
+		}
+
+		if (Math.max(...lengths) <= MAX_CODE_LENGTH) {
+			return lengths;
+		}
+
+		// Flatten the distribution and retry; rare symbols get shorter codes
+		weights = weights.map((weight) => (weight > 0 ? (weight >>> 1) | 1 : 0));
+	}
+}
+
+/**
+ * Assign canonical codes from code lengths (as in RFC 1951, 3.2.2).
+ *
+ * @param lengths - Code length per byte value
+ * @returns Code per byte value
+ */
+function buildCanonicalCodes(lengths: number[]): number[] {
+	const lengthCounts = new Array<number>(MAX_CODE_LENGTH + 1).fill(0);
+	for (const len of lengths) {
+		if (len > 0) lengthCounts[len]++;
+	}
+
+	const nextCode = new Array<number>(MAX_CODE_LENGTH + 1).fill(0);
+	let code = 0;
+	for (let len = 1; len <= MAX_CODE_LENGTH; len++) {
+		code = (code + lengthCounts[len - 1]) << 1;
+		nextCode[len] = code;
+	}
+
+	return lengths.map((len) => (len > 0 ? nextCode[len]++ : 0));
+}
@@ -0,0 +1,55 @@
+/**
+ * @fileoverview Seeded pseudo-random numbers for deterministic simulations.
+ * Uses mulberry32 (32-bit state): the same seed always produces the same
+ * sequence, on every platform.
+ *
+ * @module engine/utils/random
+ */
+
+/**
+ * Seeded random number generator.
+ */
+export interface SeededRandom {
+	/** Seed the generator was created with */
+	readonly seed: number;
+	/** Next float in [0, 1) */
+	next(): number;
+	/** Next integer in [min, max] (inclusive) */
+	int(min: number, max: number): number;
+	/** Whether an event with the given probability (0-1) happens */
+	chance(probability: number): boolean;
+	/** Random element of a list (undefined for an empty list) */
+	pick<T>(items: readonly T[]): T | undefined;
+}
+
+/**
+ * Create a seeded random number generator.
+ *
+ * @param seed - Any integer; the same seed gives the same sequence
+ * @returns Random number generator
+ *
+ * @example
+ * ```typescript
+ * const random = createSeededRandom(42);
+ * const roll = random.int(1, 6);
+ * ```
+ */
+export function createSeededRandom(seed: number): SeededRandom {
+	let state = seed >>> 0;
+
+	const next = (): number => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+
+	return {
+		seed,
+		next,
+		int: (min, max) => min + Math.floor(next() * (max - min + 1)),
+		chance: (probability) => next() < probability,
+		pick: (items) => (items.length > 0 ? items[Math.floor(next() * items.length)] : undefined)
+	};
+}
@@ -823,6 +823,71 @@ describe('AchievementManager', () => {
 		});
 	});
 
+	// ============================================================================
+	// Condition Debugging Tests
+	// ============================================================================
+
+	describe('Condition Debugging', () => {
+		beforeEach(() => {
+			achievementManager.init();
+		});
+
+		it('should explain every locked achievement', () => {
+			const pending = achievementManager.explainPending();
+			const firstClick = pending.find((entry) => entry.id === 'first_click');
+
+			expect(pending.every((entry) => entry.kind === 'achievement')).toBe(true);
+			expect(firstClick).toMatchObject({
+				kind: 'achievement',
+				name: getAchievementDefinition('first_click')!.name
+			});
+			expect(firstClick?.result).toBeDefined();
+		});
+
+		it('should skip unlocked achievements', () => {
+			achievementManager.manualUnlock('first_click');
+
+			const ids = achievementManager.explainPending().map((entry) => entry.id);
+
+			expect(ids).not.toContain('first_click');
+			expect(ids).toHaveLength(ACHIEVEMENT_DEFINITIONS.size - 1 - countWaitingOnPrerequisite());
+		});
+
+		it('should skip achievements until their prerequisite is unlocked', () => {
+			const { prerequisite } = getAchievementDefinition('true_singularity')!;
+			expect(prerequisite).toBe('escape_ending');
+
+			expect(achievementManager.explainPending().map((entry) => entry.id)).not.toContain(
+				'true_singularity'
+			);
+
+			achievementManager.manualUnlock(prerequisite!);
+
+			expect(achievementManager.explainPending().map((entry) => entry.id)).toContain(
+				'true_singularity'
+			);
+		});
+
+		it('should explain nothing without a context', () => {
+			const manager = new AchievementManager(eventManager);
+			manager.init();
+
+			expect(manager.explainPending()).toEqual([]);
+		});
+
+		/**
+		 * Count locked achievements whose prerequisite is still locked.
+		 */
+		function countWaitingOnPrerequisite(): number {
+			return [...ACHIEVEMENT_DEFINITIONS.values()].filter(
+				(def) =>
+					def.prerequisite &&
+					!achievementManager.hasAchievement(def.id) &&
+					!achievementManager.hasAchievement(def.prerequisite)
+			).length;
+		}
+	});
+
 	// ============================================================================
 	// Completion Percentage Tests
 	// ============================================================================
@@ -0,0 +1,169 @@
+/**
+ * @fileoverview Unit tests for AutomationManager (producer and upgrade autobuyers).
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GameSimulation } from '$lib/engine/core/GameSimulation';
+import type { Game } from '$lib/engine/core/Game.svelte';
+
+describe('AutomationManager', () => {
+	let simulation: GameSimulation;
+	let game: Game;
+
+	beforeEach(async () => {
+		simulation = new GameSimulation();
+		await simulation.start();
+		game = simulation.game;
+	});
+
+	afterEach(() => {
+		simulation.stop();
+	});
+
+	describe('unlocking', () => {
+		it('should not buy anything while locked', async () => {
+			game.automation.setRule('producer', 'pixel_generator', { enabled: true });
+			game.resources.add('pixels', 1000);
+
+			await simulation.advance(2);
+
+			expect(game.automation.isUnlocked).toBe(false);
+			expect(game.producers.getLevel('pixel_generator')).toBe(0);
+		});
+
+		it('should unlock through the autobuyer upgrade', async () => {
+			game.resources.add('pixels', 1e4);
+			game.upgrades.purchase('auto_clicker_1');
+			await simulation.advance(0.1);
+			expect(game.upgrades.purchase('autobuyer').success).toBe(true);
+
+			expect(game.automation.isUnlocked).toBe(true);
+		});
+
+		it('should unlock permanently through achievement rewards', () => {
+			game.achievements.manualUnlock('screen_breached');
+			expect(game.automation.isUnlocked).toBe(true);
+			expect(game.automation.serialize().unlocked).toBe(true);
+		});
+	});
+
+	describe('autobuying', () => {
+		beforeEach(() => {
+			game.automation.unlock();
+		});
+
+		it('should buy producers up to the max level without recording player input', async () => {
+			game.automation.setRule('producer', 'pixel_generator', { enabled: true, maxLevel: 5 });
+			game.resources.add('pixels', 1e6);
+
+			const triggered = vi.fn();
+			const input = vi.fn();
+			game.events.on('automation_triggered', triggered);
+			game.events.on('player_input', input);
+			await simulation.advance(1);
+
+			expect(game.producers.getLevel('pixel_generator')).toBe(5);
+			expect(triggered).toHaveBeenCalledWith({
+				automationId: 'producer:pixel_generator',
+				targetId: 'pixel_generator',
+				action: 'buy',
+				success: true
+			});
+			expect(input).not.toHaveBeenCalled();
+		});
+
+		it('should keep the reserve percentage of the currency', async () => {
+			game.automation.setRule('producer', 'pixel_generator', { enabled: true, reservePercent: 50 });
+			game.resources.add('pixels', 1000);
+			const before = game.resources.getAmount('pixels');
+
+			await simulation.advance(1);
+
+			expect(game.producers.getLevel('pixel_generator')).toBeGreaterThan(0);
+			expect(game.resources.getAmount('pixels').gte(before.mul(0.5))).toBe(true);
+		});
+
+		it('should spend on higher priority items first', async () => {
+			game.automation.setRule('producer', 'pixel_generator', { enabled: true, priority: 1 });
+			game.automation.setRule('upgrade', 'click_power_1', { enabled: true, priority: 5 });
+			game.resources.add('pixels', 1e4);
+
+			await simulation.advance(1);
+
+			expect(game.upgrades.getLevel('click_power_1')).toBe(10);
+			expect(game.automation.getRules().map((entry) => entry.automationId)).toEqual([
+				'upgrade:click_power_1',
+				'producer:pixel_generator'
+			]);
+		});
+
+		it('should skip disabled rules', async () => {
+			game.automation.setRule('producer', 'pixel_generator', { enabled: false });
+			game.resources.add('pixels', 1000);
+
+			await simulation.advance(2);
+
+			expect(game.producers.getLevel('pixel_generator')).toBe(0);
+		});
+	});
+
+	describe('rules', () => {
+		it('should only automate producers and repeatable upgrades', () => {
+			const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+			expect(game.automation.setRule('upgrade', 'click_power_1', { enabled: true })).toBe(true);
+			expect(game.automation.setRule('upgrade', 'pixel_boost_1', { enabled: true })).toBe(false);
+			expect(game.automation.setRule('producer', 'missing', { enabled: true })).toBe(false);
+			warn.mockRestore();
+		});
+
+		it('should record rule changes as player input', () => {
+			const input = vi.fn();
+			game.events.on('player_input', input);
+
+			game.automation.setRule('producer', 'pixel_generator', { enabled: true });
+
+			expect(input).toHaveBeenCalledWith({
+				type: 'automation_rule',
+				targetType: 'producer',
+				targetId: 'pixel_generator',
+				changes: { enabled: true }
+			});
+		});
+
+		it('should clamp rule values', () => {
+			game.automation.setRule('producer', 'pixel_generator', {
+				maxLevel: -3,
+				reservePercent: 250
+			});
+
+			expect(game.automation.getRule('producer', 'pixel_generator')).toEqual({
+				enabled: false,
+				maxLevel: 0,
+				reservePercent: 100,
+				priority: 0
+			});
+		});
+
+		it('should keep rules through saves and rebirths', async () => {
+			game.automation.unlock();
+			game.automation.setRule('producer', 'pixel_generator', { enabled: true, priority: 3 });
+			const saved = game.automation.serialize();
+
+			const restored = new GameSimulation();
+			await restored.start();
+			restored.game.automation.deserialize({
+				...saved,
+				rules: { ...saved.rules, 'producer:missing': { enabled: true } }
+			});
+
+			expect(restored.game.automation.isUnlocked).toBe(true);
+			expect(restored.game.automation.getRules()).toHaveLength(1);
+			expect(restored.game.automation.getRule('producer', 'pixel_generator').priority).toBe(3);
+
+			restored.game.automation.reset();
+			expect(restored.game.automation.getRule('producer', 'pixel_generator').enabled).toBe(true);
+			restored.stop();
+		});
+	});
+});
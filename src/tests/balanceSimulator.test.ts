@@ -0,0 +1,103 @@
+/**
+ * @fileoverview Unit tests for the balance simulator and its report output.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+	BalanceSimulator,
+	formatBalanceReportJson,
+	formatBalanceReportCsv,
+	type BalanceReport
+} from '$lib/engine/core/BalanceSimulator';
+
+function createReport(): BalanceReport {
+	return {
+		maxSeconds: 600,
+		tickRate: 20,
+		runs: [
+			{
+				strategy: 'greedy',
+				seed: 1,
+				simulatedSeconds: 600,
+				finalPhase: 2,
+				phases: [
+					{
+						phase: 1,
+						name: 'The Pixel',
+						reachedAt: 0,
+						duration: 28.25,
+						expectedMin: 120,
+						expectedMax: 300,
+						verdict: 'fast'
+					},
+					{
+						phase: 2,
+						name: 'Canvas, "Big"',
+						reachedAt: 28.25,
+						duration: null,
+						expectedMin: 600,
+						expectedMax: 1200,
+						verdict: 'incomplete'
+					}
+				]
+			}
+		]
+	};
+}
+
+describe('BalanceSimulator', () => {
+	it('should time phases reached by a bot', async () => {
+		const simulator = new BalanceSimulator({ maxSeconds: 60, tickRate: 2 });
+		const run = await simulator.runStrategy('click_heavy');
+
+		expect(run.finalPhase).toBe(2);
+		expect(run.phases).toHaveLength(20);
+
+		const [first, second, third] = run.phases;
+		expect(first.reachedAt).toBe(0);
+		expect(first.duration).toBe(second.reachedAt);
+		expect(first.expectedMin).toBe(120);
+		expect(first.verdict).toBe('fast');
+		expect(second.verdict).toBe('incomplete');
+		expect(third.verdict).toBe('not_reached');
+	});
+
+	it('should report a stalled idle bot', async () => {
+		const report = await new BalanceSimulator({
+			strategies: ['idle'],
+			maxSeconds: 30,
+			tickRate: 2
+		}).run();
+
+		expect(report.runs).toHaveLength(1);
+		expect(report.runs[0].finalPhase).toBe(1);
+		expect(report.runs[0].simulatedSeconds).toBe(30);
+		expect(report.runs[0].phases[0].verdict).toBe('incomplete');
+	});
+
+	it('should produce identical reports for the same seed', async () => {
+		const options = { strategies: ['roi' as const], maxSeconds: 90, tickRate: 2, seed: 4 };
+		const first = await new BalanceSimulator(options).run();
+		const second = await new BalanceSimulator(options).run();
+
+		expect(second).toEqual(first);
+	});
+});
+
+describe('Balance report output', () => {
+	it('should format JSON that parses back to the report', () => {
+		const report = createReport();
+		expect(JSON.parse(formatBalanceReportJson(report))).toEqual(report);
+	});
+
+	it('should format one CSV row per strategy and phase', () => {
+		const lines = formatBalanceReportCsv(createReport()).split('\n');
+
+		expect(lines[0]).toBe(
+			'strategy,seed,phase,name,reached_at,duration,expected_min,expected_max,verdict'
+		);
+		expect(lines[1]).toBe('greedy,1,1,The Pixel,0,28.25,120,300,fast');
+		expect(lines[2]).toBe('greedy,1,2,"Canvas, ""Big""",28.25,,600,1200,incomplete');
+		expect(lines).toHaveLength(3);
+	});
+});
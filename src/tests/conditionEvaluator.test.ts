@@ -0,0 +1,229 @@
+/**
+ * @fileoverview Unit tests for the shared condition language and evaluator.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+	ConditionEvaluator,
+	Conditions,
+	getFailedLeaves,
+	type EvaluationContext
+} from '$lib/engine/systems/ConditionEvaluator';
+import { toCondition, type StoryCondition } from '$lib/engine/models/narrative';
+import { GameSimulation } from '$lib/engine/core/GameSimulation';
+import { TOTAL_PHASES } from '$lib/engine/models/phase';
+import { D } from '$lib/engine/utils/decimal';
+
+function createContext(overrides: Partial<EvaluationContext> = {}): EvaluationContext {
+	return {
+		getResourceAmount: (id) => (id === 'pixels' ? D(500) : D(0)),
+		getCurrentPhaseTime: () => 30,
+		getChoiceValue: (id) => (id === 'spare_sun' ? 'yes' : undefined),
+		getCurrentPhase: () => 4,
+		isPhaseCompleted: (phase) => phase < 4,
+		getProducerCount: (id) => (id === 'pixel_generator' ? 3 : 0),
+		hasUpgrade: () => false,
+		getUpgradeLevel: () => 0,
+		hasAchievement: (id) => id === 'first_click',
+		getFlag: (key) => ({ konami: true, mood: 'calm', zero: 0 } as Record<string, boolean | string | number>)[key],
+		getStat: (stat) => (stat === 'totalClicks' ? 42 : null),
+		hasEnding: (id) => id === 'harmony',
+		hasSecret: (id) => id === 'konami_code',
+		getRunTime: () => 600,
+		getCurrentHour: () => 3,
+		...overrides
+	};
+}
+
+describe('ConditionEvaluator', () => {
+	let evaluator: ConditionEvaluator;
+
+	beforeEach(() => {
+		evaluator = new ConditionEvaluator(createContext());
+	});
+
+	describe('leaf conditions', () => {
+		it('should compare resources with any operator', () => {
+			expect(evaluator.evaluate(Conditions.resource('pixels', 100))).toBe(true);
+			expect(evaluator.evaluate(Conditions.resource('pixels', 500, 'neq'))).toBe(false);
+			expect(evaluator.evaluate(Conditions.resource('pixels', 1000, 'lt'))).toBe(true);
+		});
+
+		it('should describe resource progress as current / required', () => {
+			const result = evaluator.evaluateWithDetails(Conditions.resource('pixels', 1e12));
+			expect(result.met).toBe(false);
+			expect(result.description).toBe('pixels: 500.00 / 1.00T');
+		});
+
+		it('should check flags by truthiness or exact value', () => {
+			expect(evaluator.evaluate(Conditions.flag('konami'))).toBe(true);
+			expect(evaluator.evaluate(Conditions.flag('zero'))).toBe(false);
+			expect(evaluator.evaluate(Conditions.flag('mood', 'calm'))).toBe(true);
+			expect(evaluator.evaluate(Conditions.flag('missing'))).toBe(false);
+		});
+
+		it('should compare stats and report progress', () => {
+			const result = evaluator.evaluateWithDetails(Conditions.stat('totalClicks', 'gte', 84));
+			expect(result.met).toBe(false);
+			expect(result.progress).toBe(0.5);
+			expect(result.description).toBe("Stat 'totalClicks': 42 ≥ 84");
+		});
+
+		it('should compare the hour of day', () => {
+			expect(evaluator.evaluate(Conditions.timeOfDay('gte', 2))).toBe(true);
+			expect(evaluator.evaluate(Conditions.timeOfDay('lt', 3))).toBe(false);
+		});
+
+		it('should check endings and secrets', () => {
+			expect(evaluator.evaluate(Conditions.ending('harmony'))).toBe(true);
+			expect(evaluator.evaluate(Conditions.ending('void'))).toBe(false);
+			expect(evaluator.evaluate(Conditions.secret('konami_code'))).toBe(true);
+		});
+
+		it('should accept any choice when no value is given', () => {
+			expect(evaluator.evaluate(Conditions.choice('spare_sun'))).toBe(true);
+			expect(evaluator.evaluate(Conditions.choice('spare_sun', 'no'))).toBe(false);
+			expect(evaluator.evaluate(Conditions.choice('other'))).toBe(false);
+		});
+
+		it('should compare phases and time with operators and scopes', () => {
+			expect(evaluator.evaluate({ type: 'phase', phase: 4, operator: 'eq' })).toBe(true);
+			expect(evaluator.evaluate({ type: 'phase', phase: 3, operator: 'gt' })).toBe(true);
+			expect(evaluator.evaluate(Conditions.time(60))).toBe(false);
+			expect(evaluator.evaluate(Conditions.runTime(60))).toBe(true);
+		});
+
+		it('should not meet conditions whose query is unavailable', () => {
+			evaluator = new ConditionEvaluator(createContext({ getFlag: undefined, getRunTime: undefined }));
+
+			const result = evaluator.evaluateWithDetails(Conditions.flag('konami'));
+			expect(result.met).toBe(false);
+			expect(result.description).toBe("Flag 'konami': unavailable");
+			expect(evaluator.evaluate(Conditions.runTime(1))).toBe(false);
+		});
+	});
+
+	describe('compound conditions', () => {
+		it('should combine any condition kinds', () => {
+			const condition = Conditions.and(
+				Conditions.phase(3),
+				Conditions.or(Conditions.flag('missing'), Conditions.stat('totalClicks', 'eq', 42)),
+				Conditions.not(Conditions.secret('glitch_hunter'))
+			);
+
+			const result = evaluator.evaluateWithDetails(condition);
+			expect(result.met).toBe(true);
+			expect(result.children).toHaveLength(3);
+		});
+	});
+
+	describe('getFailedLeaves', () => {
+		it('should return only the unmet leaves of a tree', () => {
+			const result = evaluator.evaluateWithDetails(
+				Conditions.and(
+					Conditions.resource('pixels', 100),
+					Conditions.or(Conditions.flag('missing'), Conditions.stat('totalClicks', 'gte', 84))
+				)
+			);
+
+			expect(getFailedLeaves(result).map((leaf) => leaf.description)).toEqual([
+				"Flag 'missing': unset = set",
+				"Stat 'totalClicks': 42 ≥ 84"
+			]);
+		});
+
+		it('should report an unmet NOT as the blocker', () => {
+			const result = evaluator.evaluateWithDetails(Conditions.not(Conditions.secret('konami_code')));
+			const failed = getFailedLeaves(result);
+
+			expect(failed).toHaveLength(1);
+			expect(failed[0]).toBe(result);
+		});
+
+		it('should return nothing for met trees', () => {
+			expect(getFailedLeaves(evaluator.evaluateWithDetails(Conditions.always()))).toEqual([]);
+		});
+	});
+});
+
+describe('toCondition', () => {
+	it('should convert story shorthand to shared conditions', () => {
+		const triggers: StoryCondition[] = [
+			{ type: 'resource_reached', params: { resourceId: 'pixels', amount: 10 } },
+			{ type: 'phase_completed', params: { phase: 3 } },
+			{ type: 'time_passed', params: { seconds: 300 } },
+			{ type: 'flag_set', params: { key: 'konami' } },
+			{ type: 'choice_made', params: { choiceId: 'spare_sun' } },
+			{ type: 'manual', params: {} }
+		];
+
+		expect(triggers.map(toCondition)).toEqual([
+			{ type: 'resource', resourceId: 'pixels', amount: 10, operator: undefined },
+			{ type: 'phase', phase: 3, operator: 'gt' },
+			{ type: 'time', minSeconds: 300, scope: 'run', operator: undefined },
+			{ type: 'flag', flag: 'konami', value: undefined },
+			{ type: 'choice', choiceId: 'spare_sun', value: undefined },
+			{ type: 'never' }
+		]);
+	});
+
+	it('should pass shared conditions through unchanged', () => {
+		const condition = Conditions.secret('konami_code');
+		expect(toCondition(condition)).toBe(condition);
+	});
+
+	it('should evaluate converted triggers like the originals', () => {
+		const evaluator = new ConditionEvaluator(createContext());
+		const trigger: StoryCondition = {
+			type: 'producer_count',
+			params: { producerId: 'pixel_generator', count: 3, comparison: 'eq' }
+		};
+
+		expect(evaluator.evaluate(toCondition(trigger))).toBe(true);
+	});
+});
+
+describe('Game.explainPendingConditions', () => {
+	let simulation: GameSimulation;
+
+	beforeEach(async () => {
+		simulation = new GameSimulation();
+		await simulation.start();
+	});
+
+	afterEach(() => {
+		simulation.stop();
+	});
+
+	it('should list the phase transition first, then story, achievements and secrets', () => {
+		const kinds = simulation.game.explainPendingConditions().map((entry) => entry.kind);
+
+		expect(kinds[0]).toBe('phase');
+		expect(kinds.filter((kind) => kind === 'phase')).toHaveLength(1);
+		expect(kinds).toContain('story');
+		expect(kinds.lastIndexOf('story')).toBeLessThan(kinds.indexOf('achievement'));
+		expect(kinds.lastIndexOf('achievement')).toBeLessThan(kinds.indexOf('secret'));
+	});
+
+	it('should drop discovered secrets', () => {
+		const { game } = simulation;
+		const secretIds = () =>
+			game
+				.explainPendingConditions()
+				.filter((entry) => entry.kind === 'secret')
+				.map((entry) => entry.id);
+		expect(secretIds()).toContain('konami_code');
+
+		game.secrets.discoverSecret('konami_code');
+
+		expect(secretIds()).not.toContain('konami_code');
+	});
+
+	it('should leave out the phase transition at the last phase', async () => {
+		const { game } = simulation;
+		game.phases.debugSetPhase(TOTAL_PHASES);
+		await game.whenStoryLoaded();
+
+		expect(game.explainPendingConditions().some((entry) => entry.kind === 'phase')).toBe(false);
+	});
+});
@@ -0,0 +1,147 @@
+/**
+ * @fileoverview Unit tests for the developer console and browser bridge.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GameSimulation } from '$lib/engine/core/GameSimulation';
+import { DevConsole, installDevBridge } from '$lib/engine/core/DevConsole';
+
+describe('DevConsole', () => {
+	let simulation: GameSimulation;
+	let devConsole: DevConsole;
+
+	beforeEach(async () => {
+		simulation = new GameSimulation();
+		await simulation.start();
+		devConsole = new DevConsole(simulation.game);
+	});
+
+	afterEach(() => {
+		simulation.stop();
+	});
+
+	describe('give', () => {
+		it('should add resources through the resource manager', () => {
+			const listener = vi.fn();
+			simulation.game.events.on('resource_changed', listener);
+
+			const result = devConsole.execute('give pixels 1e20');
+
+			expect(result.ok).toBe(true);
+			expect(simulation.game.resources.getAmount('pixels').gte(1e20)).toBe(true);
+			expect(listener).toHaveBeenCalledWith(expect.objectContaining({ resourceId: 'pixels' }));
+		});
+
+		it('should reject unknown resources and invalid amounts', () => {
+			expect(devConsole.execute('give gold 10').ok).toBe(false);
+			expect(devConsole.execute('give pixels lots').ok).toBe(false);
+			expect(devConsole.execute('give pixels -5').ok).toBe(false);
+			expect(devConsole.execute('give pixels').output).toBe('Usage: give <resource> <amount>');
+		});
+	});
+
+	describe('phase', () => {
+		it('should enter the phase and emit phase_entered', () => {
+			const listener = vi.fn();
+			simulation.game.events.on('phase_entered', listener);
+
+			expect(devConsole.execute('phase 13').ok).toBe(true);
+
+			expect(simulation.game.currentPhase).toBe(13);
+			expect(listener).toHaveBeenCalledWith(
+				expect.objectContaining({ previousPhase: 1, newPhase: 13, isFirstTime: true })
+			);
+		});
+
+		it('should reject unknown phases', () => {
+			expect(devConsole.execute('phase 99').ok).toBe(false);
+			expect(simulation.game.currentPhase).toBe(1);
+		});
+	});
+
+	describe('flags, story, achievements and secrets', () => {
+		it('should set flags with flag_set events', () => {
+			const listener = vi.fn();
+			simulation.game.events.on('flag_set', listener);
+
+			devConsole.execute('flag set met_developer');
+			devConsole.execute('flag set mood calm');
+
+			expect(simulation.game.narrative.getFlag('met_developer')).toBe(true);
+			expect(simulation.game.narrative.getFlag('mood')).toBe('calm');
+			expect(listener).toHaveBeenCalledWith({ key: 'met_developer', value: true, source: 'manual' });
+
+			devConsole.execute('flag clear mood');
+			expect(devConsole.execute('flag get mood').output).toBe('Flag mood = unset');
+		});
+
+		it('should unlock achievements and discover secrets once', () => {
+			const listener = vi.fn();
+			simulation.game.events.on('achievement_unlocked', listener);
+
+			expect(devConsole.execute('achievement unlock first_click').ok).toBe(true);
+			expect(devConsole.execute('achievement unlock first_click').ok).toBe(false);
+			expect(listener).toHaveBeenCalledTimes(1);
+
+			expect(devConsole.execute('secret discover konami_code').ok).toBe(true);
+			expect(simulation.game.secrets.isDiscovered('konami_code')).toBe(true);
+		});
+
+		it('should report story events that cannot be triggered', () => {
+			const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+			expect(devConsole.execute('story trigger missing_event').ok).toBe(false);
+			warn.mockRestore();
+		});
+	});
+
+	describe('timewarp and save', () => {
+		it('should run the skipped time through the game', () => {
+			const { game } = simulation;
+			game.resources.add('pixels', 1000);
+			game.producers.buy('pixel_generator');
+			const rate = game.producers.getProduction('pixel_generator');
+
+			const before = game.resources.getAmount('pixels');
+			expect(devConsole.execute('timewarp 600').ok).toBe(true);
+
+			const gained = game.resources.getAmount('pixels').sub(before);
+			expect(gained.toNumber()).toBeGreaterThanOrEqual(rate.mul(600).toNumber() * 0.99);
+			expect(game.runTime).toBeGreaterThanOrEqual(600);
+		});
+
+		it('should take save snapshots when history is enabled', async () => {
+			expect(devConsole.execute('save snapshot').ok).toBe(false);
+
+			const withHistory = new GameSimulation({ config: { snapshotLimit: 5 } });
+			await withHistory.start();
+
+			const result = new DevConsole(withHistory.game).execute('save snapshot');
+			expect(result.ok).toBe(true);
+			expect(withHistory.game.listSnapshots().some((snapshot) => snapshot.reason === 'manual')).toBe(true);
+			withHistory.stop();
+		});
+	});
+
+	describe('parsing', () => {
+		it('should report unknown commands and keep a history', () => {
+			expect(devConsole.execute('fly away').ok).toBe(false);
+			expect(devConsole.execute('  help ').output).toContain('timewarp <seconds>');
+			expect(devConsole.history.map((entry) => entry.input)).toEqual(['fly away', 'help']);
+		});
+	});
+
+	describe('installDevBridge', () => {
+		it('should expose the console as window.__game until removed', () => {
+			const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+			const uninstall = installDevBridge(simulation.game, devConsole);
+
+			expect(window.__game?.game).toBe(simulation.game);
+			expect(window.__game?.run('give pixels 5').ok).toBe(true);
+			expect(devConsole.history).toHaveLength(1);
+
+			uninstall();
+			expect(window.__game).toBeUndefined();
+			log.mockRestore();
+		});
+	});
+});
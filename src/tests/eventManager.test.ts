@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { EventManager } from '$lib/engine/core/EventManager';
+import { EventManager, isEventPattern, matchesEventPattern } from '$lib/engine/core/EventManager';
 import { D } from '$lib/engine/utils/decimal';
 
 describe('EventManager', () => {
@@ -150,6 +150,84 @@ describe('EventManager', () => {
 		});
 	});
 
+	describe('Pattern Subscriptions', () => {
+		it('should match wildcards and categories', () => {
+			expect(matchesEventPattern('story_triggered', 'story_*')).toBe(true);
+			expect(matchesEventPattern('phase_unlocked', '*_unlocked')).toBe(true);
+			expect(matchesEventPattern('phase_entered', '*_unlocked')).toBe(false);
+			expect(matchesEventPattern('tick', '*')).toBe(true);
+			expect(matchesEventPattern('flag_set', 'narrative')).toBe(true);
+			expect(matchesEventPattern('flag_set', 'resources')).toBe(false);
+
+			expect(isEventPattern('narrative')).toBe(true);
+			expect(isEventPattern('flag_set')).toBe(false);
+		});
+
+		it('should pass the event name with its data', () => {
+			const triggered: string[] = [];
+			events.on('story_*', ({ event, data }) => {
+				if (event === 'story_triggered') triggered.push(data.storyId);
+			});
+
+			events.emit('story_triggered', { storyId: 'intro', type: 'log', pausesGame: false });
+			events.emit('game_paused', { reason: 'user', timestamp: 0 });
+
+			expect(triggered).toEqual(['intro']);
+		});
+
+		it('should deliver category events to category listeners', () => {
+			const callback = vi.fn();
+			events.on('narrative', callback);
+
+			events.emit('flag_set', { key: 'met_developer', value: true, source: 'manual' });
+			events.emit('game_paused', { reason: 'user', timestamp: 0 });
+
+			expect(callback).toHaveBeenCalledTimes(1);
+			expect(callback).toHaveBeenCalledWith({
+				event: 'flag_set',
+				data: { key: 'met_developer', value: true, source: 'manual' }
+			});
+		});
+
+		it('should tap every event with onAny', () => {
+			const seen: string[] = [];
+			const unsubscribe = events.onAny(({ event }) => seen.push(event));
+
+			events.emit('game_initialized', { timestamp: 0, isNewGame: true });
+			events.emit('game_paused', { reason: 'user', timestamp: 0 });
+			unsubscribe();
+			events.emit('game_resumed', { timestamp: 0, pauseDuration: 0 });
+
+			expect(seen).toEqual(['game_initialized', 'game_paused']);
+		});
+
+		it('should order pattern and event listeners by priority', () => {
+			const order: string[] = [];
+			events.on('game_paused', () => order.push('event'));
+			events.onAny(() => order.push('any'), { priority: 10 });
+			events.on('game_*', () => order.push('pattern'), { priority: -1 });
+
+			events.emit('game_paused', { reason: 'user', timestamp: 0 });
+
+			expect(order).toEqual(['any', 'event', 'pattern']);
+		});
+
+		it('should support once, off and listener counts for patterns', () => {
+			const once = vi.fn();
+			events.on('game_*', once, { once: true });
+			events.on('core', vi.fn());
+			expect(events.listenerCount('game_paused')).toBe(2);
+			expect(events.getRegisteredEvents()).toEqual(['game_*', 'core']);
+
+			events.emit('game_paused', { reason: 'user', timestamp: 0 });
+			events.emit('game_paused', { reason: 'user', timestamp: 0 });
+			expect(once).toHaveBeenCalledTimes(1);
+
+			events.off('core');
+			expect(events.listenerCount('game_paused')).toBe(0);
+		});
+	});
+
 	describe('Error Handling', () => {
 		it('should not crash when listener throws', () => {
 			const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
@@ -0,0 +1,165 @@
+/**
+ * @fileoverview Unit tests for fixed-step loop mode and the headless simulation driver.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { GameLoop, splitDeltaTime } from '$lib/engine/core/GameLoop';
+import { GameSimulation, type SimulationPolicy } from '$lib/engine/core/GameSimulation';
+import { createSeededRandom } from '$lib/engine/utils/random';
+
+/**
+ * Click, buy random producers and advance phases whenever possible.
+ */
+const policy: SimulationPolicy = (game, random) => {
+	for (let i = 0; i < 5; i++) game.click();
+	for (const id of game.producers.getVisibleProducers()) {
+		if (random.chance(0.5)) game.producers.buyMax(id);
+	}
+	if (game.canAdvancePhase) game.advancePhase();
+};
+
+describe('createSeededRandom', () => {
+	it('should produce the same sequence for the same seed', () => {
+		const a = createSeededRandom(42);
+		const b = createSeededRandom(42);
+		const c = createSeededRandom(43);
+
+		const sequence = Array.from({ length: 10 }, () => a.next());
+		expect(Array.from({ length: 10 }, () => b.next())).toEqual(sequence);
+		expect(Array.from({ length: 10 }, () => c.next())).not.toEqual(sequence);
+	});
+
+	it('should keep values in range', () => {
+		const random = createSeededRandom(7);
+		for (let i = 0; i < 100; i++) {
+			const value = random.int(1, 6);
+			expect(value).toBeGreaterThanOrEqual(1);
+			expect(value).toBeLessThanOrEqual(6);
+		}
+		expect(random.pick([])).toBeUndefined();
+	});
+});
+
+describe('GameLoop fixed mode', () => {
+	it('should run whole steps and carry the remainder', () => {
+		const callback = vi.fn();
+		const loop = new GameLoop(callback, { loopMode: 'fixed', tickRate: 20 });
+		loop.start();
+
+		expect(loop.advance(1)).toBe(20);
+		expect(loop.advance(0.03)).toBe(0);
+		expect(loop.advance(0.03)).toBe(1);
+		expect(callback).toHaveBeenCalledTimes(21);
+		expect(callback).toHaveBeenLastCalledWith(0.05);
+		loop.stop();
+	});
+
+	it('should not advance when stopped or in realtime mode', () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		const fixed = new GameLoop(vi.fn(), { loopMode: 'fixed' });
+		expect(fixed.advance(1)).toBe(0);
+
+		const realtime = new GameLoop(vi.fn(), { loopMode: 'realtime' });
+		expect(realtime.advance(1)).toBe(0);
+		expect(warn).toHaveBeenCalled();
+		warn.mockRestore();
+	});
+});
+
+describe('GameLoop speed', () => {
+	it('should split scaled time into stable sub-steps without dropping time', () => {
+		expect(splitDeltaTime(0.05, 0.1, 100)).toEqual([0.05]);
+		expect(splitDeltaTime(0.5, 0.1, 100)).toHaveLength(5);
+		expect(splitDeltaTime(0, 0.1, 100)).toEqual([]);
+
+		const capped = splitDeltaTime(100, 0.1, 250);
+		expect(capped).toHaveLength(250);
+		expect(capped.reduce((sum, step) => sum + step, 0)).toBeCloseTo(100);
+	});
+
+	it('should scale fixed-step time by the speed multiplier', () => {
+		const callback = vi.fn();
+		const loop = new GameLoop(callback, { loopMode: 'fixed', tickRate: 20, speed: 10 });
+		loop.start();
+
+		expect(loop.advance(1)).toBe(200);
+		expect(loop.getTotalTime()).toBeCloseTo(10);
+		expect(loop.getStats().speed).toBe(10);
+		loop.stop();
+	});
+
+	it('should reject invalid speeds', () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		const loop = new GameLoop(vi.fn(), { loopMode: 'fixed' });
+
+		expect(loop.setSpeed(0)).toBe(false);
+		expect(loop.setSpeed(Infinity)).toBe(false);
+		expect(loop.setSpeed(100)).toBe(true);
+		expect(loop.getSpeed()).toBe(100);
+		warn.mockRestore();
+	});
+});
+
+describe('GameSimulation', () => {
+	let simulations: GameSimulation[] = [];
+
+	async function createSimulation(seed: number): Promise<GameSimulation> {
+		const simulation = new GameSimulation({ seed });
+		simulations.push(simulation);
+		await simulation.start();
+		return simulation;
+	}
+
+	afterEach(() => {
+		simulations.forEach((simulation) => simulation.stop());
+		simulations = [];
+	});
+
+	it('should advance simulated time in fixed steps', async () => {
+		const simulation = await createSimulation(1);
+
+		expect(await simulation.advance(10)).toBe(200);
+		expect(simulation.elapsed).toBeCloseTo(10);
+	});
+
+	it('should run game time at the game speed', async () => {
+		const simulation = await createSimulation(1);
+
+		expect(simulation.game.setSpeed(5)).toBe(true);
+		expect(simulation.game.speed).toBe(5);
+		expect(await simulation.advance(1)).toBe(100);
+		expect(simulation.elapsed).toBeCloseTo(1);
+		expect(simulation.game.runTime).toBeCloseTo(5);
+	});
+
+	it('should stop early when the condition is met', async () => {
+		const simulation = await createSimulation(1);
+
+		const result = await simulation.run({
+			seconds: 600,
+			policy,
+			until: (game) => game.currentPhase >= 2
+		});
+
+		expect(result.stoppedEarly).toBe(true);
+		expect(result.elapsed).toBeLessThan(600);
+		expect(simulation.game.currentPhase).toBe(2);
+	});
+
+	it('should produce identical results for the same seed', async () => {
+		const outcomes = [];
+		for (let i = 0; i < 2; i++) {
+			const simulation = await createSimulation(5);
+			const result = await simulation.run({ seconds: 60, policy });
+			const { game } = simulation;
+			outcomes.push({
+				result,
+				phase: game.currentPhase,
+				pixels: game.resources.getAmount('pixels').toString(),
+				producers: game.producers.serialize().levels
+			});
+		}
+
+		expect(outcomes[1]).toEqual(outcomes[0]);
+	});
+});
@@ -666,6 +666,77 @@ describe('NarrativeManager', () => {
 		});
 	});
 
+	// ============================================================================
+	// Condition Debugging Tests
+	// ============================================================================
+
+	describe('Condition Debugging', () => {
+		const resourceTrigger = {
+			type: 'resource_reached',
+			params: { resourceId: 'pixels', amount: 50 }
+		} as const;
+
+		beforeEach(() => {
+			narrativeManager.init();
+			narrativeManager.registerLog(createTestLog('test_log'));
+		});
+
+		it('should explain events that have not fired', () => {
+			narrativeManager.registerEvent(
+				createTestEvent('event_001', { triggers: [resourceTrigger] })
+			);
+
+			const pending = narrativeManager.explainPendingEvents();
+
+			expect(pending).toHaveLength(1);
+			expect(pending[0]).toMatchObject({ kind: 'story', id: 'event_001', name: 'log: test_log' });
+			expect(pending[0].result.met).toBe(false);
+		});
+
+		it('should skip one-time events that already fired', () => {
+			narrativeManager.registerEvent(
+				createTestEvent('event_001', { triggers: [resourceTrigger] })
+			);
+			narrativeManager.triggerEvent('event_001');
+
+			expect(narrativeManager.explainPendingEvents()).toEqual([]);
+		});
+
+		it('should keep repeatable events that already fired', () => {
+			narrativeManager.registerEvent(
+				createTestEvent('event_001', {
+					triggers: [resourceTrigger],
+					oneTime: false,
+					repeatable: true
+				})
+			);
+			narrativeManager.triggerEvent('event_001');
+
+			expect(narrativeManager.explainPendingEvents().map((entry) => entry.id)).toEqual([
+				'event_001'
+			]);
+		});
+
+		it('should skip events that only fire manually', () => {
+			narrativeManager.registerEvents([
+				createTestEvent('manual_event', { triggers: [{ type: 'manual', params: {} }] }),
+				createTestEvent('event_001', { triggers: [resourceTrigger] })
+			]);
+
+			expect(narrativeManager.explainPendingEvents().map((entry) => entry.id)).toEqual([
+				'event_001'
+			]);
+		});
+
+		it('should name events without content by their ID', () => {
+			narrativeManager.registerEvent(
+				createTestEvent('event_001', { contentId: '', triggers: [resourceTrigger] })
+			);
+
+			expect(narrativeManager.explainPendingEvents()[0].name).toBe('event_001');
+		});
+	});
+
 	// ============================================================================
 	// Condition Evaluation Tests
 	// ============================================================================
@@ -6,16 +6,24 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import {
 	calculateOfflineProgress,
 	calculateOfflineProgressWithBreakdown,
+	calculateOfflineDuration,
+	createOfflineConfig,
+	splitOfflineTime,
 	DEFAULT_OFFLINE_CONFIG,
+	MAX_OFFLINE_HOURS,
+	MAX_OFFLINE_CHUNKS,
 	type OfflineProgressConfig
 } from '$lib/engine/utils/OfflineProgress';
+import { GameSimulation } from '$lib/engine/core/GameSimulation';
+import { decodeSave } from '$lib/engine/core/SaveEnvelope';
+import type { SerializedGameSave } from '$lib/engine/models/types';
 import { D, ZERO } from '$lib/engine/utils/decimal';
 
 describe('OfflineProgress', () => {
 	describe('DEFAULT_OFFLINE_CONFIG', () => {
 		it('should have correct default values', () => {
 			expect(DEFAULT_OFFLINE_CONFIG.cappedHours).toBe(8);
-			expect(DEFAULT_OFFLINE_CONFIG.efficiency).toBe(0.1);
+			expect(DEFAULT_OFFLINE_CONFIG.efficiency).toBe(0.5);
 			expect(DEFAULT_OFFLINE_CONFIG.minimumTime).toBe(60);
 		});
 	});
@@ -27,7 +35,7 @@ describe('OfflineProgress', () => {
 
 			const result = calculateOfflineProgress(lastPlayed, rate);
 
-			expect(result.dreamPixels.eq(ZERO)).toBe(true);
+			expect(result.amount.eq(ZERO)).toBe(true);
 			expect(result.cappedTime).toBe(0);
 		});
 
@@ -37,10 +45,11 @@ describe('OfflineProgress', () => {
 
 			const result = calculateOfflineProgress(lastPlayed, rate);
 
-			// Expected: 100 * 0.1 * 2 * 3600 = 72,000
-			expect(result.dreamPixels.gt(0)).toBe(true);
+			// Expected: 100 * 0.5 * 2 * 3600 = 360,000
+			expect(result.amount.gt(0)).toBe(true);
+			expect(result.resourceId).toBe('pixels');
 			expect(result.timeAway).toBeGreaterThan(0);
-			expect(result.efficiency).toBe(0.1);
+			expect(result.efficiency).toBe(0.5);
 		});
 
 		it('should cap time at maximum hours', () => {
@@ -68,7 +77,8 @@ describe('OfflineProgress', () => {
 			const customConfig: OfflineProgressConfig = {
 				cappedHours: 4,
 				efficiency: 0.2,
-				minimumTime: 30
+				minimumTime: 30,
+				resourceId: 'pixels'
 			};
 
 			const lastPlayed = Date.now() - 10 * 60 * 60 * 1000; // 10 hours ago
@@ -88,7 +98,7 @@ describe('OfflineProgress', () => {
 
 			const result = calculateOfflineProgress(lastPlayed, rate);
 
-			expect(result.dreamPixels.eq(ZERO)).toBe(true);
+			expect(result.amount.eq(ZERO)).toBe(true);
 		});
 
 		it('should handle very large production rates', () => {
@@ -97,8 +107,8 @@ describe('OfflineProgress', () => {
 
 			const result = calculateOfflineProgress(lastPlayed, rate);
 
-			expect(result.dreamPixels.gt(0)).toBe(true);
-			expect(result.dreamPixels.isFinite()).toBe(true);
+			expect(result.amount.gt(0)).toBe(true);
+			expect(result.amount.isFinite()).toBe(true);
 		});
 	});
 
@@ -110,7 +120,7 @@ describe('OfflineProgress', () => {
 			const result = calculateOfflineProgressWithBreakdown(lastPlayed, rate);
 
 			expect(result.rewards).toBeDefined();
-			expect(result.rewards.dreamPixels.gt(0)).toBe(true);
+			expect(result.rewards.amount.gt(0)).toBe(true);
 		});
 
 		it('should include formatted time strings', () => {
@@ -144,8 +154,8 @@ describe('OfflineProgress', () => {
 			// 100/s = 360,000/h
 			expect(result.breakdown.productionRatePerHour.eq(D(360000))).toBe(true);
 
-			// 10% efficiency = 36,000/h
-			expect(result.breakdown.offlineRatePerHour.eq(D(36000))).toBe(true);
+			// 50% efficiency = 180,000/h
+			expect(result.breakdown.offlineRatePerHour.eq(D(180000))).toBe(true);
 		});
 	});
 
@@ -157,7 +167,7 @@ describe('OfflineProgress', () => {
 			const result = calculateOfflineProgress(lastPlayed, rate);
 
 			// Should treat as minimum time not met
-			expect(result.dreamPixels.eq(ZERO)).toBe(true);
+			expect(result.amount.eq(ZERO)).toBe(true);
 		});
 
 		it('should handle exactly minimum time', () => {
@@ -223,7 +233,7 @@ describe('OfflineProgress', () => {
 			// Use fixed times for predictable results
 			const hoursAway = 3;
 			const ratePerSecond = 100;
-			const efficiency = 0.1;
+			const efficiency = 0.5;
 
 			const lastPlayed = Date.now() - hoursAway * 60 * 60 * 1000;
 			const rate = D(ratePerSecond);
@@ -231,13 +241,179 @@ describe('OfflineProgress', () => {
 			const result = calculateOfflineProgress(lastPlayed, rate);
 
 			// Expected: rate * efficiency * hoursAway * 3600
-			// 100 * 0.1 * 3 * 3600 = 108,000
+			// 100 * 0.5 * 3 * 3600 = 540,000
 			const expectedPixels = ratePerSecond * efficiency * hoursAway * 3600;
 
 			// Allow 1% tolerance for timing variations
-			const actualPixels = result.dreamPixels.toNumber();
+			const actualPixels = result.amount.toNumber();
 			expect(actualPixels).toBeGreaterThan(expectedPixels * 0.99);
 			expect(actualPixels).toBeLessThan(expectedPixels * 1.01);
 		});
 	});
+
+	describe('createOfflineConfig', () => {
+		it('should return the base config without modifiers', () => {
+			expect(createOfflineConfig()).toEqual(DEFAULT_OFFLINE_CONFIG);
+		});
+
+		it('should apply upgrade multipliers', () => {
+			const config = createOfflineConfig({ efficiency: 1.2, speed: 1.5, cap: 3 });
+
+			expect(config.efficiency).toBeCloseTo(0.9);
+			expect(config.cappedHours).toBe(24);
+		});
+
+		it('should clamp efficiency and cap', () => {
+			const config = createOfflineConfig({ efficiency: 10, cap: 10 });
+
+			expect(config.efficiency).toBe(1);
+			expect(config.cappedHours).toBe(MAX_OFFLINE_HOURS);
+		});
+
+		it('should count no time when disabled', () => {
+			const config = createOfflineConfig({ enabled: false });
+			const duration = calculateOfflineDuration(Date.now() - 3600 * 1000, config);
+
+			expect(duration.cappedTime).toBe(0);
+		});
+	});
+
+	describe('calculateOfflineDuration', () => {
+		const now = 1_700_000_000_000;
+
+		it('should cap the counted time', () => {
+			const duration = calculateOfflineDuration(now - 10 * 3600 * 1000, DEFAULT_OFFLINE_CONFIG, now);
+
+			expect(duration.timeAway).toBe(10 * 3600);
+			expect(duration.cappedTime).toBe(8 * 3600);
+			expect(duration.efficiency).toBe(0.5);
+		});
+
+		it('should not count time below the minimum', () => {
+			const duration = calculateOfflineDuration(now - 30 * 1000, DEFAULT_OFFLINE_CONFIG, now);
+
+			expect(duration.timeAway).toBe(30);
+			expect(duration.cappedTime).toBe(0);
+		});
+	});
+
+	describe('splitOfflineTime', () => {
+		it('should split time into steps with a remainder', () => {
+			expect(splitOfflineTime(25)).toEqual([10, 10, 5]);
+			expect(splitOfflineTime(20)).toEqual([10, 10]);
+			expect(splitOfflineTime(0)).toEqual([]);
+		});
+
+		it('should use larger steps for long absences', () => {
+			const chunks = splitOfflineTime(100_000);
+
+			expect(chunks).toHaveLength(MAX_OFFLINE_CHUNKS);
+			expect(chunks[0]).toBe(50);
+			expect(chunks.reduce((sum, chunk) => sum + chunk, 0)).toBeCloseTo(100_000);
+		});
+	});
+
+	describe('Game offline catch-up', () => {
+		let simulation: GameSimulation;
+
+		beforeEach(async () => {
+			simulation = new GameSimulation();
+			await simulation.start();
+		});
+
+		afterEach(() => {
+			simulation.stop();
+		});
+
+		it('should simulate producers for the efficiency-scaled time', async () => {
+			const { game } = simulation;
+			game.resources.add('pixels', 1000);
+			expect(game.producers.buy('pixel_generator')).toBe(true);
+
+			const before = game.resources.getAmount('pixels');
+			const rate = game.producers.getProduction('pixel_generator');
+			const gains = await game.catchUpOffline(Date.now() - 3600 * 1000);
+
+			// 1 hour at 50% efficiency = 1800 simulated seconds
+			const expected = rate.mul(1800);
+			expect(gains.get('pixels')?.toNumber()).toBeCloseTo(expected.toNumber(), 0);
+			expect(game.resources.getAmount('pixels').sub(before).toNumber()).toBeCloseTo(expected.toNumber(), 0);
+			expect(game.producers.getTotalProduced('pixel_generator').toNumber()).toBeCloseTo(expected.toNumber(), 0);
+		});
+
+		it('should emit offline gains once', async () => {
+			const { game } = simulation;
+			game.resources.add('pixels', 1000);
+			game.producers.buy('pixel_generator');
+
+			const listener = vi.fn();
+			game.events.on('offline_gains_calculated', listener);
+			await game.catchUpOffline(Date.now() - 2 * 3600 * 1000);
+
+			expect(listener).toHaveBeenCalledTimes(1);
+			expect(listener.mock.calls[0][0].cappedTime).toBe(2 * 3600);
+			expect(listener.mock.calls[0][0].gains.has('pixels')).toBe(true);
+		});
+
+		it('should report unlocks and achievements until dismissed', async () => {
+			const { game } = simulation;
+			game.resources.add('pixels', 1000);
+			game.producers.buy('pixel_generator');
+
+			await game.catchUpOffline(Date.now() - 8 * 3600 * 1000);
+
+			const report = game.offlineReport;
+			expect(report?.gains.has('pixels')).toBe(true);
+			expect(report?.achievements.length).toBeGreaterThan(0);
+			expect(report?.achievements.every((unlock) => unlock.type === 'achievement')).toBe(true);
+
+			game.dismissOfflineReport();
+			expect(game.offlineReport).toBeNull();
+		});
+
+		it('should save preference changes', () => {
+			const { game } = simulation;
+			expect(game.getPreferences().showOfflineProgress).toBe(true);
+
+			game.setPreference('showOfflineProgress', false);
+			expect(game.getPreferences().showOfflineProgress).toBe(false);
+		});
+
+		it('should derive the config from upgrades and preferences', async () => {
+			const { game } = simulation;
+			expect(game.getOfflineConfig().cappedHours).toBe(8);
+
+			game.upgrades.unlock('idle_master');
+			game.resources.add('primordial_pixels', 1000);
+			expect(game.upgrades.purchase('idle_master').success).toBe(true);
+			expect(game.getOfflineConfig().cappedHours).toBe(24);
+
+			game.setPreference('offlineProgress', false);
+			expect(game.getOfflineConfig().cappedHours).toBe(0);
+			expect((await game.catchUpOffline(Date.now() - 3600 * 1000)).size).toBe(0);
+		});
+
+		it('should not count offline time as play time', async () => {
+			const { game } = simulation;
+			game.resources.add('pixels', 1000);
+			game.producers.buy('pixel_generator');
+			const totalPlayTime = (): number =>
+				decodeSave<SerializedGameSave>(game.exportSave()!).data!.state.eternal.totalPlayTime;
+			const { runTime, tickCount } = game;
+			const playTime = totalPlayTime();
+
+			const gains = await game.catchUpOffline(Date.now() - 3600 * 1000);
+
+			expect(gains.has('pixels')).toBe(true);
+			expect(game.runTime).toBe(runTime);
+			expect(game.tickCount).toBe(tickCount);
+			expect(totalPlayTime()).toBe(playTime);
+			expect(game.phases.hasInstantTransitions()).toBe(true);
+		});
+
+		it('should do nothing for short absences', async () => {
+			const gains = await simulation.game.catchUpOffline(Date.now() - 10 * 1000);
+			expect(gains.size).toBe(0);
+		});
+	});
 });
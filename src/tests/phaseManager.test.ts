@@ -9,7 +9,7 @@ import { ConditionEvaluator, Conditions, type EvaluationContext } from '../lib/e
 import { EventManager } from '../lib/engine/core/EventManager';
 import { getPhaseDefinitionsMap, PHASE_DEFINITIONS } from '../lib/engine/data/phases';
 import { D, ZERO } from '../lib/engine/utils/decimal';
-import type { PhaseDefinition } from '../lib/engine/models/phase';
+import { TOTAL_PHASES, type PhaseDefinition } from '../lib/engine/models/phase';
 
 // ============================================================================
 // Test Helpers
@@ -617,6 +617,40 @@ describe('PhaseManager', () => {
 		});
 	});
 
+	describe('Condition Debugging', () => {
+		beforeEach(() => {
+			phaseManager.init();
+		});
+
+		it('should explain the transition to the next phase', () => {
+			phaseManager.setContext(mockContext);
+
+			const pending = phaseManager.explainTransition();
+
+			expect(pending).toMatchObject({ kind: 'phase', id: '2', name: 'Phase 1 → 2' });
+			expect(pending?.result.met).toBe(false);
+		});
+
+		it('should report met transition conditions', () => {
+			phaseManager.setContext(
+				createMockContext({ getResourceAmount: vi.fn().mockReturnValue(D(100)) })
+			);
+
+			expect(phaseManager.explainTransition()?.result.met).toBe(true);
+		});
+
+		it('should explain nothing without a context', () => {
+			expect(phaseManager.explainTransition()).toBeNull();
+		});
+
+		it('should explain nothing at the last phase', () => {
+			phaseManager.setContext(mockContext);
+			phaseManager.debugSetPhase(TOTAL_PHASES);
+
+			expect(phaseManager.explainTransition()).toBeNull();
+		});
+	});
+
 	describe('Reset', () => {
 		beforeEach(() => {
 			phaseManager.init();
@@ -8,7 +8,9 @@ import { ProducerManager } from '$lib/engine/systems/ProducerManager.svelte';
 import { EventManager } from '$lib/engine/core/EventManager';
 import { ResourceManager } from '$lib/engine/systems/ResourceManager.svelte';
 import { D, ZERO } from '$lib/engine/utils/decimal';
-import { ProducerId } from '$lib/engine/models/producers';
+import { ProducerId, PRODUCER_DEFINITIONS } from '$lib/engine/models/producers';
+import { SYNERGY_DEFINITIONS } from '$lib/engine/models/synergies';
+import { RESOURCE_DEFINITIONS } from '$lib/engine/models/resources';
 
 describe('ProducerManager', () => {
 	let events: EventManager;
@@ -223,6 +225,51 @@ describe('ProducerManager', () => {
 		});
 	});
 
+	describe('buy quantity modes', () => {
+		it('should resolve fixed amounts and milestones', () => {
+			expect(producers.getBuyAmount(ProducerId.PIXEL_GENERATOR, 'x1')).toBe(1);
+			expect(producers.getBuyAmount(ProducerId.PIXEL_GENERATOR, 'x100')).toBe(100);
+			expect(producers.getBuyAmount(ProducerId.PIXEL_GENERATOR, 'milestone')).toBe(1);
+
+			resources.add('pixels', D(1e12));
+			producers.buy(ProducerId.PIXEL_GENERATOR, 3);
+			expect(producers.getBuyAmount(ProducerId.PIXEL_GENERATOR, 'milestone')).toBe(7);
+
+			producers.buy(ProducerId.PIXEL_GENERATOR, 97);
+			expect(producers.getBuyAmount(ProducerId.PIXEL_GENERATOR, 'milestone')).toBe(150);
+		});
+
+		it('should preview the exact bulk cost', () => {
+			const preview = producers.getPurchasePreview(ProducerId.PIXEL_GENERATOR, 'x10');
+
+			expect(preview.amount).toBe(10);
+			expect(preview.cost.eq(producers.calculateCost(ProducerId.PIXEL_GENERATOR, 10))).toBe(true);
+			expect(preview.canAfford).toBe(false);
+
+			resources.add('pixels', preview.cost);
+			expect(producers.getPurchasePreview(ProducerId.PIXEL_GENERATOR, 'x10').canAfford).toBe(true);
+			expect(producers.buyWithMode(ProducerId.PIXEL_GENERATOR, 'x10')).toBe(10);
+			expect(resources.getAmount('pixels').lt(producers.getNextCost(ProducerId.PIXEL_GENERATOR))).toBe(
+				true
+			);
+		});
+
+		it('should preview the next level in max mode when nothing is affordable', () => {
+			const preview = producers.getPurchasePreview(ProducerId.PIXEL_GENERATOR, 'max');
+
+			expect(preview.amount).toBe(1);
+			expect(preview.canAfford).toBe(false);
+			expect(producers.buyWithMode(ProducerId.PIXEL_GENERATOR, 'max')).toBe(0);
+		});
+
+		it('should buy everything affordable with an exact budget', () => {
+			resources.add('pixels', producers.calculateCost(ProducerId.PIXEL_GENERATOR, 25));
+
+			expect(producers.getMaxAffordable(ProducerId.PIXEL_GENERATOR)).toBe(25);
+			expect(producers.buyWithMode(ProducerId.PIXEL_GENERATOR, 'max')).toBe(25);
+		});
+	});
+
 	// ============================================================================
 	// Production Tests
 	// ============================================================================
@@ -602,6 +649,167 @@ describe('ProducerManager', () => {
 		});
 	});
 
+	describe('milestones', () => {
+		beforeEach(() => {
+			resources.add('pixels', D(1e12));
+		});
+
+		it('should multiply the production of the producer only', () => {
+			producers.buy(ProducerId.PIXEL_GENERATOR, 24);
+			const before = producers.getProduction(ProducerId.PIXEL_GENERATOR);
+			expect(producers.getMilestoneMultiplier(ProducerId.PIXEL_GENERATOR)).toBe(1);
+
+			producers.buy(ProducerId.PIXEL_GENERATOR, 1);
+
+			expect(producers.getMilestoneMultiplier(ProducerId.PIXEL_GENERATOR)).toBe(2);
+			expect(producers.getProduction(ProducerId.PIXEL_GENERATOR).gt(before.mul(2))).toBe(true);
+			expect(producers.getProductionBreakdown('pixels', 10).final.eq(10)).toBe(true);
+			expect(
+				producers.getProductionBreakdown('pixels', 10, ProducerId.PIXEL_GENERATOR).final.eq(20)
+			).toBe(true);
+		});
+
+		it('should emit an event for every milestone crossed', () => {
+			const reached = vi.fn();
+			events.on('producer_milestone_reached', reached);
+
+			producers.buy(ProducerId.PIXEL_GENERATOR, 60);
+
+			expect(reached).toHaveBeenCalledTimes(2);
+			expect(reached).toHaveBeenCalledWith({
+				producerId: ProducerId.PIXEL_GENERATOR,
+				level: 25,
+				multiplier: 2,
+				totalMultiplier: 2,
+				logId: 'log_milestone_pixel_generator_25'
+			});
+			expect(producers.getNextMilestone(ProducerId.PIXEL_GENERATOR)?.level).toBe(100);
+		});
+
+		it('should restore milestone multipliers from saves', () => {
+			producers.buy(ProducerId.PIXEL_GENERATOR, 50);
+			const saved = producers.serialize();
+
+			const restored = new ProducerManager(events, resources);
+			restored.init();
+			restored.deserialize(saved);
+
+			expect(restored.getMilestoneMultiplier(ProducerId.PIXEL_GENERATOR)).toBe(4);
+			expect(
+				restored.getProduction(ProducerId.PIXEL_GENERATOR).eq(
+					producers.getProduction(ProducerId.PIXEL_GENERATOR)
+				)
+			).toBe(true);
+		});
+
+		it('should have no default milestones for producers without production', () => {
+			expect(producers.getNextMilestone(ProducerId.CLICK_BOOSTER)).toBeNull();
+		});
+	});
+
+	describe('synergies', () => {
+		beforeEach(() => {
+			resources.add('pixels', D(1e12));
+			producers.unlock(ProducerId.RED_EXTRACTOR);
+		});
+
+		it('should reference existing producers and resources', () => {
+			for (const synergy of Object.values(SYNERGY_DEFINITIONS)) {
+				expect(PRODUCER_DEFINITIONS[synergy.sourceProducerId]).toBeDefined();
+				if (synergy.targetProducerId) {
+					expect(PRODUCER_DEFINITIONS[synergy.targetProducerId]).toBeDefined();
+				}
+				if (synergy.targetResourceId) {
+					expect(RESOURCE_DEFINITIONS[synergy.targetResourceId]).toBeDefined();
+				}
+				expect(synergy.targetProducerId ?? synergy.targetResourceId).toBeDefined();
+			}
+		});
+
+		it('should boost the target producer by source level', () => {
+			producers.buy(ProducerId.PIXEL_GENERATOR, 10);
+			const before = producers.getProduction(ProducerId.PIXEL_GENERATOR);
+
+			producers.buy(ProducerId.RED_EXTRACTOR, 5);
+
+			// color_bleed: +2% per Red Extractor
+			expect(
+				producers.getProduction(ProducerId.PIXEL_GENERATOR).div(before).toNumber()
+			).toBeCloseTo(1.1);
+			expect(producers.getProductionBreakdown('pixels', 10).final.eq(10)).toBe(true);
+		});
+
+		it('should show synergies in the production breakdown', () => {
+			producers.buy(ProducerId.RED_EXTRACTOR, 5);
+
+			const breakdown = producers.getProductionBreakdown('pixels', 10, ProducerId.PIXEL_GENERATOR);
+			const synergy = breakdown.activeMultipliers.find((m) => m.source === 'synergy');
+
+			expect(synergy?.id).toBe('synergy_color_bleed');
+			expect(synergy?.stackingType).toBe('additive');
+			expect(breakdown.additiveBonus.toNumber()).toBeCloseTo(0.1);
+		});
+
+		it('should restore synergies from saves and clear them on reset', () => {
+			producers.buy(ProducerId.RED_EXTRACTOR, 5);
+
+			const restored = new ProducerManager(events, resources);
+			restored.init();
+			restored.deserialize(producers.serialize());
+			expect(restored.getPipeline().hasMultiplier('synergy_color_bleed')).toBe(true);
+
+			restored.reset();
+			expect(restored.getPipeline().getMultipliersBySource('synergy')).toHaveLength(0);
+		});
+	});
+
+	describe('multi-resource costs', () => {
+		beforeEach(() => {
+			producers.unlock(ProducerId.MEMORY_PROCESSOR);
+		});
+
+		it('should include extra cost components', () => {
+			const costs = producers.calculateCosts(ProducerId.MEMORY_PROCESSOR);
+
+			expect(costs.get('memory_fragments')?.eq(100)).toBe(true);
+			expect(costs.get('pixels')?.eq(50000)).toBe(true);
+		});
+
+		it('should scale extra components with their own multiplier', () => {
+			const costs = producers.calculateCosts(ProducerId.MEMORY_PROCESSOR, 2);
+
+			expect(costs.get('memory_fragments')?.toNumber()).toBeCloseTo(100 + 130);
+			expect(costs.get('pixels')?.toNumber()).toBeCloseTo(50000 + 60000);
+		});
+
+		it('should only cost the main resource without extra components', () => {
+			const costs = producers.calculateCosts(ProducerId.PIXEL_GENERATOR);
+
+			expect([...costs.keys()]).toEqual(['pixels']);
+		});
+
+		it('should require and spend every component', () => {
+			resources.add('memory_fragments', D(1000));
+			expect(producers.canAfford(ProducerId.MEMORY_PROCESSOR)).toBe(false);
+			expect(producers.buy(ProducerId.MEMORY_PROCESSOR)).toBe(false);
+
+			resources.add('pixels', D(60000));
+			expect(producers.buy(ProducerId.MEMORY_PROCESSOR)).toBe(true);
+			expect(resources.getAmount('memory_fragments').eq(900)).toBe(true);
+			expect(resources.getAmount('pixels').eq(10000)).toBe(true);
+		});
+
+		it('should limit the max affordable amount by the scarcest resource', () => {
+			resources.add('memory_fragments', D(1e9));
+			resources.add('pixels', D(110000));
+
+			expect(producers.getMaxAffordable(ProducerId.MEMORY_PROCESSOR)).toBe(2);
+			expect(
+				producers.getPurchasePreview(ProducerId.MEMORY_PROCESSOR, 'max').costs.get('pixels')?.toNumber()
+			).toBeCloseTo(110000);
+		});
+	});
+
 	// ============================================================================
 	// Derived State Tests
 	// ============================================================================
@@ -315,6 +315,23 @@ describe('ProductionPipeline', () => {
 			const redResult = pipeline.calculate('red', 10);
 			expect(redResult.eq(20)).toBe(true);
 		});
+
+		it('should only apply producer multipliers to their producer', () => {
+			pipeline.addMultiplier({
+				id: 'generator-mult',
+				name: 'Generator Milestones',
+				value: 4,
+				source: 'producer',
+				stackingType: 'multiplicative',
+				resourceId: 'pixels',
+				producerId: 'pixel_generator'
+			});
+
+			expect(pipeline.calculate('pixels', 10, 'pixel_generator').eq(40)).toBe(true);
+			expect(pipeline.calculate('pixels', 10, 'other_producer').eq(10)).toBe(true);
+			expect(pipeline.calculate('pixels', 10).eq(10)).toBe(true);
+			expect(pipeline.getBreakdown('pixels', 10, 'pixel_generator').activeMultipliers).toHaveLength(1);
+		});
 	});
 
 	describe('getBreakdown', () => {
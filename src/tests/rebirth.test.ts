@@ -0,0 +1,206 @@
+/**
+ * @fileoverview Unit tests for Game rebirth (prestige).
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GameSimulation } from '$lib/engine/core/GameSimulation';
+import { MemoryStorageAdapter } from '$lib/engine/core/SaveStorage';
+import { Game } from '$lib/engine/core/Game.svelte';
+import { decodeSave } from '$lib/engine/core/SaveEnvelope';
+import { BALANCING } from '$lib/engine/data/constants';
+import { ResourceId } from '$lib/engine/models/resources';
+import type { SerializedGameSave } from '$lib/engine/models/types';
+
+const { PRESTIGE_REQUIREMENT_BASE, MIN_REBIRTH_PHASE } = BALANCING.prestige;
+
+describe('Game rebirth', () => {
+	let storage: MemoryStorageAdapter;
+	let simulation: GameSimulation;
+	let game: Game;
+
+	/**
+	 * Read the eternal state from an export of the game.
+	 */
+	function getEternal(target: Game = game): SerializedGameSave['eternal'] {
+		return decodeSave<SerializedGameSave>(target.exportSave()!).data!.state.eternal;
+	}
+
+	/**
+	 * Reach a phase and generate enough pixels for a rebirth reward.
+	 */
+	async function prepareRun(phase: number = MIN_REBIRTH_PHASE): Promise<void> {
+		game.phases.debugSetPhase(phase);
+		await game.whenStoryLoaded();
+		game.resources.add(ResourceId.PIXELS, PRESTIGE_REQUIREMENT_BASE * 4);
+	}
+
+	beforeEach(async () => {
+		storage = new MemoryStorageAdapter();
+		simulation = new GameSimulation({ config: { storage } });
+		await simulation.start();
+		game = simulation.game;
+	});
+
+	afterEach(() => {
+		simulation.stop();
+	});
+
+	describe('requirements', () => {
+		it('should refuse a rebirth below MIN_REBIRTH_PHASE', async () => {
+			const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+			await prepareRun(MIN_REBIRTH_PHASE - 1);
+			const pixels = game.resources.getAmount(ResourceId.PIXELS);
+			const started = vi.fn();
+			game.events.on('rebirth_started', started);
+
+			expect(game.canRebirth()).toBe(false);
+			expect(game.rebirth()).toBe(false);
+
+			expect(started).not.toHaveBeenCalled();
+			expect(game.totalRebirths).toBe(0);
+			expect(game.currentPhase).toBe(MIN_REBIRTH_PHASE - 1);
+			expect(game.resources.getAmount(ResourceId.PIXELS).eq(pixels)).toBe(true);
+			warn.mockRestore();
+		});
+
+		it('should allow a rebirth at MIN_REBIRTH_PHASE with enough pixels', async () => {
+			await prepareRun();
+
+			expect(game.canRebirth()).toBe(true);
+			expect(game.previewRebirth().pp.gt(0)).toBe(true);
+		});
+	});
+
+	describe('rebirth()', () => {
+		it('should reset every run manager', async () => {
+			game.resources.add(ResourceId.PIXELS, 1e4);
+			game.producers.buy('pixel_generator', 3);
+			game.upgrades.purchase('auto_clicker_1');
+			await simulation.advance(1);
+			await prepareRun();
+
+			expect(game.rebirth()).toBe(true);
+
+			expect(game.currentPhase).toBe(1);
+			expect(game.runTime).toBe(0);
+			expect(game.resources.getAmount(ResourceId.PIXELS).eq(0)).toBe(true);
+			expect(game.resources.getTotalGenerated(ResourceId.PIXELS).eq(0)).toBe(true);
+			expect(game.producers.getLevel('pixel_generator')).toBe(0);
+			expect(game.upgrades.getLevel('auto_clicker_1')).toBe(0);
+		});
+
+		it('should grant the previewed Primordial Pixels', async () => {
+			await prepareRun();
+			const { pp } = game.previewRebirth();
+			const before = game.resources.getAmount(ResourceId.PRIMORDIAL_PIXELS);
+			const changes = vi.fn();
+			game.events.on('resource_changed', changes);
+
+			game.rebirth();
+
+			expect(game.resources.getAmount(ResourceId.PRIMORDIAL_PIXELS).eq(before.add(pp))).toBe(true);
+			expect(changes).toHaveBeenCalledWith(
+				expect.objectContaining({ resourceId: ResourceId.PRIMORDIAL_PIXELS, source: 'rebirth' })
+			);
+		});
+
+		it('should keep eternal upgrades and re-apply starting bonuses', async () => {
+			game.resources.add(ResourceId.PRIMORDIAL_PIXELS, 10);
+			expect(game.upgrades.purchase('quick_start').success).toBe(true);
+			await prepareRun();
+
+			game.rebirth();
+
+			expect(game.upgrades.getLevel('quick_start')).toBe(1);
+			expect(game.resources.getAmount(ResourceId.PIXELS).eq(100)).toBe(true);
+		});
+
+		it('should keep achievements and autobuyer rules', async () => {
+			game.achievements.manualUnlock('screen_breached');
+			game.automation.setRule('producer', 'pixel_generator', { enabled: true, maxLevel: 5 });
+			await prepareRun();
+
+			game.rebirth();
+
+			expect(game.achievements.hasAchievement('screen_breached')).toBe(true);
+			expect(game.automation.isUnlocked).toBe(true);
+			expect(game.automation.getRule('producer', 'pixel_generator')).toMatchObject({
+				enabled: true,
+				maxLevel: 5
+			});
+		});
+
+		it('should update the eternal statistics', async () => {
+			await simulation.advance(2);
+			await prepareRun(MIN_REBIRTH_PHASE + 1);
+			const runTime = game.runTime;
+
+			game.rebirth();
+
+			const eternal = getEternal();
+			expect(game.totalRebirths).toBe(1);
+			expect(eternal.totalRebirths).toBe(1);
+			expect(eternal.highestPhaseEver).toBe(MIN_REBIRTH_PHASE + 1);
+			expect(eternal.statistics.fastestRunTime).toBe(runTime);
+		});
+
+		it('should only replace the fastest run time with a faster run', async () => {
+			await simulation.advance(1);
+			await prepareRun();
+			const firstRunTime = game.runTime;
+			game.rebirth();
+
+			await simulation.advance(2);
+			await prepareRun();
+			game.rebirth();
+
+			expect(game.totalRebirths).toBe(2);
+			expect(getEternal().statistics.fastestRunTime).toBe(firstRunTime);
+		});
+
+		it('should emit rebirth_started before rebirth_completed', async () => {
+			await prepareRun();
+			const { pp } = game.previewRebirth();
+			const order: string[] = [];
+			const started = vi.fn(() => order.push('started'));
+			const completed = vi.fn(() => order.push('completed'));
+			game.events.on('rebirth_started', started);
+			game.events.on('rebirth_completed', completed);
+
+			game.rebirth();
+
+			expect(order).toEqual(['started', 'completed']);
+			expect(started).toHaveBeenCalledWith(expect.objectContaining({ rebirthCount: 0 }));
+			expect(completed).toHaveBeenCalledWith(expect.objectContaining({ rebirthCount: 1 }));
+			const gains = completed.mock.calls[0] as unknown as [{ gains: Map<string, unknown> }];
+			expect(gains[0].gains.get(ResourceId.PRIMORDIAL_PIXELS)).toEqual(pp);
+		});
+	});
+
+	describe('save round trip', () => {
+		it('should restore the post-rebirth state after a reload', async () => {
+			game.resources.add(ResourceId.PRIMORDIAL_PIXELS, 10);
+			game.upgrades.purchase('quick_start');
+			game.achievements.manualUnlock('screen_breached');
+			game.producers.buy('pixel_generator');
+			await prepareRun();
+
+			game.rebirth();
+			const pp = game.resources.getAmount(ResourceId.PRIMORDIAL_PIXELS);
+			simulation.stop();
+
+			const reloaded = new Game({ storage, loopMode: 'fixed', snapshotInterval: 0, snapshotLimit: 0 });
+			await reloaded.init();
+
+			expect(reloaded.totalRebirths).toBe(1);
+			expect(reloaded.currentPhase).toBe(1);
+			expect(reloaded.resources.getAmount(ResourceId.PRIMORDIAL_PIXELS).eq(pp)).toBe(true);
+			expect(reloaded.resources.getAmount(ResourceId.PIXELS).eq(100)).toBe(true);
+			expect(reloaded.producers.getLevel('pixel_generator')).toBe(0);
+			expect(reloaded.upgrades.getLevel('quick_start')).toBe(1);
+			expect(reloaded.achievements.hasAchievement('screen_breached')).toBe(true);
+			expect(getEternal(reloaded).highestPhaseEver).toBe(MIN_REBIRTH_PHASE);
+			reloaded.stop();
+		});
+	});
+});
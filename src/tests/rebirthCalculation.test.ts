@@ -0,0 +1,133 @@
+/**
+ * @fileoverview Unit tests for RebirthCalculation utility.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateRebirthPreview, type RebirthInput } from '$lib/engine/utils/RebirthCalculation';
+import { BALANCING } from '$lib/engine/data/constants';
+import { D, ZERO } from '$lib/engine/utils/decimal';
+
+const { PRESTIGE_REQUIREMENT_BASE, PRESTIGE_REWARD_RATIO, MIN_REBIRTH_PHASE } = BALANCING.prestige;
+
+function input(overrides: Partial<RebirthInput> = {}): RebirthInput {
+	return {
+		highestPhase: MIN_REBIRTH_PHASE,
+		pixelsGenerated: D(PRESTIGE_REQUIREMENT_BASE * 100),
+		endingsUnlocked: 0,
+		achievementPP: 0,
+		pixelRate: ZERO,
+		...overrides
+	};
+}
+
+describe('RebirthCalculation', () => {
+	describe('requirements', () => {
+		it('should award nothing below MIN_REBIRTH_PHASE', () => {
+			const preview = calculateRebirthPreview(input({ highestPhase: MIN_REBIRTH_PHASE - 1 }));
+
+			expect(preview.canRebirth).toBe(false);
+			expect(preview.pp.eq(ZERO)).toBe(true);
+			expect(preview.pixelsForNextPP).toBeNull();
+			expect(preview.secondsToNextPP).toBeNull();
+		});
+
+		it('should award nothing below PRESTIGE_REQUIREMENT_BASE pixels', () => {
+			const preview = calculateRebirthPreview(
+				input({ pixelsGenerated: D(PRESTIGE_REQUIREMENT_BASE - 1) })
+			);
+
+			expect(preview.canRebirth).toBe(false);
+			expect(preview.pp.eq(ZERO)).toBe(true);
+			expect(preview.breakdown.pixelBase.eq(ZERO)).toBe(true);
+		});
+
+		it('should allow rebirth at exactly the requirements', () => {
+			const preview = calculateRebirthPreview(
+				input({ pixelsGenerated: D(PRESTIGE_REQUIREMENT_BASE) })
+			);
+
+			expect(preview.canRebirth).toBe(true);
+			expect(preview.pp.gte(1)).toBe(true);
+		});
+	});
+
+	describe('formula', () => {
+		it('should scale with sqrt of pixels over PRESTIGE_REQUIREMENT_BASE', () => {
+			const preview = calculateRebirthPreview(input());
+
+			const phaseMultiplier = 1 + PRESTIGE_REWARD_RATIO * (MIN_REBIRTH_PHASE - 1);
+			expect(preview.breakdown.pixelBase.toNumber()).toBeCloseTo(10);
+			expect(preview.breakdown.phaseMultiplier).toBeCloseTo(phaseMultiplier);
+			expect(preview.pp.toNumber()).toBe(Math.floor(10 * phaseMultiplier));
+		});
+
+		it('should increase reward with higher phase', () => {
+			const low = calculateRebirthPreview(input());
+			const high = calculateRebirthPreview(input({ highestPhase: 15 }));
+
+			expect(high.pp.gt(low.pp)).toBe(true);
+			expect(high.breakdown.phaseMultiplier).toBeCloseTo(1 + PRESTIGE_REWARD_RATIO * 14);
+		});
+
+		it('should apply ending multiplier per unlocked ending', () => {
+			const preview = calculateRebirthPreview(input({ endingsUnlocked: 2 }));
+
+			expect(preview.breakdown.endingsUnlocked).toBe(2);
+			expect(preview.breakdown.endingMultiplier).toBeCloseTo(1 + PRESTIGE_REWARD_RATIO * 2);
+		});
+
+		it('should apply achievement multiplier from reward.pp total', () => {
+			const preview = calculateRebirthPreview(input({ achievementPP: 99 }));
+
+			expect(preview.breakdown.achievementPP).toBe(99);
+			expect(preview.breakdown.achievementMultiplier).toBeCloseTo(1 + PRESTIGE_REWARD_RATIO * 2);
+		});
+
+		it('should leave multipliers at 1 without endings or achievements', () => {
+			const preview = calculateRebirthPreview(input());
+
+			expect(preview.breakdown.endingMultiplier).toBe(1);
+			expect(preview.breakdown.achievementMultiplier).toBe(1);
+		});
+	});
+
+	describe('next PP estimate', () => {
+		it('should require more pixels than generated so far', () => {
+			const preview = calculateRebirthPreview(input());
+
+			expect(preview.pixelsForNextPP).not.toBeNull();
+			expect(preview.pixelsForNextPP!.gt(preview.breakdown.pixelsGenerated)).toBe(true);
+		});
+
+		it('should award one more PP once pixelsForNextPP is reached', () => {
+			const preview = calculateRebirthPreview(input());
+			const next = calculateRebirthPreview(
+				input({ pixelsGenerated: preview.pixelsForNextPP!.mul(1.000001) })
+			);
+
+			expect(next.pp.toNumber()).toBe(preview.pp.toNumber() + 1);
+		});
+
+		it('should estimate seconds at the current production rate', () => {
+			const preview = calculateRebirthPreview(input({ pixelRate: D(1000) }));
+			const remaining = preview.pixelsForNextPP!.sub(preview.breakdown.pixelsGenerated);
+
+			expect(preview.secondsToNextPP).toBeCloseTo(remaining.div(1000).toNumber());
+		});
+
+		it('should return null seconds without production', () => {
+			const preview = calculateRebirthPreview(input({ pixelRate: ZERO }));
+
+			expect(preview.secondsToNextPP).toBeNull();
+		});
+
+		it('should target PRESTIGE_REQUIREMENT_BASE when no PP is earned yet', () => {
+			const preview = calculateRebirthPreview(
+				input({ pixelsGenerated: D(1000), pixelRate: D(1) })
+			);
+
+			expect(preview.pixelsForNextPP!.toNumber()).toBe(PRESTIGE_REQUIREMENT_BASE);
+			expect(preview.secondsToNextPP).toBeCloseTo(PRESTIGE_REQUIREMENT_BASE - 1000);
+		});
+	});
+});
@@ -0,0 +1,116 @@
+/**
+ * @fileoverview Unit tests for input recording and deterministic replay.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GameSimulation, type SimulationPolicy } from '$lib/engine/core/GameSimulation';
+import { DevConsole } from '$lib/engine/core/DevConsole';
+import {
+	ReplayRecorder,
+	replaySession,
+	serializeReplay,
+	parseReplay,
+	type ReplayFile
+} from '$lib/engine/core/Replay';
+
+/**
+ * Click, buy random producers and upgrades, read dialogues and advance phases.
+ */
+const policy: SimulationPolicy = (game, random) => {
+	for (let i = 0; i < 5; i++) game.click();
+	for (const id of game.producers.getVisibleProducers()) {
+		if (random.chance(0.5)) game.producers.buyMax(id);
+	}
+	for (const id of game.upgrades.getVisibleUpgrades()) {
+		if (game.upgrades.canAfford(id) && random.chance(0.3)) game.upgrades.purchase(id);
+	}
+	if (game.narrative.activeDialogue) game.narrative.advanceDialogue();
+	if (game.canAdvancePhase) game.advancePhase();
+};
+
+describe('Replay', () => {
+	let simulation: GameSimulation;
+	let recorder: ReplayRecorder;
+
+	beforeEach(async () => {
+		simulation = new GameSimulation({ seed: 3 });
+		await simulation.start();
+		recorder = new ReplayRecorder(simulation.game);
+	});
+
+	afterEach(() => {
+		simulation.stop();
+	});
+
+	it('should record player inputs with their tick', async () => {
+		expect(recorder.start()).toBe(true);
+		expect(recorder.isRecording).toBe(true);
+
+		simulation.game.click();
+		await simulation.advance(1);
+		simulation.game.click();
+
+		const replay = recorder.stop();
+		expect(recorder.isRecording).toBe(false);
+		expect(replay?.inputs).toEqual([
+			{ tick: 0, input: { type: 'click', resourceId: 'pixels' } },
+			{ tick: 20, input: { type: 'click', resourceId: 'pixels' } }
+		]);
+		expect(replay?.final.ticks).toBe(20);
+	});
+
+	it('should reproduce a simulated session exactly', async () => {
+		recorder.start();
+		await simulation.run({ seconds: 30, policy });
+		const replay = recorder.stop() as ReplayFile;
+
+		expect(replay.inputs.some(({ input }) => input.type === 'buy_producer')).toBe(true);
+
+		const result = await replaySession(replay);
+		expect(result.differences).toEqual([]);
+		expect(result.matched).toBe(true);
+		expect(result.checkpoint).toEqual(replay.final);
+	});
+
+	it('should replay developer console commands at the same tick', async () => {
+		recorder.start();
+		const devConsole = new DevConsole(simulation.game);
+
+		await simulation.advance(2);
+		devConsole.execute('give pixels 5000');
+		devConsole.execute('timewarp 60');
+		await simulation.advance(2);
+		const replay = recorder.stop() as ReplayFile;
+
+		expect(replay.inputs.map(({ input }) => input.type)).toEqual(['command', 'command']);
+
+		const result = await replaySession(replay);
+		expect(result.differences).toEqual([]);
+	});
+
+	it('should report differences when the inputs do not match the session', async () => {
+		recorder.start();
+		await simulation.run({ seconds: 30, policy });
+		const replay = recorder.stop() as ReplayFile;
+
+		const result = await replaySession({ ...replay, inputs: [] });
+		expect(result.matched).toBe(false);
+		expect(result.differences.some((difference) => difference.startsWith('resource pixels'))).toBe(
+			true
+		);
+	});
+
+	it('should round-trip replay files and reject other JSON', async () => {
+		recorder.start();
+		simulation.game.click();
+		const replay = recorder.stop() as ReplayFile;
+
+		expect(parseReplay(serializeReplay(replay))).toEqual(replay);
+
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		expect(parseReplay('not json')).toBeNull();
+		expect(parseReplay('{"format":"other"}')).toBeNull();
+		expect(parseReplay(serializeReplay({ ...replay, version: 99 }))).toBeNull();
+		warn.mockRestore();
+	});
+});
@@ -0,0 +1,149 @@
+/**
+ * @fileoverview Unit tests for the save envelope and encoding helpers.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+	encodeSave,
+	decodeSave,
+	SAVE_ENVELOPE_VERSION,
+	type SaveEnvelopeData
+} from '$lib/engine/core/SaveEnvelope';
+import {
+	compress,
+	decompress,
+	huffmanEncode,
+	huffmanDecode,
+	crc32,
+	encodeUtf8,
+	decodeUtf8,
+	bytesToBase64,
+	base64ToBytes
+} from '$lib/engine/utils/encoding';
+
+function saveData(): SaveEnvelopeData<{ run: { phase: number; resources: Record<string, string> } }> {
+	const resources: Record<string, string> = {};
+	for (let i = 0; i < 200; i++) {
+		resources[`resource_${i}`] = i % 2 === 0 ? '0' : '1.5e10';
+	}
+	return {
+		state: { run: { phase: 20, resources } },
+		formatVersion: 1,
+		lastModified: 1700000000000
+	};
+}
+
+/**
+ * Re-encode the envelope JSON of an uncompressed export after editing it.
+ */
+function tamper(exported: string, edit: (envelope: Record<string, any>) => void): string {
+	const envelope = JSON.parse(decodeUtf8(base64ToBytes(exported)));
+	edit(envelope);
+	return bytesToBase64(encodeUtf8(JSON.stringify(envelope)));
+}
+
+describe('encoding', () => {
+	it('should round-trip UTF-8 text through Base64', () => {
+		const text = 'Pixel → Singularität ✨';
+		expect(decodeUtf8(base64ToBytes(bytesToBase64(encodeUtf8(text))))).toBe(text);
+	});
+
+	it('should compute the standard CRC-32', () => {
+		expect(crc32(encodeUtf8('123456789'))).toBe('cbf43926');
+		expect(crc32(new Uint8Array(0))).toBe('00000000');
+	});
+
+	it('should round-trip compression', () => {
+		const inputs = ['', 'a', 'abcabcabcabcabcabc', 'x'.repeat(1000), JSON.stringify(saveData())];
+		for (const input of inputs) {
+			const bytes = encodeUtf8(input);
+			expect(decodeUtf8(decompress(compress(bytes)))).toBe(input);
+		}
+	});
+
+	it('should shrink repetitive data', () => {
+		const bytes = encodeUtf8(JSON.stringify(saveData()));
+		expect(compress(bytes).length).toBeLessThan(bytes.length / 2);
+	});
+
+	it('should round-trip Huffman coding', () => {
+		// Fibonacci frequencies force code lengths beyond the 15-bit limit
+		const skewed: number[] = [];
+		let [a, b] = [1, 1];
+		for (let symbol = 0; symbol < 24; symbol++) {
+			for (let i = 0; i < a; i++) skewed.push(symbol);
+			[a, b] = [b, a + b];
+		}
+
+		const inputs = [[], new Array(50).fill(7), Array.from(encodeUtf8('hello huffman')), skewed];
+		for (const input of inputs) {
+			expect(Array.from(huffmanDecode(huffmanEncode(Uint8Array.from(input))))).toEqual(input);
+		}
+	});
+
+	it('should reject truncated compressed data', () => {
+		const packed = compress(encodeUtf8('hello hello hello hello'));
+		expect(() => decompress(packed.subarray(0, packed.length - 2))).toThrow();
+	});
+});
+
+describe('SaveEnvelope', () => {
+	it('should round-trip with a valid checksum', () => {
+		const data = saveData();
+		const decoded = decodeSave(encodeSave(data));
+
+		expect(decoded.success).toBe(true);
+		expect(decoded.integrity).toBe('valid');
+		expect(decoded.envelopeVersion).toBe(SAVE_ENVELOPE_VERSION);
+		expect(decoded.compression).toBe('none');
+		expect(decoded.data).toEqual(data);
+	});
+
+	it('should round-trip compressed exports', () => {
+		const data = saveData();
+		const plain = encodeSave(data);
+		const packed = encodeSave(data, { compress: true });
+		const decoded = decodeSave(packed);
+
+		expect(packed.length).toBeLessThan(plain.length / 2);
+		expect(decoded.compression).toBe('lz77');
+		expect(decoded.integrity).toBe('valid');
+		expect(decoded.data).toEqual(data);
+	});
+
+	it('should flag edited state as a checksum mismatch', () => {
+		const edited = tamper(encodeSave(saveData()), (envelope) => {
+			envelope.state.run.phase = 1;
+		});
+		const decoded = decodeSave(edited);
+
+		expect(decoded.success).toBe(true);
+		expect(decoded.integrity).toBe('mismatch');
+		expect(decoded.error).toMatch(/checksum mismatch/i);
+	});
+
+	it('should accept legacy exports without envelope as unverified', () => {
+		const legacy = btoa(JSON.stringify(saveData()));
+		const decoded = decodeSave(legacy);
+
+		expect(decoded.success).toBe(true);
+		expect(decoded.integrity).toBe('unverified');
+		expect(decoded.envelopeVersion).toBeNull();
+	});
+
+	it('should reject envelopes from newer versions', () => {
+		const future = tamper(encodeSave(saveData()), (envelope) => {
+			envelope.envelope = SAVE_ENVELOPE_VERSION + 1;
+		});
+		const decoded = decodeSave(future);
+
+		expect(decoded.success).toBe(false);
+		expect(decoded.error).toMatch(/newer game version/);
+	});
+
+	it('should explain undecodable input', () => {
+		expect(decodeSave('not valid base64!!!').error).toMatch(/Base64/);
+		expect(decodeSave(btoa('not json')).error).toMatch(/JSON/);
+		expect(decodeSave(btoa('{"formatVersion":1}')).error).toMatch(/no game state/);
+	});
+});
@@ -0,0 +1,223 @@
+/**
+ * @fileoverview Unit tests for save file export/import helpers.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+	summarizeSave,
+	summarizeGameSave,
+	diffSaveSummaries,
+	createSaveFileName,
+	isSaveFile,
+	readSaveFile,
+	MAX_SAVE_FILE_SIZE,
+	type SaveSummary
+} from '$lib/engine/core/SaveFile';
+import { SaveManager } from '$lib/engine/core/SaveManager';
+import { EventManager } from '$lib/engine/core/EventManager';
+import {
+	sanitizeSaveData,
+	sanitizeGameSave,
+	CURRENT_SAVE_VERSION,
+	CURRENT_GAME_SAVE_VERSION
+} from '$lib/engine/core/SaveMigration';
+import { MemoryStorageAdapter } from '$lib/engine/core/SaveStorage';
+import { GAME_SAVE_PACKER, decodeStoredSave } from '$lib/engine/core/SaveCodec';
+import { encodeSave } from '$lib/engine/core/SaveEnvelope';
+import { Game } from '$lib/engine/core/Game.svelte';
+import {
+	DEFAULT_CONFIG,
+	type SerializedGameState,
+	type SerializedGameSave
+} from '$lib/engine/models/types';
+import { D } from '$lib/engine/utils/decimal';
+
+function summary(overrides: Partial<SaveSummary> = {}): SaveSummary {
+	return { phase: 3, primordialPixels: D(10), endings: 0, playTime: 600, ...overrides };
+}
+
+describe('SaveFile', () => {
+	describe('summarizeSave', () => {
+		it('should summarize phase, primordial pixels, endings and play time', () => {
+			const state = sanitizeSaveData({
+				run: { currentPhase: 7 },
+				eternal: {
+					totalPlayTime: 5400,
+					eternalResources: { primordial_pixels: '1.5e12' },
+					achievements: ['creation_ending', 'destruction_ending', 'first_click']
+				}
+			} as unknown as Partial<SerializedGameState>);
+
+			const result = summarizeSave(state);
+
+			expect(result.phase).toBe(7);
+			expect(result.primordialPixels.eq(D('1.5e12'))).toBe(true);
+			expect(result.endings).toBe(2);
+			expect(result.playTime).toBe(5400);
+		});
+
+		it('should default missing primordial pixels to zero', () => {
+			expect(summarizeSave(sanitizeSaveData({})).primordialPixels.eq(0)).toBe(true);
+		});
+	});
+
+	describe('summarizeGameSave', () => {
+		it('should summarize phase, primordial pixels, endings and play time', () => {
+			const save = sanitizeGameSave({
+				run: {
+					phases: { currentPhase: 9 },
+					resources: { amounts: { primordial_pixels: '42' } },
+					narrative: { unlockedEndings: ['the_creator'] }
+				},
+				eternal: {
+					totalPlayTime: 900,
+					achievements: { unlocked: ['creation_ending', 'destruction_ending'] }
+				}
+			} as unknown as Partial<SerializedGameSave>);
+
+			const result = summarizeGameSave(save);
+
+			expect(result.phase).toBe(9);
+			expect(result.primordialPixels.eq(42)).toBe(true);
+			expect(result.endings).toBe(2);
+			expect(result.playTime).toBe(900);
+		});
+
+		it('should default missing manager states', () => {
+			const result = summarizeGameSave(sanitizeGameSave({}));
+
+			expect(result.phase).toBe(1);
+			expect(result.primordialPixels.eq(0)).toBe(true);
+			expect(result.endings).toBe(0);
+		});
+	});
+
+	describe('diffSaveSummaries', () => {
+		it('should compare every field', () => {
+			const changes = diffSaveSummaries(
+				summary({ phase: 5, primordialPixels: D(5) }),
+				summary()
+			);
+
+			expect(changes.map((change) => change.field)).toEqual([
+				'phase',
+				'primordialPixels',
+				'endings',
+				'playTime'
+			]);
+			expect(changes.map((change) => change.direction)).toEqual(['higher', 'lower', 'same', 'same']);
+		});
+	});
+
+	describe('files', () => {
+		it('should name files with the export time and extension', () => {
+			const name = createSaveFileName(new Date(2025, 0, 31, 15, 42));
+			expect(name).toBe('pixel-singularity-2025-01-31-1542.pixelsave');
+			expect(isSaveFile({ name })).toBe(true);
+			expect(isSaveFile({ name: 'notes.txt' })).toBe(false);
+		});
+
+		it('should read the trimmed save string from a file', async () => {
+			const file = new Blob(['  abc123==\n']);
+			expect(await readSaveFile(file)).toBe('abc123==');
+		});
+
+		it('should reject oversized files', async () => {
+			const file = { size: MAX_SAVE_FILE_SIZE + 1 } as Blob;
+			await expect(readSaveFile(file)).rejects.toThrow(/too large/);
+		});
+	});
+
+	describe('SaveManager.migrateSaveData', () => {
+		let saveManager: SaveManager;
+
+		beforeEach(() => {
+			saveManager = new SaveManager(
+				new EventManager(),
+				'test_save',
+				'0.1.0',
+				1000,
+				new MemoryStorageAdapter()
+			);
+		});
+
+		it('should fill in defaults and migrate to the current version', () => {
+			const migrated = saveManager.migrateSaveData({
+				run: { currentPhase: 4 }
+			} as Partial<SerializedGameState>);
+
+			expect(migrated.meta.version).toBe(CURRENT_SAVE_VERSION);
+			expect(migrated.run.currentPhase).toBe(4);
+			expect(migrated.eternal.achievements).toEqual([]);
+		});
+
+		it('should repair corrupted fields', () => {
+			const migrated = saveManager.migrateSaveData({
+				run: { currentPhase: 99, runTime: -5 }
+			} as Partial<SerializedGameState>);
+
+			expect(migrated.run.currentPhase).toBe(20);
+			expect(migrated.run.runTime).toBe(0);
+		});
+	});
+
+	describe('Game import', () => {
+		let game: Game;
+		let storage: MemoryStorageAdapter;
+
+		beforeEach(async () => {
+			storage = new MemoryStorageAdapter();
+			game = new Game({ storage, loopMode: 'fixed', snapshotInterval: 0, snapshotLimit: 0 });
+			await game.init();
+			vi.stubGlobal('location', { reload: vi.fn() });
+		});
+
+		afterEach(() => {
+			game.stop();
+			vi.unstubAllGlobals();
+		});
+
+		function exportVersion1Save(): string {
+			const state = {
+				version: '0.1.0',
+				savedAt: Date.now(),
+				run: { runTime: -30, phases: { currentPhase: 3 }, upgrades: { click_power: 1 } },
+				eternal: { totalPlayTime: 450, totalRebirths: 'many', statistics: { totalClicks: 12 } },
+				save: { eternal: { preferences: { notation: 'scientific' } } }
+			};
+			return encodeSave({ state, formatVersion: 1, lastModified: Date.now() });
+		}
+
+		it('should preview the migrated state of the imported save', () => {
+			const preview = game.previewImport(exportVersion1Save());
+
+			expect(preview.success).toBe(true);
+			expect(preview.incoming).toMatchObject({ phase: 3, playTime: 450 });
+			expect(preview.current).toMatchObject({ phase: 1 });
+		});
+
+		it('should activate the sanitized and migrated state', async () => {
+			game.previewImport(exportVersion1Save());
+			expect(await game.confirmImport()).toBe(true);
+
+			const stored = decodeStoredSave(
+				storage.get(DEFAULT_CONFIG.saveKey)!,
+				GAME_SAVE_PACKER
+			) as SerializedGameSave;
+			expect(stored.saveVersion).toBe(CURRENT_GAME_SAVE_VERSION);
+			expect(stored).not.toHaveProperty('save');
+			expect(stored.run.runTime).toBe(0);
+			expect(stored.eternal.totalRebirths).toBe(0);
+			expect(stored.eternal.statistics.totalClicks).toBe(12);
+			expect(stored.eternal.preferences.notation).toBe('scientific');
+		});
+
+		it('should restore preferences from the save on load', () => {
+			game.setPreference('notation', 'engineering');
+			game.getPreferences().notation = 'mixed';
+
+			expect(game.loadGame()).toBe(true);
+			expect(game.getPreferences().notation).toBe('engineering');
+		});
+	});
+});
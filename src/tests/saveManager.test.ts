@@ -5,6 +5,22 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { SaveManager } from '$lib/engine/core/SaveManager';
 import { EventManager } from '$lib/engine/core/EventManager';
+import { Game } from '$lib/engine/core/Game.svelte';
+import { MemoryStorageAdapter } from '$lib/engine/core/SaveStorage';
+import {
+	encodeStoredSave,
+	decodeStoredSave,
+	packDecimal,
+	unpackDecimal,
+	packJson,
+	unpackJson,
+	PLAIN_SAVE_FORMAT,
+	COMPACT_SAVE_FORMAT,
+	GAME_SAVE_PACKER
+} from '$lib/engine/core/SaveCodec';
+import { CURRENT_SAVE_VERSION } from '$lib/engine/core/SaveMigration';
+import { DEFAULT_CONFIG, type SerializedGameState } from '$lib/engine/models/types';
+import { D } from '$lib/engine/utils/decimal';
 
 // Mock localStorage
 const localStorageMock = (() => {
@@ -25,6 +41,65 @@ const localStorageMock = (() => {
 
 Object.defineProperty(global, 'localStorage', { value: localStorageMock });
 
+/**
+ * Serialized state of a phase 7 game after three rebirths.
+ */
+function createMockSaveData(): SerializedGameState {
+	return {
+		run: {
+			resources: {},
+			productionRates: {},
+			purchasedUpgrades: [],
+			upgradeLevels: {},
+			currentPhase: 7,
+			highestPhase: 7,
+			runTime: 1000,
+			triggeredStoryEvents: [],
+			storyChoices: {},
+			unlockedResources: [],
+			unlockedUpgrades: []
+		},
+		eternal: {
+			totalRebirths: 3,
+			totalPlayTime: 5000,
+			eternalResources: {},
+			eternalUpgrades: [],
+			achievements: [],
+			permanentStoryFlags: [],
+			permanentChoices: {},
+			statistics: {
+				totalPixelsGenerated: '0',
+				totalClicks: 0,
+				fastestPhaseTimes: {},
+				fastestRunTime: null,
+				totalUpgradesPurchased: 0,
+				totalStoryEventsTriggered: 0,
+				firstPlayDate: Date.now(),
+				lastPlayDate: Date.now()
+			},
+			highestPhaseEver: 7,
+			discoveredSecrets: [],
+			preferences: {
+				notation: 'mixed',
+				animationSpeed: 1.0,
+				showOfflineProgress: true,
+				offlineProgress: true,
+				autoSaveInterval: 30,
+				pauseOnStory: false,
+				confirmRebirth: true,
+				volume: { master: 0.7, music: 0.5, sfx: 0.6 }
+			}
+		},
+		meta: {
+			version: 1,
+			lastSaved: Date.now(),
+			lastPlayed: Date.now(),
+			gameVersion: '0.1.0',
+			saveId: 'test'
+		}
+	};
+}
+
 describe('SaveManager', () => {
 	let events: EventManager;
 	let saveManager: SaveManager;
@@ -274,58 +349,7 @@ describe('SaveManager', () => {
 		it('should deserialize state correctly', () => {
 			saveManager.init();
 
-			const mockData = {
-				run: {
-					resources: {},
-					productionRates: {},
-					purchasedUpgrades: [],
-					upgradeLevels: {},
-					currentPhase: 7,
-					highestPhase: 7,
-					runTime: 1000,
-					triggeredStoryEvents: [],
-					storyChoices: {},
-					unlockedResources: [],
-					unlockedUpgrades: []
-				},
-				eternal: {
-					totalRebirths: 3,
-					totalPlayTime: 5000,
-					eternalResources: {},
-					eternalUpgrades: [],
-					achievements: [],
-					permanentStoryFlags: [],
-					permanentChoices: {},
-					statistics: {
-						totalPixelsGenerated: '0',
-						totalClicks: 0,
-						fastestPhaseTimes: {},
-						fastestRunTime: null,
-						totalUpgradesPurchased: 0,
-						totalStoryEventsTriggered: 0,
-						firstPlayDate: Date.now(),
-						lastPlayDate: Date.now()
-					},
-					highestPhaseEver: 7,
-					discoveredSecrets: [],
-					preferences: {
-						notation: 'mixed',
-						animationSpeed: 1.0,
-						showOfflineProgress: true,
-						autoSaveInterval: 30,
-						pauseOnStory: false,
-						confirmRebirth: true,
-						volume: { master: 0.7, music: 0.5, sfx: 0.6 }
-					}
-				},
-				meta: {
-					version: 1,
-					lastSaved: Date.now(),
-					lastPlayed: Date.now(),
-					gameVersion: '0.1.0',
-					saveId: 'test'
-				}
-			};
+			const mockData = createMockSaveData();
 
 			saveManager.deserialize(mockData);
 
@@ -399,6 +423,56 @@ describe('SaveManager Import/Export', () => {
 			const result = saveManager.importSave(invalidJson);
 			expect(result).toBe(false);
 		});
+
+		it('should import compressed exports', () => {
+			const exported = saveManager.exportSave({ compress: true })!;
+
+			expect(saveManager.importSave(exported)).toBe(true);
+			expect(saveManager.getState()!.eternal.modifiedSave).toBe(false);
+		});
+
+		it('should import legacy exports without checksum', () => {
+			const exported = saveManager.exportSave()!;
+			const { state, formatVersion, lastModified } = JSON.parse(atob(exported));
+			const legacy = btoa(JSON.stringify({ state, formatVersion, lastModified }));
+
+			expect(saveManager.importSave(legacy)).toBe(true);
+		});
+	});
+
+	describe('Modified saves', () => {
+		function editedExport(): string {
+			const parsed = JSON.parse(atob(saveManager.exportSave()!));
+			parsed.state.eternal.totalRebirths = 99;
+			return btoa(JSON.stringify(parsed));
+		}
+
+		it('should reject saves with a checksum mismatch', () => {
+			const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+			expect(saveManager.importSave(editedExport())).toBe(false);
+			expect(errorSpy).toHaveBeenCalledWith(expect.stringMatching(/checksum mismatch/i));
+			expect(saveManager.getState()!.eternal.totalRebirths).toBe(0);
+			errorSpy.mockRestore();
+		});
+
+		it('should import and flag mismatches when allowed', () => {
+			const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+			expect(saveManager.importSave(editedExport(), { allowModified: true })).toBe(true);
+			expect(saveManager.getState()!.eternal.totalRebirths).toBe(99);
+			expect(saveManager.getState()!.eternal.modifiedSave).toBe(true);
+			warnSpy.mockRestore();
+		});
+
+		it('should keep the modified flag through export and load', () => {
+			vi.spyOn(console, 'warn').mockImplementation(() => {});
+			saveManager.importSave(editedExport(), { allowModified: true });
+
+			expect(saveManager.importSave(saveManager.exportSave()!)).toBe(true);
+			expect(saveManager.load()!.eternal.modifiedSave).toBe(true);
+			vi.mocked(console.warn).mockRestore();
+		});
 	});
 });
 
@@ -474,3 +548,362 @@ describe('SaveManager Hard Reset', () => {
 		});
 	});
 });
+
+describe('SaveManager Save Slots', () => {
+	let events: EventManager;
+	let saveManager: SaveManager;
+	const details = { phase: 7, storyPath: 'peaceful', playTime: 5400 };
+
+	beforeEach(() => {
+		localStorageMock.clear();
+		vi.clearAllMocks();
+		events = new EventManager();
+		saveManager = new SaveManager(events, 'test_save', '0.1.0', 30000);
+		saveManager.init();
+	});
+
+	afterEach(() => {
+		saveManager.stopAutoSave();
+	});
+
+	it('should create a slot with metadata', () => {
+		const slot = saveManager.createSlot('phase 7 peaceful', '{"a":1}', details);
+
+		expect(slot).not.toBeNull();
+		expect(slot!.name).toBe('phase 7 peaceful');
+		expect(slot!.phase).toBe(7);
+		expect(slot!.storyPath).toBe('peaceful');
+		expect(slot!.playTime).toBe(5400);
+		expect(slot!.meta.saveId).toBe(slot!.id);
+		expect(slot!.meta.gameVersion).toBe('0.1.0');
+	});
+
+	it('should list created slots', () => {
+		saveManager.createSlot('first', 'a', details);
+		saveManager.createSlot('second', 'b', { ...details, storyPath: 'consuming' });
+
+		const slots = saveManager.listSlots();
+		expect(slots).toHaveLength(2);
+		expect(slots.map((s) => s.name).sort()).toEqual(['first', 'second']);
+	});
+
+	it('should load slot data', () => {
+		const slot = saveManager.createSlot('slot', 'slot-data', details)!;
+
+		expect(saveManager.loadSlot(slot.id)).toBe('slot-data');
+		expect(saveManager.loadSlot('missing')).toBeNull();
+	});
+
+	it('should update slot data and details', () => {
+		const slot = saveManager.createSlot('slot', 'old', details)!;
+
+		expect(saveManager.updateSlot(slot.id, 'new', { ...details, phase: 8 })).toBe(true);
+		expect(saveManager.loadSlot(slot.id)).toBe('new');
+		expect(saveManager.getSlot(slot.id)!.phase).toBe(8);
+		expect(saveManager.updateSlot('missing', 'x', details)).toBe(false);
+	});
+
+	it('should duplicate a slot', () => {
+		const slot = saveManager.createSlot('original', 'data', details)!;
+		const copy = saveManager.duplicateSlot(slot.id);
+
+		expect(copy).not.toBeNull();
+		expect(copy!.id).not.toBe(slot.id);
+		expect(copy!.name).toBe('original (copy)');
+		expect(copy!.phase).toBe(7);
+		expect(saveManager.loadSlot(copy!.id)).toBe('data');
+		expect(saveManager.listSlots()).toHaveLength(2);
+	});
+
+	it('should delete a slot', () => {
+		const slot = saveManager.createSlot('slot', 'data', details)!;
+
+		expect(saveManager.deleteSlot(slot.id)).toBe(true);
+		expect(saveManager.listSlots()).toHaveLength(0);
+		expect(saveManager.loadSlot(slot.id)).toBeNull();
+		expect(saveManager.deleteSlot(slot.id)).toBe(false);
+	});
+
+	it('should keep slots separate from the main save', () => {
+		saveManager.createSlot('slot', 'data', details);
+		saveManager.deleteSave();
+
+		expect(saveManager.listSlots()).toHaveLength(1);
+	});
+});
+
+describe('SaveManager Save History', () => {
+	let events: EventManager;
+	let saveManager: SaveManager;
+	const details = { phase: 3, storyPath: 'neutral', playTime: 120 };
+
+	beforeEach(() => {
+		localStorageMock.clear();
+		vi.clearAllMocks();
+		events = new EventManager();
+		saveManager = new SaveManager(events, 'test_save', '0.1.0', 30000);
+		saveManager.init();
+	});
+
+	afterEach(() => {
+		saveManager.stopAutoSave();
+		vi.useRealTimers();
+	});
+
+	it('should create and list snapshots newest first', () => {
+		vi.useFakeTimers();
+		vi.setSystemTime(1000);
+		saveManager.createSnapshot('first', 'phase', details);
+		vi.setSystemTime(2000);
+		saveManager.createSnapshot('second', 'interval', details);
+
+		const snapshots = saveManager.listSnapshots();
+		expect(snapshots).toHaveLength(2);
+		expect(snapshots[0].reason).toBe('interval');
+		expect(snapshots[1].reason).toBe('phase');
+		expect(snapshots[0].phase).toBe(3);
+	});
+
+	it('should load snapshot data by id', () => {
+		const snapshot = saveManager.createSnapshot('snapshot-data', 'manual', details)!;
+
+		expect(saveManager.loadSnapshot(snapshot.id)).toBe('snapshot-data');
+		expect(saveManager.loadSnapshot('missing')).toBeNull();
+	});
+
+	it('should drop the oldest snapshots beyond the limit', () => {
+		vi.useFakeTimers();
+		saveManager.setSnapshotLimit(3);
+		const ids: string[] = [];
+		for (let i = 0; i < 5; i++) {
+			vi.setSystemTime(1000 + i);
+			ids.push(saveManager.createSnapshot(`data-${i}`, 'interval', details)!.id);
+		}
+
+		const snapshots = saveManager.listSnapshots();
+		expect(snapshots).toHaveLength(3);
+		expect(snapshots.map((s) => s.id)).toEqual([ids[4], ids[3], ids[2]]);
+		expect(saveManager.loadSnapshot(ids[0])).toBeNull();
+		expect(localStorageMock.removeItem).toHaveBeenCalledWith(`test_save_snapshot_${ids[0]}`);
+	});
+
+	it('should trim existing snapshots when the limit shrinks', () => {
+		saveManager.createSnapshot('a', 'manual', details);
+		saveManager.createSnapshot('b', 'manual', details);
+
+		saveManager.setSnapshotLimit(1);
+
+		expect(saveManager.listSnapshots()).toHaveLength(1);
+		expect(saveManager.getSnapshotLimit()).toBe(1);
+	});
+
+	it('should not take snapshots when history is disabled', () => {
+		saveManager.setSnapshotLimit(0);
+
+		expect(saveManager.createSnapshot('a', 'manual', details)).toBeNull();
+		expect(saveManager.listSnapshots()).toHaveLength(0);
+	});
+
+	it('should clear all snapshots', () => {
+		saveManager.createSnapshot('a', 'manual', details);
+		saveManager.clearSnapshots();
+
+		expect(saveManager.listSnapshots()).toHaveLength(0);
+	});
+});
+
+describe('SaveManager Compact Format', () => {
+	/**
+	 * The mock save grown to a late-game size: many repeated IDs and
+	 * Decimals across all magnitudes.
+	 */
+	function createLateGameSaveData(): SerializedGameState {
+		const data = createMockSaveData();
+		for (let i = 0; i < 200; i++) {
+			data.run.triggeredStoryEvents.push(`story_phase_${i % 20}_event_${i}`);
+			data.eternal.permanentStoryFlags.push(`story_phase_${i % 20}_event_${i}`);
+		}
+		for (let i = 0; i < 40; i++) {
+			data.run.purchasedUpgrades.push(`upgrade_${i}`);
+			data.run.upgradeLevels[`upgrade_${i}`] = i;
+			data.eternal.achievements.push(`achievement_${i}`);
+		}
+		// Decimals as written by serialize(), i.e. Decimal.toString()
+		const decimals = (values: Record<string, string>) =>
+			Object.fromEntries(Object.entries(values).map(([id, value]) => [id, D(value).toString()]));
+		data.run.resources = decimals({ pixels: '123.456', canvas: '1.5e20', void: '1e1000000', debt: '-42' });
+		data.run.productionRates = decimals({ pixels: '0.1', canvas: '3e15' });
+		data.run.storyChoices = { first_choice: 'peaceful', second_choice: 'peaceful' };
+		data.eternal.permanentChoices = { ending: 'consuming' };
+		data.eternal.eternalResources = { primordial_pixels: '1337' };
+		data.eternal.statistics.totalPixelsGenerated = '9.87e123';
+		data.eternal.discoveredSecrets = ['konami', 'forty_two'];
+		data.eternal.modifiedSave = true;
+		return data;
+	}
+
+	it('should round-trip the mock save exactly', () => {
+		const data = createMockSaveData();
+		expect(decodeStoredSave(encodeStoredSave(data))).toEqual(data);
+	});
+
+	it('should round-trip a late-game save', () => {
+		const data = createLateGameSaveData();
+		const decoded = decodeStoredSave(encodeStoredSave(data));
+
+		expect({ ...decoded.run, resources: {} }).toEqual({ ...data.run, resources: {} });
+		expect(decoded.eternal.permanentStoryFlags).toEqual(data.eternal.permanentStoryFlags);
+		expect(decoded.eternal.modifiedSave).toBe(true);
+		expect(decoded.meta).toEqual(data.meta);
+		for (const [id, value] of Object.entries(data.run.resources)) {
+			expect(D(decoded.run.resources[id]).eq_tolerance(D(value), 1e-12)).toBe(true);
+		}
+		expect(decoded.eternal.statistics.totalPixelsGenerated).toBe(
+			D('9.87e123').toString()
+		);
+	});
+
+	it('should store late-game saves in a fraction of the plain size', () => {
+		const data = createLateGameSaveData();
+		const plain = encodeStoredSave(data, PLAIN_SAVE_FORMAT);
+		const compact = encodeStoredSave(data, COMPACT_SAVE_FORMAT);
+
+		expect(compact.length).toBeLessThan(plain.length / 3);
+	});
+
+	it('should pack Decimals by magnitude', () => {
+		expect(packDecimal('123.456')).toBe(123.456);
+		expect(packDecimal('1e20')).toEqual([1, 20]);
+		expect(typeof packDecimal('1e1000000')).not.toBe('string');
+		expect(typeof packDecimal('ee1e10')).toBe('string');
+		expect(unpackDecimal(packDecimal('0'))).toBe('0');
+	});
+
+	it('should round-trip arbitrary JSON through the string dictionary', () => {
+		const value = {
+			name: 'pixels',
+			amounts: { pixels: '1e300', canvas: '12' },
+			list: ['a', 'pixels', 1, true, null, { pixels: false }],
+			empty: {},
+			depth: [[[]]]
+		};
+		const packed = packJson(value);
+
+		expect(packed.d.filter((text) => text === 'pixels')).toHaveLength(1);
+		expect(unpackJson(JSON.parse(JSON.stringify(packed)))).toEqual(value);
+	});
+
+	it('should reject packed JSON with unknown dictionary references', () => {
+		expect(() => unpackJson({ d: ['a'], v: { 0: 'z' } })).toThrow(/dictionary/);
+	});
+
+	describe('SaveManager integration', () => {
+		let saveManager: SaveManager;
+
+		beforeEach(() => {
+			localStorageMock.clear();
+			saveManager = new SaveManager(new EventManager(), 'compact_save', '0.1.0', 30000);
+			saveManager.init();
+		});
+
+		afterEach(() => {
+			saveManager.stopAutoSave();
+		});
+
+		it('should write the compact format at the current save version', () => {
+			saveManager.save({ force: true, skipThrottle: true });
+			const stored = JSON.parse(localStorageMock.getItem('compact_save')!);
+
+			expect(stored.formatVersion).toBe(COMPACT_SAVE_FORMAT);
+			expect(stored).toHaveProperty('packed');
+			expect(saveManager.getState()!.meta.version).toBe(CURRENT_SAVE_VERSION);
+		});
+
+		it('should load saves stored in the plain format', () => {
+			localStorageMock.setItem(
+				'compact_save',
+				encodeStoredSave(createMockSaveData(), PLAIN_SAVE_FORMAT)
+			);
+
+			const state = saveManager.load()!;
+			expect(state.run.currentPhase).toBe(7);
+			expect(state.eternal.totalRebirths).toBe(3);
+			expect(state.meta.version).toBe(CURRENT_SAVE_VERSION);
+		});
+
+		it('should round-trip the mock save through save and load', () => {
+			saveManager.deserialize(createLateGameSaveData());
+			saveManager.save({ force: true, skipThrottle: true });
+
+			const state = saveManager.load()!;
+			expect(state.run.currentPhase).toBe(7);
+			expect(state.run.triggeredStoryEvents.size).toBe(200);
+			expect(state.eternal.achievements.has('achievement_39')).toBe(true);
+			expect(state.run.storyChoices.first_choice).toBe('peaceful');
+		});
+	});
+
+	describe('Game integration', () => {
+		let games: Game[];
+
+		beforeEach(() => {
+			games = [];
+		});
+
+		afterEach(() => {
+			for (const game of games) game.stop();
+		});
+
+		async function startGame(storage: MemoryStorageAdapter): Promise<Game> {
+			const game = new Game({ storage, loopMode: 'fixed', snapshotInterval: 0 });
+			games.push(game);
+			await game.init();
+			return game;
+		}
+
+		function readGameSave(storage: MemoryStorageAdapter): unknown {
+			return decodeStoredSave(storage.get(DEFAULT_CONFIG.saveKey)!, GAME_SAVE_PACKER);
+		}
+
+		it('should store game saves in the compact format', async () => {
+			const storage = new MemoryStorageAdapter();
+			const game = await startGame(storage);
+			game.saveGame();
+
+			const stored = JSON.parse(storage.get(DEFAULT_CONFIG.saveKey)!);
+			expect(stored.formatVersion).toBe(COMPACT_SAVE_FORMAT);
+			expect(stored).toHaveProperty('packed');
+			expect(stored).not.toHaveProperty('state');
+		});
+
+		it('should round-trip a game through save and load', async () => {
+			const now = vi.spyOn(Date, 'now').mockReturnValue(1_700_000_000_000);
+			const storage = new MemoryStorageAdapter();
+			const game = await startGame(storage);
+			for (let i = 0; i < 25; i++) game.click();
+			game.saveGame();
+			const saved = readGameSave(storage);
+			game.stop();
+
+			const loaded = await startGame(storage);
+			expect(loaded.resources.getAmount('pixels').eq(game.resources.getAmount('pixels'))).toBe(true);
+
+			loaded.saveGame();
+			expect(readGameSave(storage)).toEqual(saved);
+			now.mockRestore();
+		});
+
+		it('should load game saves stored in the plain format', async () => {
+			const storage = new MemoryStorageAdapter();
+			const game = await startGame(storage);
+			for (let i = 0; i < 5; i++) game.click();
+			game.saveGame();
+			const state = decodeStoredSave(storage.get(DEFAULT_CONFIG.saveKey)!, GAME_SAVE_PACKER);
+			game.stop();
+
+			storage.set(DEFAULT_CONFIG.saveKey, JSON.stringify({ state, formatVersion: PLAIN_SAVE_FORMAT }));
+			const loaded = await startGame(storage);
+			expect(loaded.resources.getAmount('pixels').eq(game.resources.getAmount('pixels'))).toBe(true);
+		});
+	});
+});
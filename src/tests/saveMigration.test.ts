@@ -2,14 +2,23 @@
  * @fileoverview Unit tests for SaveMigration utilities.
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import {
 	MigrationRegistry,
 	sanitizeSaveData,
+	sanitizeGameSave,
+	createGameSaveMigrationRegistry,
+	CURRENT_GAME_SAVE_VERSION,
 	DEFAULT_RUN_STATE,
 	DEFAULT_ETERNAL_STATE
 } from '$lib/engine/core/SaveMigration';
-import type { SerializedGameState } from '$lib/engine/models/types';
+import { Game } from '$lib/engine/core/Game.svelte';
+import { decodeSave, encodeSave } from '$lib/engine/core/SaveEnvelope';
+import {
+	DEFAULT_CONFIG,
+	type SerializedGameState,
+	type SerializedGameSave
+} from '$lib/engine/models/types';
 
 describe('MigrationRegistry', () => {
 	let registry: MigrationRegistry;
@@ -139,6 +148,120 @@ describe('MigrationRegistry', () => {
 			expect(registry.canMigrate(1)).toBe(false);
 		});
 	});
+
+	describe('Migration Report', () => {
+		const knownIds = {
+			upgrades: new Set(['click_power']),
+			producers: new Set(['pixel_generator']),
+			achievements: new Set(['first_click']),
+			secrets: new Set(['konami'])
+		};
+
+		beforeEach(() => {
+			registry.registerMigration(2, (data) => data, 'Add dream pixels');
+			registry.registerMigration(3, (data) => {
+				data.run.currentPhase += 1;
+				return data;
+			});
+		});
+
+		it('should list every migration step', () => {
+			const report = registry.migrateWithReport(createMockSaveData(1), knownIds);
+
+			expect(report.success).toBe(true);
+			expect(report.fromVersion).toBe(1);
+			expect(report.toVersion).toBe(3);
+			expect(report.steps).toEqual([
+				{ fromVersion: 1, toVersion: 2, description: 'Add dream pixels' },
+				{ fromVersion: 2, toVersion: 3, description: 'Migrate to version 3' }
+			]);
+			expect(report.result!.run.currentPhase).toBe(2);
+		});
+
+		it('should not modify the input', () => {
+			const data = createMockSaveData(1);
+			registry.migrateWithReport(data, knownIds);
+
+			expect(data.meta.version).toBe(1);
+			expect(data.run.currentPhase).toBe(1);
+		});
+
+		it('should report fields added, removed and defaulted by sanitizing', () => {
+			const data = createMockSaveData(3) as unknown as Record<string, any>;
+			delete data.eternal.preferences;
+			data.run.currentPhase = 42;
+			data.run.legacyField = true;
+			data.run.purchasedUpgrades = ['click_power', 'click_power', 7];
+
+			const { changes } = registry.migrateWithReport(data, knownIds);
+
+			expect(changes).toContainEqual(
+				expect.objectContaining({ path: 'eternal.preferences', kind: 'added' })
+			);
+			expect(changes).toContainEqual({ path: 'run.legacyField', kind: 'removed', before: true });
+			expect(changes).toContainEqual({
+				path: 'run.currentPhase',
+				kind: 'defaulted',
+				before: 42,
+				after: 20
+			});
+			expect(changes).toContainEqual({ path: 'run.purchasedUpgrades[1]', kind: 'removed', before: 'click_power' });
+			expect(changes).toContainEqual({ path: 'run.purchasedUpgrades[2]', kind: 'removed', before: 7 });
+		});
+
+		it('should report nothing for a complete save', () => {
+			const data = createMockSaveData(3);
+			data.eternal.modifiedSave = false;
+
+			const report = registry.migrateWithReport(data, knownIds);
+
+			expect(report.steps).toEqual([]);
+			expect(report.changes).toEqual([]);
+			expect(report.warnings).toEqual([]);
+		});
+
+		it('should warn about IDs missing from the data files', () => {
+			const data = createMockSaveData(3);
+			data.run.upgradeLevels = { click_power: 2, removed_upgrade: 1 };
+			data.eternal.achievements = ['first_click', 'old_achievement'];
+			data.eternal.discoveredSecrets = ['konami', 'old_secret'];
+
+			const { warnings } = registry.migrateWithReport(data, knownIds);
+
+			expect(warnings.map((warning) => [warning.type, warning.id])).toEqual([
+				['unknown_upgrade', 'removed_upgrade'],
+				['unknown_achievement', 'old_achievement'],
+				['unknown_secret', 'old_secret']
+			]);
+		});
+
+		it('should fail when a migration is missing', () => {
+			const partial = new MigrationRegistry(3);
+			partial.registerMigration(3, (data) => data);
+
+			const report = partial.migrateWithReport(createMockSaveData(1), knownIds);
+
+			expect(report.success).toBe(false);
+			expect(report.result).toBeNull();
+			expect(report.error).toMatch(/Missing migration/);
+		});
+
+		it('should warn about saves from newer versions', () => {
+			const report = registry.migrateWithReport(createMockSaveData(5), knownIds);
+
+			expect(report.steps).toEqual([]);
+			expect(report.warnings[0].type).toBe('newer_version');
+		});
+
+		it('should check against the data files by default', () => {
+			const data = createMockSaveData(3);
+			data.eternal.achievements = ['first_click'];
+
+			const { warnings } = registry.migrateWithReport(data);
+
+			expect(warnings).toEqual([]);
+		});
+	});
 });
 
 describe('sanitizeSaveData', () => {
@@ -248,6 +371,137 @@ describe('sanitizeSaveData', () => {
 	});
 });
 
+describe('sanitizeGameSave', () => {
+	it('should handle completely empty input', () => {
+		const result = sanitizeGameSave({});
+
+		expect(result.saveVersion).toBe(1);
+		expect(result.run.runTime).toBe(0);
+		expect(result.run.upgrades).toEqual({});
+		expect(result.eternal.highestPhaseEver).toBe(1);
+		expect(result.eternal.statistics).toEqual({ totalClicks: 0, fastestRunTime: null });
+		expect(result.eternal.preferences.notation).toBe('mixed');
+		expect(result.upgradeState).toBeUndefined();
+	});
+
+	it('should repair corrupted fields', () => {
+		const result = sanitizeGameSave({
+			run: { runTime: -5, resources: 'broken', upgrades: { click_power: 2.7, bad: 'x' } },
+			eternal: { totalRebirths: Number.NaN, highestPhaseEver: 99, modifiedSave: 'yes' },
+			upgradeState: { unlocked: ['click_power', 'click_power', 3] }
+		} as unknown as Partial<SerializedGameSave>);
+
+		expect(result.run.runTime).toBe(0);
+		expect(result.run.resources).toBeUndefined();
+		expect(result.run.upgrades).toEqual({ click_power: 2 });
+		expect(result.eternal.totalRebirths).toBe(0);
+		expect(result.eternal.highestPhaseEver).toBe(20);
+		expect(result.eternal.modifiedSave).toBe(false);
+		expect(result.upgradeState!.unlocked).toEqual(['click_power']);
+		expect(result.upgradeState!.runLevels).toEqual({});
+	});
+
+	it('should keep manager states for their managers to validate', () => {
+		const phases = { currentPhase: 4, unlockedPhases: [1, 2, 3, 4] };
+		const result = sanitizeGameSave({ run: { phases } } as unknown as Partial<SerializedGameSave>);
+
+		expect(result.run.phases).toEqual(phases);
+	});
+});
+
+describe('Game save migrations', () => {
+	it('should drop the embedded SaveManager state and keep its preferences', () => {
+		const registry = createGameSaveMigrationRegistry();
+		const data = sanitizeGameSave({
+			run: { runTime: 120 },
+			save: { eternal: { preferences: { notation: 'letters', confirmRebirth: false } } }
+		} as unknown as Partial<SerializedGameSave>);
+
+		const migrated = registry.migrate(data);
+
+		expect(migrated.saveVersion).toBe(CURRENT_GAME_SAVE_VERSION);
+		expect(migrated).not.toHaveProperty('save');
+		expect(migrated.run.runTime).toBe(120);
+		expect(migrated.eternal.preferences.notation).toBe('letters');
+		expect(migrated.eternal.preferences.confirmRebirth).toBe(false);
+	});
+
+	it('should report the migration step for version 1 saves', () => {
+		const report = createGameSaveMigrationRegistry().migrateWithReport({ run: { runTime: 5 } });
+
+		expect(report.success).toBe(true);
+		expect(report.fromVersion).toBe(1);
+		expect(report.toVersion).toBe(CURRENT_GAME_SAVE_VERSION);
+		expect(report.steps).toHaveLength(1);
+	});
+});
+
+describe('Game.createMigrationReport', () => {
+	let game: Game;
+
+	beforeEach(async () => {
+		game = new Game({ storage: 'memory', loopMode: 'fixed', snapshotInterval: 0, snapshotLimit: 0 });
+		await game.init();
+	});
+
+	afterEach(() => {
+		game.stop();
+	});
+
+	/**
+	 * Export the current game after editing its state.
+	 */
+	function exportEdited(edit: (state: SerializedGameSave) => void): string {
+		const { data } = decodeSave<SerializedGameSave>(game.exportSave()!);
+		edit(data!.state);
+		return encodeSave(data!);
+	}
+
+	it('should report nothing for a current save', () => {
+		const report = game.createMigrationReport(game.exportSave()!)!;
+
+		expect(report.success).toBe(true);
+		expect(report.steps).toEqual([]);
+		expect(report.warnings).toEqual([]);
+	});
+
+	it('should warn about a removed upgrade in the upgrade state', () => {
+		const saveString = exportEdited((state) => {
+			state.upgradeState!.runLevels.removed_upgrade = 3;
+			state.upgradeState!.unlocked.push('removed_upgrade');
+		});
+
+		const { warnings } = game.createMigrationReport(saveString)!;
+
+		expect(warnings).toEqual([
+			expect.objectContaining({ type: 'unknown_upgrade', path: 'upgradeState.runLevels', id: 'removed_upgrade' }),
+			expect.objectContaining({ type: 'unknown_upgrade', path: 'upgradeState.unlocked', id: 'removed_upgrade' })
+		]);
+	});
+
+	it('should warn about removed producers', () => {
+		const saveString = exportEdited((state) => {
+			(state.run.producers as { levels: Record<string, number> }).levels.removed_producer = 2;
+		});
+
+		const { warnings } = game.createMigrationReport(saveString)!;
+
+		expect(warnings).toEqual([
+			expect.objectContaining({ type: 'unknown_producer', path: 'run.producers.levels', id: 'removed_producer' })
+		]);
+	});
+
+	it('should report on saves copied from storage', () => {
+		game.saveGame();
+		const stored = game.save.getStorage().get(DEFAULT_CONFIG.saveKey)!;
+
+		const report = game.createMigrationReport(stored)!;
+
+		expect(report.success).toBe(true);
+		expect(report.result!.saveVersion).toBe(CURRENT_GAME_SAVE_VERSION);
+	});
+});
+
 describe('DEFAULT_RUN_STATE', () => {
 	it('should return fresh run state', () => {
 		const state = DEFAULT_RUN_STATE();
@@ -335,6 +589,7 @@ function createMockSaveData(version: number): SerializedGameState {
 				notation: 'mixed',
 				animationSpeed: 1.0,
 				showOfflineProgress: true,
+				offlineProgress: true,
 				autoSaveInterval: 30,
 				pauseOnStory: false,
 				confirmRebirth: true,
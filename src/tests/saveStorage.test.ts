@@ -0,0 +1,320 @@
+/**
+ * @fileoverview Unit tests for SaveStorage backends.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+	MemoryStorageAdapter,
+	LocalStorageAdapter,
+	IndexedDBStorageAdapter,
+	CachedSaveStorage,
+	createSaveStorage,
+	toSyncStorage
+} from '$lib/engine/core/SaveStorage';
+import { SaveManager } from '$lib/engine/core/SaveManager';
+import { EventManager } from '$lib/engine/core/EventManager';
+import { Game } from '$lib/engine/core/Game.svelte';
+import { DEFAULT_CONFIG, type SaveStorage } from '$lib/engine/models/types';
+
+/** Storage key of the game save */
+const GAME_SAVE_KEY = DEFAULT_CONFIG.saveKey;
+
+/**
+ * Minimal async backend for testing the cache layer.
+ */
+function createAsyncBackend(initial: Record<string, string> = {}) {
+	const store = new Map(Object.entries(initial));
+	const backend: SaveStorage = {
+		isAsync: true,
+		get: vi.fn(async (key: string) => store.get(key) ?? null),
+		set: vi.fn(async (key: string, value: string) => {
+			store.set(key, value);
+		}),
+		remove: vi.fn(async (key: string) => {
+			store.delete(key);
+		}),
+		list: vi.fn(async (prefix: string = '') =>
+			Array.from(store.keys()).filter((key) => key.startsWith(prefix))
+		)
+	};
+	return { backend, store };
+}
+
+/**
+ * Start a fixed-step game on a storage backend.
+ */
+async function startGame(storage: SaveStorage, snapshotLimit = 0): Promise<Game> {
+	const game = new Game({ storage, loopMode: 'fixed', snapshotInterval: 0, snapshotLimit });
+	await game.init();
+	return game;
+}
+
+/**
+ * Replace the page reload with a spy that records whether the game save
+ * had reached the backend when the page would reload.
+ */
+function stubReload(store: Map<string, string>) {
+	const savesAtReload: (string | undefined)[] = [];
+	const reload = vi.fn(() => {
+		savesAtReload.push(store.get(GAME_SAVE_KEY));
+	});
+	vi.stubGlobal('location', { reload });
+	return { reload, savesAtReload };
+}
+
+describe('SaveStorage', () => {
+	describe('MemoryStorageAdapter', () => {
+		it('should get, set and remove values', () => {
+			const storage = new MemoryStorageAdapter();
+
+			expect(storage.get('a')).toBeNull();
+			storage.set('a', '1');
+			expect(storage.get('a')).toBe('1');
+			storage.remove('a');
+			expect(storage.get('a')).toBeNull();
+		});
+
+		it('should list keys by prefix', () => {
+			const storage = new MemoryStorageAdapter();
+			storage.set('save_1', 'x');
+			storage.set('save_2', 'y');
+			storage.set('other', 'z');
+
+			expect(storage.list('save_').sort()).toEqual(['save_1', 'save_2']);
+			expect(storage.list()).toHaveLength(3);
+		});
+	});
+
+	describe('createSaveStorage', () => {
+		it('should create built-in backends by type', () => {
+			expect(createSaveStorage('memory')).toBeInstanceOf(MemoryStorageAdapter);
+			expect(createSaveStorage('localStorage')).toBeInstanceOf(LocalStorageAdapter);
+			expect(createSaveStorage('indexedDB')).toBeInstanceOf(IndexedDBStorageAdapter);
+		});
+
+		it('should pass custom adapters through', () => {
+			const custom = new MemoryStorageAdapter();
+			expect(createSaveStorage(custom)).toBe(custom);
+		});
+	});
+
+	describe('toSyncStorage', () => {
+		it('should return sync backends unchanged', () => {
+			const storage = new MemoryStorageAdapter();
+			expect(toSyncStorage(storage)).toBe(storage);
+		});
+
+		it('should wrap async backends in a cache', () => {
+			const { backend } = createAsyncBackend();
+			expect(toSyncStorage(backend)).toBeInstanceOf(CachedSaveStorage);
+		});
+	});
+
+	describe('CachedSaveStorage', () => {
+		it('should hydrate from the backend', async () => {
+			const { backend } = createAsyncBackend({ save: 'data', save_backup: 'old' });
+			const cache = new CachedSaveStorage(backend);
+
+			expect(cache.get('save')).toBeNull();
+			await cache.hydrate();
+
+			expect(cache.isHydrated()).toBe(true);
+			expect(cache.get('save')).toBe('data');
+			expect(cache.list('save').sort()).toEqual(['save', 'save_backup']);
+		});
+
+		it('should write through to the backend in order', async () => {
+			const { backend, store } = createAsyncBackend();
+			const cache = new CachedSaveStorage(backend);
+			await cache.hydrate();
+
+			cache.set('key', 'first');
+			cache.set('key', 'second');
+			expect(cache.get('key')).toBe('second');
+
+			await cache.flush();
+			expect(store.get('key')).toBe('second');
+
+			cache.remove('key');
+			await cache.flush();
+			expect(store.has('key')).toBe(false);
+		});
+
+		it('should keep going after a failed backend write', async () => {
+			const { backend, store } = createAsyncBackend();
+			vi.mocked(backend.set).mockRejectedValueOnce(new Error('quota'));
+			const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+			const cache = new CachedSaveStorage(backend);
+
+			cache.set('a', '1');
+			cache.set('b', '2');
+			await cache.flush();
+
+			expect(errorSpy).toHaveBeenCalled();
+			expect(store.get('b')).toBe('2');
+			errorSpy.mockRestore();
+		});
+	});
+
+	describe('SaveManager integration', () => {
+		let saveManager: SaveManager;
+
+		afterEach(() => {
+			saveManager.stopAutoSave();
+		});
+
+		it('should save and load through a memory backend', () => {
+			const storage = new MemoryStorageAdapter();
+			saveManager = new SaveManager(new EventManager(), 'mem_save', '0.1.0', 0, storage);
+			saveManager.init();
+			saveManager.save({ force: true, skipThrottle: true });
+
+			expect(storage.get('mem_save')).not.toBeNull();
+			expect(saveManager.hasSave()).toBe(true);
+			expect(saveManager.load()).not.toBeNull();
+		});
+
+		it('should read an async backend after ready()', async () => {
+			const source = new MemoryStorageAdapter();
+			const writer = new SaveManager(new EventManager(), 'async_save', '0.1.0', 0, source);
+			writer.init();
+			writer.save({ force: true, skipThrottle: true });
+			writer.stopAutoSave();
+
+			const { backend } = createAsyncBackend({ async_save: source.get('async_save')! });
+			saveManager = new SaveManager(new EventManager(), 'async_save', '0.1.0', 0, backend);
+			saveManager.init();
+
+			expect(saveManager.hasSave()).toBe(false);
+			await saveManager.ready();
+			expect(saveManager.hasSave()).toBe(true);
+			expect(saveManager.load()).not.toBeNull();
+		});
+
+		it('should persist writes to an async backend after flush()', async () => {
+			const { backend, store } = createAsyncBackend();
+			saveManager = new SaveManager(new EventManager(), 'async_save', '0.1.0', 0, backend);
+			saveManager.init();
+			await saveManager.ready();
+
+			saveManager.save({ force: true, skipThrottle: true });
+			await saveManager.flush();
+
+			expect(store.has('async_save')).toBe(true);
+		});
+	});
+
+	describe('Game integration', () => {
+		let game: Game;
+
+		afterEach(() => {
+			game.stop();
+			vi.unstubAllGlobals();
+		});
+
+		it('should delete the save from an async backend before reloading on hard reset', async () => {
+			const { backend, store } = createAsyncBackend();
+			game = await startGame(backend);
+			game.saveGame();
+			await game.save.flush();
+			expect(store.has(GAME_SAVE_KEY)).toBe(true);
+
+			const { reload, savesAtReload } = stubReload(store);
+			await game.hardReset();
+
+			expect(reload).toHaveBeenCalledTimes(1);
+			expect(savesAtReload).toEqual([undefined]);
+		});
+
+		it('should save to an async backend when the page is hidden', async () => {
+			const { backend, store } = createAsyncBackend();
+			game = await startGame(backend);
+
+			window.dispatchEvent(new Event('pagehide'));
+			await game.save.flush();
+
+			expect(store.has(GAME_SAVE_KEY)).toBe(true);
+		});
+
+		it('should write an activated save slot to an async backend before reloading', async () => {
+			const { backend, store } = createAsyncBackend();
+			game = await startGame(backend);
+			const slot = game.createSaveSlot('Before clicking');
+			expect(slot).not.toBeNull();
+			const slotData = game.save.loadSlot(slot!.id);
+
+			game.click();
+			game.saveGame();
+			await game.save.flush();
+			expect(store.get(GAME_SAVE_KEY)).not.toBe(slotData);
+
+			const { reload, savesAtReload } = stubReload(store);
+			expect(await game.loadSaveSlot(slot!.id)).toBe(true);
+
+			expect(reload).toHaveBeenCalledTimes(1);
+			expect(savesAtReload).toEqual([slotData]);
+		});
+
+		it('should write a restored snapshot to an async backend before reloading', async () => {
+			const { backend, store } = createAsyncBackend();
+			game = await startGame(backend, 5);
+			const snapshot = game.takeSnapshot('manual');
+			expect(snapshot).not.toBeNull();
+			const snapshotData = game.save.loadSnapshot(snapshot!.id);
+
+			game.click();
+			game.saveGame();
+			await game.save.flush();
+			expect(store.get(GAME_SAVE_KEY)).not.toBe(snapshotData);
+
+			const { reload, savesAtReload } = stubReload(store);
+			expect(await game.restoreSnapshot(snapshot!.id)).toBe(true);
+
+			expect(reload).toHaveBeenCalledTimes(1);
+			expect(savesAtReload).toEqual([snapshotData]);
+		});
+
+		it('should store the game save under the configured save key', async () => {
+			const { backend, store } = createAsyncBackend();
+			game = new Game({ storage: backend, saveKey: 'custom_save', loopMode: 'fixed', snapshotInterval: 0 });
+			await game.init();
+			game.saveGame();
+			game.createSaveSlot('Slot');
+			await game.save.flush();
+
+			expect(store.has('custom_save')).toBe(true);
+			expect(store.has(GAME_SAVE_KEY)).toBe(false);
+			expect(Array.from(store.keys()).every((key) => key.startsWith('custom_save'))).toBe(true);
+			expect(game.save.hasSave()).toBe(true);
+
+			game.save.deleteSave();
+			expect(game.hasSave()).toBe(false);
+		});
+
+		it('should move a save from the legacy key once', async () => {
+			const { backend: oldBackend, store: oldStore } = createAsyncBackend();
+			game = await startGame(oldBackend);
+			game.click();
+			game.saveGame();
+			await game.save.flush();
+			const pixels = game.resources.getAmount('pixels');
+			const saveData = oldStore.get(GAME_SAVE_KEY)!;
+			game.stop();
+
+			const { backend, store } = createAsyncBackend({
+				pixelsingularity_save: saveData,
+				pixelsingularity_save_backup: saveData
+			});
+			game = await startGame(backend);
+			await game.save.flush();
+
+			expect(game.hasSave()).toBe(true);
+			expect(pixels.gt(0)).toBe(true);
+			expect(game.resources.getAmount('pixels').eq(pixels)).toBe(true);
+			expect(store.has(GAME_SAVE_KEY)).toBe(true);
+			expect(store.has(`${GAME_SAVE_KEY}_backup`)).toBe(true);
+			expect(store.has('pixelsingularity_save')).toBe(false);
+			expect(store.has('pixelsingularity_save_backup')).toBe(false);
+		});
+	});
+});
@@ -305,6 +305,63 @@ describe('UpgradeManager', () => {
 		});
 	});
 
+	describe('multi-resource costs', () => {
+		it('should include extra cost components', () => {
+			upgrades.registerUpgrade(
+				createRepeatableUpgrade({
+					baseCost: 100,
+					costMultiplier: 2,
+					extraCosts: { memory_fragments: { baseCost: 10, costMultiplier: 3 } }
+				})
+			);
+
+			const costs = upgrades.calculateCosts('repeatable_upgrade', 2);
+
+			expect(costs.get('pixels')?.eq(300)).toBe(true);
+			expect(costs.get('memory_fragments')?.eq(40)).toBe(true);
+		});
+
+		it('should not scale extra components of one-time upgrades', () => {
+			upgrades.registerUpgrade(
+				createTestUpgrade({ extraCosts: { memory_fragments: { baseCost: 10, costMultiplier: 3 } } })
+			);
+
+			expect(upgrades.calculateCosts('test_upgrade').get('memory_fragments')?.eq(10)).toBe(true);
+		});
+
+		it('should require and spend every component', () => {
+			upgrades.registerUpgrade(
+				createTestUpgrade({ extraCosts: { memory_fragments: { baseCost: 10 } } })
+			);
+			resources.add('pixels', D(100));
+
+			expect(upgrades.canAfford('test_upgrade')).toBe(false);
+			expect(upgrades.purchase('test_upgrade').success).toBe(false);
+
+			resources.add('memory_fragments', D(15));
+			const result = upgrades.purchase('test_upgrade');
+
+			expect(result.success).toBe(true);
+			expect(result.costsPaid?.get('memory_fragments')?.eq(10)).toBe(true);
+			expect(resources.getAmount('pixels').eq(0)).toBe(true);
+			expect(resources.getAmount('memory_fragments').eq(5)).toBe(true);
+		});
+
+		it('should limit the max affordable amount by the scarcest resource', () => {
+			upgrades.registerUpgrade(
+				createRepeatableUpgrade({
+					baseCost: 1,
+					costMultiplier: 1,
+					extraCosts: { memory_fragments: { baseCost: 10, costMultiplier: 1 } }
+				})
+			);
+			resources.add('pixels', D(1000));
+			resources.add('memory_fragments', D(35));
+
+			expect(upgrades.getMaxAffordable('repeatable_upgrade')).toBe(3);
+		});
+	});
+
 	describe('purchaseMax', () => {
 		it('should buy maximum affordable amount', () => {
 			const repeatableUpgrade = createRepeatableUpgrade({ baseCost: 100, costMultiplier: 2 });
@@ -11,12 +11,18 @@ import {
 	isValidDialogueDefinition,
 	isValidCondition,
 	isValidEndingDefinition,
+	validateCondition,
+	validateSecretConditions,
+	validateEndingConditions,
 	checkUniqueIds,
 	validateStoryReferences,
+	validateCostReferences,
+	isValidCostMap,
 	validateAllData,
 	validateGameData,
 	type ValidationResult,
-	type ValidationError
+	type ValidationError,
+	type ValidationWarning
 } from '../lib/engine/data/validators';
 import type { Dialogue, LogDefinition, StoryEvent } from '../lib/engine/models/narrative';
 
@@ -146,6 +152,59 @@ describe('Type Guards', () => {
 			};
 			expect(isValidCondition(condition)).toBe(false);
 		});
+
+		it('should validate flag, stat, time of day, ending and secret conditions', () => {
+			expect(isValidCondition({ type: 'flag', flag: 'konami_code_entered' })).toBe(true);
+			expect(isValidCondition({ type: 'stat', stat: 'totalClicks', operator: 'gte', value: 10 })).toBe(true);
+			expect(isValidCondition({ type: 'time_of_day', operator: 'lt', hour: 5 })).toBe(true);
+			expect(isValidCondition({ type: 'ending', endingId: 'harmony' })).toBe(true);
+			expect(isValidCondition({ type: 'secret', secretId: 'konami_code' })).toBe(true);
+		});
+
+		it('should reject invalid operators and hours', () => {
+			expect(isValidCondition({ type: 'stat', stat: 'totalClicks', operator: '>=', value: 10 })).toBe(false);
+			expect(isValidCondition({ type: 'time_of_day', operator: 'eq', hour: 24 })).toBe(false);
+		});
+	});
+
+	describe('validateCondition', () => {
+		it('should report unknown references with the condition path', () => {
+			const errors: ValidationError[] = [];
+			validateCondition(
+				{
+					type: 'and',
+					conditions: [
+						{ type: 'resource', resourceId: 'unknown_resource', amount: 1 },
+						{ type: 'secret', secretId: 'unknown_secret' }
+					]
+				},
+				'test.condition',
+				errors,
+				[]
+			);
+
+			expect(errors.map((error) => error.path)).toEqual([
+				'test.condition.conditions[0].resourceId',
+				'test.condition.conditions[1].secretId'
+			]);
+		});
+
+		it('should warn about stats that are not built in', () => {
+			const warnings: ValidationWarning[] = [];
+			validateCondition(
+				{ type: 'stat', stat: 'glitches_found', operator: 'gte', value: 3 },
+				'test.condition',
+				[],
+				warnings
+			);
+
+			expect(warnings).toHaveLength(1);
+		});
+
+		it('should accept every secret and ending condition', () => {
+			expect(validateSecretConditions().errors).toEqual([]);
+			expect(validateEndingConditions().errors).toEqual([]);
+		});
 	});
 
 	describe('isValidDialogueDefinition', () => {
@@ -347,6 +406,33 @@ describe('validateStoryReferences', () => {
 	});
 });
 
+// ============================================================================
+// Cost Validation Tests
+// ============================================================================
+
+describe('isValidCostMap', () => {
+	it('should accept cost components by resource ID', () => {
+		expect(isValidCostMap({ pixels: { baseCost: 100 } })).toBe(true);
+		expect(isValidCostMap({ dream_pixels: { baseCost: '1e15', costMultiplier: 1.2 } })).toBe(true);
+	});
+
+	it('should reject invalid components', () => {
+		expect(isValidCostMap([])).toBe(false);
+		expect(isValidCostMap({ pixels: 100 })).toBe(false);
+		expect(isValidCostMap({ pixels: { baseCost: -1 } })).toBe(false);
+		expect(isValidCostMap({ pixels: { baseCost: 1, costMultiplier: 0 } })).toBe(false);
+	});
+});
+
+describe('validateCostReferences', () => {
+	it('should find no errors in the cost data', () => {
+		const result = validateCostReferences();
+
+		expect(result.errors).toEqual([]);
+		expect(result.valid).toBe(true);
+	});
+});
+
 // ============================================================================
 // Comprehensive Validation Tests
 // ============================================================================